@@ -0,0 +1,157 @@
+/**
+ * BM25 benchmark — runs keyword search the way the app does (`search` in
+ * "bm25" mode: query tokenization, postings lookup in SQLite, scoring and
+ * loading the winning chunks) on a large synthetic book, against the legacy
+ * per-query token scan bm25Search used before the persisted index.
+ *
+ * SQLite is served in-process by scripts/lib/tauri-host.ts, so absolute times
+ * are not the app's, but both sides see the same data. Exits non-zero if the
+ * two disagree on any query's top 10.
+ *
+ * Run with `pnpm bench:bm25`.
+ */
+import { performance } from "node:perf_hooks";
+import { installTauriHost } from "./lib/tauri-host";
+
+const CHUNK_COUNT = 5000;
+const TOKENS_PER_CHUNK = 300;
+const VOCABULARY_SIZE = 20000;
+const QUERY_COUNT = 20;
+const TERMS_PER_QUERY = 4;
+const TOP_K = 10;
+const BOOK_ID = "benchmark";
+
+await installTauriHost();
+const { initDatabase, insertBook, insertChunks } = await import("@/lib/db/database");
+const { indexBookBM25 } = await import("@/lib/rag/bm25-index");
+const { search } = await import("@/lib/rag/search");
+const { getTokenizer, tokenize } = await import("@/lib/rag/tokenizer");
+
+/** Deterministic PRNG (mulberry32) so runs are comparable */
+function createRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Zipf-like word picker: low ranks are far more frequent, like natural text */
+function createWordPicker(vocabularySize: number, random: () => number): () => string {
+  return () => `w${Math.floor(vocabularySize ** random() - 1)}`;
+}
+
+/**
+ * The scoring loop bm25Search used before the persisted index, given its
+ * cached per-chunk tokens (i.e. the best case of the old 5-minute cache)
+ */
+function legacyScores(docTokens: string[][], terms: string[]): number[] {
+  const k1 = 1.5;
+  const b = 0.75;
+  const docLengths = docTokens.map((t) => t.length);
+  const avgdl = docLengths.reduce((s, l) => s + l, 0) / Math.max(docTokens.length, 1);
+
+  const idfMap = new Map<string, number>();
+  for (const term of terms) {
+    const df = docTokens.filter((tokens) => tokens.includes(term)).length;
+    idfMap.set(term, Math.log((docTokens.length - df + 0.5) / (df + 0.5) + 1));
+  }
+
+  return docTokens.map((tokens, ci) => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = tokens.filter((t) => t === term).length;
+      const idf = idfMap.get(term) || 0;
+      score += idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + b * (docLengths[ci] / avgdl))));
+    }
+    return score;
+  });
+}
+
+/** Ids of the top `k` positive scores; ties broken by id so both sides agree */
+function topIds(entries: Array<[string, number]>, k: number): string {
+  return entries
+    .filter(([, s]) => s > 0)
+    .sort((x, y) => y[1] - x[1] || x[0].localeCompare(y[0]))
+    .slice(0, k)
+    .map(([id]) => id)
+    .join(",");
+}
+
+const random = createRandom(42);
+const pickWord = createWordPicker(VOCABULARY_SIZE, random);
+const chunks = Array.from({ length: CHUNK_COUNT }, (_, i) => ({
+  id: `chunk-${i}`,
+  bookId: BOOK_ID,
+  chapterIndex: Math.floor(i / 50),
+  chapterTitle: `Chapter ${Math.floor(i / 50) + 1}`,
+  content: Array.from({ length: TOKENS_PER_CHUNK }, pickWord).join(" "),
+  tokenCount: TOKENS_PER_CHUNK,
+  startCfi: "",
+  endCfi: "",
+}));
+const queries = Array.from({ length: QUERY_COUNT }, () =>
+  Array.from({ length: TERMS_PER_QUERY }, pickWord),
+);
+
+await initDatabase();
+await insertBook({
+  id: BOOK_ID,
+  filePath: "",
+  format: "epub",
+  meta: { title: "BM25 benchmark", author: "", language: "en" },
+  addedAt: Date.now(),
+  progress: 0,
+  isVectorized: true,
+  vectorizeProgress: 1,
+  tags: [],
+});
+await insertChunks(chunks);
+
+const tokenizer = getTokenizer("en");
+let start = performance.now();
+const stats = await indexBookBM25(BOOK_ID, chunks, tokenizer);
+const indexMs = performance.now() - start;
+
+const docTokens = chunks.map((c) => tokenize(c.content, tokenizer));
+let mismatches = 0;
+let legacyQueryMs = 0;
+let indexedQueryMs = 0;
+
+for (const terms of queries) {
+  start = performance.now();
+  const legacy = legacyScores(docTokens, tokenize(terms.join(" "), tokenizer));
+  legacyQueryMs += performance.now() - start;
+
+  start = performance.now();
+  const results = await search({
+    query: terms.join(" "),
+    bookId: BOOK_ID,
+    mode: "bm25",
+    topK: TOP_K,
+    threshold: 0,
+  });
+  indexedQueryMs += performance.now() - start;
+
+  const legacyTop = topIds(
+    legacy.map((s, i) => [chunks[i].id, s]),
+    TOP_K,
+  );
+  const indexedTop = topIds(
+    results.map((r) => [r.chunk.id, r.score]),
+    TOP_K,
+  );
+  if (legacyTop !== indexedTop) mismatches++;
+}
+
+console.table({
+  chunks: stats.docCount,
+  indexMs: Math.round(indexMs),
+  legacyQueryMs: legacyQueryMs / QUERY_COUNT,
+  bm25SearchMs: indexedQueryMs / QUERY_COUNT,
+  speedup: legacyQueryMs / Math.max(indexedQueryMs, 0.001),
+  mismatches,
+});
+process.exit(mismatches > 0 ? 1 : 0);
@@ -0,0 +1,162 @@
+/**
+ * Backup round trip: rows written through the DAL are exported with
+ * createBackup, opened again with openBackup and restored with restoreBackup
+ * in both modes. SQLite is served by scripts/lib/tauri-host.ts, so the real
+ * DAL and backup service run.
+ *
+ * Covers the tables matched on a natural key instead of a text id
+ * (usage_ledger, translation_memory): their local AUTOINCREMENT ids must
+ * neither be exported nor trip archive validation, and merges must match rows
+ * on the key.
+ *
+ * Run with `pnpm check:backup`.
+ */
+import assert from "node:assert/strict";
+import type { BackupRow, BackupTable } from "@/lib/db/database";
+import type { TranslationMemoryEntry, UsageRecord } from "@/types";
+import { check, runChecks } from "./lib/check";
+import { installTauriHost } from "./lib/tauri-host";
+
+await installTauriHost();
+
+const db = await import("@/lib/db/database");
+const { createBackup, openBackup, restoreBackup } = await import("@/lib/backup/backup-service");
+
+const NOW = Date.now();
+
+function usageRecord(createdAt: number, inputTokens: number): UsageRecord {
+  return {
+    category: "chat",
+    endpoint: "OpenAI",
+    model: "gpt-4o-mini",
+    inputTokens,
+    outputTokens: 20,
+    cost: null,
+    estimated: false,
+    createdAt,
+  };
+}
+
+function memoryEntry(
+  sourceText: string,
+  translation: string,
+  lastUsedAt: number,
+  bookId = "",
+): TranslationMemoryEntry {
+  return {
+    sourceText,
+    sourceLang: "en",
+    targetLang: "zh-CN",
+    provider: "google",
+    bookId,
+    translation,
+    createdAt: NOW - 5000,
+    lastUsedAt,
+  };
+}
+
+/** Export the library as a JSON backup and open it the way the restore dialog does */
+async function exportAndOpen() {
+  const { blob, extension } = await createBackup({
+    includeSettings: false,
+    includeBookFiles: false,
+  });
+  assert.equal(extension, "json");
+  return openBackup(new Uint8Array(await blob.arrayBuffer()));
+}
+
+async function count(table: BackupTable): Promise<number> {
+  return (await db.getBackupRows(table)).length;
+}
+
+await db.initDatabase();
+await db.insertUsageRecord(usageRecord(NOW - 2000, 100));
+await db.insertUsageRecord(usageRecord(NOW - 1000, 200));
+await db.upsertTranslationMemory([
+  memoryEntry("Call me Ishmael.", "叫我以实玛利。", NOW - 3000),
+  memoryEntry("It was a dark night.", "那是一个漆黑的夜晚。", NOW - 3000, "book-1"),
+]);
+
+check("usage_ledger: rows are exported without their local ids and open again", async () => {
+  const { archive } = await exportAndOpen();
+  const rows = archive.tables.usage_ledger ?? [];
+  assert.equal(rows.length, 2);
+  assert.ok(rows.every((r) => !("id" in r)));
+});
+
+check("usage_ledger: merge skips rows already present, replace rebuilds the table", async () => {
+  const opened = await exportAndOpen();
+  const merged = await restoreBackup(opened, { mode: "merge", restoreSettings: false });
+  assert.equal(merged.rows.usage_ledger, 0);
+  assert.equal(await count("usage_ledger"), 2);
+
+  await db.clearUsageLedger();
+  await db.insertUsageRecord(usageRecord(NOW, 300));
+  const restored = await restoreBackup(opened, { mode: "merge", restoreSettings: false });
+  assert.equal(restored.rows.usage_ledger, 2);
+  assert.deepEqual(
+    (await db.getBackupRows("usage_ledger")).map((r) => r.input_tokens).sort(),
+    [100, 200, 300],
+  );
+
+  const replaced = await restoreBackup(opened, { mode: "replace", restoreSettings: false });
+  assert.equal(replaced.rows.usage_ledger, 2);
+  assert.equal(await count("usage_ledger"), 2);
+});
+
+check("translation_memory: rows are exported without their local ids and open again", async () => {
+  const { archive } = await exportAndOpen();
+  const rows = archive.tables.translation_memory ?? [];
+  assert.equal(rows.length, 2);
+  assert.ok(rows.every((r) => !("id" in r)));
+});
+
+check("translation_memory: merge matches entries on their source and keeps the newer", async () => {
+  const opened = await exportAndOpen();
+  const translationOf = async (sourceText: string) =>
+    (await db.getAllTranslationMemory()).find((e) => e.sourceText === sourceText)?.translation;
+
+  // Used again locally since the backup: the local translation stays
+  await db.upsertTranslationMemory([
+    memoryEntry("Call me Ishmael.", "请叫我以实玛利。", NOW - 1000),
+  ]);
+  const merged = await restoreBackup(opened, { mode: "merge", restoreSettings: false });
+  assert.equal(merged.rows.translation_memory, 0);
+  assert.equal(await translationOf("Call me Ishmael."), "请叫我以实玛利。");
+
+  // Replace restores the backed-up copy without duplicating entries
+  await restoreBackup(opened, { mode: "replace", restoreSettings: false });
+  assert.equal(await count("translation_memory"), 2);
+  assert.equal(await translationOf("Call me Ishmael."), "叫我以实玛利。");
+
+  // A newer copy in the backup overwrites the local entry in place
+  const newer = structuredClone(opened);
+  for (const row of newer.archive.tables.translation_memory ?? []) {
+    if (row.source_text !== "Call me Ishmael.") continue;
+    row.translation = "就叫我以实玛利吧。";
+    row.last_used_at = NOW;
+  }
+  const updated = await restoreBackup(newer, { mode: "merge", restoreSettings: false });
+  assert.equal(updated.rows.translation_memory, 1);
+  assert.equal(await count("translation_memory"), 2);
+  assert.equal(await translationOf("Call me Ishmael."), "就叫我以实玛利吧。");
+});
+
+check("natural-key tables: archives from before ids were stripped still open", async () => {
+  const { archive } = await exportAndOpen();
+  const withIds = (rows: BackupRow[] = []) => rows.map((r, i) => ({ ...r, id: i + 1 }));
+  const legacy = {
+    ...archive,
+    tables: {
+      ...archive.tables,
+      usage_ledger: withIds(archive.tables.usage_ledger),
+      translation_memory: withIds(archive.tables.translation_memory),
+    },
+  };
+  const opened = await openBackup(new TextEncoder().encode(JSON.stringify(legacy)));
+  const report = await restoreBackup(opened, { mode: "merge", restoreSettings: false });
+  assert.equal(report.rows.usage_ledger, 0);
+  assert.equal(report.rows.translation_memory, 0);
+});
+
+runChecks("Backup round trip");
@@ -0,0 +1,104 @@
+/**
+ * CFI round trip over scripts/fixtures/cfi-corpus.epub: every chapter is
+ * loaded through DocumentLoader (zip.js + foliate-js EPUB) under jsdom,
+ * extracted with extractTextWithCfi and chunked with each strategy. Every
+ * chunk's start/end CFI is resolved back to a DOM Range with epubcfi.js and
+ * the Range text must equal the chunk text (whitespace-insensitive).
+ *
+ * The corpus covers the cases the old substring matching got wrong: repeated
+ * phrases, inline markup splitting text nodes, <br> line breaks and CJK
+ * chapters with few paragraph breaks.
+ *
+ * Run with `pnpm check:cfi`.
+ */
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { JSDOM } from "jsdom";
+import { check, runChecks } from "./lib/check";
+
+const FIXTURE = new URL("./fixtures/cfi-corpus.epub", import.meta.url);
+
+// foliate-js and the extractor expect browser DOM globals
+const { window } = new JSDOM("");
+Object.assign(globalThis, {
+  DOMParser: window.DOMParser,
+  XMLSerializer: window.XMLSerializer,
+  Node: window.Node,
+  NodeFilter: window.NodeFilter,
+  document: window.document,
+});
+// foliate-js parses metadata with Object.groupBy / Map.groupBy, which Node only ships from v21
+function groupEntries<K, T>(
+  items: Iterable<T>,
+  key: (item: T, index: number) => K,
+): Array<[K, T[]]> {
+  const groups = new Map<K, T[]>();
+  let index = 0;
+  for (const item of items) {
+    const k = key(item, index++);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return [...groups];
+}
+Object.groupBy ??= <K extends PropertyKey, T>(
+  items: Iterable<T>,
+  key: (item: T, index: number) => K,
+) => Object.fromEntries(groupEntries(items, key)) as Partial<Record<K, T[]>>;
+Map.groupBy ??= (items, key) => new Map(groupEntries(items, key));
+
+const CFI = await import("foliate-js/epubcfi.js");
+const { DocumentLoader } = await import("@/lib/reader/document-loader");
+const { extractTextWithCfi } = await import("@/lib/rag/book-extractor");
+const { chunkContent } = await import("@/lib/rag/chunker");
+
+const normalize = (text: string) => text.replace(/\s+/g, "");
+
+/** Resolve a point CFI (with the section indirection) to a DOM position in `doc` */
+function resolvePoint(doc: Document, cfi: string): { node: Node; offset: number } {
+  const parsed = CFI.parse(cfi);
+  const local = Array.isArray(parsed) ? parsed[parsed.length - 1] : parsed;
+  const range = CFI.toRange(doc, [local]);
+  return { node: range.startContainer, offset: range.startOffset };
+}
+
+const file = new File([await readFile(FIXTURE)], "cfi-corpus.epub", {
+  type: "application/epub+zip",
+});
+const { book } = await new DocumentLoader(file).open();
+const sections = book.sections ?? [];
+
+check("fixture: the EPUB opens with all corpus chapters", () => {
+  assert.deepEqual(
+    sections.map((s) => s.id),
+    ["OEBPS/repeated.xhtml", "OEBPS/inline.xhtml", "OEBPS/cjk.xhtml"],
+  );
+});
+
+for (const section of sections) {
+  for (const strategy of ["sentence", "markdown"] as const) {
+    check(`${section.id} (${strategy}): chunk CFIs resolve to the chunk text`, async () => {
+      const doc = await section.createDocument();
+      const { content, segments } = extractTextWithCfi(doc, section.cfi);
+      const chunks = chunkContent(
+        content,
+        "roundtrip",
+        0,
+        section.id,
+        { targetTokens: 40, minTokens: 10, overlapRatio: 0.2, strategy },
+        segments,
+      );
+      assert.ok(chunks.length > 1, `expected several chunks, got ${chunks.length}`);
+
+      chunks.forEach((chunk, index) => {
+        const start = resolvePoint(doc, chunk.startCfi);
+        const end = resolvePoint(doc, chunk.endCfi);
+        const range = doc.createRange();
+        range.setStart(start.node, start.offset);
+        range.setEnd(end.node, end.offset);
+        assert.equal(normalize(range.toString()), normalize(chunk.content), `chunk ${index}`);
+      });
+    });
+  }
+}
+
+runChecks("CFI round trip");
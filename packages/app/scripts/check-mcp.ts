@@ -0,0 +1,250 @@
+/**
+ * Drives McpClient against stub MCP servers:
+ * - stdio: scripts/fixtures/mcp-stub-server.mjs as a child process, relayed
+ *   line by line the way src-tauri/src/mcp.rs does
+ * - http: an in-process Streamable HTTP server answering with JSON and with
+ *   server-sent event streams split across chunks, reached through the HTTP
+ *   plugin served by scripts/lib/tauri-host.ts
+ *
+ * Covers the initialize handshake, paginated tools/list, tools/call, server
+ * pings, the JSON Schema → ToolParameter → Zod conversion and SSE parsing.
+ *
+ * Run with `pnpm check:mcp`.
+ */
+import assert from "node:assert/strict";
+import { type ChildProcessWithoutNullStreams, spawn } from "node:child_process";
+import { type IncomingMessage, type ServerResponse, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+import { buildZodSchema } from "@/lib/ai/agents/reading-agent";
+import { McpClient, type McpTool } from "@/lib/mcp/client";
+import { decodeArguments, jsonSchemaToParameters } from "@/lib/mcp/schema";
+import { HttpTransport, type JsonRpcMessage, type McpTransport } from "@/lib/mcp/transport";
+import { check, runChecks } from "./lib/check";
+import { installTauriHost } from "./lib/tauri-host";
+
+await installTauriHost();
+
+const STUB_SERVER = fileURLToPath(new URL("./fixtures/mcp-stub-server.mjs", import.meta.url));
+
+/** Node counterpart of StdioTransport: one JSON-RPC message per line */
+class ChildProcessTransport implements McpTransport {
+  private child: ChildProcessWithoutNullStreams | null = null;
+
+  constructor(private script: string) {}
+
+  async start(onMessage: (message: JsonRpcMessage) => void, onClose: (reason: string) => void) {
+    const child = spawn(process.execPath, [this.script]);
+    this.child = child;
+    createInterface({ input: child.stdout }).on("line", (line) => {
+      if (line.trim()) onMessage(JSON.parse(line));
+    });
+    child.on("exit", (code) => onClose(`Server exited with code ${code}`));
+  }
+
+  async send(message: JsonRpcMessage) {
+    this.child?.stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  async close() {
+    this.child?.kill();
+    this.child = null;
+  }
+}
+
+async function withStdioClient(fn: (client: McpClient) => Promise<void>) {
+  const client = new McpClient(new ChildProcessTransport(STUB_SERVER));
+  try {
+    await client.connect();
+    await fn(client);
+  } finally {
+    await client.close();
+  }
+}
+
+check("stdio: handshake reports the server info", () =>
+  withStdioClient(async (client) => {
+    assert.deepEqual(client.serverInfo, { name: "stub-server", version: "1.0.0" });
+  }),
+);
+
+check("stdio: tools/list follows nextCursor across pages", () =>
+  withStdioClient(async (client) => {
+    const tools = await client.listTools();
+    assert.deepEqual(
+      tools.map((t) => t.name),
+      ["echo", "tag_items", "fail"],
+    );
+  }),
+);
+
+check("stdio: tools/call returns content, structured results and tool errors", () =>
+  withStdioClient(async (client) => {
+    const echo = await client.callTool("echo", { message: "hi", times: 2 });
+    assert.deepEqual(echo.content, [{ type: "text", text: "hi hi" }]);
+
+    const tagged = await client.callTool("tag_items", { items: ["a"] });
+    // The server's ping during the handshake was answered
+    assert.deepEqual(tagged.structuredContent, { received: { items: ["a"] }, pingAnswered: true });
+
+    const failed = await client.callTool("fail", {});
+    assert.equal(failed.isError, true);
+
+    await assert.rejects(client.callTool("missing", {}), /Unknown tool: missing/);
+  }),
+);
+
+check("stdio: pending requests are rejected when the server exits", async () => {
+  const transport = new ChildProcessTransport(STUB_SERVER);
+  const client = new McpClient(transport);
+  await client.connect();
+  let closeReason = "";
+  client.onClose = (reason) => {
+    closeReason = reason;
+  };
+  await transport.close();
+  await assert.rejects(client.listTools(), /Server exited|Connection closed/);
+  assert.match(closeReason, /Server exited/);
+});
+
+check("schema: tools/list input schemas become Zod schemas and decode back", () =>
+  withStdioClient(async (client) => {
+    const tools = await client.listTools();
+    const byName = (name: string) => tools.find((t) => t.name === name) as McpTool;
+
+    const echo = jsonSchemaToParameters(byName("echo").inputSchema);
+    assert.equal(echo.parameters.message.type, "string");
+    assert.equal(echo.parameters.message.required, true);
+    assert.equal(echo.parameters.times.type, "number");
+    assert.match(echo.parameters.times.description, /Integer.*Default: 1/);
+
+    const echoSchema = buildZodSchema(echo.parameters);
+    assert.deepEqual(echoSchema.parse({ message: "x" }), { message: "x" });
+    assert.equal(echoSchema.safeParse({ times: 2 }).success, false);
+    assert.equal(echoSchema.safeParse({ message: "x", times: "2" }).success, false);
+
+    const tag = jsonSchemaToParameters(byName("tag_items").inputSchema);
+    assert.deepEqual([...tag.jsonEncoded].sort(), ["items", "options"]);
+    assert.equal(tag.parameters.mode.type, "string");
+    assert.match(tag.parameters.mode.description, /One of: "fast", "slow"/);
+    assert.equal(tag.parameters.dryRun.type, "boolean");
+
+    const tagSchema = buildZodSchema(tag.parameters);
+    const args = tagSchema.parse({ items: '["a","b"]', options: '{"upper":true}', mode: "fast" });
+    const decoded = decodeArguments(args, tag.jsonEncoded);
+    assert.deepEqual(decoded, { items: ["a", "b"], options: { upper: true }, mode: "fast" });
+
+    const result = await client.callTool("tag_items", decoded);
+    assert.deepEqual((result.structuredContent as { received: unknown }).received, decoded);
+  }),
+);
+
+// --- Streamable HTTP ---
+
+interface HttpStub {
+  url: string;
+  requests: Array<{ method: string; sessionId?: string; body?: JsonRpcMessage }>;
+  close: () => Promise<void>;
+}
+
+const SESSION_ID = "stub-session";
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+/** Write an SSE stream in awkward pieces: CRLF endings, a comment, events split mid-line */
+async function writeEventStream(res: ServerResponse, messages: JsonRpcMessage[]) {
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Mcp-Session-Id": SESSION_ID });
+  const stream = [
+    ": keep-alive\r\n\r\n",
+    ...messages.map((m) => `event: message\r\ndata: ${JSON.stringify(m)}\r\n\r\n`),
+  ].join("");
+  const pieces = [stream.slice(0, 7), stream.slice(7, 40), stream.slice(40)];
+  for (const piece of pieces) {
+    res.write(piece);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  res.end();
+}
+
+async function startHttpStub(): Promise<HttpStub> {
+  const requests: HttpStub["requests"] = [];
+  const server = createServer(async (req, res) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (req.method === "DELETE") {
+      requests.push({ method: "DELETE", sessionId });
+      res.writeHead(200).end();
+      return;
+    }
+
+    const body = JSON.parse(await readBody(req)) as JsonRpcMessage;
+    requests.push({ method: "POST", sessionId, body });
+
+    if (body.method === "initialize") {
+      res.writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": SESSION_ID });
+      res.end(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id: body.id,
+          result: { protocolVersion: "2025-03-26", serverInfo: { name: "http-stub" } },
+        }),
+      );
+    } else if (body.method === "tools/list") {
+      await writeEventStream(res, [
+        { jsonrpc: "2.0", method: "notifications/message", params: { level: "info" } },
+        { jsonrpc: "2.0", id: body.id, result: { tools: [{ name: "echo", inputSchema: {} }] } },
+      ]);
+    } else if (body.method === "tools/call") {
+      const text = String((body.params?.arguments as { message: string }).message);
+      await writeEventStream(res, [
+        { jsonrpc: "2.0", id: "server-ping", method: "ping" },
+        { jsonrpc: "2.0", id: body.id, result: { content: [{ type: "text", text }] } },
+      ]);
+    } else {
+      // Notifications and the reply to our ping
+      res.writeHead(202).end();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+check("http: handshake, SSE replies and session handling", async () => {
+  const stub = await startHttpStub();
+  const client = new McpClient(new HttpTransport(stub.url, { "X-Test": "1" }));
+  try {
+    await client.connect();
+    assert.deepEqual(client.serverInfo, { name: "http-stub" });
+
+    const tools = await client.listTools();
+    assert.deepEqual(
+      tools.map((t) => t.name),
+      ["echo"],
+    );
+
+    const result = await client.callTool("echo", { message: "over sse" });
+    assert.deepEqual(result.content, [{ type: "text", text: "over sse" }]);
+  } finally {
+    await client.close();
+    await stub.close();
+  }
+
+  // Every request after initialize carries the session; the ping was answered
+  const [initialize, ...rest] = stub.requests;
+  assert.equal(initialize.sessionId, undefined);
+  assert.ok(rest.every((r) => r.sessionId === SESSION_ID));
+  assert.ok(rest.some((r) => r.body?.id === "server-ping" && r.body.result !== undefined));
+  assert.equal(rest[rest.length - 1].method, "DELETE");
+});
+
+runChecks("MCP client");
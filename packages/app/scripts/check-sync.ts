@@ -0,0 +1,322 @@
+/**
+ * Drives the sync manager against an in-process WebDAV stand-in (node:http,
+ * just the verbs WebDAVClient uses: PROPFIND, MKCOL, GET with ETags and PUT
+ * with If-Match / If-None-Match preconditions). SQLite and the HTTP plugin are
+ * served by scripts/lib/tauri-host.ts, so the real DAL and client run.
+ *
+ * Covers pushing a first snapshot, pulling newer remote rows, retrying a push
+ * that lost to a concurrent writer, and tombstone / last-writer-wins merges.
+ *
+ * Run with `pnpm check:sync`.
+ */
+import assert from "node:assert/strict";
+import { type IncomingMessage, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { SyncRow, SyncTable } from "@/lib/db/database";
+import type { SyncSnapshot } from "@/lib/sync/sync-manager";
+import type { Book, Highlight } from "@/types";
+import { check, runChecks } from "./lib/check";
+import { installTauriHost } from "./lib/tauri-host";
+
+await installTauriHost();
+// The sync manager skips syncing while the webview reports being offline
+Object.defineProperty(globalThis, "navigator", { value: { onLine: true }, configurable: true });
+
+const db = await import("@/lib/db/database");
+const { createSyncManager } = await import("@/lib/sync/sync-manager");
+
+// --- WebDAV stand-in ---
+
+const USERNAME = "reader";
+const PASSWORD = "secret";
+const REMOTE_DIR = "readany/sync";
+const SNAPSHOT_PATH = `/dav/${REMOTE_DIR}/snapshot.json`;
+
+interface DavStub {
+  url: string;
+  requests: Array<{ method: string; path: string; status: number }>;
+  /** Called before a PUT is applied, e.g. to let another device write first */
+  beforePut: ((path: string) => void) | null;
+  readSnapshot: () => SyncSnapshot;
+  /** Write a snapshot as another device would, bumping the ETag */
+  writeSnapshot: (snapshot: SyncSnapshot) => void;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+async function startDavStub(): Promise<DavStub> {
+  const collections = new Set(["/dav"]);
+  const files = new Map<string, { body: string; etag: string }>();
+  let version = 0;
+  const write = (path: string, body: string) => {
+    files.set(path, { body, etag: `"v${++version}"` });
+  };
+
+  const stub: DavStub = {
+    url: "",
+    requests: [],
+    beforePut: null,
+    readSnapshot: () => JSON.parse(files.get(SNAPSHOT_PATH)?.body ?? "null"),
+    writeSnapshot: (snapshot) => write(SNAPSHOT_PATH, JSON.stringify(snapshot)),
+  };
+
+  const server = createServer(async (req, res) => {
+    const path = decodeURI(new URL(req.url ?? "/", "http://stub").pathname).replace(/\/$/, "");
+    const reply = (status: number, headers: Record<string, string> = {}, body?: string) => {
+      stub.requests.push({ method: req.method ?? "", path, status });
+      res.writeHead(status, headers).end(body);
+    };
+
+    const expected = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString("base64")}`;
+    if (req.headers.authorization !== expected) return reply(401);
+
+    const parent = path.slice(0, path.lastIndexOf("/"));
+    switch (req.method) {
+      case "PROPFIND":
+        return reply(collections.has(path) || files.has(path) ? 207 : 404);
+      case "MKCOL":
+        if (collections.has(path)) return reply(405);
+        if (!collections.has(parent)) return reply(409);
+        collections.add(path);
+        return reply(201);
+      case "GET": {
+        const file = files.get(path);
+        if (!file) return reply(404);
+        return reply(200, { "Content-Type": "application/json", ETag: file.etag }, file.body);
+      }
+      case "PUT": {
+        const body = await readBody(req);
+        if (!collections.has(parent)) return reply(409);
+        stub.beforePut?.(path);
+        const current = files.get(path);
+        const ifMatch = req.headers["if-match"];
+        if (ifMatch && ifMatch !== current?.etag) return reply(412);
+        if (req.headers["if-none-match"] === "*" && current) return reply(412);
+        write(path, body);
+        return reply(current ? 204 : 201);
+      }
+      default:
+        return reply(405);
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  stub.url = `http://127.0.0.1:${port}/dav`;
+  return stub;
+}
+
+// --- Fixtures ---
+
+const dav = await startDavStub();
+const manager = createSyncManager({
+  getConfig: () => ({
+    url: dav.url,
+    username: USERNAME,
+    password: PASSWORD,
+    remoteDir: REMOTE_DIR,
+  }),
+  deviceId: "device-a",
+});
+
+const BOOK_ID = "book-1";
+const HOUR = 60 * 60 * 1000;
+
+function makeBook(id: string, title: string): Book {
+  return {
+    id,
+    filePath: `/books/${id}.epub`,
+    format: "epub",
+    meta: { title, author: "Author" },
+    addedAt: Date.now() - HOUR,
+    progress: 0,
+    isVectorized: false,
+    vectorizeProgress: 0,
+    tags: [],
+    updatedAt: Date.now() - HOUR,
+  };
+}
+
+function makeHighlight(id: string, text: string, updatedAt = Date.now()): Highlight {
+  return {
+    id,
+    bookId: BOOK_ID,
+    cfi: "epubcfi(/6/2!/4/2/1:0)",
+    text,
+    color: "yellow",
+    createdAt: updatedAt,
+    updatedAt,
+  };
+}
+
+/** A highlight as another device would push it in a snapshot */
+function highlightRow(id: string, text: string, updatedAt: number, bookId = BOOK_ID): SyncRow {
+  return {
+    id,
+    book_id: bookId,
+    cfi: "epubcfi(/6/2!/4/2/1:0)",
+    text,
+    color: "blue",
+    note: null,
+    chapter_title: null,
+    created_at: updatedAt,
+    updated_at: updatedAt,
+  };
+}
+
+const ids = (rows: SyncRow[] = []) => rows.map((r) => r.id).sort();
+
+async function localRows(table: SyncTable): Promise<Map<string, SyncRow>> {
+  return new Map((await db.getSyncRows(table)).map((r) => [r.id, r]));
+}
+
+/** Requests for the snapshot file made during `fn` */
+async function snapshotRequests(fn: () => Promise<void>) {
+  const from = dav.requests.length;
+  await fn();
+  return dav.requests.slice(from).filter((r) => r.path === SNAPSHOT_PATH);
+}
+
+await db.initDatabase();
+await db.insertBook(makeBook(BOOK_ID, "Local title"));
+
+// --- Checks ---
+
+check("push: the first sync creates the remote directory and uploads a snapshot", async () => {
+  await db.insertHighlight(makeHighlight("h-local", "Written on this device"));
+
+  const requests = await snapshotRequests(() => manager.sync());
+  assert.deepEqual(
+    requests.map((r) => `${r.method} ${r.status}`),
+    ["GET 404", "PUT 201"],
+  );
+  assert.deepEqual(
+    dav.requests.filter((r) => r.method === "MKCOL").map((r) => `${r.path} ${r.status}`),
+    ["/dav/readany 201", "/dav/readany/sync 201"],
+  );
+  assert.equal(manager.getState().status, "idle");
+
+  const snapshot = dav.readSnapshot();
+  assert.equal(snapshot.version, 2);
+  assert.equal(snapshot.deviceId, "device-a");
+  assert.deepEqual(ids(snapshot.tables.books), [BOOK_ID]);
+  assert.deepEqual(ids(snapshot.tables.highlights), ["h-local"]);
+  // Machine-local columns stay on the device
+  assert.equal(snapshot.tables.books?.[0].file_path, undefined);
+});
+
+check("pull: newer remote rows are stored, rows of unknown books stay remote", async () => {
+  const remote = dav.readSnapshot();
+  const later = Date.now() + 1000;
+  remote.deviceId = "device-b";
+  remote.tables.books = remote.tables.books?.map((b) => ({
+    ...b,
+    title: "Remote title",
+    updated_at: later,
+  }));
+  remote.tables.highlights?.push(
+    highlightRow("h-remote", "Written on another device", later),
+    highlightRow("h-other-book", "Book not on this device", later, "book-elsewhere"),
+  );
+  dav.writeSnapshot(remote);
+
+  // Nothing local is newer, so the snapshot is not rewritten
+  const requests = await snapshotRequests(() => manager.sync());
+  assert.deepEqual(
+    requests.map((r) => r.method),
+    ["GET"],
+  );
+
+  const books = await localRows("books");
+  assert.equal(books.get(BOOK_ID)?.title, "Remote title");
+  const highlights = await localRows("highlights");
+  assert.equal(highlights.get("h-remote")?.text, "Written on another device");
+  assert.equal(highlights.has("h-other-book"), false);
+  assert.ok(ids(dav.readSnapshot().tables.highlights).includes("h-other-book"));
+});
+
+check("conflict: a push that loses to a concurrent writer is retried and merged", async () => {
+  await db.insertHighlight(makeHighlight("h-mine", "Pushed after a conflict"));
+  dav.beforePut = () => {
+    // Another device pushes between our GET and PUT, once
+    dav.beforePut = null;
+    const theirs = dav.readSnapshot();
+    theirs.deviceId = "device-b";
+    theirs.tables.highlights?.push(highlightRow("h-theirs", "Pushed concurrently", Date.now()));
+    dav.writeSnapshot(theirs);
+  };
+
+  const requests = await snapshotRequests(() => manager.sync());
+  assert.deepEqual(
+    requests.map((r) => `${r.method} ${r.status}`),
+    ["GET 200", "PUT 412", "GET 200", "PUT 204"],
+  );
+
+  const snapshot = dav.readSnapshot();
+  assert.equal(snapshot.deviceId, "device-a");
+  for (const id of ["h-mine", "h-theirs", "h-remote", "h-local"]) {
+    assert.ok(ids(snapshot.tables.highlights).includes(id), `${id} in the snapshot`);
+  }
+  assert.ok((await localRows("highlights")).has("h-theirs"));
+});
+
+check("tombstones: deletions propagate both ways and the latest write wins", async () => {
+  // A local deletion reaches the snapshot as a tombstone
+  await db.deleteHighlight("h-local");
+  await manager.sync();
+  let snapshot = dav.readSnapshot();
+  assert.equal(ids(snapshot.tables.highlights).includes("h-local"), false);
+  assert.ok(snapshot.tombstones?.highlights?.some((t) => t.id === "h-local"));
+
+  // A remote deletion newer than the local row removes it; an older one loses
+  // to a local edit made after it
+  const mineUpdatedAt = (await localRows("highlights")).get("h-mine")?.updated_at ?? 0;
+  await db.updateHighlight("h-theirs", { note: "Edited after the remote deletion" });
+  snapshot = dav.readSnapshot();
+  snapshot.deviceId = "device-b";
+  snapshot.tombstones = {
+    ...snapshot.tombstones,
+    highlights: [
+      ...(snapshot.tombstones?.highlights ?? []),
+      { id: "h-mine", deletedAt: mineUpdatedAt + 1 },
+      { id: "h-theirs", deletedAt: Date.now() - HOUR },
+    ],
+  };
+  snapshot.tables.highlights = snapshot.tables.highlights?.filter((r) => r.id !== "h-mine");
+  dav.writeSnapshot(snapshot);
+
+  await manager.sync();
+  const highlights = await localRows("highlights");
+  assert.equal(highlights.has("h-mine"), false);
+  assert.equal(highlights.get("h-theirs")?.note, "Edited after the remote deletion");
+
+  snapshot = dav.readSnapshot();
+  assert.equal(snapshot.deviceId, "device-a");
+  assert.equal(ids(snapshot.tables.highlights).includes("h-mine"), false);
+  assert.equal(
+    snapshot.tables.highlights?.find((r) => r.id === "h-theirs")?.note,
+    "Edited after the remote deletion",
+  );
+  // The deletion is remembered locally, so it is not resurrected by a later pull
+  assert.ok((await db.getSyncTombstones("highlights")).some((t) => t.id === "h-mine"));
+});
+
+check("errors: rejected credentials surface as a sync error", async () => {
+  const failing = createSyncManager({
+    getConfig: () => ({
+      url: dav.url,
+      username: USERNAME,
+      password: "wrong",
+      remoteDir: REMOTE_DIR,
+    }),
+    deviceId: "device-a",
+  });
+  await assert.rejects(failing.sync(), /WebDAV MKCOL failed \(401\)/);
+  assert.equal(failing.getState().status, "error");
+});
+
+runChecks("WebDAV sync");
@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+/**
+ * Stub MCP server over stdio (newline-delimited JSON-RPC), used by
+ * scripts/check-mcp.ts. Implements the handshake, a paginated tools/list,
+ * tools/call and one server-initiated ping.
+ */
+import { createInterface } from "node:readline";
+
+const TOOLS = [
+  {
+    name: "echo",
+    description: "Echo the message back",
+    inputSchema: {
+      type: "object",
+      properties: {
+        message: { type: "string", description: "Text to echo" },
+        times: { type: "integer", default: 1 },
+      },
+      required: ["message"],
+    },
+  },
+  {
+    name: "tag_items",
+    description: "Tag items",
+    inputSchema: {
+      type: "object",
+      properties: {
+        items: { type: "array", items: { type: "string" } },
+        options: { type: "object", properties: { upper: { type: "boolean" } } },
+        mode: { anyOf: [{ type: "null" }, { type: "string", enum: ["fast", "slow"] }] },
+        dryRun: { type: ["boolean", "null"] },
+      },
+      required: ["items"],
+    },
+  },
+  { name: "fail", description: "Always reports an error", inputSchema: { type: "object" } },
+];
+
+const send = (message) =>
+  process.stdout.write(`${JSON.stringify({ jsonrpc: "2.0", ...message })}\n`);
+
+let pingAnswered = false;
+
+function handleRequest({ id, method, params }) {
+  switch (method) {
+    case "initialize":
+      send({
+        id,
+        result: {
+          protocolVersion: params.protocolVersion,
+          capabilities: { tools: { listChanged: true } },
+          serverInfo: { name: "stub-server", version: "1.0.0" },
+        },
+      });
+      // Ask the client something; it must answer pings
+      send({ id: "server-ping", method: "ping" });
+      return;
+    case "tools/list": {
+      // One tool per page to exercise pagination
+      const index = params?.cursor ? Number(params.cursor) : 0;
+      const nextCursor = index + 1 < TOOLS.length ? String(index + 1) : undefined;
+      send({ id, result: { tools: [TOOLS[index]], ...(nextCursor ? { nextCursor } : {}) } });
+      return;
+    }
+    case "tools/call": {
+      const { name, arguments: args } = params;
+      if (name === "echo") {
+        const text = Array(args.times ?? 1)
+          .fill(args.message)
+          .join(" ");
+        send({ id, result: { content: [{ type: "text", text }] } });
+      } else if (name === "tag_items") {
+        send({ id, result: { structuredContent: { received: args, pingAnswered } } });
+      } else if (name === "fail") {
+        send({ id, result: { isError: true, content: [{ type: "text", text: "stub failure" }] } });
+      } else {
+        send({ id, error: { code: -32602, message: `Unknown tool: ${name}` } });
+      }
+      return;
+    }
+    default:
+      send({ id, error: { code: -32601, message: `Method not found: ${method}` } });
+  }
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  if (!line.trim()) return;
+  const message = JSON.parse(line);
+  if (message.id === "server-ping") {
+    pingAnswered = message.result !== undefined;
+  } else if (message.method && message.id !== undefined) {
+    handleRequest(message);
+  }
+  // Notifications (notifications/initialized) need no reply
+});
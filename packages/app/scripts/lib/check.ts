@@ -0,0 +1,30 @@
+/**
+ * Minimal check runner for the scripts in this directory: each check is an
+ * async function that throws (usually through node:assert) when it fails.
+ * Failures are reported and the process exits non-zero.
+ */
+
+type CheckFn = () => Promise<void> | void;
+
+const checks: Array<{ name: string; fn: CheckFn }> = [];
+
+export function check(name: string, fn: CheckFn): void {
+  checks.push({ name, fn });
+}
+
+export async function runChecks(title: string): Promise<void> {
+  console.log(title);
+  let failed = 0;
+  for (const { name, fn } of checks) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+    } catch (err) {
+      failed++;
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err instanceof Error ? (err.stack ?? err.message) : String(err)}`);
+    }
+  }
+  console.log(`${checks.length - failed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
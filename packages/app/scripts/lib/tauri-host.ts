@@ -0,0 +1,153 @@
+/**
+ * Node stand-in for the Tauri host, so checks and benchmarks can run the real
+ * frontend modules outside the webview: IPC is intercepted with `mockIPC` and
+ * the plugin commands the app's modules rely on are served in-process.
+ *
+ * - plugin:sql — an in-memory SQLite database (sql.js), shared by every
+ *   `Database.load` of the same path
+ * - plugin:http — requests are sent with Node's fetch and the response body
+ *   is handed back chunk by chunk, as it arrives
+ *
+ * Commands without a handler reject, like a plugin that is not registered.
+ */
+import { mockIPC } from "@tauri-apps/api/mocks";
+import initSqlJs, { type Database, type SqlValue } from "sql.js";
+
+type Payload = Record<string, unknown>;
+
+/** Bind values the way tauri-plugin-sql decodes them from JSON */
+function toSqlValue(value: unknown): SqlValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number" || typeof value === "string" || value instanceof Uint8Array) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function createSqlHandler(SQL: Awaited<ReturnType<typeof initSqlJs>>) {
+  const databases = new Map<string, Database>();
+  const open = (path: string) => {
+    const db = databases.get(path);
+    if (!db) throw new Error(`Database ${path} is not loaded`);
+    return db;
+  };
+
+  return (command: string, { db: path, query, values }: Payload): unknown => {
+    switch (command) {
+      case "load":
+        if (!databases.has(path as string)) databases.set(path as string, new SQL.Database());
+        return path;
+      case "execute": {
+        const db = open(path as string);
+        const params = (values as unknown[]).map(toSqlValue);
+        // Schema setup sends several statements at once without parameters
+        if (params.length === 0) db.exec(query as string);
+        else db.run(query as string, params);
+        const lastInsertId = db.exec("SELECT last_insert_rowid()")[0]?.values[0][0] ?? 0;
+        return [db.getRowsModified(), lastInsertId];
+      }
+      case "select": {
+        const statement = open(path as string).prepare(query as string);
+        try {
+          statement.bind((values as unknown[]).map(toSqlValue));
+          const columns = statement.getColumnNames();
+          const rows: Payload[] = [];
+          while (statement.step()) {
+            const row: Payload = {};
+            statement.get().forEach((value, i) => {
+              // BLOBs come back from the plugin as byte arrays
+              row[columns[i]] = value instanceof Uint8Array ? Array.from(value) : value;
+            });
+            rows.push(row);
+          }
+          return rows;
+        } finally {
+          statement.free();
+        }
+      }
+      case "close":
+        databases.get(path as string)?.close();
+        databases.delete(path as string);
+        return true;
+      default:
+        throw new Error(`Unhandled command plugin:sql|${command}`);
+    }
+  };
+}
+
+interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Array<[string, string]>;
+  data: number[] | null;
+}
+
+function createHttpHandler() {
+  const requests = new Map<number, HttpRequest>();
+  const bodies = new Map<number, ReadableStreamDefaultReader<Uint8Array>>();
+  let nextRid = 1;
+
+  return async (command: string, payload: Payload): Promise<unknown> => {
+    const rid = payload.rid as number;
+    switch (command) {
+      case "fetch": {
+        const id = nextRid++;
+        requests.set(id, payload.clientConfig as HttpRequest);
+        return id;
+      }
+      case "fetch_send": {
+        const request = requests.get(rid);
+        requests.delete(rid);
+        if (!request) throw new Error(`Unknown request ${rid}`);
+        const response = await fetch(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: request.data ? new Uint8Array(request.data) : undefined,
+        });
+        const id = nextRid++;
+        if (response.body) bodies.set(id, response.body.getReader());
+        return {
+          status: response.status,
+          statusText: response.statusText,
+          url: response.url,
+          headers: [...response.headers],
+          rid: id,
+        };
+      }
+      case "fetch_read_body": {
+        // The last byte flags the end of the body (1) or a data chunk (0)
+        const chunk = await bodies.get(rid)?.read();
+        if (!chunk || chunk.done) {
+          bodies.delete(rid);
+          return [1];
+        }
+        return [...chunk.value, 0];
+      }
+      case "fetch_cancel":
+        requests.delete(rid);
+        return null;
+      case "fetch_cancel_body":
+        await bodies.get(rid)?.cancel();
+        bodies.delete(rid);
+        return null;
+      default:
+        throw new Error(`Unhandled command plugin:http|${command}`);
+    }
+  };
+}
+
+/** Route Tauri IPC to in-process plugin handlers; call before the app's modules run */
+export async function installTauriHost(): Promise<void> {
+  // mockIPC installs its internals on `window`
+  Object.assign(globalThis, { window: globalThis });
+  const sql = createSqlHandler(await initSqlJs());
+  const http = createHttpHandler();
+
+  mockIPC((cmd, payload) => {
+    const [plugin, command] = cmd.split("|");
+    if (plugin === "plugin:sql") return sql(command, (payload ?? {}) as Payload);
+    if (plugin === "plugin:http") return http(command, (payload ?? {}) as Payload);
+    throw new Error(`Unhandled command ${cmd}`);
+  });
+}
@@ -1,4 +1,5 @@
 mod db;
+mod mcp;
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
@@ -10,6 +11,12 @@ pub fn run() {
         .plugin(tauri_plugin_updater::Builder::new().build())
         .plugin(tauri_plugin_http::init())
         .plugin(tauri_plugin_websocket::init())
+        .manage(mcp::McpState::default())
+        .invoke_handler(tauri::generate_handler![
+            mcp::mcp_spawn,
+            mcp::mcp_send,
+            mcp::mcp_kill
+        ])
         .setup(|app| {
             let app_handle = app.handle().clone();
             if let Err(e) = db::init_database_sync(&app_handle) {
@@ -0,0 +1,120 @@
+//! MCP stdio servers — spawn a server process and relay its newline-delimited
+//! JSON-RPC messages to the webview, where the MCP client lives.
+//!
+//! Events:
+//! - `mcp://message` `{ id, pid, line }` for every line the server writes to stdout
+//! - `mcp://exit` `{ id, pid }` once its stdout closes
+
+use std::collections::HashMap;
+use std::io::{BufRead, BufReader, Write};
+use std::process::{Child, ChildStdin, Command, Stdio};
+use std::sync::Mutex;
+
+use serde_json::json;
+use tauri::{AppHandle, Emitter, State};
+
+struct McpProcess {
+    child: Child,
+    stdin: ChildStdin,
+}
+
+impl Drop for McpProcess {
+    fn drop(&mut self) {
+        let _ = self.child.kill();
+        let _ = self.child.wait();
+    }
+}
+
+/// Running server processes, keyed by server id
+#[derive(Default)]
+pub struct McpState {
+    processes: Mutex<HashMap<String, McpProcess>>,
+}
+
+#[cfg(windows)]
+fn build_command(command: &str, args: &[String]) -> Command {
+    use std::os::windows::process::CommandExt;
+    const CREATE_NO_WINDOW: u32 = 0x0800_0000;
+
+    // Through cmd so that npx.cmd, uvx.exe etc. resolve from PATH
+    let mut cmd = Command::new("cmd");
+    cmd.arg("/C").arg(command).args(args).creation_flags(CREATE_NO_WINDOW);
+    cmd
+}
+
+#[cfg(not(windows))]
+fn build_command(command: &str, args: &[String]) -> Command {
+    let mut cmd = Command::new(command);
+    cmd.args(args);
+    cmd
+}
+
+/// Start a server (replacing one already running under the same id) and return its pid
+#[tauri::command]
+pub fn mcp_spawn(
+    app: AppHandle,
+    state: State<'_, McpState>,
+    id: String,
+    command: String,
+    args: Vec<String>,
+    env: HashMap<String, String>,
+) -> Result<u32, String> {
+    let mut processes = state.processes.lock().map_err(|e| e.to_string())?;
+    processes.remove(&id);
+
+    let mut child = build_command(&command, &args)
+        .envs(&env)
+        .stdin(Stdio::piped())
+        .stdout(Stdio::piped())
+        .stderr(Stdio::piped())
+        .spawn()
+        .map_err(|e| format!("Failed to start \"{}\": {}", command, e))?;
+
+    let pid = child.id();
+    let stdin = child.stdin.take().ok_or("Server stdin unavailable")?;
+    let stdout = child.stdout.take().ok_or("Server stdout unavailable")?;
+    let stderr = child.stderr.take().ok_or("Server stderr unavailable")?;
+
+    let stdout_id = id.clone();
+    std::thread::spawn(move || {
+        for line in BufReader::new(stdout).lines().map_while(Result::ok) {
+            if line.trim().is_empty() {
+                continue;
+            }
+            let _ = app.emit("mcp://message", json!({ "id": stdout_id, "pid": pid, "line": line }));
+        }
+        let _ = app.emit("mcp://exit", json!({ "id": stdout_id, "pid": pid }));
+    });
+
+    // Servers log to stderr; keep it out of the protocol stream
+    let stderr_id = id.clone();
+    std::thread::spawn(move || {
+        for line in BufReader::new(stderr).lines().map_while(Result::ok) {
+            eprintln!("[mcp:{}] {}", stderr_id, line);
+        }
+    });
+
+    processes.insert(id, McpProcess { child, stdin });
+    Ok(pid)
+}
+
+/// Write one JSON-RPC message to a server's stdin
+#[tauri::command]
+pub fn mcp_send(state: State<'_, McpState>, id: String, line: String) -> Result<(), String> {
+    let mut processes = state.processes.lock().map_err(|e| e.to_string())?;
+    let process = processes
+        .get_mut(&id)
+        .ok_or_else(|| format!("MCP server \"{}\" is not running", id))?;
+    process
+        .stdin
+        .write_all(format!("{}\n", line).as_bytes())
+        .and_then(|_| process.stdin.flush())
+        .map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+pub fn mcp_kill(state: State<'_, McpState>, id: String) -> Result<(), String> {
+    let mut processes = state.processes.lock().map_err(|e| e.to_string())?;
+    processes.remove(&id);
+    Ok(())
+}
@@ -22,6 +22,7 @@ import { ChatInput } from "./ChatInput";
 import { ContextPopover } from "./ContextPopover";
 import { MessageList } from "./MessageList";
 import { ModelSelector } from "./ModelSelector";
+import { ThreadMemory } from "./ThreadMemory";
 
 function formatRelativeTime(ts: number, t: (key: string) => string): string {
   const diff = Date.now() - ts;
@@ -246,6 +247,8 @@ export function ChatPage() {
         </div>
       </div>
       <div className="flex flex-1 flex-col overflow-hidden">
+        {activeThread && <ThreadMemory thread={activeThread} />}
+
         {/* Message list or empty state - consistent container structure */}
         <div className="flex-1 overflow-hidden">
           {allMessages.length > 0 ? (
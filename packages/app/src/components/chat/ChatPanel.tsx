@@ -5,12 +5,13 @@ import { useStreamingChat } from "@/hooks/use-streaming-chat";
 import { convertToMessageV2, mergeMessagesWithStreaming } from "@/lib/chat-utils";
 import { useChatStore } from "@/stores/chat-store";
 import type { Book } from "@/types";
-import { Brain, History, MessageCirclePlus, Trash2 } from "lucide-react";
+import { Brain, History, MessageCirclePlus, ShieldCheck, Trash2 } from "lucide-react";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { ChatInput, type AttachedQuote } from "./ChatInput";
 import { MessageList } from "./MessageList";
 import { ModelSelector } from "./ModelSelector";
+import { ThreadMemory } from "./ThreadMemory";
 
 interface ChatPanelProps {
   book?: Book | null;
@@ -41,6 +42,7 @@ export function ChatPanel({ book }: ChatPanelProps) {
     setBookActiveThread,
     getActiveThreadId,
     getThreadsForContext,
+    setThreadAutoApprove,
   } = useChatStore();
 
   // Use streaming chat hook with book context
@@ -198,6 +200,26 @@ export function ChatPanel({ book }: ChatPanelProps) {
         </button>
         <div className="flex items-center gap-1">
           <ModelSelector />
+          {activeThread && (
+            <button
+              type="button"
+              onClick={() =>
+                setThreadAutoApprove(activeThread.id, !activeThread.autoApproveActions)
+              }
+              className={`rounded-full p-1 transition-colors ${
+                activeThread.autoApproveActions
+                  ? "bg-primary/10 text-primary"
+                  : "text-muted-foreground hover:bg-muted hover:text-foreground"
+              }`}
+              title={
+                activeThread.autoApproveActions
+                  ? t("chat.autoApproveOn")
+                  : t("chat.autoApproveOff")
+              }
+            >
+              <ShieldCheck className="size-3.5" />
+            </button>
+          )}
           <button
             type="button"
             onClick={handleNewThread}
@@ -263,6 +285,8 @@ export function ChatPanel({ book }: ChatPanelProps) {
         )}
       </div>
 
+      {activeThread && <ThreadMemory thread={activeThread} />}
+
       {/* Messages or empty state */}
       <div className="flex-1 overflow-hidden">
         {allMessages.length > 0 ? (
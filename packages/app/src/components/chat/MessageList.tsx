@@ -2,9 +2,13 @@
  * MessageList — scrollable message list with streaming support
  * Uses Part-based rendering for real-time updates
  */
-import type { MessageV2, CitationPart, QuotePart } from "@/types/message";
-import { ArrowDown, Quote } from "lucide-react";
+import type { MessageV2, CitationPart, QuotePart, ToolCallPart } from "@/types/message";
+import { addVocabularyCard } from "@/lib/flashcards/flashcard-service";
+import { useChatStore } from "@/stores/chat-store";
+import { ArrowDown, Layers, Pin, Quote } from "lucide-react";
 import { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
 import { PartRenderer } from "./PartRenderer";
 import { StreamingIndicator } from "./StreamingIndicator";
 
@@ -158,6 +162,68 @@ function UserQuoteBlock({ part }: { part: QuotePart }) {
   );
 }
 
+/** Turns the vocabulary-helper answer of a message (the text after the skill call) into a flashcard */
+function AddVocabularyCardButton({ message, call }: { message: MessageV2; call: ToolCallPart }) {
+  const { t } = useTranslation();
+  const bookId = useChatStore((s) => s.threads.find((th) => th.id === message.threadId)?.bookId);
+  const [added, setAdded] = useState(false);
+
+  const handleAdd = async () => {
+    const after = message.parts.slice(message.parts.indexOf(call) + 1);
+    const answer = after
+      .map((p) => (p.type === "text" ? p.text : ""))
+      .join("\n")
+      .trim();
+    const citation = after.find((p): p is CitationPart => p.type === "citation");
+    try {
+      await addVocabularyCard({
+        term: String(call.args.term ?? ""),
+        context: typeof call.args.context === "string" ? call.args.context : undefined,
+        answer,
+        bookId: citation?.bookId ?? bookId,
+        cfi: citation?.cfi,
+      });
+      setAdded(true);
+      toast.success(t("flashcards.added"));
+    } catch (err) {
+      toast.error(t("flashcards.addFailed"), { description: String(err) });
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      disabled={added}
+      onClick={handleAdd}
+      className="flex items-center gap-1 self-start rounded-md px-2 py-1 text-xs text-muted-foreground transition-colors hover:bg-muted hover:text-foreground disabled:opacity-50"
+    >
+      <Layers className="size-3" />
+      <span>{added ? t("flashcards.added") : t("flashcards.addFromVocabulary")}</span>
+    </button>
+  );
+}
+
+/** Pinned messages are always sent to the model verbatim, however long the thread gets */
+function PinMessageButton({ message }: { message: MessageV2 }) {
+  const { t } = useTranslation();
+  const setMessagePinned = useChatStore((s) => s.setMessagePinned);
+
+  return (
+    <button
+      type="button"
+      onClick={() => setMessagePinned(message.threadId, message.id, !message.pinned)}
+      className={`rounded-md p-1 transition-colors hover:bg-muted ${
+        message.pinned
+          ? "text-primary"
+          : "text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100"
+      }`}
+      title={t(message.pinned ? "chat.unpinMessage" : "chat.pinMessage")}
+    >
+      <Pin className={`size-3 ${message.pinned ? "fill-current" : ""}`} />
+    </button>
+  );
+}
+
 function MessageBubble({ message, onCitationClick, isStreaming, currentStep }: MessageBubbleProps) {
   if (message.role === "user") {
     const quoteParts = message.parts.filter((p) => p.type === "quote") as QuotePart[];
@@ -185,6 +251,9 @@ function MessageBubble({ message, onCitationClick, isStreaming, currentStep }: M
             </div>
           )}
         </div>
+        <div className="self-end">
+          <PinMessageButton message={message} />
+        </div>
       </div>
     );
   }
@@ -210,6 +279,11 @@ function MessageBubble({ message, onCitationClick, isStreaming, currentStep }: M
     !isLastPartRunningText &&
     !isLastPartActiveToolCall;
 
+  const vocabularyCall = message.parts.find(
+    (p): p is ToolCallPart =>
+      p.type === "tool_call" && p.name === "vocabulary-helper" && p.status === "completed",
+  );
+
   return (
     <div className="group flex w-full flex-col gap-1">
       {message.parts.map((part) => (
@@ -218,6 +292,12 @@ function MessageBubble({ message, onCitationClick, isStreaming, currentStep }: M
       {showGapIndicator && (
         <StreamingIndicator step="thinking" />
       )}
+      {!isStreaming && (
+        <div className="flex items-center gap-1">
+          {vocabularyCall && <AddVocabularyCardButton message={message} call={vocabularyCall} />}
+          <PinMessageButton message={message} />
+        </div>
+      )}
     </div>
   );
 }
@@ -3,8 +3,11 @@
  * Renders individual parts of a message (text, reasoning, tool calls, citations)
  */
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { resolveToolApproval } from "@/lib/ai/tool-approval";
 import { cn } from "@/lib/utils";
 import {
+  Ban,
   CheckCircle,
   ChevronDown,
   Circle,
@@ -14,6 +17,7 @@ import {
   Wrench,
   BookOpen,
   ExternalLink,
+  ShieldQuestion,
 } from "lucide-react";
 import { useState, useEffect, useRef, lazy, Suspense } from "react";
 import type { Part, TextPart, ReasoningPart, ToolCallPart, CitationPart, MindmapPart } from "@/types/message";
@@ -180,11 +184,17 @@ const TOOL_LABELS: Record<string, string> = {
   getRecentHighlights: "获取最近标注",
   getSurroundingContext: "获取上下文",
   listBooks: "查询书籍列表",
+  librarySearch: "跨书搜索内容",
   searchAllHighlights: "搜索所有高亮",
   searchAllNotes: "搜索所有笔记",
   getReadingStats: "获取阅读统计",
   getSkills: "查询技能",
   mindmap: "生成思维导图",
+  createHighlight: "添加高亮",
+  addNote: "添加笔记",
+  addBookmark: "添加书签",
+  goToLocation: "跳转位置",
+  tagBook: "设置书籍标签",
 };
 
 function ToolCallPartView({ part }: { part: ToolCallPart }) {
@@ -206,7 +216,11 @@ function ToolCallPartView({ part }: { part: ToolCallPart }) {
   };
 
   const label = TOOL_LABELS[part.name] || part.name;
-  const queryText = part.args.query ? String(part.args.query) : "";
+  const queryText = part.args.query
+    ? String(part.args.query)
+    : part.args.text
+      ? String(part.args.text)
+      : "";
   const scopeText = part.args.scope ? String(part.args.scope) : "";
 
   return (
@@ -229,6 +243,12 @@ function ToolCallPartView({ part }: { part: ToolCallPart }) {
                     {scopeText}
                   </span>
                 )}
+                {part.approval === "denied" && (
+                  <span className="flex items-center gap-1 rounded bg-neutral-100 px-1.5 py-0.5 text-xs text-neutral-500">
+                    <Ban className="h-3 w-3" />
+                    已拒绝
+                  </span>
+                )}
               </div>
               <ChevronDown
                 className={cn(
@@ -285,6 +305,55 @@ function ToolCallPartView({ part }: { part: ToolCallPart }) {
             </div>
           </CollapsibleContent>
         </Collapsible>
+        {part.approval === "pending" && <ToolApprovalCard part={part} />}
+      </div>
+    </div>
+  );
+}
+
+
+/** Inline confirmation for tool calls that change the user's data or the reader */
+function ToolApprovalCard({ part }: { part: ToolCallPart }) {
+  const entries = Object.entries(part.args).filter(
+    ([, value]) => value !== undefined && value !== "",
+  );
+
+  return (
+    <div className="space-y-2 border-t border-amber-200 bg-amber-50/60 p-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-amber-800">
+        <ShieldQuestion className="h-4 w-4" />
+        AI 请求执行「{TOOL_LABELS[part.name] || part.name}」，是否允许？
+      </div>
+      {entries.length > 0 && (
+        <div className="space-y-0.5 rounded border border-amber-100 bg-white p-2 text-xs">
+          {entries.map(([key, value]) => (
+            <div key={key} className="break-all">
+              <span className="text-neutral-400">{key}:</span>{" "}
+              <span className="text-neutral-700">{String(value)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" className="h-7" onClick={() => resolveToolApproval(part.id, "approve")}>
+          允许
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7"
+          onClick={() => resolveToolApproval(part.id, "deny")}
+        >
+          拒绝
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 text-xs text-neutral-500"
+          onClick={() => resolveToolApproval(part.id, "always")}
+        >
+          本对话中始终允许
+        </Button>
       </div>
     </div>
   );
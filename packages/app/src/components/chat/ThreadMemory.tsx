@@ -0,0 +1,115 @@
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+/**
+ * ThreadMemory — the rolling summary that stands in for a thread's older
+ * messages once they no longer fit the model's context. The user can read,
+ * correct or clear it; clearing sends the full history again next turn.
+ */
+import { useChatStore } from "@/stores/chat-store";
+import type { Thread } from "@/types";
+import { Archive, ChevronDown, Pencil, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+export function ThreadMemory({ thread }: { thread: Thread }) {
+  const { t } = useTranslation();
+  const updateThreadSummary = useChatStore((s) => s.updateThreadSummary);
+  const [expanded, setExpanded] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  if (!thread.summary) return null;
+
+  const foldedCount = thread.summarizedThroughId
+    ? thread.messages.findIndex((m) => m.id === thread.summarizedThroughId) + 1
+    : 0;
+
+  const startEditing = () => {
+    setDraft(thread.summary ?? "");
+    setEditing(true);
+    setExpanded(true);
+  };
+
+  const handleSave = async () => {
+    await updateThreadSummary(thread.id, draft.trim());
+    setEditing(false);
+  };
+
+  const handleClear = async () => {
+    await updateThreadSummary(thread.id, "", null);
+    setEditing(false);
+    setExpanded(false);
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-3xl shrink-0 px-4 pt-2">
+      <div className="rounded-lg border border-border/60 bg-muted/40 text-xs">
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="flex w-full items-center gap-1.5 px-2.5 py-1.5 text-muted-foreground hover:text-foreground"
+          title={t("chat.memoryDesc")}
+        >
+          <Archive className="size-3.5 shrink-0" />
+          <span className="font-medium">{t("chat.memoryTitle")}</span>
+          {foldedCount > 0 && (
+            <span className="truncate text-muted-foreground/70">
+              · {t("chat.memoryFolded", { count: foldedCount })}
+            </span>
+          )}
+          <ChevronDown
+            className={`ml-auto size-3.5 shrink-0 transition-transform ${expanded ? "rotate-180" : ""}`}
+          />
+        </button>
+
+        {expanded && (
+          <div className="border-t border-border/60 px-2.5 py-2">
+            {editing ? (
+              <div className="flex flex-col gap-2">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={8}
+                  className="resize-y text-xs"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+                    {t("common.cancel")}
+                  </Button>
+                  <Button size="sm" onClick={handleSave} disabled={!draft.trim()}>
+                    {t("common.save")}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="max-h-60 overflow-y-auto whitespace-pre-wrap leading-relaxed text-foreground/80">
+                  {thread.summary}
+                </p>
+                <div className="mt-2 flex justify-end gap-1">
+                  <button
+                    type="button"
+                    onClick={startEditing}
+                    className="flex items-center gap-1 rounded-md px-2 py-1 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+                  >
+                    <Pencil className="size-3" />
+                    <span>{t("chat.memoryEdit")}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleClear}
+                    className="flex items-center gap-1 rounded-md px-2 py-1 text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+                    title={t("chat.memoryClearDesc")}
+                  >
+                    <Trash2 className="size-3" />
+                    <span>{t("chat.memoryClear")}</span>
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
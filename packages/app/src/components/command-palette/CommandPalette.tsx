@@ -5,11 +5,14 @@
  * - Fuzzy search across all settings and actions
  * - Keyboard navigation (Arrow keys + Enter + Escape)
  * - Recent commands tracking (localStorage)
- * - Category grouping (Settings / Actions)
+ * - Category grouping (Settings / Actions / Library)
+ * - Library-wide content search across vectorized books
  */
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useAppStore } from "@/stores/app-store";
+import { useDebounce } from "@/hooks/use-debounce";
+import { searchLibrary } from "@/lib/rag/search";
 import { cn } from "@/lib/utils";
 import {
   Settings,
@@ -22,16 +25,19 @@ import {
   Info,
   Search,
   Keyboard,
+  FileText,
   type LucideIcon,
 } from "lucide-react";
 
 // ── Types ──
 
-type CommandCategory = "settings" | "actions";
+type CommandCategory = "settings" | "actions" | "library";
 
 interface CommandItem {
   id: string;
   label: string;
+  /** Secondary line, e.g. the matching passage of a library hit */
+  description?: string;
   keywords: string[];
   category: CommandCategory;
   icon?: LucideIcon;
@@ -99,6 +105,11 @@ function searchCommands(query: string, items: CommandItem[]): SearchResult[] {
   return results.sort((a, b) => b.score - a.score).slice(0, 30);
 }
 
+// ── Library search ──
+
+const LIBRARY_MIN_QUERY = 2;
+const LIBRARY_TOP_K = 8;
+
 // ── Recent commands ──
 
 const RECENT_KEY = "readany-recent-commands";
@@ -146,9 +157,13 @@ interface CommandPaletteProps {
 export function CommandPalette({ open, onClose }: CommandPaletteProps) {
   const { t } = useTranslation();
   const setShowSettings = useAppStore((s) => s.setShowSettings);
+  const addTab = useAppStore((s) => s.addTab);
+  const setActiveTab = useAppStore((s) => s.setActiveTab);
 
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [libraryItems, setLibraryItems] = useState<CommandItem[]>([]);
+  const debouncedQuery = useDebounce(query.trim(), 300);
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
 
@@ -278,6 +293,47 @@ export function CommandPalette({ open, onClose }: CommandPaletteProps) {
   // Search results
   const results = useMemo(() => searchCommands(query, commands), [query, commands]);
 
+  // Library content hits (debounced, async)
+  useEffect(() => {
+    if (!open || debouncedQuery.length < LIBRARY_MIN_QUERY) {
+      setLibraryItems([]);
+      return;
+    }
+    let cancelled = false;
+    searchLibrary({ query: debouncedQuery, mode: "hybrid", topK: LIBRARY_TOP_K, threshold: 0.3 })
+      .then((hits) => {
+        if (cancelled) return;
+        setLibraryItems(
+          hits.map((hit) => ({
+            id: `library.${hit.chunk.id}`,
+            label: [hit.bookTitle, hit.chunk.chapterTitle].filter(Boolean).join(" · "),
+            description: hit.chunk.content.slice(0, 120),
+            keywords: [],
+            category: "library",
+            icon: FileText,
+            action: () => {
+              const tabId = `reader-${hit.chunk.bookId}`;
+              addTab({
+                id: tabId,
+                type: "reader",
+                title: hit.bookTitle,
+                bookId: hit.chunk.bookId,
+                initialCfi: hit.chunk.startCfi || undefined,
+              });
+              setActiveTab(tabId);
+            },
+          })),
+        );
+      })
+      .catch((err) => {
+        console.warn("[CommandPalette] Library search failed:", err);
+        if (!cancelled) setLibraryItems([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, debouncedQuery, addTab, setActiveTab]);
+
   // Recent commands (when no query)
   const recentCommands = useMemo(() => {
     if (query.trim()) return [];
@@ -290,10 +346,10 @@ export function CommandPalette({ open, onClose }: CommandPaletteProps) {
   // Flat list for keyboard navigation
   const flatItems = useMemo(() => {
     if (query.trim()) {
-      return results.map((r) => r.item);
+      return [...results.map((r) => r.item), ...libraryItems];
     }
     return recentCommands;
-  }, [query, results, recentCommands]);
+  }, [query, results, libraryItems, recentCommands]);
 
   // Reset selection when results change
   useEffect(() => {
@@ -312,7 +368,8 @@ export function CommandPalette({ open, onClose }: CommandPaletteProps) {
   // Execute command
   const executeCommand = useCallback(
     (item: CommandItem) => {
-      trackRecent(item.id);
+      // Library hits are transient and can't be resolved from the registry later
+      if (item.category !== "library") trackRecent(item.id);
       onClose();
       requestAnimationFrame(() => item.action());
     },
@@ -360,12 +417,16 @@ export function CommandPalette({ open, onClose }: CommandPaletteProps) {
   // Group results by category
   const grouped = useMemo(() => {
     if (!query.trim()) return null;
-    const groups: Record<CommandCategory, SearchResult[]> = { settings: [], actions: [] };
+    const groups: Record<CommandCategory, SearchResult[]> = {
+      settings: [],
+      actions: [],
+      library: libraryItems.map((item) => ({ item, score: 0, matchPositions: [] })),
+    };
     for (const r of results) {
       groups[r.item.category].push(r);
     }
     return groups;
-  }, [query, results]);
+  }, [query, results, libraryItems]);
 
   let itemIndex = 0;
 
@@ -429,14 +490,14 @@ export function CommandPalette({ open, onClose }: CommandPaletteProps) {
             </>
           )}
 
-          {query.trim() && results.length === 0 && (
+          {query.trim() && results.length === 0 && libraryItems.length === 0 && (
             <div className="px-4 py-8 text-center text-sm text-muted-foreground">
               {t("commandPalette.noResults", { query })}
             </div>
           )}
 
           {grouped &&
-            (["settings", "actions"] as CommandCategory[]).map((cat) => {
+            (["settings", "actions", "library"] as CommandCategory[]).map((cat) => {
               const catResults = grouped[cat];
               if (!catResults.length) return null;
               return (
@@ -510,11 +571,16 @@ function CommandRow({
       onMouseEnter={onHover}
     >
       {Icon && <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />}
-      <span className="flex-1 truncate">
-        {matchPositions?.length ? (
-          <HighlightText text={item.label} positions={matchPositions} />
-        ) : (
-          item.label
+      <span className="flex-1 min-w-0">
+        <span className="block truncate">
+          {matchPositions?.length ? (
+            <HighlightText text={item.label} positions={matchPositions} />
+          ) : (
+            item.label
+          )}
+        </span>
+        {item.description && (
+          <span className="block truncate text-xs text-muted-foreground">{item.description}</span>
         )}
       </span>
       {item.shortcut && (
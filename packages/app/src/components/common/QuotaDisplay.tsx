@@ -5,9 +5,14 @@ import type { Quota } from "@/types";
 
 interface QuotaDisplayProps {
   quota: Quota;
+  /** Defaults to the quota type */
+  label?: string;
+  /** Shown under the meter, e.g. when the quota resets */
+  hint?: string;
 }
 
-export function QuotaDisplay({ quota }: QuotaDisplayProps) {
+export function QuotaDisplay({ quota, label, hint }: QuotaDisplayProps) {
+  // A limit of 0 means unlimited
   const percentage = quota.limit > 0 ? (quota.used / quota.limit) * 100 : 0;
   const isNearLimit = percentage >= 80;
 
@@ -15,9 +20,9 @@ export function QuotaDisplay({ quota }: QuotaDisplayProps) {
     <div className="flex items-center gap-3 rounded-md border border-border p-2">
       <div className="min-w-0 flex-1">
         <div className="flex items-center justify-between text-xs">
-          <span className="font-medium capitalize">{quota.type.replace("_", " ")}</span>
+          <span className="font-medium capitalize">{label ?? quota.type.replace("_", " ")}</span>
           <span className={isNearLimit ? "text-destructive" : "text-muted-foreground"}>
-            {quota.used} / {quota.limit}
+            {quota.used.toLocaleString()} / {quota.limit > 0 ? quota.limit.toLocaleString() : "∞"}
           </span>
         </div>
         <div className="mt-1 h-1.5 w-full overflow-hidden rounded-full bg-muted">
@@ -28,6 +33,7 @@ export function QuotaDisplay({ quota }: QuotaDisplayProps) {
             style={{ width: `${Math.min(100, percentage)}%` }}
           />
         </div>
+        {hint && <p className="mt-1 text-[11px] text-muted-foreground">{hint}</p>}
       </div>
     </div>
   );
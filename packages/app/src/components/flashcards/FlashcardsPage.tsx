@@ -0,0 +1,391 @@
+/**
+ * FlashcardsPage — spaced-repetition review of cards made from highlights and vocabulary
+ * Layout: header (stats, scheduler, export) + review session or card list
+ */
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { deleteFlashcard, getFlashcards } from "@/lib/db/database";
+import { clozeBack, clozeFront } from "@/lib/flashcards/card-builder";
+import { exportFlashcardsApkg, exportFlashcardsCsv } from "@/lib/flashcards/deck-exporter";
+import { reviewFlashcard } from "@/lib/flashcards/flashcard-service";
+import { formatInterval, previewIntervals } from "@/lib/flashcards/scheduler";
+import { cn } from "@/lib/utils";
+import { useAppStore } from "@/stores/app-store";
+import { useFlashcardStore } from "@/stores/flashcard-store";
+import { useLibraryStore } from "@/stores/library-store";
+import type { Flashcard, ReviewRating, SchedulerAlgorithm } from "@/types";
+import { save } from "@tauri-apps/plugin-dialog";
+import { BookOpen, Download, FileSpreadsheet, Layers, Package, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+
+type PageView = "review" | "browse";
+
+const RATINGS: { rating: ReviewRating; labelKey: string; className: string }[] = [
+  { rating: 1, labelKey: "flashcards.again", className: "text-red-600" },
+  { rating: 2, labelKey: "flashcards.hard", className: "text-amber-600" },
+  { rating: 3, labelKey: "flashcards.good", className: "text-green-600" },
+  { rating: 4, labelKey: "flashcards.easy", className: "text-blue-600" },
+];
+
+/** Cards in learning steps come back within the session instead of waiting for the next one */
+const isLearning = (card: Flashcard) => card.state === "learning" || card.state === "relearning";
+
+/** Due reviews first, then up to `newLimit` new cards */
+function buildQueue(cards: Flashcard[], newLimit: number, now: number): Flashcard[] {
+  const due = cards.filter((c) => c.state !== "new" && c.due <= now).sort((a, b) => a.due - b.due);
+  const fresh = cards
+    .filter((c) => c.state === "new")
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .slice(0, newLimit);
+  return [...due, ...fresh];
+}
+
+export function FlashcardsPage() {
+  const { t } = useTranslation();
+  const { addTab, setActiveTab, activeTabId } = useAppStore();
+  const books = useLibraryStore((s) => s.books);
+  const { algorithm, newCardsPerSession, setAlgorithm } = useFlashcardStore();
+
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [revealed, setRevealed] = useState(false);
+  const [view, setView] = useState<PageView>("review");
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const bookTitles = useMemo(() => new Map(books.map((b) => [b.id, b.meta.title])), [books]);
+
+  const loadCards = useCallback(async () => {
+    const all = await getFlashcards();
+    setCards(all);
+    setQueue(buildQueue(all, newCardsPerSession, Date.now()));
+    setRevealed(false);
+    setReviewedCount(0);
+  }, [newCardsPerSession]);
+
+  useEffect(() => {
+    if (activeTabId !== "flashcards") return;
+    loadCards().catch((err) => console.error("Failed to load flashcards:", err));
+  }, [activeTabId, loadCards]);
+
+  const current = queue[0];
+  const intervals = useMemo(
+    () => (current ? previewIntervals(current, algorithm) : null),
+    [current, algorithm],
+  );
+
+  const handleRate = useCallback(
+    async (rating: ReviewRating) => {
+      if (!current) return;
+      try {
+        const updated = await reviewFlashcard(current, rating, algorithm);
+        setCards((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+        setQueue((prev) => {
+          const rest = prev.slice(1);
+          return isLearning(updated) ? [...rest, updated] : rest;
+        });
+        setRevealed(false);
+        setReviewedCount((n) => n + 1);
+      } catch (err) {
+        toast.error(t("flashcards.reviewFailed"), { description: String(err) });
+      }
+    },
+    [current, algorithm, t],
+  );
+
+  // Space reveals the answer, 1-4 grade it
+  useEffect(() => {
+    if (activeTabId !== "flashcards" || view !== "review" || !current) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable=true]")) return;
+      if (!revealed && (e.key === " " || e.key === "Enter")) {
+        e.preventDefault();
+        setRevealed(true);
+      } else if (revealed && ["1", "2", "3", "4"].includes(e.key)) {
+        e.preventDefault();
+        handleRate(Number(e.key) as ReviewRating);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [activeTabId, view, current, revealed, handleRate]);
+
+  const handleOpenInBook = (card: Flashcard) => {
+    if (!card.bookId) return;
+    const tabId = `reader-${card.bookId}`;
+    addTab({
+      id: tabId,
+      type: "reader",
+      title: bookTitles.get(card.bookId) ?? "",
+      bookId: card.bookId,
+      initialCfi: card.cfi,
+    });
+    setActiveTab(tabId);
+  };
+
+  const handleDelete = async (card: Flashcard) => {
+    await deleteFlashcard(card.id);
+    setCards((prev) => prev.filter((c) => c.id !== card.id));
+    setQueue((prev) => prev.filter((c) => c.id !== card.id));
+  };
+
+  const handleExport = async (format: "apkg" | "csv") => {
+    if (cards.length === 0) return;
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      const path = await save({
+        defaultPath: `readany-flashcards-${date}.${format}`,
+        filters: [
+          {
+            name: format === "apkg" ? t("flashcards.ankiFilter") : t("flashcards.csvFilter"),
+            extensions: [format],
+          },
+        ],
+      });
+      if (!path) return;
+      const { writeFile, writeTextFile } = await import("@tauri-apps/plugin-fs");
+      if (format === "apkg") {
+        await writeFile(
+          path,
+          await exportFlashcardsApkg(cards, t("flashcards.deckName"), bookTitles),
+        );
+      } else {
+        await writeTextFile(path, exportFlashcardsCsv(cards, bookTitles));
+      }
+      toast.success(t("flashcards.exported", { count: cards.length }), { description: path });
+    } catch (err) {
+      console.error("Flashcard export failed:", err);
+      toast.error(t("flashcards.exportFailed"), { description: String(err) });
+    }
+  };
+
+  const dueCount = queue.length;
+  const nextDue = useMemo(
+    () =>
+      cards
+        .filter((c) => c.state !== "new")
+        .reduce((min, c) => Math.min(min, c.due), Number.POSITIVE_INFINITY),
+    [cards],
+  );
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="shrink-0 border-b border-border/40 px-4 py-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h1 className="text-base font-semibold">{t("flashcards.title")}</h1>
+            <p className="mt-0.5 text-xs text-muted-foreground">
+              {t("flashcards.stats", { total: cards.length, due: dueCount })}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex gap-1 rounded-lg bg-muted p-0.5">
+              {(["review", "browse"] as const).map((v) => (
+                <button
+                  key={v}
+                  type="button"
+                  className={cn(
+                    "rounded-md px-3 py-1 text-xs font-medium transition-colors",
+                    view === v
+                      ? "bg-background text-foreground shadow-sm"
+                      : "text-muted-foreground hover:text-foreground",
+                  )}
+                  onClick={() => setView(v)}
+                >
+                  {t(`flashcards.view_${v}`)}
+                </button>
+              ))}
+            </div>
+            <Select value={algorithm} onValueChange={(v) => setAlgorithm(v as SchedulerAlgorithm)}>
+              <SelectTrigger className="h-7 w-[110px] text-xs" title={t("flashcards.scheduler")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fsrs">FSRS</SelectItem>
+                <SelectItem value="sm2">SM-2</SelectItem>
+              </SelectContent>
+            </Select>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={cards.length === 0}
+                  title={t("flashcards.export")}
+                >
+                  <Download className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport("apkg")}>
+                  <Package className="mr-2 h-4 w-4" />
+                  {t("flashcards.exportAnki")}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("csv")}>
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  {t("flashcards.exportCsv")}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto">
+        {cards.length === 0 ? (
+          <div className="flex h-full flex-col items-center justify-center p-6 text-center">
+            <Layers className="mb-3 h-12 w-12 text-muted-foreground/50" />
+            <p className="text-sm font-medium text-muted-foreground">{t("flashcards.empty")}</p>
+            <p className="mt-1 text-xs text-muted-foreground/70">{t("flashcards.emptyHint")}</p>
+          </div>
+        ) : view === "browse" ? (
+          <div className="space-y-2 p-5">
+            {cards.map((card) => (
+              <CardRow
+                key={card.id}
+                card={card}
+                bookTitle={card.bookId ? bookTitles.get(card.bookId) : undefined}
+                onOpen={() => handleOpenInBook(card)}
+                onDelete={() => handleDelete(card)}
+              />
+            ))}
+          </div>
+        ) : !current ? (
+          <div className="flex h-full flex-col items-center justify-center p-6 text-center">
+            <Layers className="mb-3 h-12 w-12 text-muted-foreground/50" />
+            <p className="text-sm font-medium text-muted-foreground">{t("flashcards.done")}</p>
+            <p className="mt-1 text-xs text-muted-foreground/70">
+              {reviewedCount > 0 && `${t("flashcards.reviewed", { count: reviewedCount })} `}
+              {Number.isFinite(nextDue) &&
+                t("flashcards.nextDue", { time: new Date(nextDue).toLocaleString() })}
+            </p>
+          </div>
+        ) : (
+          <div className="mx-auto flex max-w-2xl flex-col gap-4 p-6">
+            <div className="text-xs text-muted-foreground">
+              {t("flashcards.remaining", { count: queue.length })}
+            </div>
+
+            <div className="rounded-lg border border-border/40 bg-card p-6">
+              <p className="whitespace-pre-wrap text-base leading-relaxed">
+                {current.kind === "basic"
+                  ? current.front
+                  : revealed
+                    ? clozeBack(current.front)
+                    : clozeFront(current.front)}
+              </p>
+
+              {revealed && current.back && (
+                <>
+                  <div className="my-4 h-px bg-border/50" />
+                  <p className="whitespace-pre-wrap text-sm leading-relaxed text-foreground/80">
+                    {current.back}
+                  </p>
+                </>
+              )}
+
+              {current.bookId && (
+                <button
+                  type="button"
+                  className="mt-4 flex items-center gap-1.5 text-[11px] text-muted-foreground transition-colors hover:text-primary"
+                  onClick={() => handleOpenInBook(current)}
+                >
+                  <BookOpen className="h-3 w-3" />
+                  {[bookTitles.get(current.bookId), current.chapterTitle]
+                    .filter(Boolean)
+                    .join(" · ") || t("flashcards.openInBook")}
+                </button>
+              )}
+            </div>
+
+            {!revealed ? (
+              <Button className="self-center" onClick={() => setRevealed(true)}>
+                {t("flashcards.showAnswer")}
+              </Button>
+            ) : (
+              <div className="grid grid-cols-4 gap-2">
+                {RATINGS.map(({ rating, labelKey, className }) => (
+                  <Button
+                    key={rating}
+                    variant="outline"
+                    className="flex h-auto flex-col gap-0.5 py-2"
+                    onClick={() => handleRate(rating)}
+                  >
+                    <span className={cn("text-sm font-medium", className)}>{t(labelKey)}</span>
+                    {intervals && (
+                      <span className="text-[11px] text-muted-foreground">
+                        {formatInterval(intervals[rating])}
+                      </span>
+                    )}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CardRowProps {
+  card: Flashcard;
+  bookTitle?: string;
+  onOpen: () => void;
+  onDelete: () => void;
+}
+
+function CardRow({ card, bookTitle, onOpen, onDelete }: CardRowProps) {
+  const { t } = useTranslation();
+  return (
+    <div className="group rounded-lg border border-border/40 bg-card px-4 py-3 transition-colors hover:border-border/70">
+      <p className="line-clamp-2 text-sm text-foreground/90">
+        {card.kind === "cloze" ? clozeFront(card.front) : card.front}
+      </p>
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <span className="truncate text-[11px] text-muted-foreground/70">
+          {t(`flashcards.state_${card.state}`)}
+          {card.state !== "new" &&
+            ` · ${t("flashcards.dueOn", { date: new Date(card.due).toLocaleDateString() })}`}
+          {bookTitle && ` · ${bookTitle}`}
+        </span>
+        <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+          {card.bookId && (
+            <button
+              type="button"
+              className="rounded p-1 text-muted-foreground hover:bg-primary/10 hover:text-primary"
+              onClick={onOpen}
+              title={t("flashcards.openInBook")}
+            >
+              <BookOpen className="h-3 w-3" />
+            </button>
+          )}
+          <button
+            type="button"
+            className="rounded p-1 text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
+            onClick={onDelete}
+            title={t("flashcards.delete")}
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,12 @@
 /**
  * BookCard — Readest-inspired book card with realistic cover rendering
  */
-import { triggerVectorizeBook } from "@/lib/rag/vectorize-trigger";
 import { useLibraryStore } from "@/stores/library-store";
 import { useAppStore } from "@/stores/app-store";
 import { useVectorModelStore } from "@/stores/vector-model-store";
-import type { Book, VectorizeProgress } from "@/types";
-import { Check, Database, Loader2, MoreVertical, Trash2 } from "lucide-react";
+import { useVectorizeQueueStore } from "@/stores/vectorize-queue-store";
+import type { Book } from "@/types";
+import { Check, Clock, Database, Loader2, MoreVertical, Trash2, X } from "lucide-react";
 import { memo, useCallback, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 
@@ -22,8 +22,11 @@ export const BookCard = memo(function BookCard({ book }: BookCardProps) {
   const [showMenu, setShowMenu] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
-  const [vectorizing, setVectorizing] = useState(false);
-  const [vectorProgress, setVectorProgress] = useState<VectorizeProgress | null>(null);
+  const vectorizeJob = useVectorizeQueueStore((s) => s.jobs.find((j) => j.bookId === book.id));
+  const enqueueVectorize = useVectorizeQueueStore((s) => s.enqueue);
+  const cancelVectorize = useVectorizeQueueStore((s) => s.cancel);
+  const vectorizing = vectorizeJob?.status === "pending" || vectorizeJob?.status === "running";
+  const vectorProgress = vectorizeJob?.progress ?? null;
   const coverRef = useRef<HTMLDivElement>(null);
   const progressPct = Math.round(book.progress * 100);
 
@@ -35,30 +38,23 @@ export const BookCard = memo(function BookCard({ book }: BookCardProps) {
     (e: React.MouseEvent) => {
       e.stopPropagation();
       setShowMenu(false);
+      if (vectorizeJob) cancelVectorize(vectorizeJob.id);
       removeBook(book.id);
     },
-    [book.id, removeBook],
+    [book.id, removeBook, vectorizeJob, cancelVectorize],
   );
 
   const handleVectorize = useCallback(
-    async (e: React.MouseEvent) => {
+    (e: React.MouseEvent) => {
       e.stopPropagation();
       setShowMenu(false);
-      if (vectorizing) return;
-
-      setVectorizing(true);
-      try {
-        await triggerVectorizeBook(book.id, book.filePath, (progress) => {
-          setVectorProgress({ ...progress });
-        });
-      } catch (err) {
-        console.error("[BookCard] Vectorization failed:", err);
-      } finally {
-        setVectorizing(false);
-        setVectorProgress(null);
+      if (vectorizing && vectorizeJob) {
+        cancelVectorize(vectorizeJob.id);
+      } else {
+        enqueueVectorize(book);
       }
     },
-    [book.id, book.filePath, vectorizing],
+    [book, vectorizing, vectorizeJob, enqueueVectorize, cancelVectorize],
   );
 
   const handleImageLoad = () => {
@@ -141,9 +137,15 @@ export const BookCard = memo(function BookCard({ book }: BookCardProps) {
         {/* Vectorization progress overlay */}
         {vectorizing && (
           <div className="absolute inset-0 z-15 flex flex-col items-center justify-center rounded bg-black/50 backdrop-blur-sm">
-            <Loader2 className="h-6 w-6 animate-spin text-white" />
+            {vectorizeJob?.status === "pending" ? (
+              <Clock className="h-6 w-6 text-white" />
+            ) : (
+              <Loader2 className="h-6 w-6 animate-spin text-white" />
+            )}
             <span className="mt-1.5 text-xs font-medium text-white">
-              {vectorProgress?.status === "chunking"
+              {vectorizeJob?.status === "pending"
+                ? t("home.vec_queued")
+                : vectorProgress?.status === "chunking"
                 ? t("home.vec_chunking")
                 : vectorProgress?.status === "embedding"
                   ? `${vecPct}%`
@@ -183,16 +185,21 @@ export const BookCard = memo(function BookCard({ book }: BookCardProps) {
               <button
                 type="button"
                 className={`flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-xs transition-colors ${
-                  !hasVectorCapability() || vectorizing
+                  !hasVectorCapability() && !vectorizing
                     ? "text-muted-foreground opacity-50 cursor-not-allowed"
                     : book.isVectorized
                       ? "text-foreground hover:bg-muted"
                       : "text-foreground hover:bg-muted"
                 }`}
-                disabled={!hasVectorCapability() || vectorizing}
+                disabled={!hasVectorCapability() && !vectorizing}
                 onClick={handleVectorize}
               >
-                {book.isVectorized ? (
+                {vectorizing ? (
+                  <>
+                    <X className="h-3.5 w-3.5" />
+                    {t("home.vec_cancel")}
+                  </>
+                ) : book.isVectorized ? (
                   <>
                     <Check className="h-3.5 w-3.5 text-green-600" />
                     {t("home.vec_reindex")}
@@ -1,6 +1,7 @@
 /**
  * HomePage — library page
  */
+import { VectorizeQueuePanel } from "@/components/rag/VectorizeQueuePanel";
 import { useLibraryStore } from "@/stores/library-store";
 import { open } from "@tauri-apps/plugin-dialog";
 import { Plus } from "lucide-react";
@@ -47,14 +48,17 @@ export function HomePage() {
       {/* Header */}
       <div className="flex shrink-0 items-center justify-between px-6 pt-5 pb-2">
         <h1 className="text-3xl font-bold text-neutral-900">{t("home.library")}</h1>
-        <button
-          type="button"
-          onClick={handleImportClick}
-          className="flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
-        >
-          <Plus className="size-4" />
-          {t("home.addBook")}
-        </button>
+        <div className="flex items-center gap-2">
+          <VectorizeQueuePanel />
+          <button
+            type="button"
+            onClick={handleImportClick}
+            className="flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+          >
+            <Plus className="size-4" />
+            {t("home.addBook")}
+          </button>
+        </div>
       </div>
 
       {/* Search result hint */}
@@ -7,11 +7,12 @@
  * Non-active tabs are hidden via `display:none` so renderers are never destroyed
  * on tab switch. Only closing a tab truly unmounts the ReaderView.
  *
- * Home-type pages (home/chat/notes/skills/stats) share the left sidebar.
+ * Home-type pages (home/chat/notes/flashcards/skills/stats) share the left sidebar.
  * Reader pages are full-width (no sidebar).
  */
 import { ChatPage as ChatPageComponent } from "@/components/chat/ChatPage";
 import { CommandPalette } from "@/components/command-palette/CommandPalette";
+import { FlashcardsPage } from "@/components/flashcards/FlashcardsPage";
 import { HomePage } from "@/components/home/HomePage";
 import { NotesPage } from "@/components/notes/NotesPage";
 import { ReaderView } from "@/components/reader/ReaderView";
@@ -29,6 +30,7 @@ const HOME_VIEWS: { id: string; Component: React.ComponentType }[] = [
   { id: "home", Component: HomePage },
   { id: "chat", Component: ChatPageComponent },
   { id: "notes", Component: NotesPage },
+  { id: "flashcards", Component: FlashcardsPage },
   { id: "skills", Component: SkillsPage },
   { id: "stats", Component: ReadingStatsPanel },
 ];
@@ -1,11 +1,11 @@
 import { useAppStore } from "@/stores/app-store";
 import { useLibraryStore } from "@/stores/library-store";
-import { BarChart3, BookOpen, ChevronDown, ChevronRight, MessageSquare, Puzzle, Search, Settings, StickyNote } from "lucide-react";
+import { BarChart3, BookOpen, ChevronDown, ChevronRight, Layers, MessageSquare, Puzzle, Search, Settings, StickyNote } from "lucide-react";
 import { useState } from "react";
 import { useTranslation } from "react-i18next";
 
 interface NavItem {
-  tabType: "home" | "chat" | "notes" | "skills";
+  tabType: "home" | "chat" | "notes" | "flashcards" | "skills";
   labelKey: string;
   icon: React.ComponentType<{ className?: string; size?: number }>;
   expandable?: boolean;
@@ -15,6 +15,7 @@ const NAV_ITEMS: NavItem[] = [
   { tabType: "home", labelKey: "sidebar.library", icon: BookOpen, expandable: true },
   { tabType: "chat", labelKey: "sidebar.chat", icon: MessageSquare },
   { tabType: "notes", labelKey: "sidebar.notes", icon: StickyNote },
+  { tabType: "flashcards", labelKey: "sidebar.flashcards", icon: Layers },
   { tabType: "skills", labelKey: "sidebar.skills", icon: Puzzle },
 ];
 
@@ -30,7 +31,7 @@ export function HomeSidebar() {
   const activeTab = useAppStore((s) => s.tabs.find((t) => t.id === activeTabId));
   const activeType = activeTab?.type ?? "home";
 
-  const handleNavClick = (tabType: "home" | "chat" | "notes" | "skills") => {
+  const handleNavClick = (tabType: NavItem["tabType"]) => {
     if (tabType === "home") {
       setActiveTab("home");
     } else {
@@ -4,13 +4,14 @@
  */
 import { type Tab, useAppStore } from "@/stores/app-store";
 import { useReaderStore } from "@/stores/reader-store";
-import { BookOpen, Home, MessageSquare, StickyNote, X } from "lucide-react";
+import { BookOpen, Home, Layers, MessageSquare, StickyNote, X } from "lucide-react";
 
 const TAB_ICONS: Record<string, React.ElementType> = {
   home: Home,
   reader: BookOpen,
   chat: MessageSquare,
   notes: StickyNote,
+  flashcards: Layers,
 };
 
 export function TabBar() {
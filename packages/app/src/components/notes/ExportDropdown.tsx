@@ -1,16 +1,32 @@
 import { useTranslation } from "react-i18next";
-import { Download, FileText, FileJson, ClipboardCopy } from "lucide-react";
+import {
+  Download,
+  FileText,
+  FileJson,
+  ClipboardCopy,
+  FileCode,
+  FolderSync,
+  BookOpenText,
+} from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import type { ExportFormat } from "@/lib/export/annotation-exporter";
+import { type ExportTemplate, useExportTemplateStore } from "@/stores/export-template-store";
+import { useVaultExportStore } from "@/stores/vault-export-store";
 
 interface ExportDropdownProps {
-  onExport: (format: ExportFormat) => void;
+  /** `template` is set when a saved template was picked (format "template") */
+  onExport: (format: ExportFormat, template?: ExportTemplate) => void;
+  /** Write the annotations into the configured Obsidian vault; hidden when no vault is set */
+  onExportToVault?: () => void;
+  /** Open the reading report dialog; hidden when not provided */
+  onReadingReport?: () => void;
   variant?: "ghost" | "outline";
   size?: "icon" | "sm";
   disabled?: boolean;
@@ -25,11 +41,15 @@ const formats: { format: ExportFormat; icon: typeof FileText; labelKey: string }
 
 export function ExportDropdown({
   onExport,
+  onExportToVault,
+  onReadingReport,
   variant = "ghost",
   size = "icon",
   disabled,
 }: ExportDropdownProps) {
   const { t } = useTranslation();
+  const templates = useExportTemplateStore((s) => s.templates);
+  const hasVault = useVaultExportStore((s) => !!s.config.vaultPath);
 
   return (
     <DropdownMenu>
@@ -52,6 +72,31 @@ export function ExportDropdown({
             {t(labelKey)}
           </DropdownMenuItem>
         ))}
+        {templates.length > 0 && <DropdownMenuSeparator />}
+        {templates.map((template) => (
+          <DropdownMenuItem key={template.id} onClick={() => onExport("template", template)}>
+            <FileCode className="h-4 w-4 mr-2" />
+            {template.name}
+          </DropdownMenuItem>
+        ))}
+        {onReadingReport && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onReadingReport}>
+              <BookOpenText className="h-4 w-4 mr-2" />
+              {t("notes.readingReport")}
+            </DropdownMenuItem>
+          </>
+        )}
+        {onExportToVault && hasVault && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onExportToVault}>
+              <FolderSync className="h-4 w-4 mr-2" />
+              {t("notes.exportToVault")}
+            </DropdownMenuItem>
+          </>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
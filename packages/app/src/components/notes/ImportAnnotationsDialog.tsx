@@ -0,0 +1,252 @@
+/**
+ * ImportAnnotationsDialog — import highlights from Kindle, KOReader or CSV exports,
+ * then review the entries that could not be matched to a book or located in its text
+ */
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  type ImportReport,
+  type UnresolvedAnnotation,
+  annotationImporter,
+} from "@/lib/import/annotation-importer";
+import { type ImportedAnnotation, parseAnnotationFile } from "@/lib/import/clipping-parsers";
+import { useAnnotationImportStore } from "@/stores/annotation-import-store";
+import { useLibraryStore } from "@/stores/library-store";
+import { open } from "@tauri-apps/plugin-dialog";
+import { FileUp, Loader2, RotateCcw, StickyNote, X } from "lucide-react";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+
+interface ImportAnnotationsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Called after anything was written, so the caller can reload highlights */
+  onImported: () => void;
+}
+
+function ReviewRow({
+  item,
+  onImported,
+}: {
+  item: UnresolvedAnnotation;
+  onImported: () => void;
+}) {
+  const { t } = useTranslation();
+  const books = useLibraryStore((s) => s.books);
+  const { updatePending, removePending } = useAnnotationImportStore();
+  const [bookId, setBookId] = useState(item.bookId ?? "");
+  const [busy, setBusy] = useState(false);
+  const { entry } = item;
+
+  const retry = async () => {
+    setBusy(true);
+    try {
+      const report = await annotationImporter.import([entry], {
+        bookOverrides: bookId ? { [entry.id]: bookId } : undefined,
+      });
+      const [unresolved] = report.unresolved;
+      if (unresolved) {
+        updatePending(entry.id, unresolved);
+        toast.error(t(`notes.import_reason_${unresolved.reason}`));
+      } else {
+        removePending([entry.id]);
+        onImported();
+      }
+    } catch (err) {
+      toast.error(t("notes.import_failed"), { description: String(err) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const keepAsNote = async () => {
+    if (!bookId) return;
+    setBusy(true);
+    try {
+      await annotationImporter.keepAsNote(entry, bookId);
+      removePending([entry.id]);
+      onImported();
+    } catch (err) {
+      toast.error(t("notes.import_failed"), { description: String(err) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border/60 p-3">
+      <div className="flex items-start gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="line-clamp-3 text-xs text-foreground">{entry.text || entry.note}</p>
+          <p className="mt-1 truncate text-[10px] text-muted-foreground">
+            {entry.bookTitle}
+            {entry.location && ` · ${entry.location}`}
+            {" · "}
+            <span className="text-amber-600 dark:text-amber-400">
+              {t(`notes.import_reason_${item.reason}`)}
+            </span>
+          </p>
+        </div>
+        <button
+          type="button"
+          className="shrink-0 rounded p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground"
+          title={t("notes.import_dismiss")}
+          onClick={() => removePending([entry.id])}
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      <div className="mt-2 flex items-center gap-2">
+        <Select value={bookId} onValueChange={setBookId}>
+          <SelectTrigger className="h-7 flex-1 text-xs">
+            <SelectValue placeholder={t("notes.import_assignBook")} />
+          </SelectTrigger>
+          <SelectContent>
+            {books.map((book) => (
+              <SelectItem key={book.id} value={book.id}>
+                {book.meta.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          disabled={busy}
+          onClick={retry}
+        >
+          {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+          {t("notes.import_retry")}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          disabled={busy || !bookId}
+          title={t("notes.import_keepAsNoteHint")}
+          onClick={keepAsNote}
+        >
+          <StickyNote className="h-3 w-3" />
+          {t("notes.import_keepAsNote")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ImportAnnotationsDialog({
+  open: isOpen,
+  onClose,
+  onImported,
+}: ImportAnnotationsDialogProps) {
+  const { t } = useTranslation();
+  const pending = useAnnotationImportStore((s) => s.pending);
+  const { addPending, clearPending } = useAnnotationImportStore();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const handlePickFiles = async () => {
+    const selected = await open({
+      multiple: true,
+      filters: [{ name: t("notes.import_fileFilter"), extensions: ["txt", "lua", "csv"] }],
+    });
+    if (!selected) return;
+    const paths = Array.isArray(selected) ? selected : [selected];
+    if (paths.length === 0) return;
+
+    setReport(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const { readTextFile } = await import("@tauri-apps/plugin-fs");
+      const entries: ImportedAnnotation[] = [];
+      for (const path of paths) {
+        const name = path.split(/[\\/]/).pop() ?? path;
+        entries.push(...parseAnnotationFile(name, await readTextFile(path)));
+      }
+
+      const result = await annotationImporter.import(entries, {
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      addPending(result.unresolved);
+      setReport(result);
+      if (result.imported > 0 || result.notes > 0) onImported();
+      toast.success(t("notes.import_done", { count: result.imported }));
+    } catch (err) {
+      console.error("Annotation import failed:", err);
+      toast.error(t("notes.import_failed"), { description: String(err) });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="flex max-h-[80vh] w-[560px] max-w-[560px] flex-col">
+        <DialogHeader>
+          <DialogTitle>{t("notes.import_title")}</DialogTitle>
+          <DialogDescription>{t("notes.import_description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <Button size="sm" className="gap-1.5" disabled={!!progress} onClick={handlePickFiles}>
+            {progress ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <FileUp className="h-4 w-4" />
+            )}
+            {t("notes.import_chooseFiles")}
+          </Button>
+          {progress && progress.total > 0 && (
+            <span className="text-xs text-muted-foreground">
+              {t("notes.import_progress", progress)}
+            </span>
+          )}
+        </div>
+
+        {report && (
+          <p className="rounded-md bg-muted px-3 py-2 text-xs text-muted-foreground">
+            {t("notes.import_summary", {
+              imported: report.imported,
+              notes: report.notes,
+              duplicates: report.duplicates,
+              unresolved: report.unresolved.length,
+            })}
+          </p>
+        )}
+
+        {pending.length > 0 && (
+          <div className="flex min-h-0 flex-1 flex-col">
+            <div className="mb-2 flex items-center justify-between">
+              <span className="text-sm font-medium">
+                {t("notes.import_review", { count: pending.length })}
+              </span>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearPending}>
+                {t("notes.import_dismissAll")}
+              </Button>
+            </div>
+            <div className="min-h-0 flex-1 space-y-2 overflow-y-auto pr-1">
+              {pending.map((item) => (
+                <ReviewRow key={item.entry.id} item={item} onImported={onImported} />
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,6 +18,8 @@ import {
   MessageSquareText,
   ChevronLeft,
   FileText,
+  FileUp,
+  Layers,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAnnotationStore } from "@/stores/annotation-store";
@@ -27,7 +29,14 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { MarkdownEditor } from "@/components/ui/markdown-editor";
 import { ExportDropdown } from "./ExportDropdown";
+import { ImportAnnotationsDialog } from "./ImportAnnotationsDialog";
+import { ReadingReportDialog } from "./ReadingReportDialog";
+import { useAnnotationImportStore } from "@/stores/annotation-import-store";
 import { annotationExporter, type ExportFormat } from "@/lib/export/annotation-exporter";
+import { TemplateSyntaxError } from "@/lib/export/template-engine";
+import type { ExportTemplate } from "@/stores/export-template-store";
+import { useVaultExportStore } from "@/stores/vault-export-store";
+import { addHighlightCard } from "@/lib/flashcards/flashcard-service";
 import type { HighlightWithBook } from "@/lib/db/database";
 import type { Highlight, Note } from "@/types";
 import { HIGHLIGHT_COLOR_HEX } from "@/types";
@@ -48,11 +57,15 @@ export function NotesPage() {
   } = useAnnotationStore();
   const { addTab, setActiveTab, activeTabId } = useAppStore();
   const books = useLibraryStore((s) => s.books);
+  const pendingImports = useAnnotationImportStore((s) => s.pending.length);
+  const exportBookToVault = useVaultExportStore((s) => s.exportBook);
 
   const [selectedBookId, setSelectedBookId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [detailTab, setDetailTab] = useState<DetailTab>("notes");
+  const [importOpen, setImportOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
 
   // Edit state
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -148,6 +161,16 @@ export function NotesPage() {
     setActiveTab(tabId);
   };
 
+  const handleAddFlashcard = async (highlight: HighlightWithBook) => {
+    try {
+      const card = await addHighlightCard(highlight);
+      if (card) toast.success(t("flashcards.added"));
+      else toast.info(t("flashcards.alreadyAdded"));
+    } catch (err) {
+      toast.error(t("flashcards.addFailed"), { description: String(err) });
+    }
+  };
+
   // Delete only the note text, keep the highlight
   const handleDeleteNote = (highlight: HighlightWithBook) => {
     updateHighlight(highlight.id, { note: undefined });
@@ -176,14 +199,20 @@ export function NotesPage() {
     setEditNote("");
   };
 
-  const doExport = (format: ExportFormat, book: { id: string; meta: { title: string } }, content: string) => {
+  const doExport = (
+    format: ExportFormat,
+    book: { id: string; meta: { title: string } },
+    content: string,
+    template?: ExportTemplate,
+  ) => {
     try {
       if (format === "notion") {
         annotationExporter.copyToClipboard(content);
         toast.success(t("notes.copiedToClipboard"));
       } else {
-        const ext = format === "json" ? "json" : "md";
-        annotationExporter.downloadAsFile(content, `${book.meta.title}-${format}.${ext}`, format);
+        const ext = template?.extension || (format === "json" ? "json" : "md");
+        const suffix = template?.name ?? format;
+        annotationExporter.downloadAsFile(content, `${book.meta.title}-${suffix}.${ext}`, format);
         toast.success(t("notes.exportSuccess"), {
           description: `${book.meta.title}.${ext}`,
         });
@@ -194,20 +223,38 @@ export function NotesPage() {
     }
   };
 
-  const handleSingleBookExport = (format: ExportFormat) => {
+  const handleVaultExport = async (bookIds: string[]) => {
+    try {
+      for (const bookId of bookIds) await exportBookToVault(bookId);
+      toast.success(t("notes.vaultExportSuccess", { count: bookIds.length }));
+    } catch (error) {
+      toast.error(t("notes.exportFailed"), { description: (error as Error).message });
+      console.error("Vault export failed:", error);
+    }
+  };
+
+  const handleSingleBookExport = (format: ExportFormat, template?: ExportTemplate) => {
     if (!selectedBook) return;
     const book = books.find((b) => b.id === selectedBook.bookId);
     if (!book) return;
-    const content = annotationExporter.export(
-      selectedBook.highlights as Highlight[],
-      [] as Note[],
-      book,
-      { format },
-    );
-    doExport(format, book, content);
+    let content: string;
+    try {
+      content = annotationExporter.export(
+        selectedBook.highlights as Highlight[],
+        [] as Note[],
+        book,
+        { format, template: template?.template },
+      );
+    } catch (error) {
+      toast.error(t("notes.exportFailed"), {
+        description: error instanceof TemplateSyntaxError ? error.message : undefined,
+      });
+      return;
+    }
+    doExport(format, book, content, template);
   };
 
-  const handleMultiBookExport = (format: ExportFormat) => {
+  const handleMultiBookExport = (format: ExportFormat, template?: ExportTemplate) => {
     const booksData = bookNotebooks
       .map((notebook) => {
         const book = books.find((b) => b.id === notebook.bookId);
@@ -217,23 +264,59 @@ export function NotesPage() {
       .filter((d): d is NonNullable<typeof d> => d !== null);
     if (booksData.length === 0) return;
     try {
-      const content = annotationExporter.exportMultipleBooks(booksData, { format });
+      const content = annotationExporter.exportMultipleBooks(booksData, {
+        format,
+        template: template?.template,
+      });
       if (format === "notion") {
         annotationExporter.copyToClipboard(content);
         toast.success(t("notes.copiedToClipboard"));
       } else {
-        const ext = format === "json" ? "json" : "md";
+        const ext = template?.extension || (format === "json" ? "json" : "md");
         annotationExporter.downloadAsFile(content, `all-annotations.${ext}`, format);
         toast.success(t("notes.exportSuccess"), {
           description: `all-annotations.${ext}`,
         });
       }
     } catch (error) {
-      toast.error(t("notes.exportFailed"));
+      toast.error(t("notes.exportFailed"), {
+        description: error instanceof TemplateSyntaxError ? error.message : undefined,
+      });
       console.error("Export failed:", error);
     }
   };
 
+  const reloadAfterImport = () => {
+    loadAllHighlightsWithBooks(500);
+    loadStats();
+  };
+
+  const importButton = (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="relative gap-1.5 h-7 text-xs"
+      title={t("notes.import_title")}
+      onClick={() => setImportOpen(true)}
+    >
+      <FileUp className="h-3 w-3" />
+      {t("notes.import")}
+      {pendingImports > 0 && (
+        <span className="rounded-full bg-primary px-1.5 text-[10px] font-medium text-primary-foreground">
+          {pendingImports}
+        </span>
+      )}
+    </Button>
+  );
+
+  const importDialog = (
+    <ImportAnnotationsDialog
+      open={importOpen}
+      onClose={() => setImportOpen(false)}
+      onImported={reloadAfterImport}
+    />
+  );
+
   if (isLoading) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -251,6 +334,8 @@ export function NotesPage() {
         <StickyNote className="mb-3 h-12 w-12 text-muted-foreground/50" />
         <p className="text-sm font-medium text-muted-foreground">{t("notes.empty")}</p>
         <p className="mt-1 text-xs text-muted-foreground/70">{t("notes.emptyHint")}</p>
+        <div className="mt-4">{importButton}</div>
+        {importDialog}
       </div>
     );
   }
@@ -276,7 +361,13 @@ export function NotesPage() {
               </p>
             </div>
             {!selectedBookId && (
-              <ExportDropdown onExport={handleMultiBookExport} />
+              <div className="flex items-center gap-1">
+                {importButton}
+                <ExportDropdown
+                  onExport={handleMultiBookExport}
+                  onExportToVault={() => handleVaultExport(bookNotebooks.map((n) => n.bookId))}
+                />
+              </div>
             )}
           </div>
         </div>
@@ -374,7 +465,13 @@ export function NotesPage() {
                   <BookOpen className="h-3 w-3" />
                   {t("notes.openBook")}
                 </Button>
-                <ExportDropdown onExport={handleSingleBookExport} variant="outline" size="sm" />
+                <ExportDropdown
+                  onExport={handleSingleBookExport}
+                  onExportToVault={() => handleVaultExport([selectedBook.bookId])}
+                  onReadingReport={() => setReportOpen(true)}
+                  variant="outline"
+                  size="sm"
+                />
               </div>
             </div>
 
@@ -453,6 +550,7 @@ export function NotesPage() {
                             onSaveNote={() => saveNote(item.id)}
                             onCancelEdit={cancelEdit}
                             onDeleteNote={() => handleDeleteNote(item)}
+                            onAddFlashcard={() => handleAddFlashcard(item)}
                             onNavigate={() => handleOpenBook(selectedBook.bookId, selectedBook.title, item.cfi)}
                             t={t}
                           />
@@ -461,6 +559,7 @@ export function NotesPage() {
                             key={item.id}
                             highlight={item}
                             onDelete={() => handleDeleteHighlight(item)}
+                            onAddFlashcard={() => handleAddFlashcard(item)}
                             onNavigate={() => handleOpenBook(selectedBook.bookId, selectedBook.title, item.cfi)}
                             t={t}
                           />
@@ -474,6 +573,12 @@ export function NotesPage() {
           </div>
         </div>
       )}
+      {importDialog}
+      <ReadingReportDialog
+        open={reportOpen}
+        onClose={() => setReportOpen(false)}
+        book={books.find((b) => b.id === selectedBookId) ?? null}
+      />
     </div>
   );
 }
@@ -563,6 +668,7 @@ interface NoteDetailCardProps {
   onSaveNote: () => void;
   onCancelEdit: () => void;
   onDeleteNote: () => void;
+  onAddFlashcard: () => void;
   onNavigate: () => void;
   t: (key: string) => string;
 }
@@ -576,6 +682,7 @@ function NoteDetailCard({
   onSaveNote,
   onCancelEdit,
   onDeleteNote,
+  onAddFlashcard,
   onNavigate,
   t,
 }: NoteDetailCardProps) {
@@ -636,6 +743,14 @@ function NoteDetailCard({
             >
               <Edit3 className="h-3 w-3" />
             </button>
+            <button
+              type="button"
+              className="rounded p-1 text-muted-foreground hover:text-primary hover:bg-primary/10"
+              onClick={onAddFlashcard}
+              title={t("flashcards.addFromHighlight")}
+            >
+              <Layers className="h-3 w-3" />
+            </button>
             <button
               type="button"
               className="rounded p-1 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
@@ -656,11 +771,12 @@ function NoteDetailCard({
 interface HighlightDetailCardProps {
   highlight: HighlightWithBook;
   onDelete: () => void;
+  onAddFlashcard: () => void;
   onNavigate: () => void;
   t: (key: string) => string;
 }
 
-function HighlightDetailCard({ highlight, onDelete, onNavigate, t }: HighlightDetailCardProps) {
+function HighlightDetailCard({ highlight, onDelete, onAddFlashcard, onNavigate, t }: HighlightDetailCardProps) {
   const hexColor = HIGHLIGHT_COLOR_HEX[highlight.color as keyof typeof HIGHLIGHT_COLOR_HEX] || HIGHLIGHT_COLOR_HEX.yellow;
 
   return (
@@ -683,14 +799,24 @@ function HighlightDetailCard({ highlight, onDelete, onNavigate, t }: HighlightDe
           <span className="text-[11px] text-muted-foreground/60">
             {new Date(highlight.createdAt).toLocaleDateString()}
           </span>
-          <button
-            type="button"
-            className="rounded p-1 text-muted-foreground hover:text-destructive hover:bg-destructive/10 opacity-0 group-hover:opacity-100 transition-opacity"
-            onClick={(e) => { e.stopPropagation(); onDelete(); }}
-            title={t("notebook.deleteHighlight")}
-          >
-            <Trash2 className="h-3 w-3" />
-          </button>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              type="button"
+              className="rounded p-1 text-muted-foreground hover:text-primary hover:bg-primary/10"
+              onClick={onAddFlashcard}
+              title={t("flashcards.addFromHighlight")}
+            >
+              <Layers className="h-3 w-3" />
+            </button>
+            <button
+              type="button"
+              className="rounded p-1 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+              onClick={(e) => { e.stopPropagation(); onDelete(); }}
+              title={t("notebook.deleteHighlight")}
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </div>
         </div>
       </div>
     </div>
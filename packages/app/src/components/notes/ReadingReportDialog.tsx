@@ -0,0 +1,147 @@
+/**
+ * ReadingReportDialog — build a book's reading report and save it as HTML or print it to PDF
+ */
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import {
+  type ReadingReportOptions,
+  type ReadingReportProgress,
+  buildReadingReport,
+  printReport,
+} from "@/lib/export/reading-report";
+import type { Book } from "@/types";
+import { save } from "@tauri-apps/plugin-dialog";
+import { FileDown, Loader2, Printer } from "lucide-react";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+
+interface ReadingReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  book: Book | null;
+}
+
+const OPTION_KEYS: Array<keyof ReadingReportOptions> = [
+  "includeContext",
+  "includeSummaries",
+  "includeStats",
+];
+
+export function ReadingReportDialog({ open, onClose, book }: ReadingReportDialogProps) {
+  const { t } = useTranslation();
+  const [options, setOptions] = useState<ReadingReportOptions>({
+    includeContext: true,
+    includeSummaries: false,
+    includeStats: true,
+  });
+  const [progress, setProgress] = useState<ReadingReportProgress | null>(null);
+  // The last report, reused while the options are unchanged (summaries are costly)
+  const [built, setBuilt] = useState<{ key: string; html: string } | null>(null);
+
+  const build = async (): Promise<string | null> => {
+    if (!book) return null;
+    const key = `${book.id}:${JSON.stringify(options)}`;
+    if (built?.key === key) return built.html;
+    try {
+      const html = await buildReadingReport(book, options, setProgress);
+      setBuilt({ key, html });
+      return html;
+    } catch (err) {
+      console.error("Reading report failed:", err);
+      toast.error(t("notes.report_failed"), { description: (err as Error).message });
+      return null;
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!book) return;
+    const html = await build();
+    if (!html) return;
+    const path = await save({
+      defaultPath: `${book.meta.title} - ${t("notes.report_fileSuffix")}.html`,
+      filters: [{ name: "HTML", extensions: ["html"] }],
+    });
+    if (!path) return;
+    try {
+      const { writeTextFile } = await import("@tauri-apps/plugin-fs");
+      await writeTextFile(path, html);
+      toast.success(t("notes.report_saved"), { description: path });
+    } catch (err) {
+      toast.error(t("notes.report_failed"), { description: (err as Error).message });
+    }
+  };
+
+  const handlePrint = async () => {
+    const html = await build();
+    if (html) await printReport(html).catch((err) => toast.error(err.message));
+  };
+
+  const busy = progress !== null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(o) => {
+        if (o || busy) return;
+        // Annotations may change before the dialog is opened again
+        setBuilt(null);
+        onClose();
+      }}
+    >
+      <DialogContent className="w-[480px] max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{t("notes.report_title")}</DialogTitle>
+          <DialogDescription>{t("notes.report_description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {OPTION_KEYS.map((key) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <div>
+                <span className="text-sm">{t(`notes.report_${key}`)}</span>
+                <p className="text-xs text-muted-foreground">{t(`notes.report_${key}Desc`)}</p>
+              </div>
+              <Switch
+                checked={options[key]}
+                disabled={busy}
+                onCheckedChange={(checked) => setOptions((prev) => ({ ...prev, [key]: checked }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        {progress && (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            {t(`notes.report_stage_${progress.stage}`, {
+              current: progress.current,
+              total: progress.total,
+            })}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" disabled={busy || !book} onClick={handlePrint}>
+            <Printer />
+            {t("notes.report_print")}
+          </Button>
+          <Button size="sm" disabled={busy || !book} onClick={handleSave}>
+            <FileDown />
+            {t("notes.report_save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * VectorizeQueuePanel — header button + dropdown listing queued, running and failed vectorization jobs
+ */
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useVectorModelStore } from "@/stores/vector-model-store";
+import { MAX_VECTORIZE_CONCURRENCY, useVectorizeQueueStore } from "@/stores/vectorize-queue-store";
+import type { VectorizeJob } from "@/types";
+import { AlertCircle, Clock, ListOrdered, Loader2, Pause, Play, RotateCcw, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+const CONCURRENCY_OPTIONS = Array.from({ length: MAX_VECTORIZE_CONCURRENCY }, (_, i) =>
+  String(i + 1),
+);
+
+const STATUS_ORDER: Record<VectorizeJob["status"], number> = { running: 0, pending: 1, failed: 2 };
+
+function JobRow({ job }: { job: VectorizeJob }) {
+  const { t } = useTranslation();
+  const cancel = useVectorizeQueueStore((s) => s.cancel);
+  const retry = useVectorizeQueueStore((s) => s.retry);
+
+  const pct =
+    job.progress && job.progress.totalChunks > 0
+      ? Math.round((job.progress.processedChunks / job.progress.totalChunks) * 100)
+      : 0;
+
+  return (
+    <div className="flex items-start gap-2 rounded-md px-2 py-1.5 hover:bg-muted/60">
+      <div className="mt-0.5 shrink-0">
+        {job.status === "running" ? (
+          <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />
+        ) : job.status === "failed" ? (
+          <AlertCircle className="h-3.5 w-3.5 text-destructive" />
+        ) : (
+          <Clock className="h-3.5 w-3.5 text-muted-foreground" />
+        )}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-xs font-medium text-foreground">{job.title}</p>
+        {job.status === "running" ? (
+          <div className="mt-1 h-1 w-full overflow-hidden rounded-full bg-muted">
+            <div className="h-full bg-primary transition-all" style={{ width: `${pct}%` }} />
+          </div>
+        ) : job.status === "failed" ? (
+          <p className="line-clamp-2 text-[10px] text-destructive" title={job.error}>
+            {job.error}
+          </p>
+        ) : (
+          <p className="text-[10px] text-muted-foreground">{t("vectorize.queue_pending")}</p>
+        )}
+      </div>
+      {job.status === "failed" && (
+        <button
+          type="button"
+          className="shrink-0 rounded p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground"
+          title={t("vectorize.queue_retry")}
+          onClick={() => retry(job.id)}
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+        </button>
+      )}
+      <button
+        type="button"
+        className="shrink-0 rounded p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground"
+        title={t("vectorize.queue_cancel")}
+        onClick={() => cancel(job.id)}
+      >
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
+
+export function VectorizeQueuePanel() {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const jobs = useVectorizeQueueStore((s) => s.jobs);
+  const paused = useVectorizeQueueStore((s) => s.paused);
+  const concurrency = useVectorizeQueueStore((s) => s.concurrency);
+  const { enqueueLibrary, pause, resume, setConcurrency, clearFailed } = useVectorizeQueueStore();
+  const hasVectorCapability = useVectorModelStore((s) => s.hasVectorCapability);
+
+  const sorted = [...jobs].sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]);
+  const activeCount = jobs.filter((j) => j.status !== "failed").length;
+  const hasFailed = jobs.some((j) => j.status === "failed");
+
+  // Close on outside click or Escape; the concurrency select renders its options in a portal
+  useEffect(() => {
+    if (!open) return;
+    const onMouseDown = (e: MouseEvent) => {
+      const target = e.target as Element;
+      if (panelRef.current?.contains(target)) return;
+      if (target.closest?.("[data-radix-popper-content-wrapper]")) return;
+      setOpen(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", onMouseDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", onMouseDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="relative flex items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-sm text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+        title={t("vectorize.queue_title")}
+      >
+        <ListOrdered className="size-4" />
+        {activeCount > 0 && (
+          <span className="rounded-full bg-primary px-1.5 text-[10px] font-medium text-primary-foreground">
+            {activeCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-10 z-50 w-80 rounded-lg border bg-popover p-2 shadow-lg">
+          <div className="flex items-center justify-between px-2 pb-2">
+            <span className="text-sm font-medium">{t("vectorize.queue_title")}</span>
+            <button
+              type="button"
+              className="flex items-center gap-1 rounded px-1.5 py-0.5 text-xs text-muted-foreground hover:bg-muted hover:text-foreground"
+              onClick={paused ? resume : pause}
+            >
+              {paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+              {paused ? t("vectorize.queue_resume") : t("vectorize.queue_pause")}
+            </button>
+          </div>
+
+          {paused && (
+            <p className="mx-2 mb-2 rounded bg-muted px-2 py-1 text-[11px] text-muted-foreground">
+              {t("vectorize.queue_pausedHint")}
+            </p>
+          )}
+
+          <div className="max-h-72 overflow-y-auto">
+            {sorted.length === 0 ? (
+              <p className="px-2 py-6 text-center text-xs text-muted-foreground">
+                {t("vectorize.queue_empty")}
+              </p>
+            ) : (
+              sorted.map((job) => <JobRow key={job.id} job={job} />)
+            )}
+          </div>
+
+          <div className="mt-2 flex items-center justify-between gap-2 border-t px-2 pt-2">
+            <div className="flex items-center gap-1.5">
+              <span className="text-xs text-muted-foreground">
+                {t("vectorize.queue_concurrency")}
+              </span>
+              <Select value={String(concurrency)} onValueChange={(v) => setConcurrency(Number(v))}>
+                <SelectTrigger className="h-7 w-14 px-2 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONCURRENCY_OPTIONS.map((n) => (
+                    <SelectItem key={n} value={n}>
+                      {n}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-1">
+              {hasFailed && (
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearFailed}>
+                  {t("vectorize.queue_clearFailed")}
+                </Button>
+              )}
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                disabled={!hasVectorCapability()}
+                onClick={enqueueLibrary}
+              >
+                {t("vectorize.queue_all")}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,9 @@ import { useAnnotationStore } from "@/stores/annotation-store";
 import { useLibraryStore } from "@/stores/library-store";
 import { ExportDropdown } from "@/components/notes/ExportDropdown";
 import { annotationExporter, type ExportFormat } from "@/lib/export/annotation-exporter";
+import type { ExportTemplate } from "@/stores/export-template-store";
+import { useVaultExportStore } from "@/stores/vault-export-store";
+import { toast } from "sonner";
 import type { Highlight, HighlightColor, Note } from "@/types";
 import { HIGHLIGHT_COLOR_HEX } from "@/types";
 import { MarkdownEditor } from "@/components/ui/markdown-editor";
@@ -54,6 +57,7 @@ export function NotebookPanel({ bookId, onClose, onGoToCfi, onAddAnnotation, onD
   } = useAnnotationStore();
 
   const books = useLibraryStore((s) => s.books);
+  const exportBookToVault = useVaultExportStore((s) => s.exportBook);
 
   // Local state for note content being edited
   const [noteContent, setNoteContent] = useState("");
@@ -191,23 +195,36 @@ export function NotebookPanel({ bookId, onClose, onGoToCfi, onAddAnnotation, onD
     }));
   };
 
-  const handleExport = (format: ExportFormat) => {
+  const handleExport = (format: ExportFormat, template?: ExportTemplate) => {
     const book = books.find((b) => b.id === bookId);
     if (!book) return;
-    const content = annotationExporter.export(
-      bookHighlights as Highlight[],
-      [] as Note[],
-      book,
-      { format },
-    );
+    let content: string;
+    try {
+      content = annotationExporter.export(
+        bookHighlights as Highlight[],
+        [] as Note[],
+        book,
+        { format, template: template?.template },
+      );
+    } catch (error) {
+      console.error("Export failed:", error);
+      return;
+    }
     if (format === "notion") {
       annotationExporter.copyToClipboard(content);
     } else {
-      const ext = format === "json" ? "json" : "md";
-      annotationExporter.downloadAsFile(content, `${book.meta.title}-${format}.${ext}`, format);
+      const ext = template?.extension || (format === "json" ? "json" : "md");
+      const suffix = template?.name ?? format;
+      annotationExporter.downloadAsFile(content, `${book.meta.title}-${suffix}.${ext}`, format);
     }
   };
 
+  const handleVaultExport = () => {
+    exportBookToVault(bookId)
+      .then((result) => toast.success(t("notes.vaultExportSuccess", { count: 1 }), { description: result.path }))
+      .catch((error) => toast.error(t("notes.exportFailed"), { description: error.message }));
+  };
+
   // Check if we're in editing mode
   const isEditing = pendingNote || editingHighlight;
   const editingText = pendingNote?.text || editingHighlight?.text || "";
@@ -222,6 +239,7 @@ export function NotebookPanel({ bookId, onClose, onGoToCfi, onAddAnnotation, onD
         <div className="flex items-center gap-1">
           <ExportDropdown
             onExport={handleExport}
+            onExportToVault={handleVaultExport}
             disabled={bookHighlights.length === 0}
           />
           <button
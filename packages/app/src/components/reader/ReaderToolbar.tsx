@@ -3,7 +3,17 @@ import type { TOCItem } from "./FoliateViewer";
 import { useAppStore } from "@/stores/app-store";
 import { useReaderStore } from "@/stores/reader-store";
 import { useNotebookStore } from "@/stores/notebook-store";
-import { ArrowLeft, List, MessageSquare, Search, Settings, StickyNote, Volume2 } from "lucide-react";
+import {
+  ArrowLeft,
+  Languages,
+  List,
+  Loader2,
+  MessageSquare,
+  Search,
+  Settings,
+  StickyNote,
+  Volume2,
+} from "lucide-react";
 import { useTranslation } from "react-i18next";
 import {
   Tooltip,
@@ -24,8 +34,11 @@ interface ReaderToolbarProps {
   onToggleSettings?: () => void;
   onToggleChat?: () => void;
   onToggleTTS?: () => void;
+  onToggleParallelText?: () => void;
   isChatOpen?: boolean;
   isTTSActive?: boolean;
+  isParallelText?: boolean;
+  isTranslating?: boolean;
   isFixedLayout?: boolean;
   onMouseEnter?: () => void;
   onMouseLeave?: () => void;
@@ -43,8 +56,11 @@ export function ReaderToolbar({
   onToggleSettings,
   onToggleChat,
   onToggleTTS,
+  onToggleParallelText,
   isChatOpen,
   isTTSActive,
+  isParallelText,
+  isTranslating,
   isFixedLayout = false,
   onMouseEnter,
   onMouseLeave,
@@ -108,8 +124,23 @@ export function ReaderToolbar({
         </span>
       </div>
 
-      {/* Right: TTS + search + AI chat + settings */}
+      {/* Right: parallel text + TTS + search + AI chat + settings */}
       <div className="flex items-center gap-0.5">
+        {!isFixedLayout && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`h-7 w-7 ${isParallelText ? "bg-primary/10 text-primary" : ""}`}
+            onClick={onToggleParallelText}
+            title={t("reader.parallelText")}
+          >
+            {isParallelText && isTranslating ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Languages className="h-3.5 w-3.5" />
+            )}
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="icon"
@@ -15,6 +15,8 @@
 import { ReadSettingsPanel } from "@/components/settings/ReadSettings";
 import { ChatPanel } from "@/components/chat/ChatPanel";
 import { useReadingSession } from "@/hooks/use-reading-session";
+import { useParallelText } from "@/hooks/reader/useParallelText";
+import { useReaderBridge } from "@/hooks/reader/useReaderBridge";
 import { DocumentLoader } from "@/lib/reader/document-loader";
 import type { BookDoc, BookFormat } from "@/lib/reader/document-loader";
 import { isFixedLayoutFormat } from "@/lib/reader/document-loader";
@@ -197,6 +199,7 @@ export function ReaderView({ bookId, tabId }: ReaderViewProps) {
   const setProgress = useReaderStore((s) => s.setProgress);
   const setChapter = useReaderStore((s) => s.setChapter);
   const setSelectedText = useReaderStore((s) => s.setSelectedText);
+  const toggleParallelText = useReaderStore((s) => s.toggleParallelText);
 
   const books = useLibraryStore((s) => s.books);
   const updateBook = useLibraryStore((s) => s.updateBook);
@@ -296,6 +299,20 @@ export function ReaderView({ bookId, tabId }: ReaderViewProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Bilingual parallel text (reflowable books only)
+  const {
+    translating: parallelTranslating,
+    onSectionLoad: onParallelSectionLoad,
+    onRelocate: onParallelRelocate,
+  } = useParallelText(
+    foliateRef,
+    bookId,
+    !!readerTab?.parallelText && !isFixedLayoutFormat(bookFormat),
+  );
+
+  // Let agent tools find passages and navigate in this book
+  useReaderBridge(foliateRef, bookId, foliateReady);
+
   // UI state
   const [selection, setSelection] = useState<BookSelection | null>(null);
   const [selectionPos, setSelectionPos] = useState({ x: 0, y: 0 });
@@ -422,8 +439,18 @@ export function ReaderView({ bookId, tabId }: ReaderViewProps) {
 
       // Throttled save to DB
       throttledSaveProgress(bookId, progress, cfi);
+
+      onParallelRelocate(detail);
     },
-    [tabId, bookId, bookFormat, setProgress, setChapter, throttledSaveProgress],
+    [
+      tabId,
+      bookId,
+      bookFormat,
+      setProgress,
+      setChapter,
+      throttledSaveProgress,
+      onParallelRelocate,
+    ],
   );
 
   const handleTocReady = useCallback((toc: TOCItem[]) => {
@@ -469,8 +496,10 @@ export function ReaderView({ bookId, tabId }: ReaderViewProps) {
           `[ReaderView] Section ${sectionIndex} loaded, re-rendered ${bookHighlights.length} highlights`,
         );
       }, 100);
+
+      onParallelSectionLoad();
     },
-    [highlights, bookId],
+    [highlights, bookId, onParallelSectionLoad],
   );
 
   const handleError = useCallback((err: Error) => {
@@ -1075,6 +1104,7 @@ export function ReaderView({ bookId, tabId }: ReaderViewProps) {
             {showTranslation && translationText && (
               <TranslationPopover
                 text={translationText}
+                bookId={bookId}
                 position={translationPos}
                 onClose={() => {
                   setShowTranslation(false);
@@ -1099,6 +1129,9 @@ export function ReaderView({ bookId, tabId }: ReaderViewProps) {
             onToggleTTS={handleToggleTTS}
             isChatOpen={showChat}
             isTTSActive={showTTS || ttsPlayState !== "stopped"}
+            onToggleParallelText={() => toggleParallelText(tabId)}
+            isParallelText={!!readerTab?.parallelText}
+            isTranslating={parallelTranslating}
             isFixedLayout={isFixedLayoutFormat(bookFormat)}
             onMouseEnter={handleMouseEnter}
             onMouseLeave={handleMouseLeave}
@@ -4,6 +4,7 @@
  */
 import { useSettingsStore } from "@/stores/settings-store";
 import { useTranslator } from "@/hooks/useTranslator";
+import { getTranslator, supportsLanguage } from "@/lib/translation/registry";
 import { Check, ChevronDown, Copy, Loader2, Languages, X } from "lucide-react";
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useTranslation } from "react-i18next";
@@ -11,6 +12,8 @@ import { TRANSLATOR_LANGS, TranslationTargetLang } from "@/types/translation";
 
 interface TranslationPopoverProps {
   text: string;
+  /** Book the text is from, to scope translation memory entries */
+  bookId?: string;
   position: { x: number; y: number };
   onClose: () => void;
 }
@@ -21,7 +24,7 @@ const POPOVER_MAX_HEIGHT = 200; // max total height
 const PADDING = 16;
 const GAP = 8;
 
-export function TranslationPopover({ text, position, onClose }: TranslationPopoverProps) {
+export function TranslationPopover({ text, bookId, position, onClose }: TranslationPopoverProps) {
   const { t } = useTranslation();
   const translationConfig = useSettingsStore((s) => s.translationConfig);
   const updateTranslationConfig = useSettingsStore((s) => s.updateTranslationConfig);
@@ -32,7 +35,7 @@ export function TranslationPopover({ text, position, onClose }: TranslationPopov
   const [copied, setCopied] = useState(false);
   const [langOpen, setLangOpen] = useState(false);
 
-  const { translate, loading, error, provider } = useTranslator({ targetLang });
+  const { translate, loading, error, provider } = useTranslator({ targetLang, bookId });
 
   // Refs
   const containerRef = useRef<HTMLDivElement>(null);
@@ -167,7 +170,11 @@ export function TranslationPopover({ text, position, onClose }: TranslationPopov
   const aiConfig = useSettingsStore((s) => s.aiConfig);
   const endpointId = translationConfig.provider.endpointId || aiConfig.activeEndpointId;
   const endpoint = aiConfig.endpoints.find((e) => e.id === endpointId);
-  const providerName = provider === "ai" ? (endpoint?.name || "AI") : "DeepL";
+  const translator = getTranslator(provider);
+  const providerName = provider === "ai" ? endpoint?.name || "AI" : translator?.label || provider;
+  const languages = Object.entries(TRANSLATOR_LANGS).filter(
+    ([code]) => !translator || supportsLanguage(translator, code),
+  );
 
   return (
     <div
@@ -197,7 +204,7 @@ export function TranslationPopover({ text, position, onClose }: TranslationPopov
             {langOpen && (
               <div className="absolute left-0 top-full z-50 mt-1 w-36 rounded-md border bg-background p-1 shadow-lg">
                 <div className="max-h-48 overflow-y-auto">
-                  {Object.entries(TRANSLATOR_LANGS).map(([code, name]) => (
+                  {languages.map(([code, name]) => (
                     <button
                       key={code}
                       type="button"
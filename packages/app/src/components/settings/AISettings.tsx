@@ -10,11 +10,13 @@ import {
 import { Slider } from "@/components/ui/slider";
 /**
  * AISettings — multi-endpoint, multi-provider AI configuration
- * Supports OpenAI-compatible, Anthropic Claude, Google Gemini
+ * Supports OpenAI-compatible, Anthropic Claude, Google Gemini, and local servers
  */
+import { DEFAULT_HISTORY_TOKEN_BUDGET } from "@/lib/ai/context-window";
+import { DEFAULT_LOCAL_BASE_URL, requiresApiKey } from "@/lib/ai/local-models";
 import { useSettingsStore } from "@/stores/settings-store";
-import type { AIEndpoint, AIProviderType } from "@/types";
-import { Loader2, Plus, RefreshCw, Trash2, X } from "lucide-react";
+import type { AIEndpoint, AIProviderType, ModelCapabilities } from "@/types";
+import { Brain, Eye, Loader2, Plus, RefreshCw, Trash2, Wrench, X } from "lucide-react";
 import { useCallback, useState } from "react";
 import { useTranslation } from "react-i18next";
 
@@ -28,14 +30,60 @@ const PROVIDER_DEFAULTS: Record<AIProviderType, { baseUrl: string; placeholder:
   anthropic: { baseUrl: "", placeholder: "https://api.anthropic.com", keyPlaceholder: "sk-ant-..." },
   google: { baseUrl: "", placeholder: "https://generativelanguage.googleapis.com", keyPlaceholder: "AIza..." },
   deepseek: { baseUrl: "https://api.deepseek.com", placeholder: "https://api.deepseek.com", keyPlaceholder: "sk-..." },
+  local: { baseUrl: DEFAULT_LOCAL_BASE_URL, placeholder: "http://localhost:1234/v1", keyPlaceholder: "" },
 };
 
+const CAPABILITY_ICONS: Array<{ key: keyof Omit<ModelCapabilities, "probedAt" | "contextLength">; icon: typeof Wrench }> = [
+  { key: "tools", icon: Wrench },
+  { key: "reasoning", icon: Brain },
+  { key: "vision", icon: Eye },
+];
+
+/** Icons for what a probed local model supports; dimmed while unknown */
+function ModelCapabilityIcons({ capabilities }: { capabilities?: ModelCapabilities }) {
+  const { t } = useTranslation();
+  return (
+    <span className="inline-flex items-center gap-0.5">
+      {CAPABILITY_ICONS.map(({ key, icon: Icon }) => {
+        const supported = capabilities?.[key];
+        return (
+          <span
+            key={key}
+            title={
+              capabilities
+                ? t(supported ? "settings.ai_capabilitySupported" : "settings.ai_capabilityMissing", {
+                    capability: t(`settings.ai_capability_${key}`),
+                  })
+                : t("settings.ai_capabilityUnknown")
+            }
+          >
+            <Icon
+              className={`h-3 w-3 ${
+                supported ? "text-primary" : capabilities ? "text-muted-foreground/30" : "text-muted-foreground/60"
+              }`}
+            />
+          </span>
+        );
+      })}
+      {capabilities?.contextLength && (
+        <span
+          className="ml-0.5 text-[10px] text-muted-foreground"
+          title={t("settings.ai_contextLength", { value: capabilities.contextLength })}
+        >
+          {Math.round(capabilities.contextLength / 1024)}k
+        </span>
+      )}
+    </span>
+  );
+}
+
 function EndpointCard({
   endpoint,
   isActive,
   onUpdate,
   onRemove,
   onFetchModels,
+  onProbeModel,
   onSetActive,
 }: {
   endpoint: AIEndpoint;
@@ -43,10 +91,26 @@ function EndpointCard({
   onUpdate: (id: string, updates: Partial<AIEndpoint>) => void;
   onRemove: (id: string) => void;
   onFetchModels: (id: string) => void;
+  onProbeModel: (id: string, model: string) => Promise<unknown>;
   onSetActive: (id: string) => void;
 }) {
   const { t } = useTranslation();
   const [newModelName, setNewModelName] = useState("");
+  const [probing, setProbing] = useState<string | null>(null);
+  const isLocal = endpoint.provider === "local";
+  const keyRequired = requiresApiKey(endpoint.provider || "openai");
+
+  const handleProbe = useCallback(
+    async (model: string) => {
+      setProbing(model);
+      try {
+        await onProbeModel(endpoint.id, model);
+      } finally {
+        setProbing(null);
+      }
+    },
+    [endpoint.id, onProbeModel],
+  );
 
   const handleAddModel = useCallback(() => {
     const name = newModelName.trim();
@@ -130,13 +194,16 @@ function EndpointCard({
             <SelectItem value="anthropic">{t("settings.ai_provider_anthropic")}</SelectItem>
             <SelectItem value="google">{t("settings.ai_provider_google")}</SelectItem>
             <SelectItem value="deepseek">{t("settings.ai_provider_deepseek")}</SelectItem>
+            <SelectItem value="local">{t("settings.ai_provider_local")}</SelectItem>
           </SelectContent>
         </Select>
       </div>
 
       {/* API Key */}
       <div>
-        <label className="mb-1 block text-xs text-muted-foreground">{t("settings.ai_apiKey")}</label>
+        <label className="mb-1 block text-xs text-muted-foreground">
+          {keyRequired ? t("settings.ai_apiKey") : t("settings.ai_apiKeyOptional")}
+        </label>
         <Input
           type="password"
           value={endpoint.apiKey}
@@ -144,12 +211,13 @@ function EndpointCard({
           placeholder={PROVIDER_DEFAULTS[endpoint.provider || "openai"].keyPlaceholder}
           className="h-8 text-sm"
         />
+        {isLocal && <p className="mt-1 text-xs text-muted-foreground">{t("settings.ai_localHint")}</p>}
       </div>
 
       {/* Base URL */}
       <div>
         <label className="mb-1 block text-xs text-muted-foreground">
-          {endpoint.provider === "openai" ? t("settings.ai_baseUrl") : t("settings.ai_baseUrlOptional")}
+          {endpoint.provider === "openai" || isLocal ? t("settings.ai_baseUrl") : t("settings.ai_baseUrlOptional")}
         </label>
         <Input
           value={endpoint.baseUrl}
@@ -165,7 +233,7 @@ function EndpointCard({
           variant="outline"
           size="sm"
           className="h-7 text-xs gap-1"
-          disabled={!endpoint.apiKey || endpoint.modelsFetching}
+          disabled={(keyRequired && !endpoint.apiKey) || endpoint.modelsFetching}
           onClick={() => onFetchModels(endpoint.id)}
         >
           {endpoint.modelsFetching ? (
@@ -216,6 +284,21 @@ function EndpointCard({
                 className="inline-flex items-center gap-1 rounded-md bg-background border px-2 py-0.5 text-xs text-foreground"
               >
                 {model}
+                {isLocal && (
+                  <button
+                    type="button"
+                    className="disabled:opacity-50"
+                    disabled={probing !== null}
+                    onClick={() => handleProbe(model)}
+                    title={t("settings.ai_probeModel")}
+                  >
+                    {probing === model ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <ModelCapabilityIcons capabilities={endpoint.modelCapabilities?.[model]} />
+                    )}
+                  </button>
+                )}
                 <button
                   type="button"
                   className="text-muted-foreground hover:text-destructive transition-colors"
@@ -246,6 +329,7 @@ export function AISettings() {
     setActiveModel,
     updateAIConfig,
     fetchModels,
+    probeModel,
   } = useSettingsStore();
 
   const [fetchError, setFetchError] = useState<string | null>(null);
@@ -307,6 +391,7 @@ export function AISettings() {
               onUpdate={updateEndpoint}
               onRemove={removeEndpoint}
               onFetchModels={handleFetchModels}
+              onProbeModel={probeModel}
               onSetActive={setActiveEndpoint}
             />
           ))}
@@ -414,23 +499,26 @@ export function AISettings() {
           </div>
         </div>
 
-        {/* Sliding Window Size */}
+        {/* History Token Budget */}
         <div>
           <h3 className="mb-2 text-xs text-muted-foreground">
-            {t("settings.slidingWindowSize", { value: aiConfig.slidingWindowSize ?? 8 })}
+            {t("settings.historyTokenBudget", {
+              value: aiConfig.historyTokenBudget ?? DEFAULT_HISTORY_TOKEN_BUDGET,
+            })}
           </h3>
           <Slider
-            min={2}
-            max={30}
-            step={2}
-            value={[aiConfig.slidingWindowSize ?? 8]}
-            onValueChange={([v]) => updateAIConfig({ slidingWindowSize: v })}
+            min={2000}
+            max={64000}
+            step={2000}
+            value={[aiConfig.historyTokenBudget ?? DEFAULT_HISTORY_TOKEN_BUDGET]}
+            onValueChange={([v]) => updateAIConfig({ historyTokenBudget: v })}
           />
           <div className="mt-2 flex justify-between text-xs text-muted-foreground">
-            <span>2</span>
-            <span>16</span>
-            <span>30</span>
+            <span>2000</span>
+            <span>32000</span>
+            <span>64000</span>
           </div>
+          <p className="mt-2 text-xs text-muted-foreground">{t("settings.historyTokenBudgetDesc")}</p>
         </div>
       </section>
     </div>
@@ -0,0 +1,212 @@
+/**
+ * BackupSettings — create a full backup file and restore one (merge or replace)
+ */
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  type OpenedBackup,
+  createBackup,
+  openBackup,
+  restoreBackup,
+  summarizeBackup,
+} from "@/lib/backup/backup-service";
+import type { RestoreMode } from "@/lib/db/database";
+import { useLibraryStore } from "@/stores/library-store";
+import { open, save } from "@tauri-apps/plugin-dialog";
+import { Archive, FolderOpen, Loader2, RotateCcw } from "lucide-react";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+
+export function BackupSettings() {
+  const { t } = useTranslation();
+  const loadBooks = useLibraryStore((s) => s.loadBooks);
+
+  const [includeSettings, setIncludeSettings] = useState(true);
+  const [includeBookFiles, setIncludeBookFiles] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  const [opened, setOpened] = useState<OpenedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [restoreSettings, setRestoreSettings] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const { blob, extension } = await createBackup({ includeSettings, includeBookFiles });
+      const date = new Date().toISOString().slice(0, 10);
+      const path = await save({
+        defaultPath: `readany-backup-${date}.${extension}`,
+        filters: [{ name: t("settings.backup_fileFilter"), extensions: [extension] }],
+      });
+      if (!path) return;
+      const { writeFile } = await import("@tauri-apps/plugin-fs");
+      await writeFile(path, new Uint8Array(await blob.arrayBuffer()));
+      toast.success(t("settings.backup_created"), { description: path });
+    } catch (err) {
+      console.error("Backup failed:", err);
+      toast.error(t("settings.backup_createFailed", { error: (err as Error).message }));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleOpen = async () => {
+    const selected = await open({
+      multiple: false,
+      filters: [{ name: t("settings.backup_fileFilter"), extensions: ["json", "zip"] }],
+    });
+    if (!selected || Array.isArray(selected)) return;
+    try {
+      const { readFile } = await import("@tauri-apps/plugin-fs");
+      const backup = await openBackup(await readFile(selected));
+      setOpened(backup);
+      setRestoreSettings(false);
+    } catch (err) {
+      setOpened(null);
+      toast.error(t("settings.backup_invalid", { error: (err as Error).message }));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!opened) return;
+    setRestoring(true);
+    try {
+      const report = await restoreBackup(opened, { mode, restoreSettings });
+      await loadBooks();
+      const rows = Object.values(report.rows).reduce((sum, n) => sum + (n ?? 0), 0);
+      setOpened(null);
+      if (report.settings > 0) {
+        // Stores hold the old settings in memory until the app reloads
+        toast.success(t("settings.backup_restored", { count: rows }), {
+          description: t("settings.backup_reloadHint"),
+          duration: Number.POSITIVE_INFINITY,
+          action: { label: t("settings.backup_reload"), onClick: () => window.location.reload() },
+        });
+      } else {
+        toast.success(t("settings.backup_restored", { count: rows }));
+      }
+    } catch (err) {
+      console.error("Restore failed:", err);
+      toast.error(t("settings.backup_restoreFailed", { error: (err as Error).message }));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const summary = opened ? summarizeBackup(opened.archive) : null;
+
+  return (
+    <div className="space-y-6 p-4 pt-3">
+      <section className="space-y-4 rounded-lg bg-muted/60 p-4">
+        <div>
+          <h2 className="text-sm font-medium text-neutral-900">{t("settings.backup_title")}</h2>
+          <p className="mt-0.5 text-xs text-neutral-500">{t("settings.backup_desc")}</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <span className="text-sm text-neutral-800">{t("settings.backup_includeSettings")}</span>
+            <p className="mt-1 text-xs text-neutral-500">
+              {t("settings.backup_includeSettingsDesc")}
+            </p>
+          </div>
+          <Switch checked={includeSettings} onCheckedChange={setIncludeSettings} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <span className="text-sm text-neutral-800">{t("settings.backup_includeBooks")}</span>
+            <p className="mt-1 text-xs text-neutral-500">{t("settings.backup_includeBooksDesc")}</p>
+          </div>
+          <Switch checked={includeBookFiles} onCheckedChange={setIncludeBookFiles} />
+        </div>
+
+        <Button size="sm" disabled={creating} onClick={handleCreate}>
+          {creating ? <Loader2 className="animate-spin" /> : <Archive />}
+          {t("settings.backup_create")}
+        </Button>
+      </section>
+
+      <section className="space-y-4 rounded-lg bg-muted/60 p-4">
+        <div>
+          <h2 className="text-sm font-medium text-neutral-900">{t("settings.restore_title")}</h2>
+          <p className="mt-0.5 text-xs text-neutral-500">{t("settings.restore_desc")}</p>
+        </div>
+
+        <Button variant="outline" size="sm" disabled={restoring} onClick={handleOpen}>
+          <FolderOpen />
+          {t("settings.restore_choose")}
+        </Button>
+
+        {opened && summary && (
+          <>
+            <div className="rounded-md bg-background px-3 py-2 text-xs text-neutral-600">
+              <p className="font-medium text-neutral-800">
+                {t("settings.restore_createdAt", {
+                  time: new Date(opened.archive.createdAt).toLocaleString(),
+                })}
+              </p>
+              <p className="mt-1">
+                {t("settings.restore_summary", {
+                  books: summary.books,
+                  highlights: summary.highlights,
+                  notes: summary.notes,
+                  threads: summary.threads,
+                  sessions: summary.reading_sessions,
+                })}
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-neutral-800">{t("settings.restore_mode")}</span>
+              <Select value={mode} onValueChange={(v) => setMode(v as RestoreMode)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">{t("settings.restore_merge")}</SelectItem>
+                  <SelectItem value="replace">{t("settings.restore_replace")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-neutral-500">
+              {mode === "merge"
+                ? t("settings.restore_mergeDesc")
+                : t("settings.restore_replaceDesc")}
+            </p>
+
+            {opened.archive.settings && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-neutral-800">
+                  {t("settings.restore_restoreSettings")}
+                </span>
+                <Switch checked={restoreSettings} onCheckedChange={setRestoreSettings} />
+              </div>
+            )}
+
+            <Button
+              size="sm"
+              variant={mode === "replace" ? "destructive" : "default"}
+              disabled={restoring}
+              onClick={handleRestore}
+            >
+              {restoring ? <Loader2 className="animate-spin" /> : <RotateCcw />}
+              {mode === "replace"
+                ? t("settings.restore_replaceButton")
+                : t("settings.restore_button")}
+            </Button>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
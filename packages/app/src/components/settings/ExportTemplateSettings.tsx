@@ -0,0 +1,283 @@
+/**
+ * ExportTemplateSettings — edit named annotation export templates with a live preview
+ */
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { annotationExporter } from "@/lib/export/annotation-exporter";
+import { TEMPLATE_HELPERS, renderTemplate } from "@/lib/export/template-engine";
+import { cn } from "@/lib/utils";
+import { useExportTemplateStore } from "@/stores/export-template-store";
+import type { Book, Highlight, Note } from "@/types";
+import { Plus, Trash2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+const SAMPLE_TIME = Date.UTC(2024, 2, 14, 9, 30);
+
+const SAMPLE_BOOK: Book = {
+  id: "sample-book",
+  filePath: "",
+  format: "epub",
+  meta: { title: "Walden", author: "Henry David Thoreau", language: "en", publishDate: "1854" },
+  addedAt: SAMPLE_TIME,
+  progress: 0.42,
+  isVectorized: false,
+  vectorizeProgress: 0,
+  tags: ["philosophy"],
+};
+
+const SAMPLE_HIGHLIGHTS: Highlight[] = [
+  {
+    id: "sample-h1",
+    bookId: SAMPLE_BOOK.id,
+    cfi: "epubcfi(/6/4!/4/2/1:0)",
+    text: "I went to the woods because I wished to live deliberately.",
+    color: "yellow",
+    note: "The thesis of the whole book.",
+    chapterTitle: "Where I Lived, and What I Lived For",
+    createdAt: SAMPLE_TIME,
+    updatedAt: SAMPLE_TIME,
+  },
+  {
+    id: "sample-h2",
+    bookId: SAMPLE_BOOK.id,
+    cfi: "epubcfi(/6/4!/4/8/1:12)",
+    text: "Our life is frittered away by detail. Simplify, simplify.",
+    color: "green",
+    chapterTitle: "Where I Lived, and What I Lived For",
+    createdAt: SAMPLE_TIME + 60_000,
+    updatedAt: SAMPLE_TIME + 60_000,
+  },
+  {
+    id: "sample-h3",
+    bookId: SAMPLE_BOOK.id,
+    cfi: "epubcfi(/6/6!/4/2/1:0)",
+    text: "Books are the treasured wealth of the world.",
+    color: "blue",
+    chapterTitle: "Reading",
+    createdAt: SAMPLE_TIME + 120_000,
+    updatedAt: SAMPLE_TIME + 120_000,
+  },
+];
+
+const SAMPLE_NOTES: Note[] = [
+  {
+    id: "sample-n1",
+    bookId: SAMPLE_BOOK.id,
+    highlightId: "sample-h1",
+    title: "",
+    content: "",
+    tags: ["theme", "quote"],
+    createdAt: SAMPLE_TIME,
+    updatedAt: SAMPLE_TIME,
+  },
+  {
+    id: "sample-n2",
+    bookId: SAMPLE_BOOK.id,
+    title: "Economy",
+    content: "Compare his budget with a modern one.",
+    chapterTitle: "Economy",
+    tags: ["idea"],
+    createdAt: SAMPLE_TIME + 180_000,
+    updatedAt: SAMPLE_TIME + 180_000,
+  },
+];
+
+const TEMPLATE_VARIABLES = [
+  "book.title",
+  "book.author",
+  "book.publisher",
+  "book.language",
+  "book.isbn",
+  "book.publishDate",
+  "book.format",
+  "book.tags",
+  "book.progress",
+  "exportedAt",
+  "highlightCount",
+  "noteCount",
+  "highlights[].text",
+  "highlights[].color",
+  "highlights[].note",
+  "highlights[].chapter",
+  "highlights[].cfi",
+  "highlights[].tags",
+  "highlights[].createdAt",
+  "chapters[].title",
+  "chapters[].highlights",
+  "notes[].title",
+  "notes[].content",
+  "notes[].tags",
+];
+
+export function ExportTemplateSettings() {
+  const { t } = useTranslation();
+  const { templates, addTemplate, updateTemplate, removeTemplate } = useExportTemplateStore();
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+
+  const selected = templates.find((tpl) => tpl.id === selectedId) ?? null;
+
+  const preview = useMemo(() => {
+    if (!selected) return null;
+    try {
+      const context = annotationExporter.buildTemplateContext(
+        SAMPLE_HIGHLIGHTS,
+        SAMPLE_NOTES,
+        SAMPLE_BOOK,
+      );
+      return { output: renderTemplate(selected.template, context), error: null };
+    } catch (err) {
+      return { output: "", error: (err as Error).message };
+    }
+  }, [selected]);
+
+  const handleAdd = () => {
+    const created = addTemplate({
+      name: t("settings.template_untitled"),
+      template: "# {{book.title}}\n\n{{#each highlights}}\n- {{text}}\n{{/each}}\n",
+      extension: "md",
+    });
+    setSelectedId(created.id);
+  };
+
+  const handleRemove = (id: string) => {
+    removeTemplate(id);
+    if (selectedId === id) setSelectedId(templates.find((tpl) => tpl.id !== id)?.id ?? null);
+  };
+
+  return (
+    <div className="space-y-6 p-4 pt-3">
+      <section className="space-y-4 rounded-lg bg-muted/60 p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-sm font-medium text-neutral-900">{t("settings.template_title")}</h2>
+            <p className="mt-0.5 text-xs text-neutral-500">{t("settings.template_desc")}</p>
+          </div>
+          <Button variant="outline" size="sm" className="gap-1.5" onClick={handleAdd}>
+            <Plus className="h-3.5 w-3.5" />
+            {t("settings.template_add")}
+          </Button>
+        </div>
+
+        {templates.length === 0 ? (
+          <p className="text-xs text-neutral-500">{t("settings.template_empty")}</p>
+        ) : (
+          <div className="space-y-1">
+            {templates.map((tpl) => (
+              <div
+                key={tpl.id}
+                className={cn(
+                  "flex items-center justify-between rounded-md px-2.5 py-1.5 text-sm",
+                  tpl.id === selectedId ? "bg-background font-medium" : "hover:bg-background/60",
+                )}
+              >
+                <button
+                  type="button"
+                  className="min-w-0 flex-1 truncate text-left text-neutral-800"
+                  onClick={() => setSelectedId(tpl.id)}
+                >
+                  {tpl.name}
+                  <span className="ml-2 text-xs text-neutral-400">.{tpl.extension}</span>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title={t("common.remove")}
+                  onClick={() => handleRemove(tpl.id)}
+                >
+                  <Trash2 className="h-3.5 w-3.5 text-neutral-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {selected && (
+        <section className="space-y-4 rounded-lg bg-muted/60 p-4">
+          <div className="flex gap-3">
+            <div className="flex-1 space-y-1">
+              <label htmlFor="export-template-name" className="block text-xs text-neutral-600">
+                {t("settings.template_name")}
+              </label>
+              <Input
+                id="export-template-name"
+                value={selected.name}
+                onChange={(e) => updateTemplate(selected.id, { name: e.target.value })}
+              />
+            </div>
+            <div className="w-28 space-y-1">
+              <label htmlFor="export-template-extension" className="block text-xs text-neutral-600">
+                {t("settings.template_extension")}
+              </label>
+              <Input
+                id="export-template-extension"
+                value={selected.extension}
+                onChange={(e) =>
+                  updateTemplate(selected.id, {
+                    extension: e.target.value.replace(/^\.+/, "").trim(),
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label htmlFor="export-template-source" className="block text-xs text-neutral-600">
+                {t("settings.template_source")}
+              </label>
+              <Textarea
+                id="export-template-source"
+                value={selected.template}
+                onChange={(e) => updateTemplate(selected.id, { template: e.target.value })}
+                spellCheck={false}
+                className="h-72 resize-none font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-neutral-600">{t("settings.template_preview")}</span>
+              {preview?.error ? (
+                <p className="h-72 overflow-auto rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-600">
+                  {preview.error}
+                </p>
+              ) : (
+                <pre className="h-72 overflow-auto whitespace-pre-wrap rounded-md border border-neutral-200 bg-background p-2 font-mono text-xs text-neutral-800">
+                  {preview?.output}
+                </pre>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-neutral-500">{t("settings.template_previewHint")}</p>
+        </section>
+      )}
+
+      <section className="space-y-3 rounded-lg bg-muted/60 p-4">
+        <h2 className="text-sm font-medium text-neutral-900">{t("settings.template_reference")}</h2>
+        <p className="text-xs text-neutral-500">
+          {t("settings.template_syntax", {
+            value: "{{path}}",
+            helper: '{{date createdAt "YYYY-MM-DD"}}',
+            blocks: "{{#each}}, {{#if}}, {{#unless}}, {{#with}}",
+            otherwise: "{{else}}",
+            loopVars: "@index, @number, @first, @last",
+          })}
+        </p>
+        <div>
+          <span className="text-xs text-neutral-600">{t("settings.template_variables")}</span>
+          <p className="mt-1 font-mono text-xs leading-relaxed text-neutral-700">
+            {TEMPLATE_VARIABLES.join("  ")}
+          </p>
+        </div>
+        <div>
+          <span className="text-xs text-neutral-600">{t("settings.template_helpers")}</span>
+          <p className="mt-1 font-mono text-xs leading-relaxed text-neutral-700">
+            {TEMPLATE_HELPERS.join("  ")}
+          </p>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,471 @@
+/**
+ * MCPSettings — external tool servers (Model Context Protocol) for the reading agent
+ * - stdio servers are launched as local processes, http servers are reached by URL
+ * - each server can be switched off, and only the tools ticked here are offered to the agent
+ */
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { listMcpServerTools } from "@/lib/mcp/mcp-manager";
+import { useMcpStore } from "@/stores/mcp-store";
+import type { McpServerConfig, McpTransportType } from "@/types";
+import { Edit2, Loader2, Plus, RefreshCw, Trash2, X } from "lucide-react";
+import { useCallback, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+interface FormData {
+  name: string;
+  transport: McpTransportType;
+  command: string;
+  args: string;
+  env: string;
+  url: string;
+  headers: string;
+}
+
+const EMPTY_FORM: FormData = {
+  name: "",
+  transport: "stdio",
+  command: "",
+  args: "",
+  env: "",
+  url: "",
+  headers: "",
+};
+
+/** Parse "KEY=value" (env) or "Name: value" (headers) lines */
+function parsePairs(text: string, separator: "=" | ":"): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const index = line.indexOf(separator);
+    if (index <= 0) continue;
+    pairs[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+  }
+  return pairs;
+}
+
+function formatPairs(pairs: Record<string, string> | undefined, separator: "=" | ": "): string {
+  return Object.entries(pairs ?? {})
+    .map(([key, value]) => `${key}${separator}${value}`)
+    .join("\n");
+}
+
+function toConfigFields(form: FormData): Partial<McpServerConfig> {
+  return {
+    name: form.name.trim(),
+    transport: form.transport,
+    command: form.command.trim() || undefined,
+    args: form.args
+      .split("\n")
+      .map((a) => a.trim())
+      .filter(Boolean),
+    env: parsePairs(form.env, "="),
+    url: form.url.trim() || undefined,
+    headers: parsePairs(form.headers, ":"),
+  };
+}
+
+export function MCPSettings() {
+  const { t } = useTranslation();
+  const { servers, addServer, updateServer, removeServer } = useMcpStore();
+
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const resetForm = useCallback(() => {
+    setFormData(EMPTY_FORM);
+    setShowAddForm(false);
+    setEditingId(null);
+  }, []);
+
+  const isFormValid =
+    !!formData.name.trim() &&
+    (formData.transport === "stdio" ? !!formData.command.trim() : !!formData.url.trim());
+
+  const refreshTools = useCallback(
+    async (server: McpServerConfig) => {
+      setLoadingId(server.id);
+      setErrors((prev) => ({ ...prev, [server.id]: "" }));
+      try {
+        const tools = await listMcpServerTools(server, true);
+        updateServer(server.id, {
+          discoveredTools: tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+          })),
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setErrors((prev) => ({ ...prev, [server.id]: message }));
+      } finally {
+        setLoadingId(null);
+      }
+    },
+    [updateServer],
+  );
+
+  const handleAdd = useCallback(() => {
+    if (!isFormValid) return;
+    const server: McpServerConfig = {
+      id: `mcp-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      ...(toConfigFields(formData) as Pick<McpServerConfig, "name" | "transport">),
+      enabled: true,
+      allowedTools: [],
+      createdAt: Date.now(),
+    };
+    addServer(server);
+    resetForm();
+    void refreshTools(server);
+  }, [isFormValid, formData, addServer, resetForm, refreshTools]);
+
+  const startEdit = useCallback((server: McpServerConfig) => {
+    setFormData({
+      name: server.name,
+      transport: server.transport,
+      command: server.command ?? "",
+      args: (server.args ?? []).join("\n"),
+      env: formatPairs(server.env, "="),
+      url: server.url ?? "",
+      headers: formatPairs(server.headers, ": "),
+    });
+    setEditingId(server.id);
+    setShowAddForm(false);
+  }, []);
+
+  const handleEdit = useCallback(() => {
+    if (!editingId || !isFormValid) return;
+    updateServer(editingId, toConfigFields(formData));
+    resetForm();
+  }, [editingId, isFormValid, formData, updateServer, resetForm]);
+
+  const toggleTool = useCallback(
+    (server: McpServerConfig, toolName: string, allowed: boolean) => {
+      const allowedTools = allowed
+        ? [...new Set([...server.allowedTools, toolName])]
+        : server.allowedTools.filter((name) => name !== toolName);
+      updateServer(server.id, { allowedTools });
+    },
+    [updateServer],
+  );
+
+  return (
+    <div className="space-y-6 p-4 pt-3">
+      <section className="rounded-lg bg-muted/60 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h2 className="text-sm font-medium text-foreground">{t("settings.mcp_title")}</h2>
+            <p className="text-xs text-muted-foreground mt-0.5">{t("settings.mcp_desc")}</p>
+          </div>
+          {!showAddForm && !editingId && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs gap-1"
+              onClick={() => {
+                setShowAddForm(true);
+                setEditingId(null);
+              }}
+            >
+              <Plus className="h-3 w-3" />
+              {t("settings.mcp_addServer")}
+            </Button>
+          )}
+        </div>
+
+        {servers.length === 0 && !showAddForm && (
+          <p className="text-xs text-muted-foreground text-center py-4">
+            {t("settings.mcp_noServers")}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {servers.map((server) => {
+            const tools = server.discoveredTools ?? [];
+            return (
+              <div
+                key={server.id}
+                className={`rounded-lg border p-3 transition-colors ${
+                  server.enabled ? "border-primary/50 bg-primary/5" : "border-border bg-background"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 min-w-0 flex-1">
+                    <span className="text-sm font-medium truncate">{server.name}</span>
+                    <span className="rounded bg-muted px-1.5 py-0.5 text-[10px] uppercase text-muted-foreground">
+                      {server.transport}
+                    </span>
+                    {tools.length > 0 && (
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {t("settings.mcp_toolsAllowed", {
+                          allowed: server.allowedTools.length,
+                          total: tools.length,
+                        })}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => refreshTools(server)}
+                      disabled={loadingId === server.id}
+                      className="p-0.5 text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                      title={t("settings.mcp_refreshTools")}
+                    >
+                      {loadingId === server.id ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-3 w-3" />
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startEdit(server)}
+                      className="p-0.5 text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                      <Edit2 className="h-3 w-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeServer(server.id)}
+                      className="p-0.5 text-muted-foreground hover:text-destructive transition-colors"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                    <Switch
+                      checked={server.enabled}
+                      onCheckedChange={(enabled) => updateServer(server.id, { enabled })}
+                    />
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground truncate font-mono">
+                  {server.transport === "stdio"
+                    ? [server.command, ...(server.args ?? [])].join(" ")
+                    : server.url}
+                </p>
+                {errors[server.id] && (
+                  <p className="mt-1 text-xs text-destructive">
+                    {t("settings.mcp_connectFailed", { error: errors[server.id] })}
+                  </p>
+                )}
+
+                {tools.length > 0 && (
+                  <div className="mt-2 space-y-1 border-t border-border/60 pt-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">
+                        {t("settings.mcp_allowList")}
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            updateServer(server.id, {
+                              allowedTools: tools.map((tool) => tool.name),
+                            })
+                          }
+                          className="text-xs text-muted-foreground hover:text-foreground"
+                        >
+                          {t("settings.mcp_allowAll")}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => updateServer(server.id, { allowedTools: [] })}
+                          className="text-xs text-muted-foreground hover:text-foreground"
+                        >
+                          {t("settings.mcp_allowNone")}
+                        </button>
+                      </div>
+                    </div>
+                    {tools.map((tool) => (
+                      <div key={tool.name} className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-xs font-mono text-foreground">{tool.name}</p>
+                          {tool.description && (
+                            <p className="text-xs text-muted-foreground truncate">
+                              {tool.description}
+                            </p>
+                          )}
+                        </div>
+                        <Switch
+                          checked={server.allowedTools.includes(tool.name)}
+                          onCheckedChange={(allowed) => toggleTool(server, tool.name, allowed)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Add / Edit form */}
+        {(showAddForm || editingId) && (
+          <div className="mt-3 rounded-lg border border-border bg-background p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">
+                {editingId ? t("settings.mcp_editServer") : t("settings.mcp_addServer")}
+              </h3>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={resetForm}>
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label
+                  htmlFor="mcp-server-name"
+                  className="mb-1 block text-xs text-muted-foreground"
+                >
+                  {t("settings.mcp_name")} *
+                </label>
+                <Input
+                  id="mcp-server-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData((p) => ({ ...p, name: e.target.value }))}
+                  placeholder="Zotero"
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="mcp-server-transport"
+                  className="mb-1 block text-xs text-muted-foreground"
+                >
+                  {t("settings.mcp_transport")}
+                </label>
+                <Select
+                  value={formData.transport}
+                  onValueChange={(v) =>
+                    setFormData((p) => ({ ...p, transport: v as McpTransportType }))
+                  }
+                >
+                  <SelectTrigger id="mcp-server-transport" className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="stdio">{t("settings.mcp_transportStdio")}</SelectItem>
+                    <SelectItem value="http">{t("settings.mcp_transportHttp")}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.transport === "stdio" ? (
+              <>
+                <div>
+                  <label
+                    htmlFor="mcp-server-command"
+                    className="mb-1 block text-xs text-muted-foreground"
+                  >
+                    {t("settings.mcp_command")} *
+                  </label>
+                  <Input
+                    id="mcp-server-command"
+                    value={formData.command}
+                    onChange={(e) => setFormData((p) => ({ ...p, command: e.target.value }))}
+                    placeholder="npx"
+                    className="h-8 text-sm font-mono"
+                  />
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {t("settings.mcp_commandHint")}
+                  </p>
+                </div>
+                <div>
+                  <label
+                    htmlFor="mcp-server-args"
+                    className="mb-1 block text-xs text-muted-foreground"
+                  >
+                    {t("settings.mcp_args")}
+                  </label>
+                  <Textarea
+                    id="mcp-server-args"
+                    value={formData.args}
+                    onChange={(e) => setFormData((p) => ({ ...p, args: e.target.value }))}
+                    placeholder={"-y\n@modelcontextprotocol/server-everything"}
+                    className="text-sm font-mono"
+                    rows={3}
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="mcp-server-env"
+                    className="mb-1 block text-xs text-muted-foreground"
+                  >
+                    {t("settings.mcp_env")}
+                  </label>
+                  <Textarea
+                    id="mcp-server-env"
+                    value={formData.env}
+                    onChange={(e) => setFormData((p) => ({ ...p, env: e.target.value }))}
+                    placeholder="API_KEY=..."
+                    className="text-sm font-mono"
+                    rows={2}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label
+                    htmlFor="mcp-server-url"
+                    className="mb-1 block text-xs text-muted-foreground"
+                  >
+                    {t("settings.mcp_url")} *
+                  </label>
+                  <Input
+                    id="mcp-server-url"
+                    value={formData.url}
+                    onChange={(e) => setFormData((p) => ({ ...p, url: e.target.value }))}
+                    placeholder="http://localhost:8000/mcp"
+                    className="h-8 text-sm font-mono"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="mcp-server-headers"
+                    className="mb-1 block text-xs text-muted-foreground"
+                  >
+                    {t("settings.mcp_headers")}
+                  </label>
+                  <Textarea
+                    id="mcp-server-headers"
+                    value={formData.headers}
+                    onChange={(e) => setFormData((p) => ({ ...p, headers: e.target.value }))}
+                    placeholder="Authorization: Bearer ..."
+                    className="text-sm font-mono"
+                    rows={2}
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={resetForm}>
+                {t("common.cancel")}
+              </Button>
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                disabled={!isFormValid}
+                onClick={editingId ? handleEdit : handleAdd}
+              >
+                {editingId ? t("common.save") : t("settings.mcp_addServer")}
+              </Button>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
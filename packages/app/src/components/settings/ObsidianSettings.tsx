@@ -0,0 +1,103 @@
+/**
+ * ObsidianSettings — vault folder, auto-export and a one-click export of all books
+ */
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useVaultExportStore } from "@/stores/vault-export-store";
+import { open } from "@tauri-apps/plugin-dialog";
+import { FolderOpen, Loader2, Upload } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+
+export function ObsidianSettings() {
+  const { t } = useTranslation();
+  const { config, exporting, lastExportAt, error, updateConfig, exportAllBooks } =
+    useVaultExportStore();
+
+  const handlePickVault = async () => {
+    const selected = await open({ directory: true, multiple: false });
+    if (!selected || Array.isArray(selected)) return;
+    updateConfig({ vaultPath: selected });
+  };
+
+  const handleExportAll = async () => {
+    try {
+      const results = await exportAllBooks();
+      const changed = results.filter((r) => r.created || r.added + r.updated + r.removed > 0);
+      toast.success(t("settings.obsidian_exported", { count: changed.length }));
+    } catch (err) {
+      toast.error(t("settings.obsidian_exportFailed", { error: (err as Error).message }));
+    }
+  };
+
+  return (
+    <div className="space-y-6 p-4 pt-3">
+      <section className="space-y-3 rounded-lg bg-muted/60 p-4">
+        <div>
+          <h2 className="text-sm font-medium text-neutral-900">{t("settings.obsidian_title")}</h2>
+          <p className="mt-0.5 text-xs text-neutral-500">{t("settings.obsidian_desc")}</p>
+        </div>
+        <div className="space-y-1.5">
+          <span className="text-xs text-neutral-600">{t("settings.obsidian_vault")}</span>
+          <div className="flex gap-2">
+            <Input
+              placeholder={t("settings.obsidian_vaultPlaceholder")}
+              value={config.vaultPath}
+              onChange={(e) => updateConfig({ vaultPath: e.target.value })}
+            />
+            <Button variant="outline" size="sm" className="h-9 shrink-0" onClick={handlePickVault}>
+              <FolderOpen />
+              {t("settings.obsidian_browse")}
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <span className="text-xs text-neutral-600">{t("settings.obsidian_folder")}</span>
+          <Input
+            placeholder="ReadAny"
+            value={config.folder}
+            onChange={(e) => updateConfig({ folder: e.target.value })}
+          />
+          <p className="text-xs text-neutral-500">{t("settings.obsidian_folderDesc")}</p>
+        </div>
+      </section>
+
+      <section className="space-y-4 rounded-lg bg-muted/60 p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <span className="text-sm text-neutral-800">{t("settings.obsidian_autoExport")}</span>
+            <p className="mt-1 text-xs text-neutral-500">{t("settings.obsidian_autoExportDesc")}</p>
+          </div>
+          <Switch
+            checked={config.autoExport}
+            disabled={!config.vaultPath}
+            onCheckedChange={(autoExport) => updateConfig({ autoExport })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="text-xs text-neutral-500">
+            {error ? (
+              <span className="text-red-600">{error}</span>
+            ) : lastExportAt ? (
+              t("settings.obsidian_lastExport", { time: new Date(lastExportAt).toLocaleString() })
+            ) : (
+              t("settings.obsidian_neverExported")
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!config.vaultPath || exporting}
+            onClick={handleExportAll}
+          >
+            {exporting ? <Loader2 className="animate-spin" /> : <Upload />}
+            {t("settings.obsidian_exportAll")}
+          </Button>
+        </div>
+        <p className="text-xs text-neutral-500">{t("settings.obsidian_blocksHint")}</p>
+      </section>
+    </div>
+  );
+}
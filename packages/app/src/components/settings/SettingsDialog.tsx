@@ -7,27 +7,66 @@ import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { AboutSettings } from "./AboutSettings";
 import { AISettings } from "./AISettings";
+import { BackupSettings } from "./BackupSettings";
+import { ExportTemplateSettings } from "./ExportTemplateSettings";
 import { GeneralSettings } from "./GeneralSettings";
+import { MCPSettings } from "./MCPSettings";
+import { ObsidianSettings } from "./ObsidianSettings";
 import { ReadSettingsPanel } from "./ReadSettings";
+import { SyncSettings } from "./SyncSettings";
+import { TranslationMemorySettings } from "./TranslationMemorySettings";
 import { TranslationSettings } from "./TranslationSettings";
 import { TTSSettings } from "./TTSSettings";
 import { VectorModelSettings } from "./VectorModelSettings";
 
-type SettingsTab = "general" | "reading" | "ai" | "vectorModel" | "tts" | "translation" | "about";
+type SettingsTab =
+  | "general"
+  | "reading"
+  | "ai"
+  | "vectorModel"
+  | "mcp"
+  | "tts"
+  | "translation"
+  | "translationMemory"
+  | "sync"
+  | "templates"
+  | "obsidian"
+  | "backup"
+  | "about";
 
 interface SettingsDialogProps {
   open: boolean;
   onClose: () => void;
 }
 
-const TAB_IDS: SettingsTab[] = ["general", "reading", "ai", "vectorModel", "tts", "translation", "about"];
+const TAB_IDS: SettingsTab[] = [
+  "general",
+  "reading",
+  "ai",
+  "vectorModel",
+  "mcp",
+  "tts",
+  "translation",
+  "translationMemory",
+  "sync",
+  "templates",
+  "obsidian",
+  "backup",
+  "about",
+];
 const TAB_KEYS: Record<SettingsTab, string> = {
   general: "settings.general",
   reading: "settings.reading",
   ai: "settings.ai",
   vectorModel: "settings.vectorModel",
+  mcp: "settings.mcpTab",
   tts: "settings.tts",
   translation: "settings.translationTab",
+  translationMemory: "settings.translationMemoryTab",
+  sync: "settings.syncTab",
+  templates: "settings.templatesTab",
+  obsidian: "settings.obsidianTab",
+  backup: "settings.backupTab",
   about: "settings.about",
 };
 
@@ -70,8 +109,14 @@ export function SettingsDialog({ open, onClose }: SettingsDialogProps) {
             {activeTab === "reading" && <ReadSettingsPanel />}
             {activeTab === "ai" && <AISettings />}
             {activeTab === "vectorModel" && <VectorModelSettings />}
+            {activeTab === "mcp" && <MCPSettings />}
             {activeTab === "tts" && <TTSSettings />}
             {activeTab === "translation" && <TranslationSettings />}
+            {activeTab === "translationMemory" && <TranslationMemorySettings />}
+            {activeTab === "sync" && <SyncSettings />}
+            {activeTab === "templates" && <ExportTemplateSettings />}
+            {activeTab === "obsidian" && <ObsidianSettings />}
+            {activeTab === "backup" && <BackupSettings />}
             {activeTab === "about" && <AboutSettings />}
           </div>
         </div>
@@ -0,0 +1,161 @@
+/**
+ * SyncSettings — WebDAV sync configuration and manual sync trigger
+ */
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useSyncStore } from "@/stores/sync-store";
+import { Loader2, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+
+const AUTO_SYNC_OPTIONS = [0, 5, 15, 30, 60];
+
+export function SyncSettings() {
+  const { t } = useTranslation();
+  const { config, status, lastSyncAt, error, updateConfig, syncNow, testConnection } =
+    useSyncStore();
+  const [testing, setTesting] = useState(false);
+
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      await testConnection();
+      toast.success(t("settings.sync_testSuccess"));
+    } catch (err) {
+      toast.error(t("settings.sync_testFailed", { error: (err as Error).message }));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSync = async () => {
+    try {
+      await syncNow();
+      toast.success(t("settings.sync_success"));
+    } catch {
+      // Error is surfaced through the store status below
+    }
+  };
+
+  const isSyncing = status === "syncing";
+
+  return (
+    <div className="space-y-6 p-4 pt-3">
+      <section className="rounded-lg bg-muted/60 p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-medium text-neutral-900">{t("settings.sync_title")}</h2>
+            <p className="mt-0.5 text-xs text-neutral-500">{t("settings.sync_desc")}</p>
+          </div>
+          <Switch
+            checked={config.enabled}
+            onCheckedChange={(enabled) => updateConfig({ enabled })}
+          />
+        </div>
+      </section>
+
+      {config.enabled && (
+        <>
+          <section className="space-y-3 rounded-lg bg-muted/60 p-4">
+            <h2 className="text-sm font-medium text-neutral-900">{t("settings.sync_server")}</h2>
+            <div className="space-y-1.5">
+              <span className="text-xs text-neutral-600">{t("settings.sync_url")}</span>
+              <Input
+                placeholder="https://dav.example.com/remote.php/dav/files/me"
+                value={config.url}
+                onChange={(e) => updateConfig({ url: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <span className="text-xs text-neutral-600">{t("settings.sync_username")}</span>
+                <Input
+                  value={config.username}
+                  onChange={(e) => updateConfig({ username: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <span className="text-xs text-neutral-600">{t("settings.sync_password")}</span>
+                <Input
+                  type="password"
+                  value={config.password}
+                  onChange={(e) => updateConfig({ password: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <span className="text-xs text-neutral-600">{t("settings.sync_remoteDir")}</span>
+              <Input
+                placeholder="readany"
+                value={config.remoteDir}
+                onChange={(e) => updateConfig({ remoteDir: e.target.value })}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!config.url || testing}
+              onClick={handleTest}
+            >
+              {testing && <Loader2 className="animate-spin" />}
+              {t("settings.sync_test")}
+            </Button>
+          </section>
+
+          <section className="space-y-4 rounded-lg bg-muted/60 p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-sm text-neutral-800">{t("settings.sync_autoSync")}</span>
+                <p className="mt-1 text-xs text-neutral-500">{t("settings.sync_autoSyncDesc")}</p>
+              </div>
+              <Select
+                value={String(config.autoSyncMinutes)}
+                onValueChange={(v) => updateConfig({ autoSyncMinutes: Number(v) })}
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_SYNC_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes === 0
+                        ? t("settings.sync_autoSyncOff")
+                        : t("settings.sync_everyMinutes", { count: minutes })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="text-xs text-neutral-500">
+                {status === "error" && error ? (
+                  <span className="text-destructive">{t("settings.sync_error", { error })}</span>
+                ) : status === "offline" ? (
+                  t("settings.sync_offline")
+                ) : lastSyncAt ? (
+                  t("settings.sync_lastSync", { time: new Date(lastSyncAt).toLocaleString() })
+                ) : (
+                  t("settings.sync_never")
+                )}
+              </div>
+              <Button size="sm" disabled={!config.url || isSyncing} onClick={handleSync}>
+                {isSyncing ? <Loader2 className="animate-spin" /> : <RefreshCw />}
+                {t("settings.sync_now")}
+              </Button>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * TranslationMemorySettings — inspect, search, export/import (TMX) and purge the translation memory
+ */
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  type TranslationMemoryBookStats,
+  deleteTranslationMemoryEntry,
+  getTranslationMemoryStats,
+  searchTranslationMemory,
+} from "@/lib/db/database";
+import {
+  DEFAULT_MEMORY_LIMIT_MB,
+  clearTranslationCache,
+  exportTranslationMemory,
+  importTranslationMemory,
+} from "@/lib/translation/cache";
+import { useSettingsStore } from "@/stores/settings-store";
+import type { TranslationMemoryEntry } from "@/types";
+import { open, save } from "@tauri-apps/plugin-dialog";
+import { Download, Loader2, Search, Trash2, Upload } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 50;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function TranslationMemorySettings() {
+  const { t } = useTranslation();
+  const { translationConfig, updateTranslationConfig } = useSettingsStore();
+
+  const [stats, setStats] = useState<TranslationMemoryBookStats[]>([]);
+  const [entries, setEntries] = useState<TranslationMemoryEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [query, setQuery] = useState("");
+  const [bookFilter, setBookFilter] = useState<string | undefined>(undefined);
+  const [busy, setBusy] = useState(false);
+  const [confirmPurge, setConfirmPurge] = useState(false);
+
+  const totalCount = stats.reduce((sum, s) => sum + s.count, 0);
+  const totalSize = stats.reduce((sum, s) => sum + s.size, 0);
+
+  const loadEntries = useCallback(
+    async (offset = 0) => {
+      const page = await searchTranslationMemory({
+        query: query.trim() || undefined,
+        bookId: bookFilter,
+        limit: PAGE_SIZE,
+        offset,
+      });
+      setEntries((prev) => (offset === 0 ? page : [...prev, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
+    },
+    [query, bookFilter],
+  );
+
+  const refresh = useCallback(async () => {
+    try {
+      setStats(await getTranslationMemoryStats());
+      await loadEntries(0);
+    } catch (err) {
+      console.error("Failed to load translation memory:", err);
+    }
+  }, [loadEntries]);
+
+  useEffect(() => {
+    const timer = setTimeout(refresh, 200);
+    return () => clearTimeout(timer);
+  }, [refresh]);
+
+  const bookLabel = (s: { bookId: string; title?: string | null }) =>
+    s.bookId ? s.title || t("settings.tm_deletedBook") : t("settings.tm_noBook");
+
+  const handleExport = async (bookId?: string) => {
+    const path = await save({
+      defaultPath: "readany-translation-memory.tmx",
+      filters: [{ name: "TMX", extensions: ["tmx"] }],
+    });
+    if (!path) return;
+    setBusy(true);
+    try {
+      const { writeTextFile } = await import("@tauri-apps/plugin-fs");
+      await writeTextFile(path, await exportTranslationMemory(bookId));
+      toast.success(t("settings.tm_exported"), { description: path });
+    } catch (err) {
+      toast.error(t("settings.tm_exportFailed", { error: (err as Error).message }));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const selected = await open({
+      multiple: false,
+      filters: [{ name: "TMX", extensions: ["tmx", "xml"] }],
+    });
+    if (!selected || Array.isArray(selected)) return;
+    setBusy(true);
+    try {
+      const { readTextFile } = await import("@tauri-apps/plugin-fs");
+      const count = await importTranslationMemory(await readTextFile(selected));
+      toast.success(t("settings.tm_imported", { count }));
+      await refresh();
+    } catch (err) {
+      toast.error(t("settings.tm_importFailed", { error: (err as Error).message }));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePurge = async (bookId?: string) => {
+    if (bookId === undefined && !confirmPurge) {
+      setConfirmPurge(true);
+      return;
+    }
+    setConfirmPurge(false);
+    await clearTranslationCache(bookId);
+    if (bookId !== undefined && bookFilter === bookId) setBookFilter(undefined);
+    await refresh();
+  };
+
+  const handleDeleteEntry = async (id?: number) => {
+    if (id === undefined) return;
+    await deleteTranslationMemoryEntry(id);
+    setEntries((prev) => prev.filter((e) => e.id !== id));
+    setStats(await getTranslationMemoryStats());
+  };
+
+  return (
+    <div className="space-y-6 p-4 pt-3">
+      <section className="space-y-4 rounded-lg bg-muted/60 p-4">
+        <div>
+          <h2 className="text-sm font-medium text-neutral-900">{t("settings.tm_title")}</h2>
+          <p className="mt-0.5 text-xs text-neutral-500">{t("settings.tm_desc")}</p>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-neutral-600">
+          <span>
+            {t("settings.tm_summary", { count: totalCount, size: formatSize(totalSize) })}
+          </span>
+          <div className="flex items-center gap-2">
+            <span>{t("settings.tm_limit")}</span>
+            <Input
+              type="number"
+              min={1}
+              className="h-7 w-20 text-xs"
+              value={translationConfig.memoryLimitMB ?? DEFAULT_MEMORY_LIMIT_MB}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value > 0) updateTranslationConfig({ memoryLimitMB: value });
+              }}
+            />
+            <span>MB</span>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" disabled={busy} onClick={() => handleExport()}>
+            {busy ? <Loader2 className="animate-spin" /> : <Download />}
+            {t("settings.tm_exportAll")}
+          </Button>
+          <Button variant="outline" size="sm" disabled={busy} onClick={handleImport}>
+            <Upload />
+            {t("settings.tm_import")}
+          </Button>
+          <Button
+            variant={confirmPurge ? "destructive" : "outline"}
+            size="sm"
+            disabled={busy || totalCount === 0}
+            onClick={() => handlePurge()}
+            onBlur={() => setConfirmPurge(false)}
+          >
+            <Trash2 />
+            {confirmPurge ? t("settings.tm_purgeConfirm") : t("settings.tm_purgeAll")}
+          </Button>
+        </div>
+      </section>
+
+      {stats.length > 0 && (
+        <section className="space-y-2 rounded-lg bg-muted/60 p-4">
+          <h3 className="text-sm font-medium text-neutral-900">{t("settings.tm_byBook")}</h3>
+          {stats.map((s) => (
+            <div key={s.bookId} className="flex items-center justify-between gap-3 text-xs">
+              <button
+                type="button"
+                className={`min-w-0 truncate text-left hover:underline ${
+                  bookFilter === s.bookId ? "font-medium text-primary" : "text-neutral-800"
+                }`}
+                onClick={() => setBookFilter(bookFilter === s.bookId ? undefined : s.bookId)}
+              >
+                {bookLabel(s)}
+              </button>
+              <div className="flex shrink-0 items-center gap-2 text-neutral-500">
+                <span>
+                  {t("settings.tm_bookSummary", { count: s.count, size: formatSize(s.size) })}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title={t("settings.tm_export")}
+                  disabled={busy}
+                  onClick={() => handleExport(s.bookId)}
+                >
+                  <Download className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title={t("settings.tm_purge")}
+                  onClick={() => handlePurge(s.bookId)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </section>
+      )}
+
+      <section className="space-y-3 rounded-lg bg-muted/60 p-4">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-neutral-400" />
+          <Input
+            className="pl-8"
+            placeholder={t("settings.tm_searchPlaceholder")}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="py-4 text-center text-xs text-neutral-500">{t("settings.tm_empty")}</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div
+                key={entry.id}
+                className="group rounded-md border border-neutral-200 bg-background p-2.5 text-xs"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 space-y-1">
+                    <p className="line-clamp-2 text-neutral-800">{entry.sourceText}</p>
+                    <p className="line-clamp-2 text-neutral-500">{entry.translation}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                    title={t("common.remove")}
+                    onClick={() => handleDeleteEntry(entry.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                <p className="mt-1.5 text-[10px] text-neutral-400">
+                  {entry.provider} · {entry.sourceLang} → {entry.targetLang} ·{" "}
+                  {new Date(entry.lastUsedAt).toLocaleDateString()}
+                </p>
+              </div>
+            ))}
+            {hasMore && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full"
+                onClick={() => loadEntries(entries.length)}
+              >
+                {t("settings.tm_loadMore")}
+              </Button>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
+import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { TRANSLATOR_PROVIDERS } from "@/types/translation";
+import { Textarea } from "@/components/ui/textarea";
+import { getTranslator, getTranslators } from "@/lib/translation/registry";
+import type { TranslatorConfigField } from "@/lib/translation/types";
 import { Check, ChevronDown } from "lucide-react";
 /**
  * TranslationSettings — translation provider config
+ * Each provider's form is rendered from its config schema in the registry
  * AI translation uses existing AI config from AI settings
  * Target language is selected in the translation popup
  */
@@ -17,7 +21,9 @@ export function TranslationSettings() {
   const [modelOpen, setModelOpen] = useState(false);
   const modelPopoverRef = useRef<HTMLDivElement>(null);
 
-  const isAIProvider = translationConfig.provider.id === "ai";
+  const translators = getTranslators();
+  const currentProvider = getTranslator(translationConfig.provider.id);
+  const providerSettings = translationConfig.providerSettings?.[translationConfig.provider.id] ?? {};
 
   // Get all endpoints with models
   const endpointsWithModels = aiConfig.endpoints.filter((e) => e.models.length > 0);
@@ -43,8 +49,8 @@ export function TranslationSettings() {
   const handleProviderChange = (providerId: string) => {
     updateTranslationConfig({
       provider: {
-        id: providerId as "ai" | "deepl",
-        name: TRANSLATOR_PROVIDERS.find((p) => p.id === providerId)?.name || "",
+        id: providerId,
+        name: getTranslator(providerId)?.label || "",
         model: providerId === "ai" ? translationConfig.provider.model : undefined,
         endpointId: providerId === "ai" ? translationConfig.provider.endpointId : undefined,
       },
@@ -62,15 +68,22 @@ export function TranslationSettings() {
     setModelOpen(false);
   };
 
-  const handleApiKeyChange = (apiKey: string) => {
+  const handleFieldChange = (key: string, value: string) => {
     updateTranslationConfig({
-      provider: {
-        ...translationConfig.provider,
-        apiKey,
+      providerSettings: {
+        ...translationConfig.providerSettings,
+        [translationConfig.provider.id]: { ...providerSettings, [key]: value },
       },
     });
   };
 
+  /** Current form value; DeepL keys entered before per-provider settings live on the provider */
+  const fieldValue = (key: string): string => {
+    if (providerSettings[key] !== undefined) return providerSettings[key];
+    const legacy = translationConfig.provider[key as "apiKey" | "baseUrl"];
+    return typeof legacy === "string" ? legacy : "";
+  };
+
   // Provider dropdown
   const [providerOpen, setProviderOpen] = useState(false);
   const providerPopoverRef = useRef<HTMLDivElement>(null);
@@ -86,7 +99,74 @@ export function TranslationSettings() {
     return () => document.removeEventListener("mousedown", handler);
   }, [providerOpen]);
 
-  const currentProvider = TRANSLATOR_PROVIDERS.find((p) => p.id === translationConfig.provider.id);
+  const renderField = (field: TranslatorConfigField) => (
+    <div key={field.key} className="space-y-2">
+      <span className="text-sm text-neutral-800">{t(field.label)}</span>
+      <Input
+        type={field.type === "password" ? "password" : "text"}
+        placeholder={field.placeholder}
+        value={fieldValue(field.key)}
+        onChange={(e) => handleFieldChange(field.key, e.target.value)}
+      />
+      {field.hint && <p className="text-xs text-neutral-500">{t(field.hint)}</p>}
+    </div>
+  );
+
+  const renderModelPicker = (field: TranslatorConfigField) => (
+    <div key={field.key} className="space-y-2">
+      <span className="text-sm text-neutral-800">{t(field.label)}</span>
+      {endpointsWithModels.length > 0 ? (
+        <div className="relative" ref={modelPopoverRef}>
+          <button
+            type="button"
+            onClick={() => totalModels > 1 && setModelOpen(!modelOpen)}
+            className={`flex w-full items-center justify-between rounded-lg border border-input bg-background px-3 py-2 text-sm ${
+              totalModels > 1 ? "hover:bg-muted" : ""
+            }`}
+          >
+            <span className="truncate">{selectedModel || t("settings.selectModel", "选择模型")}</span>
+            {totalModels > 1 && <ChevronDown className="h-4 w-4 shrink-0 text-muted-foreground" />}
+          </button>
+          {modelOpen && totalModels > 1 && (
+            <div className="absolute left-0 top-full z-50 mt-1 w-full rounded-lg border bg-background p-1 shadow-lg">
+              <div className="max-h-60 overflow-y-auto">
+                {endpointsWithModels.map((ep) => (
+                  <div key={ep.id}>
+                    {multipleEndpoints && (
+                      <div className="px-3 pb-0.5 pt-2 text-[10px] font-medium uppercase tracking-wide text-muted-foreground first:pt-1">
+                        {ep.name || ep.baseUrl}
+                      </div>
+                    )}
+                    {ep.models.map((model) => {
+                      const isActive = model === selectedModel && ep.id === selectedEndpointId;
+                      return (
+                        <button
+                          key={`${ep.id}-${model}`}
+                          type="button"
+                          onClick={() => handleModelSelect(ep.id, model)}
+                          className={`flex w-full items-center justify-between rounded-md px-3 py-2 text-left text-sm transition-colors ${
+                            isActive ? "bg-primary/10 text-primary" : "hover:bg-muted"
+                          }`}
+                        >
+                          <span className="truncate">{model}</span>
+                          {isActive && <Check className="h-4 w-4 shrink-0" />}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="rounded-lg border border-input bg-background px-3 py-2 text-sm text-muted-foreground">
+          {t("settings.noModelsFetched", "请先在 AI 设置中获取模型列表")}
+        </div>
+      )}
+      {field.hint && <p className="text-xs text-neutral-500">{t(field.hint)}</p>}
+    </div>
+  );
 
   return (
     <div className="space-y-4 p-4 pt-3">
@@ -106,26 +186,26 @@ export function TranslationSettings() {
                 onClick={() => setProviderOpen(!providerOpen)}
                 className="flex w-full items-center justify-between rounded-lg border border-input bg-background px-3 py-2 text-sm hover:bg-muted"
               >
-                <span>{currentProvider?.name || "选择引擎"}</span>
+                <span>{currentProvider?.label || t("settings.translator_select")}</span>
                 <ChevronDown className="h-4 w-4 shrink-0 text-muted-foreground" />
               </button>
               {providerOpen && (
                 <div className="absolute left-0 top-full z-50 mt-1 w-full rounded-lg border bg-background p-1 shadow-lg">
-                  {TRANSLATOR_PROVIDERS.map((provider) => {
-                    const isActive = provider.id === translationConfig.provider.id;
+                  {translators.map((provider) => {
+                    const isActive = provider.name === translationConfig.provider.id;
                     return (
                       <button
-                        key={provider.id}
+                        key={provider.name}
                         type="button"
                         onClick={() => {
-                          handleProviderChange(provider.id);
+                          handleProviderChange(provider.name);
                           setProviderOpen(false);
                         }}
                         className={`flex w-full items-center justify-between rounded-md px-3 py-2 text-left text-sm transition-colors ${
                           isActive ? "bg-primary/10 text-primary" : "hover:bg-muted"
                         }`}
                       >
-                        <span>{provider.name}</span>
+                        <span>{provider.label}</span>
                         {isActive && <Check className="h-4 w-4 shrink-0" />}
                       </button>
                     );
@@ -133,81 +213,51 @@ export function TranslationSettings() {
                 </div>
               )}
             </div>
+            {currentProvider && (
+              <div className="flex flex-wrap gap-1.5">
+                <Badge variant="secondary">
+                  {currentProvider.capabilities.requiresKey
+                    ? t("settings.translator_needsKey")
+                    : t("settings.translator_noKey")}
+                </Badge>
+                <Badge variant="secondary">
+                  {t("settings.translator_batchSize", {
+                    count: currentProvider.capabilities.batchSize,
+                  })}
+                </Badge>
+                <Badge variant="secondary">
+                  {currentProvider.capabilities.languages === "all"
+                    ? t("settings.translator_allLanguages")
+                    : t("settings.translator_languages", {
+                        count: currentProvider.capabilities.languages.length,
+                      })}
+                </Badge>
+                {currentProvider.capabilities.glossary && (
+                  <Badge variant="secondary">{t("settings.translator_glossarySupported")}</Badge>
+                )}
+              </div>
+            )}
           </div>
 
-          {/* AI 模型选择 (only show for AI provider) */}
-          {isAIProvider && (
-            <div className="space-y-2">
-              <label className="text-sm text-neutral-800">{t("settings.translationModel", "翻译模型")}</label>
-              {endpointsWithModels.length > 0 ? (
-                <div className="relative" ref={modelPopoverRef}>
-                  <button
-                    type="button"
-                    onClick={() => totalModels > 1 && setModelOpen(!modelOpen)}
-                    className={`flex w-full items-center justify-between rounded-lg border border-input bg-background px-3 py-2 text-sm ${
-                      totalModels > 1 ? "hover:bg-muted" : ""
-                    }`}
-                  >
-                    <span className="truncate">{selectedModel || t("settings.selectModel", "选择模型")}</span>
-                    {totalModels > 1 && <ChevronDown className="h-4 w-4 shrink-0 text-muted-foreground" />}
-                  </button>
-                  {modelOpen && totalModels > 1 && (
-                    <div className="absolute left-0 top-full z-50 mt-1 w-full rounded-lg border bg-background p-1 shadow-lg">
-                      <div className="max-h-60 overflow-y-auto">
-                        {endpointsWithModels.map((ep) => (
-                          <div key={ep.id}>
-                            {multipleEndpoints && (
-                              <div className="px-3 pb-0.5 pt-2 text-[10px] font-medium uppercase tracking-wide text-muted-foreground first:pt-1">
-                                {ep.name || ep.baseUrl}
-                              </div>
-                            )}
-                            {ep.models.map((model) => {
-                              const isActive = model === selectedModel && ep.id === selectedEndpointId;
-                              return (
-                                <button
-                                  key={`${ep.id}-${model}`}
-                                  type="button"
-                                  onClick={() => handleModelSelect(ep.id, model)}
-                                  className={`flex w-full items-center justify-between rounded-md px-3 py-2 text-left text-sm transition-colors ${
-                                    isActive ? "bg-primary/10 text-primary" : "hover:bg-muted"
-                                  }`}
-                                >
-                                  <span className="truncate">{model}</span>
-                                  {isActive && <Check className="h-4 w-4 shrink-0" />}
-                                </button>
-                              );
-                            })}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ) : (
-                <div className="rounded-lg border border-input bg-background px-3 py-2 text-sm text-muted-foreground">
-                  {t("settings.noModelsFetched", "请先在 AI 设置中获取模型列表")}
-                </div>
-              )}
-            </div>
+          {currentProvider?.configSchema.map((field) =>
+            field.type === "aiModel" ? renderModelPicker(field) : renderField(field),
           )}
 
-          {/* DeepL API Key (only show for DeepL) */}
-          {!isAIProvider && (
+          {currentProvider?.capabilities.glossary && (
             <div className="space-y-2">
-              <label className="text-sm text-neutral-800">{t("settings.apiKey", "API 密钥")}</label>
-              <Input
-                type="password"
-                placeholder={t("settings.apiKeyPlaceholder", "输入 API 密钥")}
-                value={translationConfig.provider.apiKey || ""}
-                onChange={(e) => handleApiKeyChange(e.target.value)}
+              <span className="text-sm text-neutral-800">{t("settings.translator_glossary")}</span>
+              <Textarea
+                rows={4}
+                className="font-mono text-xs"
+                placeholder={t("settings.translator_glossaryPlaceholder")}
+                value={translationConfig.glossary || ""}
+                onChange={(e) => updateTranslationConfig({ glossary: e.target.value })}
               />
-              <p className="text-xs text-neutral-500">
-                {t("settings.deeplKeyHint", "DeepL API 密钥")}
-              </p>
+              <p className="text-xs text-neutral-500">{t("settings.translator_glossaryHint")}</p>
             </div>
           )}
         </div>
       </section>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -6,11 +6,22 @@
  */
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
-import { BUILTIN_EMBEDDING_MODELS } from "@/lib/ai/builtin-embedding-models";
+import {
+  BUILTIN_EMBEDDING_MODELS,
+  BUILTIN_RERANKER_MODELS,
+} from "@/lib/ai/builtin-embedding-models";
 import { loadEmbeddingPipeline } from "@/lib/ai/local-embedding-service";
 import { useVectorModelStore } from "@/stores/vector-model-store";
-import type { VectorModelConfig } from "@/types";
+import type { FusionMethod, RerankMode, VectorModelConfig } from "@/types";
 import { Check, Download, Edit2, Loader2, Plus, Trash2, X } from "lucide-react";
 import { useCallback, useState } from "react";
 import { useTranslation } from "react-i18next";
@@ -432,6 +443,119 @@ function RemoteModelsSection() {
   );
 }
 
+/* ------------------------------------------------------------------ */
+/*  Retrieval Section (fusion + reranking)                            */
+/* ------------------------------------------------------------------ */
+function RetrievalSection() {
+  const { t } = useTranslation();
+  const { retrievalConfig, updateRetrievalConfig } = useVectorModelStore();
+
+  return (
+    <section className="space-y-4 rounded-lg bg-muted/60 p-4">
+      <div>
+        <h2 className="text-sm font-medium text-foreground">{t("settings.vm_retrievalTitle")}</h2>
+        <p className="text-xs text-muted-foreground mt-0.5">{t("settings.vm_retrievalDesc")}</p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-neutral-800">{t("settings.vm_fusion")}</span>
+        <Select
+          value={retrievalConfig.fusion}
+          onValueChange={(v) => updateRetrievalConfig({ fusion: v as FusionMethod })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="rrf">{t("settings.vm_fusionRrf")}</SelectItem>
+            <SelectItem value="weighted">{t("settings.vm_fusionWeighted")}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {retrievalConfig.fusion === "weighted" && (
+        <div>
+          <div className="mb-3 flex items-center justify-between">
+            <span className="text-sm text-neutral-800">{t("settings.vm_hybridAlpha")}</span>
+            <span className="rounded bg-background px-2 py-0.5 text-xs font-medium text-neutral-600">
+              {retrievalConfig.hybridAlpha.toFixed(2)}
+            </span>
+          </div>
+          <Slider
+            min={0}
+            max={1}
+            step={0.05}
+            value={[retrievalConfig.hybridAlpha]}
+            onValueChange={([v]) => updateRetrievalConfig({ hybridAlpha: v })}
+          />
+          <p className="mt-1 text-xs text-muted-foreground">{t("settings.vm_hybridAlphaHint")}</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-neutral-800">{t("settings.vm_rerank")}</span>
+        <Select
+          value={retrievalConfig.rerank}
+          onValueChange={(v) => updateRetrievalConfig({ rerank: v as RerankMode })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">{t("settings.vm_rerankNone")}</SelectItem>
+            <SelectItem value="cross-encoder">{t("settings.vm_rerankCrossEncoder")}</SelectItem>
+            <SelectItem value="llm">{t("settings.vm_rerankLLM")}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {retrievalConfig.rerank === "cross-encoder" && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-neutral-800">{t("settings.vm_rerankModel")}</span>
+          <Select
+            value={retrievalConfig.crossEncoderModelId}
+            onValueChange={(v) => updateRetrievalConfig({ crossEncoderModelId: v })}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUILTIN_RERANKER_MODELS.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.name} · {t(model.languagesKey)} · {model.size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {retrievalConfig.rerank !== "none" && (
+        <div>
+          <div className="mb-3 flex items-center justify-between">
+            <span className="text-sm text-neutral-800">{t("settings.vm_rerankCandidates")}</span>
+            <span className="rounded bg-background px-2 py-0.5 text-xs font-medium text-neutral-600">
+              {retrievalConfig.rerankCandidates}
+            </span>
+          </div>
+          <Slider
+            min={5}
+            max={50}
+            step={5}
+            value={[retrievalConfig.rerankCandidates]}
+            onValueChange={([v]) => updateRetrievalConfig({ rerankCandidates: v })}
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            {retrievalConfig.rerank === "llm"
+              ? t("settings.vm_rerankLLMHint")
+              : t("settings.vm_rerankCrossEncoderHint")}
+          </p>
+        </div>
+      )}
+    </section>
+  );
+}
+
 /* ------------------------------------------------------------------ */
 /*  Main Component                                                    */
 /* ------------------------------------------------------------------ */
@@ -492,6 +616,8 @@ export function VectorModelSettings() {
 
           {/* Content based on mode */}
           {vectorModelMode === "builtin" ? <BuiltinModelsSection /> : <RemoteModelsSection />}
+
+          <RetrievalSection />
         </>
       )}
     </div>
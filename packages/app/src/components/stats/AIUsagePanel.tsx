@@ -0,0 +1,325 @@
+/**
+ * AIUsagePanel — AI spend from the usage ledger: quota limits per tier,
+ * period totals with estimated cost, daily usage and a per-model breakdown
+ */
+import { QuotaDisplay } from "@/components/common/QuotaDisplay";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  type DailyUsage,
+  type UsageBreakdownRow,
+  type UsageTotals,
+  clearUsageLedger,
+  getDailyUsage,
+  getUsageBreakdown,
+  getUsageTotals,
+} from "@/lib/db/database";
+import { getPeriodStart, getQuotaStatus } from "@/lib/usage/quota";
+import { useUsageStore } from "@/stores/usage-store";
+import type { Quota, UserTier } from "@/types";
+import { Trash2 } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+const CHART_DAYS = 30;
+const TIERS: UserTier[] = ["free", "pro", "premium"];
+
+interface PeriodTotals {
+  today: UsageTotals;
+  month: UsageTotals;
+  last30: UsageTotals;
+}
+
+function formatCost(totals: UsageTotals): string {
+  if (totals.requests > 0 && totals.requests === totals.unpricedRequests) return "—";
+  return `$${totals.cost < 1 ? totals.cost.toFixed(4) : totals.cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
+
+/** Local YYYY-MM-DD, matching the ledger's date grouping */
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function AIUsagePanel({ active }: { active: boolean }) {
+  const { t } = useTranslation();
+  const profile = useUsageStore((s) => s.profile);
+  const setTier = useUsageStore((s) => s.setTier);
+  const setQuotaLimit = useUsageStore((s) => s.setQuotaLimit);
+
+  const [quotas, setQuotas] = useState<Quota[]>([]);
+  const [totals, setTotals] = useState<PeriodTotals | null>(null);
+  const [daily, setDaily] = useState<DailyUsage[]>([]);
+  const [breakdown, setBreakdown] = useState<UsageBreakdownRow[]>([]);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const monthStart = getPeriodStart("monthly");
+      const chartStart = new Date();
+      chartStart.setHours(0, 0, 0, 0);
+      chartStart.setDate(chartStart.getDate() - (CHART_DAYS - 1));
+
+      const [quotaStatus, today, month, last30, days, rows] = await Promise.all([
+        getQuotaStatus(),
+        getUsageTotals(getPeriodStart("daily")),
+        getUsageTotals(monthStart),
+        getUsageTotals(chartStart.getTime()),
+        getDailyUsage(chartStart.getTime()),
+        getUsageBreakdown(monthStart),
+      ]);
+      setQuotas(quotaStatus);
+      setTotals({ today, month, last30 });
+      setDaily(days);
+      setBreakdown(rows);
+    } catch (err) {
+      console.error("Failed to load AI usage:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (active) load();
+  }, [active, load]);
+
+  // Limits come from the store so edits show at once; usage from the last load
+  const displayedQuotas = profile.quotas.map((q) => {
+    const measured = quotas.find((m) => m.type === q.type && m.period === q.period);
+    return { ...q, used: measured?.used ?? 0, resetAt: measured?.resetAt ?? 0 };
+  });
+
+  const handleClear = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    setConfirmClear(false);
+    await clearUsageLedger();
+    await load();
+  };
+
+  const quotaLabel = (q: Quota) =>
+    `${t(`stats.usageQuota_${q.type}`)} · ${t(q.period === "daily" ? "stats.usageDaily" : "stats.usageMonthly")}`;
+
+  return (
+    <div className="space-y-4 rounded-xl border border-neutral-150 p-5">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h3 className="text-base font-semibold text-neutral-900">{t("stats.usageTitle")}</h3>
+          <p className="text-xs text-neutral-500">{t("stats.usageDesc")}</p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <span className="text-xs text-neutral-500">{t("stats.usageTier")}</span>
+          <Select value={profile.tier} onValueChange={(v) => setTier(v as UserTier)}>
+            <SelectTrigger className="h-7 w-28 px-2 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIERS.map((tier) => (
+                <SelectItem key={tier} value={tier}>
+                  {t(`stats.usageTier_${tier}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Period totals */}
+      {totals && (
+        <div className="grid gap-3 md:grid-cols-3">
+          {(
+            [
+              ["stats.usageToday", totals.today],
+              ["stats.usageThisMonth", totals.month],
+              ["stats.usageLast30", totals.last30],
+            ] as const
+          ).map(([label, period]) => (
+            <div key={label} className="rounded-xl bg-muted p-4 shadow-around">
+              <h4 className="text-sm font-medium text-neutral-500">{t(label)}</h4>
+              <div className="mt-1 text-2xl font-bold text-neutral-900">{formatCost(period)}</div>
+              <p className="text-xs text-neutral-400">
+                {t("stats.usageTotalsDesc", {
+                  requests: period.requests,
+                  input: formatTokens(period.inputTokens),
+                  output: formatTokens(period.outputTokens),
+                })}
+              </p>
+              {period.unpricedRequests > 0 && (
+                <p className="text-xs text-neutral-400">
+                  {t("stats.usageUnpriced", { count: period.unpricedRequests })}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Quotas */}
+      <div className="space-y-2">
+        <div className="space-y-0.5">
+          <h4 className="text-sm font-medium text-neutral-900">{t("stats.usageQuotas")}</h4>
+          <p className="text-xs text-neutral-500">{t("stats.usageQuotasDesc")}</p>
+        </div>
+        <div className="grid gap-2 md:grid-cols-2">
+          {displayedQuotas.map((q) => (
+            <div key={`${q.type}-${q.period}`} className="flex items-center gap-2">
+              <div className="min-w-0 flex-1">
+                <QuotaDisplay
+                  quota={q}
+                  label={quotaLabel(q)}
+                  hint={
+                    q.resetAt
+                      ? t("stats.usageResets", { date: new Date(q.resetAt).toLocaleString() })
+                      : undefined
+                  }
+                />
+              </div>
+              <Input
+                type="number"
+                min={0}
+                className="h-7 w-28 text-xs"
+                title={t("stats.usageLimit")}
+                value={q.limit}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (Number.isFinite(value)) setQuotaLimit(q.type, q.period, Math.floor(value));
+                }}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Daily usage */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-neutral-900">
+          {t("stats.usageDailyTitle", { days: CHART_DAYS })}
+        </h4>
+        <DailyUsageChart daily={daily} />
+      </div>
+
+      {/* Breakdown */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-neutral-900">{t("stats.usageBreakdown")}</h4>
+        {breakdown.length === 0 ? (
+          <p className="text-xs text-neutral-400">{t("stats.usageEmpty")}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-left text-neutral-500">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">{t("stats.usageCategory")}</th>
+                  <th className="py-1 pr-3 font-medium">{t("stats.usageEndpoint")}</th>
+                  <th className="py-1 pr-3 font-medium">{t("stats.usageModel")}</th>
+                  <th className="py-1 pr-3 text-right font-medium">{t("stats.usageRequests")}</th>
+                  <th className="py-1 pr-3 text-right font-medium">{t("stats.usageInput")}</th>
+                  <th className="py-1 pr-3 text-right font-medium">{t("stats.usageOutput")}</th>
+                  <th className="py-1 text-right font-medium">{t("stats.usageCost")}</th>
+                </tr>
+              </thead>
+              <tbody className="text-neutral-800">
+                {breakdown.map((row) => (
+                  <tr
+                    key={`${row.category}-${row.endpoint}-${row.model}`}
+                    className="border-t border-neutral-100"
+                  >
+                    <td className="py-1 pr-3">{t(`stats.usageCategory_${row.category}`)}</td>
+                    <td className="max-w-40 truncate py-1 pr-3">{row.endpoint}</td>
+                    <td className="max-w-48 truncate py-1 pr-3">{row.model}</td>
+                    <td className="py-1 pr-3 text-right">{row.requests}</td>
+                    <td className="py-1 pr-3 text-right">{formatTokens(row.inputTokens)}</td>
+                    <td className="py-1 pr-3 text-right">{formatTokens(row.outputTokens)}</td>
+                    <td className="py-1 text-right">{formatCost(row)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-[11px] text-neutral-400">{t("stats.usageEstimateNote")}</p>
+        <Button
+          variant={confirmClear ? "destructive" : "outline"}
+          size="sm"
+          disabled={!totals}
+          onClick={handleClear}
+          onBlur={() => setConfirmClear(false)}
+        >
+          <Trash2 />
+          {confirmClear ? t("stats.usageClearConfirm") : t("stats.usageClear")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/* ── Daily Usage Chart ── */
+
+function DailyUsageChart({ daily }: { daily: DailyUsage[] }) {
+  const { t } = useTranslation();
+
+  const days = useMemo(() => {
+    const byDate = new Map(daily.map((d) => [d.date, d]));
+    const result: Array<{ date: string; usage?: DailyUsage }> = [];
+    const cursor = new Date();
+    cursor.setDate(cursor.getDate() - (CHART_DAYS - 1));
+    for (let i = 0; i < CHART_DAYS; i++) {
+      const date = localDate(cursor);
+      result.push({ date, usage: byDate.get(date) });
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    return result;
+  }, [daily]);
+
+  const maxTokens = Math.max(1, ...daily.map((d) => d.inputTokens + d.outputTokens));
+
+  return (
+    <TooltipProvider delayDuration={100}>
+      <div className="flex h-24 items-end gap-[3px]">
+        {days.map(({ date, usage }) => {
+          const tokens = usage ? usage.inputTokens + usage.outputTokens : 0;
+          return (
+            <Tooltip key={date}>
+              <TooltipTrigger asChild>
+                <div className="flex h-full flex-1 items-end">
+                  <div
+                    className={`w-full rounded-[2px] ${tokens > 0 ? "bg-emerald-500" : "bg-neutral-100"}`}
+                    style={{ height: `${Math.max(4, (tokens / maxTokens) * 100)}%` }}
+                  />
+                </div>
+              </TooltipTrigger>
+              <TooltipContent side="top" className="bg-neutral-800 text-white">
+                <p className="text-xs font-medium">
+                  {usage
+                    ? t("stats.usageDayTooltip", {
+                        date,
+                        requests: usage.requests,
+                        tokens: formatTokens(tokens),
+                        cost: formatCost(usage),
+                      })
+                    : t("stats.usageDayEmpty", { date })}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    </TooltipProvider>
+  );
+}
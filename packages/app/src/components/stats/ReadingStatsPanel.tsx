@@ -9,6 +9,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useAppStore } from "@/stores/app-store";
 import { useReadingSessionStore } from "@/stores/reading-session-store";
+import { AIUsagePanel } from "./AIUsagePanel";
 
 export function ReadingStatsPanel() {
   const { t, i18n } = useTranslation();
@@ -116,6 +117,9 @@ export function ReadingStatsPanel() {
           </div>
         </div>
       )}
+
+      {/* AI Usage */}
+      <AIUsagePanel active={activeTabId === "stats"} />
     </div>
   );
 }
@@ -12,6 +12,7 @@ export interface FoliateView extends HTMLElement {
   renderer: any;
   // biome-ignore lint: foliate-js uses loosely typed objects
   lastLocation: any;
+  language: { canonical?: string; isCJK?: boolean; direction?: string };
 
   // Open / close
   // biome-ignore lint: accepts File, Blob, URL, or BookDoc
@@ -29,6 +30,8 @@ export interface FoliateView extends HTMLElement {
 
   // CFI
   getCFI(index: number, range?: Range): string;
+  // biome-ignore lint: foliate-js TOC / page-list items
+  getProgressOf(index: number, range: Range): { tocItem: any; pageItem: any };
 
   // Annotations
   // biome-ignore lint: foliate-js annotation format
@@ -0,0 +1,80 @@
+/**
+ * useParallelText — drive the bilingual reading mode for a reader tab.
+ *
+ * Translates ahead of the current page on every section load and relocate,
+ * and strips the translations from the loaded sections when switched off.
+ */
+import type { FoliateViewerHandle, RelocateDetail } from "@/components/reader/FoliateViewer";
+import {
+  getParagraphs,
+  paragraphIndexAt,
+  removeTranslations,
+  translateSection,
+} from "@/lib/translation/parallel-text";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+
+export function useParallelText(
+  foliateRef: React.RefObject<FoliateViewerHandle | null>,
+  bookId: string,
+  enabled: boolean,
+) {
+  const { t } = useTranslation();
+  const [translating, setTranslating] = useState(false);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+  const lastRangeRef = useRef<Range | null>(null);
+  const lastErrorRef = useRef<string | null>(null);
+
+  const getLoadedSections = useCallback((): Array<{ doc: Document; index: number }> => {
+    return foliateRef.current?.getView()?.renderer?.getContents?.() ?? [];
+  }, [foliateRef]);
+
+  const translateAhead = useCallback(async () => {
+    const range = lastRangeRef.current;
+    const jobs = getLoadedSections().map(({ doc, index }) => {
+      const from =
+        range?.startContainer.ownerDocument === doc
+          ? paragraphIndexAt(getParagraphs(doc), range)
+          : 0;
+      return translateSection(bookId, index, doc, from);
+    });
+    if (jobs.length === 0) return;
+
+    setTranslating(true);
+    try {
+      const error = (await Promise.all(jobs)).find(Boolean) ?? null;
+      // Toast a failure once, not on every page turn that retries it
+      if (error && error !== lastErrorRef.current) {
+        toast.error(t("reader.parallelTextFailed"), { description: error });
+      }
+      lastErrorRef.current = error;
+    } finally {
+      setTranslating(false);
+    }
+  }, [bookId, getLoadedSections, t]);
+
+  useEffect(() => {
+    if (enabled) {
+      translateAhead();
+    } else {
+      for (const { doc } of getLoadedSections()) removeTranslations(doc);
+      lastErrorRef.current = null;
+    }
+  }, [enabled, translateAhead, getLoadedSections]);
+
+  const onSectionLoad = useCallback(() => {
+    if (enabledRef.current) translateAhead();
+  }, [translateAhead]);
+
+  const onRelocate = useCallback(
+    (detail: RelocateDetail) => {
+      lastRangeRef.current = detail.range ?? null;
+      if (enabledRef.current) translateAhead();
+    },
+    [translateAhead],
+  );
+
+  return { translating, onSectionLoad, onRelocate };
+}
@@ -0,0 +1,94 @@
+/**
+ * useReaderBridge — register an open book with the reader store so agent
+ * tools can find passages and navigate without a handle on the view.
+ *
+ * Searches run on fresh section documents (not the rendered ones), so they
+ * don't disturb the page or the search highlights of the search bar.
+ */
+import type { FoliateViewerHandle } from "@/components/reader/FoliateViewer";
+import { type ReaderTextMatch, useReaderStore } from "@/stores/reader-store";
+import { useEffect } from "react";
+
+/** Matches returned per search — the agent only needs a handful to pick from */
+const MAX_MATCHES = 20;
+
+export function useReaderBridge(
+  foliateRef: React.RefObject<FoliateViewerHandle | null>,
+  bookId: string,
+  ready: boolean,
+) {
+  useEffect(() => {
+    if (!ready) return;
+    const setReaderBridge = useReaderStore.getState().setReaderBridge;
+
+    setReaderBridge(bookId, {
+      findText: async (text, scope) => {
+        const view = foliateRef.current?.getView();
+        if (!view?.book?.sections) return [];
+        const query = text.replace(/\s+/g, " ").trim();
+        if (!query) return [];
+
+        const { searchMatcher } = await import("foliate-js/search.js");
+        const { textWalker } = await import("foliate-js/text-walker.js");
+        const matcher = searchMatcher(textWalker, {
+          defaultLocale: view.language?.canonical,
+        });
+
+        const sections: Array<{ createDocument?: () => Promise<Document> }> = view.book.sections;
+        const current: number | undefined = view.lastLocation?.section?.current;
+        const indexes =
+          scope === "chapter" && current != null ? [current] : sections.map((_, i) => i);
+
+        const matches: ReaderTextMatch[] = [];
+        for (const index of indexes) {
+          const createDocument = sections[index]?.createDocument;
+          if (!createDocument) continue;
+          const doc = await createDocument();
+          for (const { range, excerpt } of matcher(doc, query)) {
+            matches.push({
+              cfi: view.getCFI(index, range),
+              excerpt: `${excerpt.pre}${excerpt.match}${excerpt.post}`.trim(),
+              chapterTitle: view.getProgressOf(index, range)?.tocItem?.label,
+            });
+            if (matches.length >= MAX_MATCHES) return matches;
+          }
+        }
+        return matches;
+      },
+
+      goTo: async (target) => {
+        await foliateRef.current?.getView()?.goTo(target);
+      },
+
+      goToFraction: async (fraction) => {
+        await foliateRef.current?.getView()?.goToFraction(fraction);
+      },
+
+      getChapters: () => {
+        const chapters: Array<{ title: string; href: string }> = [];
+        // biome-ignore lint: foliate-js TOC items
+        const walk = (items: any[] = []) => {
+          for (const item of items) {
+            if (item.href)
+              chapters.push({ title: String(item.label ?? "").trim(), href: item.href });
+            walk(item.subitems);
+          }
+        };
+        walk(foliateRef.current?.getView()?.book?.toc);
+        return chapters;
+      },
+
+      getLocation: () => {
+        const location = foliateRef.current?.getView()?.lastLocation;
+        if (!location?.cfi) return null;
+        return {
+          cfi: location.cfi,
+          chapterTitle: location.tocItem?.label,
+          fraction: location.fraction,
+        };
+      },
+    });
+
+    return () => setReaderBridge(bookId, null);
+  }, [foliateRef, bookId, ready]);
+}
@@ -1,4 +1,9 @@
 import { StreamingChat, createMessageId } from "@/lib/ai/streaming";
+import {
+  denyPendingApprovals,
+  resolveToolApproval,
+  waitForToolApproval,
+} from "@/lib/ai/tool-approval";
 import { useChatStore } from "@/stores/chat-store";
 import { useSettingsStore } from "@/stores/settings-store";
 import { getSkills as getDbSkills } from "@/lib/db/database";
@@ -24,6 +29,31 @@ function isMindmapResult(result: unknown): result is { type: "mindmap"; title: s
   );
 }
 
+/**
+ * Whether a tool_call part shows the call asking for approval. Parts emitted
+ * while the model was still streaming have no args yet; otherwise every
+ * argument present on both sides must agree (the tool sees its args after
+ * schema parsing, which may drop or default some).
+ */
+function matchesToolCall(part: ToolCallPart, name: string, args: Record<string, unknown>): boolean {
+  if (part.name !== name) return false;
+  return Object.entries(part.args ?? {}).every(
+    ([key, value]) => !(key in args) || JSON.stringify(args[key]) === JSON.stringify(value),
+  );
+}
+
+/** An approval request that arrived before its tool_call event */
+interface ApprovalWaiter {
+  name: string;
+  args: Record<string, unknown>;
+  resolve: (approved: boolean | Promise<boolean>) => void;
+}
+
+/** Deny approval requests whose tool_call never showed up */
+function denyApprovalWaiters(waiters: ApprovalWaiter[]): void {
+  for (const waiter of waiters.splice(0)) waiter.resolve(false);
+}
+
 export interface StreamingChatOptions {
   book?: Book | null;
   semanticContext?: SemanticContext | null;
@@ -44,6 +74,7 @@ export function useStreamingChat(options?: StreamingChatOptions) {
   });
   const [error, setError] = useState<Error | null>(null);
   const streamingRef = useRef<StreamingChat | null>(null);
+  const approvalWaitersRef = useRef<ApprovalWaiter[]>([]);
 
   const {
     threads,
@@ -173,6 +204,43 @@ export function useStreamingChat(options?: StreamingChatOptions) {
       let currentReasoningPart: ReasoningPart | null = null;
       let currentToolCallPart: ToolCallPart | null = null;
 
+      const refreshParts = () =>
+        setState((prev) => ({
+          ...prev,
+          currentMessage: prev.currentMessage
+            ? { ...prev.currentMessage, parts: [...currentParts] }
+            : null,
+        }));
+
+      // Show the confirm card on the tool call's part and wait for the user
+      const requestApproval = async (
+        part: ToolCallPart,
+        args: Record<string, unknown>,
+      ): Promise<boolean> => {
+        // Early parts carry no args; show the confirm card what will actually run
+        if (Object.keys(part.args ?? {}).length === 0) part.args = args;
+        part.approval = "pending";
+        part.updatedAt = Date.now();
+        refreshParts();
+
+        const decision = await waitForToolApproval(part.id);
+        if (decision === "always") {
+          await useChatStore.getState().setThreadAutoApprove(thread.id, true);
+          for (const p of currentParts) {
+            if (p.type === "tool_call" && p.id !== part.id && p.approval === "pending") {
+              resolveToolApproval(p.id, "approve");
+            }
+          }
+        }
+        part.approval = decision === "deny" ? "denied" : "approved";
+        part.updatedAt = Date.now();
+        refreshParts();
+        return decision !== "deny";
+      };
+
+      const approvalWaiters: ApprovalWaiter[] = [];
+      approvalWaitersRef.current = approvalWaiters;
+
       try {
         await streamingRef.current.stream({
           thread: updatedThread,
@@ -350,6 +418,12 @@ export function useStreamingChat(options?: StreamingChatOptions) {
             currentReasoningPart = null;
             currentToolCallPart = createToolCallPart(name, args);
             currentParts.push(currentToolCallPart);
+            const part = currentToolCallPart;
+            const waiter = approvalWaiters.findIndex((w) => matchesToolCall(part, w.name, w.args));
+            if (waiter >= 0) {
+              const { args: approvalArgs, resolve } = approvalWaiters.splice(waiter, 1)[0];
+              resolve(requestApproval(part, approvalArgs));
+            }
             setState((prev) => ({
               ...prev,
               currentMessage: prev.currentMessage
@@ -390,6 +464,32 @@ export function useStreamingChat(options?: StreamingChatOptions) {
               }));
             }
           },
+          onApprovalRequest: (name, args) => {
+            // The earliest unanswered call that matches, so parallel calls of one tool pair up in order
+            const part = currentParts.find(
+              (p): p is ToolCallPart =>
+                p.type === "tool_call" &&
+                !p.result &&
+                !p.approval &&
+                matchesToolCall(p, name, args),
+            );
+
+            const autoApprove = useChatStore
+              .getState()
+              .threads.find((t) => t.id === thread.id)?.autoApproveActions;
+            if (autoApprove) {
+              if (part) {
+                part.approval = "approved";
+                refreshParts();
+              }
+              return Promise.resolve(true);
+            }
+
+            if (part) return requestApproval(part, args);
+            return new Promise<boolean>((resolve) => {
+              approvalWaiters.push({ name, args, resolve });
+            });
+          },
           onReasoning: (content, type) => {
             // Accumulate reasoning content into the same part (like onToken does for text)
             // DeepSeek sends reasoning_content in small streaming chunks
@@ -413,6 +513,8 @@ export function useStreamingChat(options?: StreamingChatOptions) {
         setError(err instanceof Error ? err : new Error("Unknown error"));
         setState((prev) => ({ ...prev, isStreaming: false, currentStep: "idle" }));
         setStreaming(false);
+      } finally {
+        denyApprovalWaiters(approvalWaiters);
       }
     },
     [
@@ -431,6 +533,8 @@ export function useStreamingChat(options?: StreamingChatOptions) {
 
   const stopStream = useCallback(() => {
     streamingRef.current?.abort();
+    denyPendingApprovals();
+    denyApprovalWaiters(approvalWaitersRef.current);
     setState({
       isStreaming: false,
       currentMessage: null,
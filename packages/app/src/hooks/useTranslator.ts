@@ -1,22 +1,29 @@
 /**
  * useTranslator Hook
  * React hook for translation with caching
- * Uses AI config for translation (model, apiKey, baseUrl)
+ * Runs the translator selected in settings through the provider registry
  */
 
 import { useCallback, useState } from "react";
 import { useSettingsStore } from "@/stores/settings-store";
 import { getFromCache, storeInCache } from "@/lib/translation/cache";
-import { aiTranslate, deeplTranslate } from "@/lib/translation/providers";
+import {
+  getTranslator,
+  parseGlossary,
+  resolveTranslatorConfig,
+  runTranslator,
+} from "@/lib/translation/registry";
 import type { TranslationTargetLang } from "@/types/translation";
 
 export interface UseTranslatorOptions {
   sourceLang?: string;
   targetLang?: TranslationTargetLang;
+  /** Scope translation memory entries to this book */
+  bookId?: string;
 }
 
 export function useTranslator(options: UseTranslatorOptions = {}) {
-  const { sourceLang = "AUTO", targetLang } = options;
+  const { sourceLang = "AUTO", targetLang, bookId } = options;
   const translationConfig = useSettingsStore((s) => s.translationConfig);
   const aiConfig = useSettingsStore((s) => s.aiConfig);
 
@@ -34,11 +41,18 @@ export function useTranslator(options: UseTranslatorOptions = {}) {
       const targetLanguage = targetLang || translationConfig.targetLang;
       const providerId = translationConfig.provider.id;
 
-      // Check cache first
+      // Check translation memory first
+      const cache = await getFromCache(
+        textsToTranslate,
+        sourceLang,
+        targetLanguage,
+        providerId,
+        bookId,
+      );
       const cachedResults: string[] = [];
       const needsTranslation: { index: number; text: string }[] = [];
       textsToTranslate.forEach((text, index) => {
-        const cached = getFromCache(text, sourceLang, targetLanguage, providerId);
+        const cached = cache.get(text);
         if (cached) {
           cachedResults[index] = cached;
         } else {
@@ -54,47 +68,30 @@ export function useTranslator(options: UseTranslatorOptions = {}) {
       setError(null);
 
       try {
-        let translatedTexts: string[];
-
-        if (providerId === "ai") {
-          // Get endpoint config
-          const endpointId = translationConfig.provider.endpointId || aiConfig.activeEndpointId;
-          const endpoint = aiConfig.endpoints.find((e) => e.id === endpointId);
-          const model = translationConfig.provider.model || aiConfig.activeModel;
-
-          if (!endpoint?.apiKey) {
-            throw new Error("AI endpoint not configured. Please set up AI settings first.");
-          }
-
-          translatedTexts = await aiTranslate(
-            needsTranslation.map((n) => n.text),
-            sourceLang,
-            targetLanguage,
-            endpoint.apiKey,
-            endpoint.baseUrl,
-            model,
-          );
-        } else if (providerId === "deepl") {
-          const apiKey = translationConfig.provider.apiKey;
-          if (!apiKey) {
-            throw new Error("DeepL API key is required");
-          }
-          translatedTexts = await deeplTranslate(
-            needsTranslation.map((n) => n.text),
-            sourceLang,
-            targetLanguage,
-            apiKey,
-          );
-        } else {
+        const translator = getTranslator(providerId);
+        if (!translator) {
           throw new Error(`Unknown translation provider: ${providerId}`);
         }
 
-        // Store in cache
-        needsTranslation.forEach(({ text }, i) => {
-          if (translatedTexts[i]) {
-            storeInCache(text, translatedTexts[i], sourceLang, targetLanguage, providerId);
-          }
-        });
+        const translatedTexts = await runTranslator(
+          translator,
+          needsTranslation.map((n) => n.text),
+          sourceLang,
+          targetLanguage,
+          resolveTranslatorConfig(translationConfig, aiConfig),
+          { glossary: parseGlossary(translationConfig.glossary) },
+        );
+
+        // Store in translation memory
+        await storeInCache(
+          needsTranslation
+            .map(({ text }, i) => ({ text, translation: translatedTexts[i] }))
+            .filter((entry) => entry.translation),
+          sourceLang,
+          targetLanguage,
+          providerId,
+          bookId,
+        );
 
         // Merge cached and new results
         const results = [...textsToTranslate];
@@ -114,7 +111,7 @@ export function useTranslator(options: UseTranslatorOptions = {}) {
         throw err;
       }
     },
-    [sourceLang, targetLang, translationConfig, aiConfig],
+    [sourceLang, targetLang, bookId, translationConfig, aiConfig],
   );
 
   return {
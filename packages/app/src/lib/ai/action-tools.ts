@@ -0,0 +1,317 @@
+/**
+ * Action Tools
+ *
+ * Tools that change the user's data or the reader, each run only after the
+ * user confirms the call in the chat (or auto-approves the thread):
+ * - createHighlight: Highlight a passage, optionally with a note
+ * - addNote: Write a note, optionally anchored to a passage
+ * - addBookmark: Bookmark a passage or the current page
+ * - goToLocation: Open a passage, chapter, CFI or percentage in the reader
+ * - tagBook: Add or replace the book's tags
+ */
+import { useAnnotationStore } from "@/stores/annotation-store";
+import { useLibraryStore } from "@/stores/library-store";
+import { type ReaderBridge, type ReaderTextMatch, useReaderStore } from "@/stores/reader-store";
+import type { HighlightColor } from "@/types";
+import { readingContextService } from "./reading-context-service";
+import type { ToolDefinition } from "./tools";
+
+/** Asks the user to confirm a tool call; resolves false when declined */
+export type ActionApprover = (toolName: string, args: Record<string, unknown>) => Promise<boolean>;
+
+const HIGHLIGHT_COLORS: HighlightColor[] = [
+  "yellow",
+  "red",
+  "green",
+  "blue",
+  "pink",
+  "purple",
+  "violet",
+];
+
+const DENIED = {
+  denied: true,
+  message: "The user declined this action. Do not retry it — ask what they would like instead.",
+};
+
+function getBridge(bookId: string): ReaderBridge | null {
+  return useReaderStore.getState().readerBridges[bookId] ?? null;
+}
+
+const NOT_OPEN = {
+  error: "The book is not open in the reader",
+  hint: "Ask the user to open the book, then try again",
+};
+
+/** Find a passage, trying the current chapter before the whole book */
+async function findPassage(bridge: ReaderBridge, text: string): Promise<ReaderTextMatch[]> {
+  const inChapter = await bridge.findText(text, "chapter");
+  return inChapter.length > 0 ? inChapter : bridge.findText(text, "book");
+}
+
+function passageNotFound(text: string) {
+  return {
+    error: `Passage not found: "${text.slice(0, 80)}"`,
+    hint: "Quote the passage exactly as it appears in the book, or use a shorter part of it",
+  };
+}
+
+function parseTags(value: unknown): string[] {
+  return String(value ?? "")
+    .split(/[,，]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+export function createHighlightTool(bookId: string, approve: ActionApprover): ToolDefinition {
+  return {
+    name: "createHighlight",
+    description:
+      "Highlight a passage in the book, optionally attaching a note. Use this when the user asks you to highlight or mark text. Quote the passage exactly as it appears in the book.",
+    parameters: {
+      text: {
+        type: "string",
+        description: "The exact passage to highlight, quoted from the book",
+        required: true,
+      },
+      color: {
+        type: "string",
+        description: `Highlight color: ${HIGHLIGHT_COLORS.map((c) => `"${c}"`).join(", ")} (default: "yellow")`,
+      },
+      note: { type: "string", description: "Note to attach to the highlight" },
+      all: {
+        type: "boolean",
+        description: "Highlight every occurrence instead of only the first (default: false)",
+      },
+    },
+    execute: async (args) => {
+      const bridge = getBridge(bookId);
+      if (!bridge) return NOT_OPEN;
+
+      const text = String(args.text ?? "");
+      const matches = await findPassage(bridge, text);
+      if (matches.length === 0) return passageNotFound(text);
+
+      if (!(await approve("createHighlight", args))) return DENIED;
+
+      const color = HIGHLIGHT_COLORS.includes(args.color as HighlightColor)
+        ? (args.color as HighlightColor)
+        : "yellow";
+      const note = args.note ? String(args.note) : undefined;
+      const { highlights, addHighlight } = useAnnotationStore.getState();
+      const targets = (args.all ? matches : matches.slice(0, 1)).filter(
+        (m) => !highlights.some((h) => h.bookId === bookId && h.cfi === m.cfi),
+      );
+
+      for (const match of targets) {
+        addHighlight({
+          id: crypto.randomUUID(),
+          bookId,
+          cfi: match.cfi,
+          text,
+          color,
+          note,
+          chapterTitle: match.chapterTitle,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+      }
+
+      return {
+        success: true,
+        highlighted: targets.length,
+        alreadyHighlighted: (args.all ? matches.length : 1) - targets.length,
+        chapters: [...new Set(targets.map((m) => m.chapterTitle).filter(Boolean))],
+      };
+    },
+  };
+}
+
+export function createAddNoteTool(bookId: string, approve: ActionApprover): ToolDefinition {
+  return {
+    name: "addNote",
+    description:
+      "Save a note to the user's notebook for this book, optionally anchored to a passage. Use this when the user asks you to write down, save or record something.",
+    parameters: {
+      content: { type: "string", description: "Note content in Markdown", required: true },
+      title: { type: "string", description: "Short note title" },
+      text: {
+        type: "string",
+        description: "Exact passage from the book to anchor the note to",
+      },
+      tags: { type: "string", description: "Comma-separated tags" },
+    },
+    execute: async (args) => {
+      let anchor: ReaderTextMatch | undefined;
+      if (args.text) {
+        const bridge = getBridge(bookId);
+        if (!bridge) return NOT_OPEN;
+        anchor = (await findPassage(bridge, String(args.text)))[0];
+        if (!anchor) return passageNotFound(String(args.text));
+      }
+
+      if (!(await approve("addNote", args))) return DENIED;
+
+      const content = String(args.content ?? "");
+      const title = args.title ? String(args.title) : content.split("\n")[0].slice(0, 60);
+      const id = crypto.randomUUID();
+      useAnnotationStore.getState().addNote({
+        id,
+        bookId,
+        cfi: anchor?.cfi,
+        title,
+        content,
+        chapterTitle:
+          anchor?.chapterTitle ?? readingContextService.getContext()?.currentChapter.title,
+        tags: parseTags(args.tags),
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+
+      return { success: true, noteId: id, title, anchored: !!anchor };
+    },
+  };
+}
+
+export function createAddBookmarkTool(bookId: string, approve: ActionApprover): ToolDefinition {
+  return {
+    name: "addBookmark",
+    description:
+      "Bookmark a passage, or the user's current page when no passage is given. Use this when the user asks to bookmark or save their place.",
+    parameters: {
+      text: {
+        type: "string",
+        description: "Exact passage to bookmark (default: the current page)",
+      },
+      label: { type: "string", description: "Bookmark label" },
+    },
+    execute: async (args) => {
+      const bridge = getBridge(bookId);
+      if (!bridge) return NOT_OPEN;
+
+      const target = args.text
+        ? (await findPassage(bridge, String(args.text)))[0]
+        : bridge.getLocation();
+      if (!target) {
+        return args.text
+          ? passageNotFound(String(args.text))
+          : { error: "The current position is not known yet" };
+      }
+
+      if (!(await approve("addBookmark", args))) return DENIED;
+
+      const { bookmarks, addBookmark } = useAnnotationStore.getState();
+      if (bookmarks.some((b) => b.bookId === bookId && b.cfi === target.cfi)) {
+        return { success: true, alreadyBookmarked: true };
+      }
+      addBookmark({
+        id: crypto.randomUUID(),
+        bookId,
+        cfi: target.cfi,
+        label: args.label ? String(args.label) : undefined,
+        chapterTitle: target.chapterTitle,
+        createdAt: Date.now(),
+      });
+
+      return { success: true, chapter: target.chapterTitle };
+    },
+  };
+}
+
+export function createGoToLocationTool(bookId: string, approve: ActionApprover): ToolDefinition {
+  return {
+    name: "goToLocation",
+    description:
+      "Move the reader to a passage, chapter, CFI or percentage of the book. Use this when the user asks to go to, open or show a place in the book. Give exactly one target.",
+    parameters: {
+      text: { type: "string", description: "Exact passage to go to" },
+      chapter: { type: "string", description: "Chapter title (or part of it) to go to" },
+      cfi: {
+        type: "string",
+        description: "EPUB CFI, e.g. from ragSearch or getAnnotations results",
+      },
+      percentage: { type: "number", description: "Position in the book, 0–100" },
+    },
+    execute: async (args) => {
+      const bridge = getBridge(bookId);
+      if (!bridge) return NOT_OPEN;
+
+      let go: () => Promise<void>;
+      let destination: string;
+      if (args.text) {
+        const match = (await findPassage(bridge, String(args.text)))[0];
+        if (!match) return passageNotFound(String(args.text));
+        go = () => bridge.goTo(match.cfi);
+        destination = match.chapterTitle ?? match.excerpt;
+      } else if (args.chapter) {
+        const query = String(args.chapter).toLowerCase();
+        const chapters = bridge.getChapters();
+        const chapter =
+          chapters.find((c) => c.title.toLowerCase() === query) ??
+          chapters.find((c) => c.title.toLowerCase().includes(query));
+        if (!chapter) {
+          return {
+            error: `Chapter not found: "${args.chapter}"`,
+            chapters: chapters.map((c) => c.title).slice(0, 50),
+          };
+        }
+        go = () => bridge.goTo(chapter.href);
+        destination = chapter.title;
+      } else if (args.cfi) {
+        const cfi = String(args.cfi);
+        go = () => bridge.goTo(cfi);
+        destination = cfi;
+      } else if (typeof args.percentage === "number") {
+        const fraction = Math.min(Math.max(args.percentage / 100, 0), 1);
+        go = () => bridge.goToFraction(fraction);
+        destination = `${Math.round(fraction * 100)}%`;
+      } else {
+        return { error: "Give one of: text, chapter, cfi or percentage" };
+      }
+
+      if (!(await approve("goToLocation", args))) return DENIED;
+
+      await go();
+      return { success: true, destination };
+    },
+  };
+}
+
+export function createTagBookTool(bookId: string, approve: ActionApprover): ToolDefinition {
+  return {
+    name: "tagBook",
+    description:
+      "Add tags to the current book in the library, or replace its tags. Use this when the user asks to tag, label or categorize the book.",
+    parameters: {
+      tags: { type: "string", description: "Comma-separated tags", required: true },
+      replace: {
+        type: "boolean",
+        description: "Replace the existing tags instead of adding to them (default: false)",
+      },
+    },
+    execute: async (args) => {
+      const book = useLibraryStore.getState().books.find((b) => b.id === bookId);
+      if (!book) return { error: "Book not found in the library" };
+
+      const tags = parseTags(args.tags);
+      if (tags.length === 0) return { error: "No tags given" };
+
+      if (!(await approve("tagBook", args))) return DENIED;
+
+      const nextTags = args.replace ? [...new Set(tags)] : [...new Set([...book.tags, ...tags])];
+      useLibraryStore.getState().updateBook(bookId, { tags: nextTags });
+      return { success: true, tags: nextTags };
+    },
+  };
+}
+
+/** Get all action tools for a book */
+export function getActionTools(bookId: string, approve: ActionApprover): ToolDefinition[] {
+  return [
+    createHighlightTool(bookId, approve),
+    createAddNoteTool(bookId, approve),
+    createAddBookmarkTool(bookId, approve),
+    createGoToLocationTool(bookId, approve),
+    createTagBookTool(bookId, approve),
+  ];
+}
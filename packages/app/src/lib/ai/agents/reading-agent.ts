@@ -7,9 +7,16 @@
  * 3. Builds proper Zod schemas from ToolDefinition.parameters
  * 4. Real streaming via streamEvents API
  * 5. System prompt from system-prompt.ts
+ * 6. Models that can't call tools (probed local models) get the tools described
+ *    in the prompt and call them through <tool_call> blocks instead
+ * 7. Allowed tools of enabled MCP servers are registered next to the built-in ones
  */
-import type { AIConfig, Book, SemanticContext, Skill } from "@/types";
-import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { getMcpTools } from "@/lib/mcp/mcp-manager";
+import { useMcpStore } from "@/stores/mcp-store";
+import { useSettingsStore } from "@/stores/settings-store";
+import type { AIConfig, Book, ModelCapabilities, SemanticContext, Skill } from "@/types";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
 import type { BaseMessage } from "@langchain/core/messages";
 import { z } from "zod";
 import { createChatModel } from "../llm-provider";
@@ -37,11 +44,15 @@ export interface ReadingAgentOptions {
   enabledSkills: Skill[];
   isVectorized: boolean;
   deepThinking?: boolean;
+  /** Conversation memory for the system prompt (from processMessages) */
+  memory?: string;
+  /** Confirms mutating tool calls with the user; without it no action tools are offered */
+  onApprovalRequest?: (toolName: string, args: Record<string, unknown>) => Promise<boolean>;
 }
 
 // --- Build Zod schema from ToolDefinition.parameters ---
 
-function buildZodSchema(
+export function buildZodSchema(
   parameters: Record<string, ToolParameter>,
 ): z.ZodObject<Record<string, z.ZodTypeAny>> {
   const shape: Record<string, z.ZodTypeAny> = {};
@@ -83,6 +94,178 @@ async function executeTool(tool: ToolDefinition, args: Record<string, unknown>):
   }
 }
 
+// --- Model capabilities ---
+
+/**
+ * Capabilities of the active model. Hosted providers support tool calling;
+ * local models are probed once and the result is kept with the endpoint.
+ */
+async function resolveModelCapabilities(aiConfig: AIConfig): Promise<ModelCapabilities | null> {
+  const endpoint = aiConfig.endpoints.find((e) => e.id === aiConfig.activeEndpointId);
+  if (endpoint?.provider !== "local" || !aiConfig.activeModel) return null;
+  return (
+    endpoint.modelCapabilities?.[aiConfig.activeModel] ??
+    (await useSettingsStore.getState().probeModel(endpoint.id, aiConfig.activeModel))
+  );
+}
+
+// --- Prompted tool calling (models without native tool support) ---
+
+/** Tool rounds before the model has to answer with what it has */
+const MAX_PROMPTED_TOOL_ROUNDS = 8;
+
+const PROMPTED_TAGS = ["think", "tool_call"] as const;
+type PromptedTag = (typeof PROMPTED_TAGS)[number];
+
+function buildToolCallingPrompt(tools: ToolDefinition[]): string {
+  const toolList = tools.map((tool) => {
+    const params = Object.entries(tool.parameters)
+      .map(
+        ([name, p]) =>
+          `    - ${name} (${p.type}${p.required ? ", required" : ""}): ${p.description}`,
+      )
+      .join("\n");
+    return `- **${tool.name}**: ${tool.description}${params ? `\n${params}` : ""}`;
+  });
+
+  return `## Calling Tools
+To call a tool, write exactly one block like this and stop your reply right after it:
+<tool_call>{"name": "toolName", "args": {"param": "value"}}</tool_call>
+The result comes back in the next message inside <tool_result> tags. Call one tool per reply. Once you have what you need, answer normally without a <tool_call> block.
+
+Available tools:
+${toolList.join("\n")}`;
+}
+
+/** Length of a trailing partial tag (e.g. "<tool_c") that the next chunk may complete */
+function partialTagLength(text: string, tags: string[]): number {
+  for (let length = Math.min(text.length, Math.max(...tags.map((t) => t.length)) - 1); length > 0; length--) {
+    const tail = text.slice(-length);
+    if (tags.some((tag) => tag.startsWith(tail))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Splits streamed text into plain text, <think> reasoning and <tool_call> blocks,
+ * holding back a partial tag until the next chunk decides it.
+ */
+class TaggedStreamParser {
+  private buffer = "";
+  private inside: PromptedTag | null = null;
+
+  push(chunk: string): Array<{ kind: PromptedTag | "text"; text: string }> {
+    this.buffer += chunk;
+    const parts: Array<{ kind: PromptedTag | "text"; text: string }> = [];
+
+    while (this.buffer) {
+      const kind = this.inside ?? "text";
+      const closing = this.inside
+        ? [`</${this.inside}>`]
+        : PROMPTED_TAGS.map((tag) => `<${tag}>`);
+      const match = closing
+        .map((tag) => ({ tag, index: this.buffer.indexOf(tag) }))
+        .filter((m) => m.index >= 0)
+        .sort((a, b) => a.index - b.index)[0];
+
+      if (match) {
+        if (match.index > 0) parts.push({ kind, text: this.buffer.slice(0, match.index) });
+        this.buffer = this.buffer.slice(match.index + match.tag.length);
+        this.inside = this.inside ? null : (match.tag.slice(1, -1) as PromptedTag);
+        continue;
+      }
+
+      const keep = partialTagLength(this.buffer, closing);
+      const ready = this.buffer.slice(0, this.buffer.length - keep);
+      if (ready) parts.push({ kind, text: ready });
+      this.buffer = this.buffer.slice(ready.length);
+      break;
+    }
+    return parts;
+  }
+
+  flush(): Array<{ kind: PromptedTag | "text"; text: string }> {
+    const rest = this.buffer;
+    this.buffer = "";
+    return rest ? [{ kind: this.inside ?? "text", text: rest }] : [];
+  }
+}
+
+function parsePromptedToolCall(
+  text: string,
+): { name: string; args: Record<string, unknown> } | null {
+  try {
+    const call = JSON.parse(text.trim());
+    if (typeof call?.name !== "string") return null;
+    const args = call.args ?? call.arguments ?? {};
+    return { name: call.name, args: typeof args === "object" && args ? args : {} };
+  } catch {
+    return null;
+  }
+}
+
+async function* streamWithPromptedTools(
+  model: BaseChatModel,
+  systemPrompt: string,
+  inputMessages: BaseMessage[],
+  tools: ToolDefinition[],
+): AsyncGenerator<AgentStreamEvent> {
+  const messages: BaseMessage[] = [
+    new SystemMessage(`${systemPrompt}\n\n---\n\n${buildToolCallingPrompt(tools)}`),
+    ...inputMessages,
+  ];
+
+  for (let round = 0; round <= MAX_PROMPTED_TOOL_ROUNDS; round++) {
+    const parser = new TaggedStreamParser();
+    let reply = "";
+    let callText: string | null = null;
+
+    const stream = await model.stream(messages);
+    const chunks = (async function* () {
+      for await (const chunk of stream) {
+        const content = typeof chunk.content === "string" ? chunk.content : "";
+        reply += content;
+        yield* parser.push(content);
+      }
+      yield* parser.flush();
+    })();
+
+    for await (const part of chunks) {
+      if (part.kind === "text") {
+        yield { type: "token", content: part.text };
+      } else if (part.kind === "think") {
+        yield { type: "reasoning", content: part.text, stepType: "thinking" };
+      } else {
+        callText = (callText ?? "") + part.text;
+      }
+    }
+
+    if (callText === null || round === MAX_PROMPTED_TOOL_ROUNDS) return;
+
+    const call = parsePromptedToolCall(callText);
+    const tool = call && tools.find((t) => t.name === call.name);
+    let result: unknown;
+    if (call && tool) {
+      yield { type: "tool_call", name: call.name, args: call.args };
+      result = await executeTool(tool, call.args);
+      yield { type: "tool_result", name: call.name, result };
+    } else {
+      result = {
+        error: call
+          ? `Unknown tool "${call.name}"`
+          : 'Malformed tool call: expected {"name": ..., "args": {...}}',
+      };
+    }
+
+    messages.push(
+      new AIMessage(reply),
+      new HumanMessage(
+        `<tool_result name="${call?.name ?? ""}">\n${JSON.stringify(result)}\n</tool_result>`,
+      ),
+    );
+  }
+}
+
 // --- Main Agent Function ---
 
 export async function* streamReadingAgent(
@@ -90,15 +273,26 @@ export async function* streamReadingAgent(
   userInput: string,
   history: Array<{ role: "user" | "assistant"; content: string; reasoning?: string }> = [],
 ): AsyncGenerator<AgentStreamEvent> {
-  const { aiConfig, book, semanticContext, enabledSkills, isVectorized, deepThinking } = options;
+  const {
+    aiConfig,
+    book,
+    semanticContext,
+    enabledSkills,
+    isVectorized,
+    deepThinking,
+    memory,
+    onApprovalRequest,
+  } = options;
 
   try {
+    const capabilities = await resolveModelCapabilities(aiConfig);
+
     // Create chat model
     const model = await createChatModel(aiConfig, {
       temperature: deepThinking ? 1 : 0.7,
       maxTokens: aiConfig.maxTokens,
       streaming: true,
-      deepThinking,
+      deepThinking: deepThinking && capabilities?.reasoning !== false,
     });
 
     // Register ALL tools via getAvailableTools
@@ -107,7 +301,10 @@ export async function* streamReadingAgent(
       bookId: book?.id || null,
       isVectorized,
       enabledSkills,
+      approveAction: onApprovalRequest,
     });
+    const mcpTools = await getMcpTools(useMcpStore.getState().servers);
+    tools.push(...mcpTools);
 
     // Build system prompt
     const systemPrompt = buildSystemPrompt({
@@ -116,6 +313,9 @@ export async function* streamReadingAgent(
       enabledSkills,
       isVectorized,
       userLanguage: "zh-CN",
+      canAct: !!book && !!onApprovalRequest,
+      externalTools: mcpTools,
+      memory,
     });
 
     // Build input messages (history + user input, without system — handled by agent prompt)
@@ -144,7 +344,6 @@ export async function* streamReadingAgent(
 
     // If no tools available, stream directly without agent graph
     if (tools.length === 0) {
-      const { SystemMessage } = await import("@langchain/core/messages");
       const allMessages = [new SystemMessage(systemPrompt), ...inputMessages];
       const stream = await model.stream(allMessages);
       for await (const chunk of stream) {
@@ -156,6 +355,12 @@ export async function* streamReadingAgent(
       return;
     }
 
+    // Models without native tool calling get the tools through the prompt
+    if (capabilities && !capabilities.tools) {
+      yield* streamWithPromptedTools(model, systemPrompt, inputMessages, tools);
+      return;
+    }
+
     // Build LangChain tools with proper Zod schemas
     const { DynamicStructuredTool } = await import("@langchain/core/tools");
     const langChainTools = tools.map((tool) => {
@@ -60,3 +60,34 @@ export const BUILTIN_EMBEDDING_MODELS: BuiltinEmbeddingModel[] = [
     languagesKey: "settings.vm_lang_multi",
   },
 ];
+
+/**
+ * Cross-encoder reranker models, run in the same Web Worker as the embedding
+ * models. They score (query, passage) pairs directly instead of embedding them.
+ */
+export interface BuiltinRerankerModel {
+  id: string;
+  /** HuggingFace model ID with a sequence-classification head */
+  hfModelId: string;
+  name: string;
+  size: string;
+  /** i18n key for language hint */
+  languagesKey: string;
+}
+
+export const BUILTIN_RERANKER_MODELS: BuiltinRerankerModel[] = [
+  {
+    id: "ms-marco-MiniLM-L-6-v2",
+    hfModelId: "Xenova/ms-marco-MiniLM-L-6-v2",
+    name: "MS MARCO MiniLM L6",
+    size: "~23 MB",
+    languagesKey: "settings.vm_lang_en",
+  },
+  {
+    id: "bge-reranker-base",
+    hfModelId: "Xenova/bge-reranker-base",
+    name: "BGE Reranker Base",
+    size: "~280 MB",
+    languagesKey: "settings.vm_lang_zhEn",
+  },
+];
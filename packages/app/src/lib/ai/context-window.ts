@@ -0,0 +1,60 @@
+/**
+ * Context window sizes — how many tokens the active model can take in.
+ *
+ * Local servers report what they run a model with (probed into
+ * ModelCapabilities.contextLength); hosted models are looked up by name.
+ */
+import type { AIConfig } from "@/types";
+
+/** Model name patterns → context window in tokens, most specific first */
+const KNOWN_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/claude/i, 200_000],
+  [/gemini-1\.0|gemini-pro$/i, 32_768],
+  [/gemini/i, 1_000_000],
+  [/gpt-4\.1/i, 1_000_000],
+  [/gpt-5/i, 400_000],
+  [/(^|[^a-z])o[134](-|$)/i, 200_000],
+  [/gpt-4o|gpt-4-turbo|chatgpt-4o/i, 128_000],
+  [/gpt-4-32k/i, 32_768],
+  [/gpt-4/i, 8_192],
+  [/gpt-3\.5/i, 16_385],
+  [/deepseek/i, 128_000],
+  [/llama-?3\.[1-9]|llama-?4/i, 128_000],
+  [/qwen|mistral|mixtral/i, 32_768],
+];
+
+/** Hosted APIs of unknown models — every current chat model has at least this */
+const DEFAULT_HOSTED_CONTEXT = 32_768;
+/** Ollama's default num_ctx; what an unprobed local model most likely runs with */
+const DEFAULT_LOCAL_CONTEXT = 4_096;
+
+/** Context window of the active model in tokens */
+export function getContextWindow(aiConfig: AIConfig): number {
+  const endpoint = aiConfig.endpoints.find((e) => e.id === aiConfig.activeEndpointId);
+  const model = aiConfig.activeModel;
+
+  if (endpoint?.provider === "local") {
+    return endpoint.modelCapabilities?.[model]?.contextLength ?? DEFAULT_LOCAL_CONTEXT;
+  }
+  for (const [pattern, size] of KNOWN_CONTEXT_WINDOWS) {
+    if (pattern.test(model)) return size;
+  }
+  return DEFAULT_HOSTED_CONTEXT;
+}
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 16_000;
+const MIN_HISTORY_TOKEN_BUDGET = 1_024;
+
+/**
+ * Tokens available for conversation history: what's left of the context
+ * window after the reply and the system prompt / tool schemas, capped by the
+ * user's budget so large-context models don't resend whole threads every turn.
+ */
+export function getHistoryTokenBudget(aiConfig: AIConfig): number {
+  const contextWindow = getContextWindow(aiConfig);
+  const replyReserve = Math.min(aiConfig.maxTokens ?? 4096, Math.floor(contextWindow / 4));
+  const promptReserve = Math.min(6_000, Math.floor(contextWindow / 4));
+  const available = contextWindow - replyReserve - promptReserve;
+  const cap = aiConfig.historyTokenBudget ?? DEFAULT_HISTORY_TOKEN_BUDGET;
+  return Math.max(MIN_HISTORY_TOKEN_BUDGET, Math.min(available, cap));
+}
@@ -5,6 +5,8 @@
  * Messages IN:
  *   { type: "load", modelId: string, hfModelId: string }
  *   { type: "embed", requestId: string, texts: string[] }
+ *   { type: "cancel", requestId: string }
+ *   { type: "rerank", requestId: string, hfModelId: string, query: string, documents: string[] }
  *   { type: "dispose" }
  *
  * Messages OUT:
@@ -14,11 +16,22 @@
  *   { type: "embed:progress", requestId: string, done: number, total: number }
  *   { type: "embed:done", requestId: string, embeddings: number[][] }
  *   { type: "embed:error", requestId: string, error: string }
+ *   { type: "embed:cancelled", requestId: string }
+ *   { type: "rerank:done", requestId: string, scores: number[] }
+ *   { type: "rerank:error", requestId: string, error: string }
  */
+import type { PreTrainedModel, PreTrainedTokenizer } from "@huggingface/transformers";
 
 let pipeline: any = null;
 let currentModelId: string | null = null;
 
+// Cross-encoder for reranking, loaded lazily and kept alongside the embedding pipeline
+let reranker: { tokenizer: PreTrainedTokenizer; model: PreTrainedModel } | null = null;
+let currentRerankerId: string | null = null;
+
+// Embed requests cancelled by the main thread; checked between texts
+const cancelledRequests = new Set<string>();
+
 self.onmessage = async (e: MessageEvent) => {
   const msg = e.data;
 
@@ -26,6 +39,10 @@ self.onmessage = async (e: MessageEvent) => {
     await handleLoad(msg.modelId, msg.hfModelId);
   } else if (msg.type === "embed") {
     await handleEmbed(msg.requestId, msg.texts);
+  } else if (msg.type === "cancel") {
+    cancelledRequests.add(msg.requestId);
+  } else if (msg.type === "rerank") {
+    await handleRerank(msg.requestId, msg.hfModelId, msg.query, msg.documents);
   } else if (msg.type === "dispose") {
     await handleDispose();
   }
@@ -77,6 +94,10 @@ async function handleEmbed(requestId: string, texts: string[]) {
     // Process texts one-by-one (Transformers.js doesn't truly batch in WASM)
     // but doing it in the Worker means it doesn't block the main thread
     for (let i = 0; i < total; i++) {
+      if (cancelledRequests.delete(requestId)) {
+        self.postMessage({ type: "embed:cancelled", requestId });
+        return;
+      }
       const output = await pipeline(texts[i], { pooling: "mean", normalize: true });
       embeddings.push(Array.from(output.data as Float32Array).slice(0, output.dims[1]));
 
@@ -89,6 +110,40 @@ async function handleEmbed(requestId: string, texts: string[]) {
     self.postMessage({ type: "embed:done", requestId, embeddings });
   } catch (err) {
     self.postMessage({ type: "embed:error", requestId, error: err instanceof Error ? err.message : String(err) });
+  } finally {
+    cancelledRequests.delete(requestId);
+  }
+}
+
+async function handleRerank(requestId: string, hfModelId: string, query: string, documents: string[]) {
+  try {
+    if (!reranker || currentRerankerId !== hfModelId) {
+      if (reranker) {
+        try { await reranker.model.dispose?.(); } catch { /* ignore */ }
+        reranker = null;
+        currentRerankerId = null;
+      }
+      const { AutoTokenizer, AutoModelForSequenceClassification, env } = await import("@huggingface/transformers");
+      env.allowLocalModels = false;
+      reranker = {
+        tokenizer: await AutoTokenizer.from_pretrained(hfModelId),
+        model: await AutoModelForSequenceClassification.from_pretrained(hfModelId),
+      };
+      currentRerankerId = hfModelId;
+    }
+
+    // Score every (query, document) pair in one batch; sigmoid maps logits to 0-1
+    const inputs = reranker.tokenizer(new Array(documents.length).fill(query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await reranker.model(inputs);
+    const scores = (logits.sigmoid().tolist() as number[][]).map((row) => row[0]);
+
+    self.postMessage({ type: "rerank:done", requestId, scores });
+  } catch (err) {
+    self.postMessage({ type: "rerank:error", requestId, error: err instanceof Error ? err.message : String(err) });
   }
 }
 
@@ -98,4 +153,9 @@ async function handleDispose() {
     pipeline = null;
     currentModelId = null;
   }
+  if (reranker) {
+    try { await reranker.model.dispose?.(); } catch { /* ignore */ }
+    reranker = null;
+    currentRerankerId = null;
+  }
 }
@@ -5,15 +5,21 @@
  * - OpenAI-compatible endpoints (OpenAI, Ollama, vLLM, DeepSeek, etc.)
  * - Anthropic Claude (native API with extended thinking support)
  * - Google Gemini (native API)
+ * - Local servers (Ollama, llama.cpp, LM Studio) — OpenAI-compatible, no API key needed
  */
-import type { AIConfig, AIEndpoint } from "@/types";
+import type { AIConfig, AIEndpoint, UsageCategory } from "@/types";
 import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { createUsageCallback } from "../usage/ledger";
+import { isLocalUrl } from "../usage/pricing";
+import { LOCAL_API_KEY_PLACEHOLDER, localOpenAIBaseUrl, requiresApiKey } from "./local-models";
 
 export interface LLMOptions {
   temperature?: number;
   maxTokens?: number;
   streaming?: boolean;
   deepThinking?: boolean;
+  /** What the calls are recorded as in the usage ledger (default "chat") */
+  usageCategory?: UsageCategory;
 }
 
 export function resolveActiveEndpoint(config: AIConfig): {
@@ -24,7 +30,7 @@ export function resolveActiveEndpoint(config: AIConfig): {
   if (!endpoint) {
     throw new Error("No active AI endpoint configured. Go to Settings → AI to add one.");
   }
-  if (!endpoint.apiKey) {
+  if (requiresApiKey(endpoint.provider) && !endpoint.apiKey) {
     throw new Error(`API key not set for endpoint "${endpoint.name}".`);
   }
   const model = config.activeModel;
@@ -39,12 +45,22 @@ export async function createChatModel(
   options: LLMOptions = {},
 ): Promise<BaseChatModel> {
   const { endpoint, model } = resolveActiveEndpoint(config);
-  return createChatModelFromEndpoint(endpoint, model, {
+  const chatModel = await createChatModelFromEndpoint(endpoint, model, {
     temperature: options.temperature ?? config.temperature,
     maxTokens: options.maxTokens ?? config.maxTokens,
     streaming: options.streaming,
     deepThinking: options.deepThinking,
   });
+  // Every call made through the model (tool-calling rounds included) goes into the usage ledger
+  chatModel.callbacks = [
+    createUsageCallback(
+      options.usageCategory ?? "chat",
+      endpoint.name,
+      model,
+      endpoint.provider === "local" || isLocalUrl(endpoint.baseUrl),
+    ),
+  ];
+  return chatModel;
 }
 
 export async function createChatModelFromEndpoint(
@@ -52,7 +68,7 @@ export async function createChatModelFromEndpoint(
   model: string,
   options: LLMOptions = {},
 ): Promise<BaseChatModel> {
-  if (!endpoint.apiKey) {
+  if (requiresApiKey(endpoint.provider) && !endpoint.apiKey) {
     throw new Error(`API key not set for endpoint "${endpoint.name}".`);
   }
 
@@ -164,6 +180,21 @@ export async function createChatModelFromEndpoint(
       } as ConstructorParameters<typeof ChatDeepSeek>[0]);
     }
 
+    case "local": {
+      const { ChatOpenAI } = await import("@langchain/openai");
+
+      return new ChatOpenAI({
+        model,
+        apiKey: endpoint.apiKey || LOCAL_API_KEY_PLACEHOLDER,
+        configuration: {
+          baseURL: localOpenAIBaseUrl(endpoint),
+        },
+        temperature,
+        maxTokens,
+        streaming,
+      });
+    }
+
     default: {
       const { ChatOpenAI } = await import("@langchain/openai");
 
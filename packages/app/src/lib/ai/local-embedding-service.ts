@@ -4,7 +4,7 @@
  *
  * Models are automatically downloaded from HuggingFace and cached by the browser.
  */
-import { BUILTIN_EMBEDDING_MODELS } from "./builtin-embedding-models";
+import { BUILTIN_EMBEDDING_MODELS, BUILTIN_RERANKER_MODELS } from "./builtin-embedding-models";
 
 /** The singleton worker instance */
 let worker: Worker | null = null;
@@ -58,16 +58,31 @@ export function loadEmbeddingPipeline(
  * Generate embeddings for one or more texts using the loaded model (via Worker).
  * Returns an array of number arrays (one embedding per text).
  * Does NOT block the main thread.
+ *
+ * Aborting `signal` rejects immediately with the signal's reason and tells the
+ * Worker to stop before the next text, so a cancelled job frees it quickly.
  */
 export function generateLocalEmbeddings(
   _builtinModelId: string,
   texts: string[],
   onItemProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal,
 ): Promise<number[][]> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
   const w = getWorker();
   const requestId = `req-${++requestCounter}`;
 
   return new Promise<number[][]>((resolve, reject) => {
+    const cleanup = () => {
+      w.removeEventListener("message", handler);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      w.postMessage({ type: "cancel", requestId });
+      reject(signal?.reason);
+    };
     const handler = (e: MessageEvent) => {
       const msg = e.data;
       if (msg.requestId !== requestId) return;
@@ -75,19 +90,55 @@ export function generateLocalEmbeddings(
       if (msg.type === "embed:progress") {
         onItemProgress?.(msg.done, msg.total);
       } else if (msg.type === "embed:done") {
-        w.removeEventListener("message", handler);
+        cleanup();
         resolve(msg.embeddings);
       } else if (msg.type === "embed:error") {
-        w.removeEventListener("message", handler);
+        cleanup();
         reject(new Error(msg.error));
       }
     };
 
     w.addEventListener("message", handler);
+    signal?.addEventListener("abort", onAbort);
     w.postMessage({ type: "embed", requestId, texts });
   });
 }
 
+/**
+ * Score (query, document) pairs with a built-in cross-encoder (via Worker).
+ * Returns one relevance score in 0-1 per document. The model is downloaded on
+ * first use and stays loaded next to the embedding model.
+ */
+export function rerankWithCrossEncoder(
+  rerankerModelId: string,
+  query: string,
+  documents: string[],
+): Promise<number[]> {
+  const model = BUILTIN_RERANKER_MODELS.find((m) => m.id === rerankerModelId);
+  if (!model) return Promise.reject(new Error(`Unknown reranker model: ${rerankerModelId}`));
+
+  const w = getWorker();
+  const requestId = `req-${++requestCounter}`;
+
+  return new Promise<number[]>((resolve, reject) => {
+    const handler = (e: MessageEvent) => {
+      const msg = e.data;
+      if (msg.requestId !== requestId) return;
+
+      if (msg.type === "rerank:done") {
+        w.removeEventListener("message", handler);
+        resolve(msg.scores);
+      } else if (msg.type === "rerank:error") {
+        w.removeEventListener("message", handler);
+        reject(new Error(msg.error));
+      }
+    };
+
+    w.addEventListener("message", handler);
+    w.postMessage({ type: "rerank", requestId, hfModelId: model.hfModelId, query, documents });
+  });
+}
+
 /**
  * Dispose / unload the worker to free memory.
  */
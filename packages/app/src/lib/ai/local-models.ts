@@ -0,0 +1,228 @@
+/**
+ * Local LLM servers — model discovery and capability probing
+ *
+ * Covers self-hosted OpenAI-compatible servers:
+ * - Ollama (native /api/tags and /api/show, OpenAI API under /v1)
+ * - LM Studio (/api/v0/models metadata, OpenAI API under /v1)
+ * - llama.cpp server and anything else exposing /v1/models and /v1/chat/completions
+ */
+import type { AIEndpoint, AIProviderType, ModelCapabilities } from "@/types";
+
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+/** Sent when a local endpoint has no key — OpenAI clients refuse an empty one, local servers ignore it */
+export const LOCAL_API_KEY_PLACEHOLDER = "local";
+
+/** Model names of well-known reasoning model families, for servers that don't report it */
+const REASONING_MODEL_PATTERN =
+  /(^|[^a-z])(r1|qwq|qwen3|gpt-oss|magistral|phi4-reasoning)|think|reason/i;
+
+/** 1×1 transparent PNG, sent to find out whether a model accepts images */
+const PROBE_IMAGE =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const PROBE_TOOL = {
+  type: "function",
+  function: {
+    name: "get_current_time",
+    description: "Get the current time in a city",
+    parameters: {
+      type: "object",
+      properties: { city: { type: "string", description: "City name" } },
+      required: ["city"],
+    },
+  },
+};
+
+export function requiresApiKey(provider: AIProviderType): boolean {
+  return provider !== "local";
+}
+
+/** Server root (for native APIs) and OpenAI-compatible base URL of a local endpoint */
+function localUrls(baseUrl: string): { root: string; openai: string } {
+  const root = (baseUrl || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, "").replace(/\/v1$/, "");
+  return { root, openai: `${root}/v1` };
+}
+
+/** OpenAI-compatible base URL to hand to chat clients */
+export function localOpenAIBaseUrl(endpoint: AIEndpoint): string {
+  return localUrls(endpoint.baseUrl).openai;
+}
+
+function authHeaders(endpoint: AIEndpoint): Record<string, string> {
+  return endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {};
+}
+
+/**
+ * List the models of a local server.
+ * Ollama's /api/tags lists every pulled model; other servers answer /v1/models.
+ */
+export async function fetchLocalModels(endpoint: AIEndpoint): Promise<string[]> {
+  const { root, openai } = localUrls(endpoint.baseUrl);
+  const headers = authHeaders(endpoint);
+
+  try {
+    const response = await fetch(`${root}/api/tags`, { headers });
+    if (response.ok) {
+      const data = await response.json();
+      if (Array.isArray(data.models)) {
+        return data.models
+          .map((m: { name: string }) => m.name)
+          .sort((a: string, b: string) => a.localeCompare(b));
+      }
+    }
+  } catch {
+    // Not Ollama — fall through to the OpenAI-compatible listing
+  }
+
+  const response = await fetch(`${openai}/models`, { headers });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch models: ${response.status} ${response.statusText}`);
+  }
+  const data = await response.json();
+  return (data.data || [])
+    .map((m: { id: string }) => m.id)
+    .sort((a: string, b: string) => a.localeCompare(b));
+}
+
+/** Ollama ≥ 0.6 reports capabilities from /api/show */
+async function probeOllama(
+  root: string,
+  model: string,
+  headers: Record<string, string>,
+): Promise<Omit<ModelCapabilities, "probedAt"> | null> {
+  try {
+    const response = await fetch(`${root}/api/show`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ model }),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    if (!Array.isArray(data.capabilities)) return null;
+    const capabilities: string[] = data.capabilities;
+    // Ollama runs models with num_ctx (from the Modelfile or its default), not the trained length
+    const numCtx = /^num_ctx\s+(\d+)/m.exec(data.parameters ?? "")?.[1];
+    return {
+      tools: capabilities.includes("tools"),
+      reasoning: capabilities.includes("thinking"),
+      vision: capabilities.includes("vision"),
+      contextLength: numCtx ? Number(numCtx) : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** LM Studio reports tool use and vision (`vlm`) from its REST API */
+async function probeLMStudio(
+  root: string,
+  model: string,
+  headers: Record<string, string>,
+): Promise<Omit<ModelCapabilities, "probedAt"> | null> {
+  try {
+    const response = await fetch(`${root}/api/v0/models/${encodeURIComponent(model)}`, {
+      headers,
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    if (typeof data.type !== "string") return null;
+    return {
+      tools: Array.isArray(data.capabilities) && data.capabilities.includes("tool_use"),
+      reasoning: REASONING_MODEL_PATTERN.test(model),
+      vision: data.type === "vlm",
+      contextLength: data.loaded_context_length ?? data.max_context_length,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Servers without capability metadata (llama.cpp, older Ollama): send a tool
+ * request and an image request, and see what the model does with them.
+ */
+async function probeByRequest(
+  root: string,
+  openai: string,
+  model: string,
+  headers: Record<string, string>,
+): Promise<Omit<ModelCapabilities, "probedAt">> {
+  const post = (body: Record<string, unknown>) =>
+    fetch(`${openai}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ model, temperature: 0, stream: false, ...body }),
+    });
+
+  let tools = false;
+  let reasoning = REASONING_MODEL_PATTERN.test(model);
+  try {
+    const response = await post({
+      // Room for reasoning models to think before they call the tool
+      max_tokens: 512,
+      messages: [{ role: "user", content: "What time is it in Paris? Use the tool." }],
+      tools: [PROBE_TOOL],
+    });
+    if (response.ok) {
+      const message = (await response.json()).choices?.[0]?.message;
+      tools = Array.isArray(message?.tool_calls) && message.tool_calls.length > 0;
+      reasoning ||=
+        !!message?.reasoning_content ||
+        !!message?.reasoning ||
+        /<think>/.test(message?.content ?? "");
+    }
+  } catch {
+    // Unreachable or rejected the tools parameter — no tool calling
+  }
+
+  let vision = false;
+  try {
+    const response = await post({
+      max_tokens: 1,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Describe the image." },
+            { type: "image_url", image_url: { url: PROBE_IMAGE } },
+          ],
+        },
+      ],
+    });
+    vision = response.ok;
+  } catch {
+    // Rejected image input
+  }
+
+  // llama.cpp server reports the context size it was started with
+  let contextLength: number | undefined;
+  try {
+    const response = await fetch(`${root}/props`, { headers });
+    if (response.ok) {
+      const nCtx = (await response.json()).default_generation_settings?.n_ctx;
+      if (typeof nCtx === "number") contextLength = nCtx;
+    }
+  } catch {
+    // Not llama.cpp
+  }
+
+  return { tools, reasoning, vision, contextLength };
+}
+
+/**
+ * Find out whether a local model supports tool calling, reasoning and image
+ * input, and the context window it runs with
+ */
+export async function probeModelCapabilities(
+  endpoint: AIEndpoint,
+  model: string,
+): Promise<ModelCapabilities> {
+  const { root, openai } = localUrls(endpoint.baseUrl);
+  const headers = authHeaders(endpoint);
+  const capabilities =
+    (await probeOllama(root, model, headers)) ??
+    (await probeLMStudio(root, model, headers)) ??
+    (await probeByRequest(root, openai, model, headers));
+  return { ...capabilities, probedAt: Date.now() };
+}
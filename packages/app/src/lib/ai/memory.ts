@@ -0,0 +1,229 @@
+/**
+ * Conversation memory — keeps long threads within the model's context.
+ *
+ * Recent messages are sent verbatim as long as they fit the history token
+ * budget. When they no longer do, the oldest are folded into a rolling
+ * summary stored on the thread (Thread.summary / summarizedThroughId).
+ * Pinned messages and the passages quoted or cited in folded messages are
+ * carried along verbatim next to the summary.
+ */
+import { useChatStore } from "@/stores/chat-store";
+import type { AIConfig, Message, Thread } from "@/types";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { estimateTokens } from "../rag/token-counter";
+import { assertWithinQuota } from "../usage/quota";
+import { getHistoryTokenBudget } from "./context-window";
+import { createChatModel } from "./llm-provider";
+
+/** Compaction shrinks the verbatim history to this share of the budget, so it doesn't run every turn */
+const COMPACT_TARGET = 0.6;
+/** The latest exchange is never folded */
+const MIN_RECENT_MESSAGES = 2;
+/** Share of the budget the carried-over passages may take; the newest win */
+const PASSAGE_SHARE = 0.25;
+/** Per-message cap on what the summarizer sees */
+const SUMMARIZE_MESSAGE_CHARS = 4000;
+/** Role markers and message framing */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const SUMMARY_PROMPT = `You maintain the memory of a long conversation between a reader and a reading assistant. Merge the earlier summary (if any) and the new messages into one updated summary.
+- Keep the questions asked, the answers and conclusions reached, the user's goals and preferences, and the books, chapters, characters and terms discussed
+- Drop greetings, repetition and tool-call mechanics
+- Write compact bullet points, at most about 300 words, in the language of the conversation
+Respond with ONLY the updated summary.`;
+
+interface Passage {
+  source?: string;
+  text: string;
+}
+
+export interface MemoryPlan {
+  /** Folded into the summary: rendered as the memory section of the system prompt */
+  memory: string;
+  /** Sent as chat messages, oldest first; ends with the current user message */
+  messages: Message[];
+}
+
+export function estimateMessageTokens(message: Message): number {
+  const citations = (message.citations ?? []).map((c) => c.text).join("\n");
+  return estimateTokens(message.content) + estimateTokens(citations) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/** Messages already covered by the summary, and the ones after it */
+function splitAtSummary(thread: Thread): { folded: Message[]; recent: Message[] } {
+  const messages = thread.messages.filter((m) => m.role !== "system");
+  const index = thread.summarizedThroughId
+    ? messages.findIndex((m) => m.id === thread.summarizedThroughId)
+    : -1;
+  return { folded: messages.slice(0, index + 1), recent: messages.slice(index + 1) };
+}
+
+/** Quotes attached to user messages and citations in answers, deduplicated */
+function collectPassages(messages: Message[]): Passage[] {
+  const passages = new Map<string, Passage>();
+  for (const message of messages) {
+    for (const entry of message.partsOrder ?? []) {
+      // Quote entries carry their source next to the text (see use-streaming-chat)
+      const quote = entry as { type: string; text?: string; source?: string };
+      if (quote.type === "quote" && quote.text) {
+        passages.set(quote.text, { source: quote.source, text: quote.text });
+      }
+    }
+    for (const citation of message.citations ?? []) {
+      passages.set(citation.text, { source: citation.chapterTitle, text: citation.text });
+    }
+  }
+  return [...passages.values()];
+}
+
+function formatMessage(message: Message, maxChars = Number.POSITIVE_INFINITY): string {
+  const role = message.role === "user" ? "User" : "Assistant";
+  const content =
+    message.content.length > maxChars ? `${message.content.slice(0, maxChars)}…` : message.content;
+  return `**${role}:** ${content}`;
+}
+
+function formatPassage(passage: Passage): string {
+  const text = passage.text.replace(/\s*\n\s*/g, " ");
+  return passage.source ? `> [${passage.source}]: "${text}"` : `> "${text}"`;
+}
+
+/** Render the memory section content; passages are dropped oldest first to stay within `passageBudget` */
+function buildMemory(
+  summary: string | undefined,
+  pinned: Message[],
+  passages: Passage[],
+  passageBudget: number,
+): string {
+  const sections: string[] = [];
+  if (summary?.trim()) {
+    sections.push(`### Summary of the earlier discussion\n${summary.trim()}`);
+  }
+  if (pinned.length > 0) {
+    sections.push(`### Pinned messages\n${pinned.map((m) => formatMessage(m)).join("\n\n")}`);
+  }
+
+  const kept: string[] = [];
+  let used = 0;
+  for (const passage of [...passages].reverse()) {
+    const line = formatPassage(passage);
+    used += estimateTokens(line);
+    if (used > passageBudget) break;
+    kept.unshift(line);
+  }
+  if (kept.length > 0) {
+    sections.push(`### Passages cited earlier\n${kept.join("\n")}`);
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Choose what of a thread to send: the summary, pinned messages and passages
+ * of folded messages, and as many recent messages as fit the budget. If the
+ * summary is behind (compaction failed), the oldest recent messages are
+ * dropped — their pins and passages still come along.
+ */
+export function planMemory(thread: Thread, budget: number): MemoryPlan {
+  const { folded, recent } = splitAtSummary(thread);
+
+  const baseMemory = buildMemory(
+    thread.summary,
+    folded.filter((m) => m.pinned),
+    collectPassages(folded),
+    budget * PASSAGE_SHARE,
+  );
+  let available = budget - estimateTokens(baseMemory);
+
+  let start = recent.length;
+  while (start > 0) {
+    const tokens = estimateMessageTokens(recent[start - 1]);
+    // The current user message always goes, whatever it costs
+    if (start < recent.length && tokens > available) break;
+    available -= tokens;
+    start--;
+  }
+  // History sent to the model should open with a user turn
+  while (start < recent.length - 1 && recent[start].role !== "user") start++;
+
+  if (start === 0) return { memory: baseMemory, messages: recent };
+
+  const dropped = [...folded, ...recent.slice(0, start)];
+  return {
+    memory: buildMemory(
+      thread.summary,
+      dropped.filter((m) => m.pinned),
+      collectPassages(dropped),
+      budget * PASSAGE_SHARE,
+    ),
+    messages: recent.slice(start),
+  };
+}
+
+/** Recent messages to fold into the summary, or null while everything still fits */
+function selectMessagesToFold(thread: Thread, budget: number): Message[] | null {
+  const { folded, recent } = splitAtSummary(thread);
+  const memory = buildMemory(
+    thread.summary,
+    folded.filter((m) => m.pinned),
+    collectPassages(folded),
+    budget * PASSAGE_SHARE,
+  );
+
+  let total = estimateTokens(memory) + recent.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+  if (total <= budget) return null;
+
+  const target = budget * COMPACT_TARGET;
+  let count = 0;
+  while (recent.length - count > MIN_RECENT_MESSAGES) {
+    const next = recent[count];
+    if (total <= target && next.role === "user") break;
+    // Pinned messages move to the memory section rather than disappearing
+    if (!next.pinned) total -= estimateMessageTokens(next);
+    count++;
+  }
+  return count > 0 ? recent.slice(0, count) : null;
+}
+
+async function summarizeMessages(
+  previousSummary: string | undefined,
+  messages: Message[],
+  aiConfig: AIConfig,
+): Promise<string> {
+  await assertWithinQuota("ai_messages");
+  const llm = await createChatModel(aiConfig, {
+    temperature: 0.3,
+    maxTokens: 1024,
+    streaming: false,
+    usageCategory: "background",
+  });
+  const transcript = messages.map((m) => formatMessage(m, SUMMARIZE_MESSAGE_CHARS)).join("\n\n");
+  const response = await llm.invoke([
+    new SystemMessage(SUMMARY_PROMPT),
+    new HumanMessage(
+      `Earlier summary:\n${previousSummary?.trim() || "(none)"}\n\nNew messages:\n${transcript}`,
+    ),
+  ]);
+  const summary = typeof response.content === "string" ? response.content.trim() : "";
+  if (!summary) throw new Error("Summarizer returned an empty summary");
+  return summary;
+}
+
+/**
+ * Fold the oldest messages into the thread summary if the history no longer
+ * fits the active model. Returns the thread as it should be sent; on failure
+ * the thread is returned unchanged and planMemory trims it instead.
+ */
+export async function compactThreadMemory(thread: Thread, aiConfig: AIConfig): Promise<Thread> {
+  const toFold = selectMessagesToFold(thread, getHistoryTokenBudget(aiConfig));
+  if (!toFold) return thread;
+
+  try {
+    const summary = await summarizeMessages(thread.summary, toFold, aiConfig);
+    const summarizedThroughId = toFold[toFold.length - 1].id;
+    await useChatStore.getState().updateThreadSummary(thread.id, summary, summarizedThroughId);
+    return { ...thread, summary, summarizedThroughId };
+  } catch (err) {
+    console.warn("[memory] Failed to summarize earlier messages:", err);
+    return thread;
+  }
+}
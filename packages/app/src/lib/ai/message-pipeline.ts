@@ -1,15 +1,18 @@
 /**
  * Message processing pipeline
  * - Citation reference injection
- * - 8-message sliding window
+ * - Token-budgeted history with conversation memory (see memory.ts)
  * - Context assembly
  */
 import type { Message, SemanticContext, Thread } from "@/types";
 import type { Book, Skill } from "@/types";
+import { DEFAULT_HISTORY_TOKEN_BUDGET } from "./context-window";
+import { planMemory } from "./memory";
 import { buildSystemPrompt } from "./system-prompt";
 
 interface PipelineConfig {
-  slidingWindowSize: number; // default 8
+  /** Tokens of history to send, from getHistoryTokenBudget */
+  historyTokenBudget: number;
 }
 
 interface PipelineContext {
@@ -30,10 +33,12 @@ export interface ProcessedMessage {
 interface ProcessedMessages {
   systemPrompt: string;
   messages: ProcessedMessage[];
+  /** Summary, pinned messages and passages standing in for older messages */
+  memory: string;
 }
 
 const DEFAULT_CONFIG: PipelineConfig = {
-  slidingWindowSize: 8,
+  historyTokenBudget: DEFAULT_HISTORY_TOKEN_BUDGET,
 };
 
 /** Process a thread into messages ready for AI API call */
@@ -42,33 +47,24 @@ export function processMessages(
   context: PipelineContext,
   config: PipelineConfig = DEFAULT_CONFIG,
 ): ProcessedMessages {
-  const systemPrompt = buildSystemPrompt(context);
-
-  // Apply sliding window — keep last N messages
-  const windowedMessages = applySlidingWindow(thread.messages, config.slidingWindowSize);
+  // Keep what fits the budget; older messages are represented by the memory section
+  const { memory, messages } = planMemory(thread, config.historyTokenBudget);
+  const systemPrompt = buildSystemPrompt({ ...context, memory });
 
   // Process citations in messages, preserving reasoning for DeepSeek multi-turn
-  const processed: ProcessedMessage[] = windowedMessages
-    .filter((m) => m.role !== "system")
-    .map((m) => {
-      const msg: ProcessedMessage = {
-        role: m.role as "user" | "assistant",
-        content: injectCitations(m),
-      };
-      // Preserve reasoning content for assistant messages (needed by DeepSeek reasoner)
-      if (m.role === "assistant" && m.reasoning && m.reasoning.length > 0) {
-        msg.reasoning = m.reasoning.map((r) => r.content).join("\n");
-      }
-      return msg;
-    });
-
-  return { systemPrompt, messages: processed };
-}
+  const processed: ProcessedMessage[] = messages.map((m) => {
+    const msg: ProcessedMessage = {
+      role: m.role as "user" | "assistant",
+      content: injectCitations(m),
+    };
+    // Preserve reasoning content for assistant messages (needed by DeepSeek reasoner)
+    if (m.role === "assistant" && m.reasoning && m.reasoning.length > 0) {
+      msg.reasoning = m.reasoning.map((r) => r.content).join("\n");
+    }
+    return msg;
+  });
 
-/** Apply sliding window, keeping system messages + last N user/assistant pairs */
-function applySlidingWindow(messages: Message[], windowSize: number): Message[] {
-  if (messages.length <= windowSize) return messages;
-  return messages.slice(-windowSize);
+  return { systemPrompt, messages: processed, memory };
 }
 
 /** Inject citation references into message content */
@@ -4,6 +4,7 @@
  * Executes skills by combining their prompts with context and calling the LLM.
  * Skills can be built-in or custom user-defined.
  */
+import { assertWithinQuota } from "@/lib/usage/quota";
 import type { AIConfig, Skill } from "@/types";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
@@ -48,6 +49,7 @@ export class SkillExecutor {
         temperature: 0.7,
         maxTokens: 4096,
         streaming: false,
+        usageCategory: "skill",
       });
     }
     return this.llm;
@@ -64,6 +66,7 @@ export class SkillExecutor {
     const startTime = Date.now();
 
     try {
+      await assertWithinQuota("ai_messages");
       const llm = await this.getLLM();
 
       // Build the prompt
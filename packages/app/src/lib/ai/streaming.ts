@@ -4,7 +4,10 @@
  * Supports OpenAI-compatible, Anthropic Claude, and Google Gemini providers.
  */
 import type { AIConfig, Book, SemanticContext, Skill, Thread } from "@/types";
+import { assertWithinQuota } from "../usage/quota";
 import { streamReadingAgent } from "./agents/reading-agent";
+import { getHistoryTokenBudget } from "./context-window";
+import { compactThreadMemory } from "./memory";
 import { processMessages } from "./message-pipeline";
 
 export interface StreamingOptions {
@@ -24,6 +27,8 @@ export interface StreamingOptions {
   onToolCall?: (toolName: string, args: Record<string, unknown>) => void;
   onToolResult?: (toolName: string, result: unknown) => void;
   onReasoning?: (content: string, type?: "thinking" | "planning" | "analyzing" | "deciding") => void;
+  /** Resolves true once the user approves a mutating tool call */
+  onApprovalRequest?: (toolName: string, args: Record<string, unknown>) => Promise<boolean>;
 }
 
 export class StreamingChat {
@@ -32,8 +37,19 @@ export class StreamingChat {
   async stream(options: StreamingOptions): Promise<void> {
     this.aborted = false;
 
-    const { messages } = processMessages(
-      options.thread,
+    try {
+      await assertWithinQuota("ai_messages");
+    } catch (error) {
+      options.onError(error as Error);
+      return;
+    }
+
+    // Fold messages that no longer fit the model into the thread summary first
+    const thread = await compactThreadMemory(options.thread, options.aiConfig);
+    if (this.aborted) return;
+
+    const { messages, memory } = processMessages(
+      thread,
       {
         book: options.book,
         semanticContext: options.semanticContext,
@@ -41,7 +57,7 @@ export class StreamingChat {
         isVectorized: options.isVectorized,
         userLanguage: options.book?.meta.language || "",
       },
-      { slidingWindowSize: options.aiConfig.slidingWindowSize },
+      { historyTokenBudget: getHistoryTokenBudget(options.aiConfig) },
     );
 
     const userInput = messages[messages.length - 1]?.content || "";
@@ -64,6 +80,8 @@ export class StreamingChat {
           enabledSkills: options.enabledSkills,
           isVectorized: options.isVectorized,
           deepThinking: options.deepThinking,
+          memory,
+          onApprovalRequest: options.onApprovalRequest,
         },
         userInput,
         history,
@@ -2,7 +2,7 @@
  * Dynamic System Prompt assembly — 6-section structure
  * 1. Role & persona
  * 2. Book context (metadata, current position)
- * 3. Semantic reading context (SRC)
+ * 3. Semantic reading context (SRC), conversation memory
  * 4. Available tools description (context + RAG + analysis)
  * 5. Core workflow & strict tool-use rules
  * 6. Response constraints
@@ -15,6 +15,12 @@ interface PromptContext {
   enabledSkills: Skill[];
   isVectorized: boolean;
   userLanguage: string;
+  /** Action tools (highlight, note, bookmark, navigate, tag) are registered */
+  canAct?: boolean;
+  /** Tools from the user's MCP servers */
+  externalTools?: Array<{ name: string; description: string }>;
+  /** Summary, pinned messages and passages of messages no longer sent (see memory.ts) */
+  memory?: string;
 }
 
 /** Build the full system prompt from context */
@@ -23,7 +29,8 @@ export function buildSystemPrompt(ctx: PromptContext): string {
     buildRoleSection(),
     buildBookContextSection(ctx.book),
     buildSemanticSection(ctx.semanticContext),
-    buildToolsSection(ctx.enabledSkills, ctx.isVectorized),
+    buildMemorySection(ctx.memory),
+    buildToolsSection(ctx.enabledSkills, ctx.isVectorized, !!ctx.canAct, ctx.externalTools ?? []),
     buildWorkflowSection(ctx.isVectorized),
     buildConstraintsSection(ctx.userLanguage),
   ];
@@ -65,12 +72,27 @@ function buildSemanticSection(ctx: SemanticContext | null): string {
     .join("\n");
 }
 
-function buildToolsSection(skills: Skill[], isVectorized: boolean): string {
+function buildMemorySection(memory: string | undefined): string {
+  if (!memory) return "";
+  return `## Conversation Memory
+
+Earlier parts of this conversation are no longer included as messages. This is what they covered — rely on it for continuity, and treat pinned messages and cited passages as exact.
+
+${memory}`;
+}
+
+function buildToolsSection(
+  skills: Skill[],
+  isVectorized: boolean,
+  canAct: boolean,
+  externalTools: Array<{ name: string; description: string }>,
+): string {
   const tools: string[] = [];
 
   // General tools (always available)
   tools.push("### General Tools (always available)");
   tools.push("- **listBooks**: List books in the library with search/status filters (params: reasoning, search, status, limit)");
+  tools.push("- **librarySearch**: Search content across all vectorized books, each hit labeled with its book (params: reasoning, query, mode, topK)");
   tools.push("- **searchAllHighlights**: Get highlights across all books (params: reasoning, days, limit)");
   tools.push("- **searchAllNotes**: Get notes across all books (params: reasoning, days, bookTitle, limit)");
   tools.push("- **getReadingStats**: Get reading statistics (params: reasoning, days)");
@@ -123,6 +145,24 @@ function buildToolsSection(skills: Skill[], isVectorized: boolean): string {
     "- **compareSections**: Compare two chapters (params: chapterIndex1, chapterIndex2, compareType)",
   );
 
+  // Action tools (the user confirms each call)
+  if (canAct) {
+    tools.push("");
+    tools.push("### Action Tools (the user confirms each call)");
+    tools.push(
+      "- **createHighlight**: Highlight a passage, quoted exactly from the book (params: text, color, note, all)",
+    );
+    tools.push("- **addNote**: Save a note, optionally anchored to a passage (params: content, title, text, tags)");
+    tools.push("- **addBookmark**: Bookmark a passage or the current page (params: text, label)");
+    tools.push(
+      "- **goToLocation**: Move the reader to a passage, chapter, CFI or percentage (params: text, chapter, cfi, percentage)",
+    );
+    tools.push("- **tagBook**: Add or replace the book's tags (params: tags, replace)");
+    tools.push(
+      "Only call action tools when the user asks for the change. If a call comes back `denied`, accept it and do not retry.",
+    );
+  }
+
   // Custom skills
   if (skills.length > 0) {
     tools.push("");
@@ -132,6 +172,15 @@ function buildToolsSection(skills: Skill[], isVectorized: boolean): string {
     }
   }
 
+  // Tools from MCP servers (descriptions start with the server name)
+  if (externalTools.length > 0) {
+    tools.push("");
+    tools.push("### External Tools (MCP servers)");
+    for (const tool of externalTools) {
+      tools.push(`- **${tool.name}**: ${tool.description}`);
+    }
+  }
+
   return `## Available Tools\n\n${tools.join("\n")}`;
 }
 
@@ -0,0 +1,32 @@
+/**
+ * Tool approval — pending confirmations of mutating agent tool calls.
+ *
+ * The streaming hook registers a wait per tool-call part; the confirm card
+ * in the chat resolves it. Keyed by part id, so several calls can wait at once.
+ */
+
+/** "always" approves and turns on auto-approve for the rest of the thread */
+export type ToolApprovalDecision = "approve" | "deny" | "always";
+
+const pending = new Map<string, (decision: ToolApprovalDecision) => void>();
+
+/** Wait for the user to decide on the tool call shown by the given part */
+export function waitForToolApproval(partId: string): Promise<ToolApprovalDecision> {
+  return new Promise((resolve) => {
+    pending.set(partId, resolve);
+  });
+}
+
+export function resolveToolApproval(partId: string, decision: ToolApprovalDecision): void {
+  const resolve = pending.get(partId);
+  if (!resolve) return;
+  pending.delete(partId);
+  resolve(decision);
+}
+
+/** Deny everything still waiting, e.g. when the stream is stopped */
+export function denyPendingApprovals(): void {
+  for (const partId of [...pending.keys()]) {
+    resolveToolApproval(partId, "deny");
+  }
+}
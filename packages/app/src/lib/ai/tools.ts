@@ -1,7 +1,8 @@
 import { getChunks, getHighlights, getNotes, getBooks, getAllHighlights, getAllNotes, getReadingSessionsByDateRange, getSkills as getDbSkills } from "@/lib/db/database";
 import { getBuiltinSkills } from "./skills/builtin-skills";
-import { search } from "@/lib/rag/search";
+import { search, searchLibrary } from "@/lib/rag/search";
 import { getContextTools } from "./context-tools";
+import { type ActionApprover, getActionTools } from "./action-tools";
 /**
  * AI Tool registration — conditional tool registration based on book state
  * Full implementation with RAG search pipeline integration
@@ -10,6 +11,7 @@ import { getContextTools } from "./context-tools";
  * - RAG Tools: ragSearch, ragToc, ragContext
  * - Analysis Tools: summarize, extractEntities, analyzeArguments, findQuotes
  * - Annotation Tools: getAnnotations
+ * - Action Tools: createHighlight, addNote, addBookmark, goToLocation, tagBook (need user approval)
  */
 import type { SearchQuery, Skill } from "@/types";
 
@@ -566,6 +568,58 @@ function createListBooksTool(): ToolDefinition {
   };
 }
 
+/** Search content across all vectorized books */
+function createLibrarySearchTool(): ToolDefinition {
+  return {
+    name: "librarySearch",
+    description:
+      "Search the content of ALL vectorized books in the user's library at once. Use this when the user asks where any of their books discuss a topic, or wants to compare how different books treat the same idea. Each result is labeled with its book.",
+    parameters: {
+      reasoning: {
+        type: "string",
+        description: "Brief explanation of why you are calling this tool",
+        required: true,
+      },
+      query: {
+        type: "string",
+        description: "The search query describing what to find",
+        required: true,
+      },
+      mode: {
+        type: "string",
+        description:
+          'Search mode: "hybrid" (recommended), "vector" (semantic), or "bm25" (keyword)',
+      },
+      topK: { type: "number", description: "Number of results to return (default: 10)" },
+    },
+    execute: async (args) => {
+      const results = await searchLibrary({
+        query: args.query as string,
+        mode: (args.mode as "hybrid" | "vector" | "bm25") || "hybrid",
+        topK: (args.topK as number) || 10,
+        threshold: 0.3,
+      });
+
+      return {
+        results: results.map((r) => ({
+          bookId: r.chunk.bookId,
+          bookTitle: r.bookTitle,
+          bookAuthor: r.bookAuthor,
+          chapter: r.chunk.chapterTitle,
+          chapterIndex: r.chunk.chapterIndex,
+          content: r.chunk.content.slice(0, 500), // Truncate for context window
+          score: Math.round(r.score * 1000) / 1000,
+          matchType: r.matchType,
+          highlights: r.highlights,
+          cfi: r.chunk.startCfi || "",
+        })),
+        totalResults: results.length,
+        booksMatched: new Set(results.map((r) => r.chunk.bookId)).size,
+      };
+    },
+  };
+}
+
 /** Search highlights across all books */
 function createSearchAllHighlightsTool(): ToolDefinition {
   return {
@@ -737,6 +791,7 @@ function createReadingStatsTool(): ToolDefinition {
 function getGeneralTools(): ToolDefinition[] {
   return [
     createListBooksTool(),
+    createLibrarySearchTool(),
     createSearchAllHighlightsTool(),
     createSearchAllNotesTool(),
     createReadingStatsTool(),
@@ -876,6 +931,8 @@ export function getAvailableTools(options: {
   bookId?: string | null;
   isVectorized: boolean;
   enabledSkills: Skill[];
+  /** Confirms mutating tool calls; action tools are only offered when set */
+  approveAction?: ActionApprover;
 }): ToolDefinition[] {
   const tools: ToolDefinition[] = [];
 
@@ -904,6 +961,11 @@ export function getAvailableTools(options: {
       createGetAnnotationsTool(options.bookId),
       createCompareSectionsTool(options.bookId),
     );
+
+    // Action tools (change annotations, tags or the reader position)
+    if (options.approveAction) {
+      tools.push(...getActionTools(options.bookId, options.approveAction));
+    }
   }
 
   // Add custom skills
@@ -0,0 +1,326 @@
+/**
+ * Backup service — full backup and restore of the library database.
+ *
+ * A backup is a schema-tagged JSON archive holding every row of the backup
+ * tables (see `BACKUP_TABLES`) and, optionally, the persisted settings files
+ * from `readany-store/`. When book files are included the archive is written
+ * as a zip: `backup.json` plus `books/<bookId>.<ext>`.
+ *
+ * Restores validate the archive, upgrade rows from older schema versions
+ * through `migrateBackupTables`, then merge into or replace local data.
+ * Derived data (chunks, BM25 index) is not backed up; restored books are
+ * vectorized again.
+ */
+import {
+  BACKUP_TABLES,
+  type BackupRow,
+  type BackupTable,
+  type RestoreMode,
+  getBackupRows,
+  getBook,
+  hasBackupNaturalKey,
+  restoreBackupRows,
+  updateBook,
+} from "@/lib/db/database";
+import {
+  type BackupTables,
+  CURRENT_SCHEMA_VERSION,
+  migrateBackupTables,
+} from "@/lib/db/migrations";
+import { flushAllWrites } from "@/stores/persist";
+
+export const BACKUP_FORMAT = "readany-backup";
+/** Archive layout version; the table layout is versioned separately by `schemaVersion` */
+export const BACKUP_VERSION = 1;
+
+const ARCHIVE_ENTRY = "backup.json";
+const STORE_DIR = "readany-store";
+const BOOKS_DIR = "books";
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  /** Database schema version (latest migration) the rows were written with */
+  schemaVersion: number;
+  createdAt: number;
+  tables: BackupTables;
+  /** Persisted store state by store key, when settings were included */
+  settings?: Record<string, unknown>;
+  /** Book id → zip entry name of the book file, when book files were included */
+  bookFiles?: Record<string, string>;
+}
+
+export interface BackupOptions {
+  includeSettings: boolean;
+  includeBookFiles: boolean;
+}
+
+export interface RestoreOptions {
+  mode: RestoreMode;
+  restoreSettings: boolean;
+}
+
+export interface RestoreReport {
+  rows: Partial<Record<BackupTable, number>>;
+  /** Settings files written; the app must reload for them to take effect */
+  settings: number;
+  bookFiles: number;
+}
+
+/** Raised when a file is not a backup archive or cannot be restored by this version */
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupValidationError";
+  }
+}
+
+/** Summary shown before restoring */
+export function summarizeBackup(archive: BackupArchive): Partial<Record<BackupTable, number>> {
+  return Object.fromEntries(
+    BACKUP_TABLES.map((table) => [table, archive.tables[table]?.length ?? 0]),
+  );
+}
+
+// --- Create ---
+
+async function readSettingsFiles(): Promise<Record<string, unknown>> {
+  const { readDir, readTextFile, BaseDirectory } = await import("@tauri-apps/plugin-fs");
+  const settings: Record<string, unknown> = {};
+  // Make sure the files reflect the latest in-memory state
+  await flushAllWrites();
+  for (const entry of await readDir(STORE_DIR, { baseDir: BaseDirectory.AppData })) {
+    if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+    try {
+      const text = await readTextFile(`${STORE_DIR}/${entry.name}`, {
+        baseDir: BaseDirectory.AppData,
+      });
+      settings[entry.name.replace(/\.json$/, "")] = JSON.parse(text);
+    } catch (err) {
+      console.warn(`[Backup] Skipping unreadable settings file ${entry.name}:`, err);
+    }
+  }
+  return settings;
+}
+
+/** Build a backup; returns the file content and the extension it should be saved with */
+export async function createBackup(
+  options: BackupOptions,
+): Promise<{ blob: Blob; extension: "json" | "zip" }> {
+  const tables: BackupTables = {};
+  for (const table of BACKUP_TABLES) {
+    tables[table] = await getBackupRows(table);
+  }
+
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: Date.now(),
+    tables,
+  };
+  if (options.includeSettings) {
+    archive.settings = await readSettingsFiles();
+  }
+
+  if (!options.includeBookFiles) {
+    return {
+      blob: new Blob([JSON.stringify(archive)], { type: "application/json" }),
+      extension: "json",
+    };
+  }
+
+  const { readFile } = await import("@tauri-apps/plugin-fs");
+  const { configure, ZipWriter, BlobWriter, TextReader, Uint8ArrayReader } = await import(
+    "@zip.js/zip.js"
+  );
+  configure({ useWebWorkers: false });
+  const writer = new ZipWriter(new BlobWriter("application/zip"));
+
+  archive.bookFiles = {};
+  for (const book of tables.books ?? []) {
+    const bookId = String(book.id);
+    const filePath = String(book.file_path ?? "");
+    const ext = filePath.split(".").pop()?.toLowerCase() || String(book.format ?? "epub");
+    const name = `${BOOKS_DIR}/${bookId}.${ext}`;
+    try {
+      // Book files are already compressed; store them as-is
+      await writer.add(name, new Uint8ArrayReader(await readFile(filePath)), { level: 0 });
+      archive.bookFiles[bookId] = name;
+    } catch (err) {
+      console.warn(`[Backup] Book file missing for ${bookId}, skipping:`, err);
+    }
+  }
+  await writer.add(ARCHIVE_ENTRY, new TextReader(JSON.stringify(archive)));
+
+  return { blob: await writer.close(), extension: "zip" };
+}
+
+// --- Read & validate ---
+
+/** A backup file opened for restore; `readBookFile` is only set for zip archives */
+export interface OpenedBackup {
+  archive: BackupArchive;
+  readBookFile?: (entryName: string) => Promise<Uint8Array | null>;
+}
+
+function validateArchive(data: unknown): BackupArchive {
+  const archive = data as Partial<BackupArchive> | null;
+  if (!archive || typeof archive !== "object" || archive.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError("Not a ReadAny backup file");
+  }
+  if (typeof archive.version !== "number" || archive.version > BACKUP_VERSION) {
+    throw new BackupValidationError(`Unsupported backup version ${archive.version}`);
+  }
+  if (typeof archive.schemaVersion !== "number") {
+    throw new BackupValidationError("Backup has no schema version");
+  }
+  if (archive.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupValidationError(
+      `Backup was made by a newer version (schema ${archive.schemaVersion}, this app supports ${CURRENT_SCHEMA_VERSION})`,
+    );
+  }
+  if (!archive.tables || typeof archive.tables !== "object") {
+    throw new BackupValidationError("Backup has no tables");
+  }
+  for (const [table, rows] of Object.entries(archive.tables)) {
+    if (!BACKUP_TABLES.includes(table as BackupTable)) {
+      throw new BackupValidationError(`Unknown table "${table}" in backup`);
+    }
+    // Natural-key tables have no id to check (older archives carry the local integer one)
+    const needsId = !hasBackupNaturalKey(table as BackupTable);
+    if (
+      !Array.isArray(rows) ||
+      rows.some(
+        (r: BackupRow) => !r || typeof r !== "object" || (needsId && typeof r.id !== "string"),
+      )
+    ) {
+      throw new BackupValidationError(`Malformed rows in table "${table}"`);
+    }
+  }
+  return archive as BackupArchive;
+}
+
+const isZip = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+/** Parse and validate a backup file (JSON or zip) */
+export async function openBackup(bytes: Uint8Array): Promise<OpenedBackup> {
+  if (!isZip(bytes)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      throw new BackupValidationError("Backup file is not valid JSON");
+    }
+    return { archive: validateArchive(data) };
+  }
+
+  const { configure, ZipReader, Uint8ArrayReader, TextWriter, Uint8ArrayWriter } = await import(
+    "@zip.js/zip.js"
+  );
+  configure({ useWebWorkers: false });
+  const reader = new ZipReader(new Uint8ArrayReader(bytes));
+  type FileEntry = import("@zip.js/zip.js").FileEntry;
+  const entries = new Map(
+    (await reader.getEntries())
+      .filter((e): e is FileEntry => !e.directory)
+      .map((e) => [e.filename, e]),
+  );
+  const manifest = entries.get(ARCHIVE_ENTRY);
+  if (!manifest) throw new BackupValidationError(`Zip has no ${ARCHIVE_ENTRY}`);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await manifest.getData(new TextWriter()));
+  } catch {
+    throw new BackupValidationError(`${ARCHIVE_ENTRY} is not valid JSON`);
+  }
+  return {
+    archive: validateArchive(data),
+    readBookFile: async (entryName) => {
+      const entry = entries.get(entryName);
+      return entry ? entry.getData(new Uint8ArrayWriter()) : null;
+    },
+  };
+}
+
+// --- Restore ---
+
+/** Write restored book files to app data and point the book rows at them */
+async function restoreBookFiles(opened: OpenedBackup, mode: RestoreMode): Promise<number> {
+  const { archive, readBookFile } = opened;
+  if (!readBookFile || !archive.bookFiles) return 0;
+
+  const { writeFile, mkdir, exists } = await import("@tauri-apps/plugin-fs");
+  const { appDataDir, join } = await import("@tauri-apps/api/path");
+  const booksDir = await join(await appDataDir(), BOOKS_DIR);
+  await mkdir(booksDir, { recursive: true }).catch(() => {
+    // Directory may already exist
+  });
+
+  let restored = 0;
+  for (const [bookId, entryName] of Object.entries(archive.bookFiles)) {
+    const book = await getBook(bookId);
+    if (!book) continue;
+    // Merging keeps a local copy that still exists
+    if (mode === "merge" && book.filePath && (await exists(book.filePath).catch(() => false))) {
+      continue;
+    }
+    const bytes = await readBookFile(entryName);
+    if (!bytes) continue;
+    const filePath = await join(booksDir, entryName.split("/").pop() as string);
+    await writeFile(filePath, bytes);
+    await updateBook(bookId, { filePath });
+    restored++;
+  }
+  return restored;
+}
+
+/** Write settings files; merge only adds stores that do not exist locally */
+async function restoreSettingsFiles(
+  settings: Record<string, unknown>,
+  mode: RestoreMode,
+): Promise<number> {
+  const { writeTextFile, mkdir, exists, BaseDirectory } = await import("@tauri-apps/plugin-fs");
+  await mkdir(STORE_DIR, { baseDir: BaseDirectory.AppData, recursive: true }).catch(() => {
+    // Directory may already exist
+  });
+  // Pending debounced writes would otherwise overwrite the restored files
+  await flushAllWrites();
+
+  let written = 0;
+  for (const [key, state] of Object.entries(settings)) {
+    if (!/^[\w.-]+$/.test(key)) continue;
+    const path = `${STORE_DIR}/${key}.json`;
+    if (mode === "merge" && (await exists(path, { baseDir: BaseDirectory.AppData }))) continue;
+    await writeTextFile(path, JSON.stringify(state), { baseDir: BaseDirectory.AppData });
+    written++;
+  }
+  return written;
+}
+
+/** Restore an opened backup into the local database */
+export async function restoreBackup(
+  opened: OpenedBackup,
+  options: RestoreOptions,
+): Promise<RestoreReport> {
+  const { archive } = opened;
+  // Rows are migrated in place on a copy so the opened archive can be restored again
+  const tables = structuredClone(archive.tables);
+  migrateBackupTables(tables, archive.schemaVersion);
+
+  const report: RestoreReport = { rows: {}, settings: 0, bookFiles: 0 };
+  // Parents first, so restored children always find their book or thread
+  for (const table of BACKUP_TABLES) {
+    const rows = tables[table];
+    // A table missing from the archive is left alone, even when replacing
+    if (!rows) continue;
+    report.rows[table] = await restoreBackupRows(table, rows, options.mode);
+  }
+
+  report.bookFiles = await restoreBookFiles(opened, options.mode);
+  if (options.restoreSettings && archive.settings) {
+    report.settings = await restoreSettingsFiles(archive.settings, options.mode);
+  }
+  return report;
+}
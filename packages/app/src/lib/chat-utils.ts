@@ -19,6 +19,7 @@ export function convertToMessageV2(messages: any[]): MessageV2[] {
         threadId: m.threadId,
         role: m.role,
         parts: m.parts,
+        pinned: m.pinned,
         createdAt: m.createdAt,
       };
     }
@@ -108,6 +109,7 @@ export function convertToMessageV2(messages: any[]): MessageV2[] {
         threadId: m.threadId,
         role: m.role,
         parts,
+        pinned: m.pinned,
         createdAt: m.createdAt,
       };
     }
@@ -160,6 +162,7 @@ export function convertToMessageV2(messages: any[]): MessageV2[] {
       threadId: m.threadId,
       role: m.role,
       parts,
+      pinned: m.pinned,
       createdAt: m.createdAt,
     };
   });
@@ -2,7 +2,24 @@
  * Database access layer — wraps Tauri SQL plugin
  * Full implementation with actual SQL queries
  */
-import type { Book, Bookmark, Chunk, Highlight, Message, Note, Skill, Thread } from "@/types";
+import type {
+  BM25BookStats,
+  BM25Posting,
+  Book,
+  Bookmark,
+  Chunk,
+  Flashcard,
+  FlashcardReview,
+  Highlight,
+  Message,
+  Note,
+  ParagraphTranslation,
+  Skill,
+  Thread,
+  TranslationMemoryEntry,
+  UsageCategory,
+  UsageRecord,
+} from "@/types";
 import type { ReadingSession } from "@/types/reading";
 
 // Lazy-loaded database instance
@@ -48,7 +65,8 @@ export async function initDatabase(): Promise<void> {
       current_cfi TEXT,
       is_vectorized INTEGER DEFAULT 0,
       vectorize_progress REAL DEFAULT 0,
-      tags TEXT DEFAULT '[]'
+      tags TEXT DEFAULT '[]',
+      updated_at INTEGER NOT NULL DEFAULT 0
     )
   `);
 
@@ -91,6 +109,7 @@ export async function initDatabase(): Promise<void> {
       label TEXT,
       chapter_title TEXT,
       created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL DEFAULT 0,
       FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
     )
   `);
@@ -128,6 +147,7 @@ export async function initDatabase(): Promise<void> {
       total_active_time INTEGER DEFAULT 0,
       pages_read INTEGER DEFAULT 0,
       state TEXT DEFAULT 'active',
+      updated_at INTEGER NOT NULL DEFAULT 0,
       FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
     )
   `);
@@ -143,6 +163,32 @@ export async function initDatabase(): Promise<void> {
       start_cfi TEXT,
       end_cfi TEXT,
       embedding BLOB,
+      chapter_hash TEXT,
+      model_id TEXT,
+      embedding_dim INTEGER,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.execute(`
+    CREATE TABLE IF NOT EXISTS bm25_postings (
+      term TEXT NOT NULL,
+      book_id TEXT NOT NULL,
+      chunk_id TEXT NOT NULL,
+      tf INTEGER NOT NULL,
+      doc_length INTEGER NOT NULL,
+      PRIMARY KEY (book_id, term, chunk_id),
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.execute(`
+    CREATE TABLE IF NOT EXISTS bm25_book_stats (
+      book_id TEXT PRIMARY KEY,
+      doc_count INTEGER NOT NULL,
+      avg_doc_length REAL NOT NULL,
+      tokenizer TEXT NOT NULL DEFAULT '',
+      updated_at INTEGER NOT NULL,
       FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
     )
   `);
@@ -162,6 +208,104 @@ export async function initDatabase(): Promise<void> {
     )
   `);
 
+  // Cards outlive their book: ON DELETE SET NULL keeps them (without the jump-back link)
+  await database.execute(`
+    CREATE TABLE IF NOT EXISTS flashcards (
+      id TEXT PRIMARY KEY,
+      book_id TEXT,
+      highlight_id TEXT,
+      cfi TEXT,
+      chapter_title TEXT,
+      kind TEXT NOT NULL DEFAULT 'basic',
+      front TEXT NOT NULL,
+      back TEXT NOT NULL DEFAULT '',
+      source TEXT NOT NULL DEFAULT 'manual',
+      tags TEXT DEFAULT '[]',
+      state TEXT NOT NULL DEFAULT 'new',
+      due INTEGER NOT NULL,
+      interval REAL NOT NULL DEFAULT 0,
+      ease REAL NOT NULL DEFAULT 2.5,
+      stability REAL NOT NULL DEFAULT 0,
+      difficulty REAL NOT NULL DEFAULT 0,
+      reps INTEGER NOT NULL DEFAULT 0,
+      lapses INTEGER NOT NULL DEFAULT 0,
+      last_reviewed_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE SET NULL
+    )
+  `);
+
+  await database.execute(`
+    CREATE TABLE IF NOT EXISTS flashcard_reviews (
+      id TEXT PRIMARY KEY,
+      card_id TEXT NOT NULL,
+      rating INTEGER NOT NULL,
+      state TEXT NOT NULL,
+      interval REAL NOT NULL,
+      elapsed_days REAL NOT NULL DEFAULT 0,
+      reviewed_at INTEGER NOT NULL,
+      FOREIGN KEY (card_id) REFERENCES flashcards(id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.execute(`
+    CREATE TABLE IF NOT EXISTS paragraph_translations (
+      book_id TEXT NOT NULL,
+      section_index INTEGER NOT NULL,
+      paragraph_index INTEGER NOT NULL,
+      target_lang TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      source_hash TEXT NOT NULL,
+      translation TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (book_id, section_index, paragraph_index, target_lang, provider),
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Full source texts are the key; book_id is '' for entries not tied to a book
+  await database.execute(`
+    CREATE TABLE IF NOT EXISTS translation_memory (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_text TEXT NOT NULL,
+      source_lang TEXT NOT NULL,
+      target_lang TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      book_id TEXT NOT NULL DEFAULT '',
+      translation TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER NOT NULL,
+      UNIQUE (source_text, source_lang, target_lang, provider, book_id)
+    )
+  `);
+
+  await database.execute(`
+    CREATE TABLE IF NOT EXISTS usage_ledger (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      category TEXT NOT NULL,
+      endpoint TEXT NOT NULL,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cost REAL,
+      estimated INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    )
+  `);
+
+  await database.execute(`
+    CREATE TABLE IF NOT EXISTS change_log (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      entity_type TEXT NOT NULL,
+      entity_id TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      book_id TEXT,
+      timestamp INTEGER NOT NULL
+    )
+  `);
+
   // Create indexes
   await database.execute("CREATE INDEX IF NOT EXISTS idx_highlights_book ON highlights(book_id)");
   await database.execute("CREATE INDEX IF NOT EXISTS idx_notes_book ON notes(book_id)");
@@ -171,6 +315,23 @@ export async function initDatabase(): Promise<void> {
   await database.execute(
     "CREATE INDEX IF NOT EXISTS idx_reading_sessions_book ON reading_sessions(book_id)",
   );
+  await database.execute(
+    "CREATE INDEX IF NOT EXISTS idx_change_log_entity ON change_log(entity_type, entity_id)",
+  );
+  await database.execute("CREATE INDEX IF NOT EXISTS idx_change_log_time ON change_log(timestamp)");
+  await database.execute("CREATE INDEX IF NOT EXISTS idx_flashcards_due ON flashcards(due)");
+  await database.execute(
+    "CREATE INDEX IF NOT EXISTS idx_translation_memory_used ON translation_memory(last_used_at)",
+  );
+  await database.execute(
+    "CREATE INDEX IF NOT EXISTS idx_translation_memory_book ON translation_memory(book_id)",
+  );
+  await database.execute(
+    "CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_card ON flashcard_reviews(card_id)",
+  );
+  await database.execute(
+    "CREATE INDEX IF NOT EXISTS idx_usage_ledger_created ON usage_ledger(created_at)",
+  );
 
   // Migrations: add columns that may be missing from older schema versions
   try {
@@ -193,8 +354,77 @@ export async function initDatabase(): Promise<void> {
   } catch {
     // Column already exists, ignore
   }
+  // updated_at drives last-writer-wins sync; backfill from the closest existing timestamp
+  try {
+    await database.execute("ALTER TABLE books ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0");
+    await database.execute(
+      "UPDATE books SET updated_at = COALESCE(last_opened_at, added_at) WHERE updated_at = 0",
+    );
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    await database.execute(
+      "ALTER TABLE bookmarks ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0",
+    );
+    await database.execute("UPDATE bookmarks SET updated_at = created_at WHERE updated_at = 0");
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    await database.execute(
+      "ALTER TABLE reading_sessions ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0",
+    );
+    await database.execute(
+      "UPDATE reading_sessions SET updated_at = COALESCE(ended_at, started_at) WHERE updated_at = 0",
+    );
+  } catch {
+    // Column already exists, ignore
+  }
+  // Incremental re-vectorization: chunks remember their chapter hash and embedding model
+  for (const column of ["chapter_hash TEXT", "model_id TEXT", "embedding_dim INTEGER"]) {
+    try {
+      await database.execute(`ALTER TABLE chunks ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists, ignore
+    }
+  }
+  // Empty tokenizer id never matches, so indexes built before it existed get rebuilt
+  try {
+    await database.execute(
+      "ALTER TABLE bm25_book_stats ADD COLUMN tokenizer TEXT NOT NULL DEFAULT ''",
+    );
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    await database.execute(
+      "ALTER TABLE threads ADD COLUMN auto_approve_actions INTEGER NOT NULL DEFAULT 0",
+    );
+  } catch {
+    // Column already exists, ignore
+  }
+  // Conversation memory: rolling thread summary and pinned messages
+  for (const column of ["summary TEXT", "summarized_through_id TEXT"]) {
+    try {
+      await database.execute(`ALTER TABLE threads ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists, ignore
+    }
+  }
+  try {
+    await database.execute("ALTER TABLE messages ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0");
+  } catch {
+    // Column already exists, ignore
+  }
 
   dbInitialized = true;
+
+  try {
+    await compactChangeLog();
+  } catch (err) {
+    console.error("Failed to compact change log:", err);
+  }
 }
 
 // --- Serialization helpers ---
@@ -227,6 +457,118 @@ function parseJSON<T>(str: string | null | undefined, fallback: T): T {
   }
 }
 
+// --- Change log ---
+
+export type ChangeEntityType = "book" | "highlight" | "note" | "bookmark" | "thread";
+export type ChangeOperation = "insert" | "update" | "delete";
+
+export interface ChangeLogEntry {
+  seq: number;
+  entityType: ChangeEntityType;
+  entityId: string;
+  operation: ChangeOperation;
+  bookId?: string;
+  timestamp: number;
+}
+
+/** Tombstone of a deleted row: its id and when it was deleted */
+export interface Tombstone {
+  id: string;
+  deletedAt: number;
+}
+
+/** How long compaction keeps change log entries (and therefore tombstones) */
+export const CHANGE_LOG_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+const CHANGE_ENTITY_TABLES: Record<ChangeEntityType, string> = {
+  book: "books",
+  highlight: "highlights",
+  note: "notes",
+  bookmark: "bookmarks",
+  thread: "threads",
+};
+
+/**
+ * Append a change log entry. The owning book id is read from the entity row,
+ * so deletes must be recorded before the row is removed.
+ */
+async function recordChange(
+  entityType: ChangeEntityType,
+  entityId: string,
+  operation: ChangeOperation,
+  timestamp = Date.now(),
+): Promise<void> {
+  const database = await getDB();
+  const bookIdExpr =
+    entityType === "book"
+      ? "?"
+      : `(SELECT book_id FROM ${CHANGE_ENTITY_TABLES[entityType]} WHERE id = ?)`;
+  await database.execute(
+    `INSERT INTO change_log (entity_type, entity_id, operation, book_id, timestamp) VALUES (?, ?, ?, ${bookIdExpr}, ?)`,
+    [entityType, entityId, operation, entityId, timestamp],
+  );
+}
+
+/** Get change log entries recorded at or after `since`, oldest first */
+export async function getChangesSince(
+  since: number,
+  entityType?: ChangeEntityType,
+): Promise<ChangeLogEntry[]> {
+  const database = await getDB();
+  const rows = await database.select<
+    Array<{
+      seq: number;
+      entity_type: string;
+      entity_id: string;
+      operation: string;
+      book_id: string | null;
+      timestamp: number;
+    }>
+  >(
+    entityType
+      ? "SELECT * FROM change_log WHERE timestamp >= ? AND entity_type = ? ORDER BY seq ASC"
+      : "SELECT * FROM change_log WHERE timestamp >= ? ORDER BY seq ASC",
+    entityType ? [since, entityType] : [since],
+  );
+  return rows.map((r) => ({
+    seq: r.seq,
+    entityType: r.entity_type as ChangeEntityType,
+    entityId: r.entity_id,
+    operation: r.operation as ChangeOperation,
+    bookId: r.book_id || undefined,
+    timestamp: r.timestamp,
+  }));
+}
+
+/** Get ids of deleted entities of one type, with their latest deletion time */
+export async function getTombstones(entityType: ChangeEntityType, since = 0): Promise<Tombstone[]> {
+  const database = await getDB();
+  const rows = await database.select<Array<{ entity_id: string; deleted_at: number }>>(
+    `SELECT entity_id, MAX(timestamp) as deleted_at FROM change_log
+     WHERE entity_type = ? AND operation = 'delete' AND timestamp >= ?
+     GROUP BY entity_id`,
+    [entityType, since],
+  );
+  return rows.map((r) => ({ id: r.entity_id, deletedAt: r.deleted_at }));
+}
+
+/**
+ * Compact the change log: keep only the latest entry per entity, then drop
+ * entries older than the retention window. Returns the number of removed entries.
+ */
+export async function compactChangeLog(retentionMs = CHANGE_LOG_RETENTION_MS): Promise<number> {
+  const database = await getDB();
+  const superseded = await database.execute(
+    `DELETE FROM change_log WHERE seq NOT IN (
+       SELECT MAX(seq) FROM change_log GROUP BY entity_type, entity_id
+     )`,
+  );
+  const expired = await database.execute("DELETE FROM change_log WHERE timestamp < ?", [
+    Date.now() - retentionMs,
+  ]);
+  return superseded.rowsAffected + expired.rowsAffected;
+}
+
 // --- Books ---
 
 interface BookRow {
@@ -251,6 +593,7 @@ interface BookRow {
   is_vectorized: number;
   vectorize_progress: number;
   tags: string;
+  updated_at: number;
 }
 
 function rowToBook(row: BookRow): Book {
@@ -278,6 +621,7 @@ function rowToBook(row: BookRow): Book {
     isVectorized: row.is_vectorized === 1,
     vectorizeProgress: row.vectorize_progress,
     tags: parseJSON(row.tags, []),
+    updatedAt: row.updated_at || undefined,
   };
 }
 
@@ -298,8 +642,8 @@ export async function getBook(id: string): Promise<Book | null> {
 export async function insertBook(book: Book): Promise<void> {
   const database = await getDB();
   await database.execute(
-    `INSERT INTO books (id, file_path, format, title, author, publisher, language, isbn, description, cover_url, publish_date, subjects, total_pages, total_chapters, added_at, last_opened_at, progress, current_cfi, is_vectorized, vectorize_progress, tags)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO books (id, file_path, format, title, author, publisher, language, isbn, description, cover_url, publish_date, subjects, total_pages, total_chapters, added_at, last_opened_at, progress, current_cfi, is_vectorized, vectorize_progress, tags, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       book.id,
       book.filePath,
@@ -322,8 +666,10 @@ export async function insertBook(book: Book): Promise<void> {
       book.isVectorized ? 1 : 0,
       book.vectorizeProgress,
       JSON.stringify(book.tags),
+      book.updatedAt || Date.now(),
     ],
   );
+  await recordChange("book", book.id, "insert");
 }
 
 export async function updateBook(id: string, updates: Partial<Book>): Promise<void> {
@@ -394,13 +740,34 @@ export async function updateBook(id: string, updates: Partial<Book>): Promise<vo
 
   if (sets.length === 0) return;
 
+  sets.push("updated_at = ?");
+  values.push(Date.now());
   values.push(id);
   await database.execute(`UPDATE books SET ${sets.join(", ")} WHERE id = ?`, values);
+  await recordChange("book", id, "update");
 }
 
 export async function deleteBook(id: string): Promise<void> {
   const database = await getDB();
+  // Annotations go with the book via ON DELETE CASCADE; tombstone them first
+  const now = Date.now();
+  for (const [entityType, table] of [
+    ["highlight", "highlights"],
+    ["note", "notes"],
+    ["bookmark", "bookmarks"],
+  ] as const) {
+    const rows = await database.select<Array<{ id: string }>>(
+      `SELECT id FROM ${table} WHERE book_id = ?`,
+      [id],
+    );
+    for (const row of rows) {
+      await recordChange(entityType, row.id, "delete", now);
+    }
+  }
+  await recordChange("book", id, "delete", now);
   await database.execute("DELETE FROM books WHERE id = ?", [id]);
+  // No foreign key: book_id is '' for unscoped entries
+  await database.execute("DELETE FROM translation_memory WHERE book_id = ?", [id]);
 }
 
 // --- Highlights ---
@@ -564,6 +931,7 @@ export async function insertHighlight(highlight: Highlight): Promise<void> {
       highlight.updatedAt,
     ],
   );
+  await recordChange("highlight", highlight.id, "insert");
 }
 
 export async function updateHighlight(id: string, updates: Partial<Highlight>): Promise<void> {
@@ -589,10 +957,12 @@ export async function updateHighlight(id: string, updates: Partial<Highlight>):
   if (sets.length === 0) return;
   values.push(id);
   await database.execute(`UPDATE highlights SET ${sets.join(", ")} WHERE id = ?`, values);
+  await recordChange("highlight", id, "update");
 }
 
 export async function deleteHighlight(id: string): Promise<void> {
   const database = await getDB();
+  await recordChange("highlight", id, "delete");
   await database.execute("DELETE FROM highlights WHERE id = ?", [id]);
 }
 
@@ -676,6 +1046,7 @@ export async function insertNote(note: Note): Promise<void> {
       note.updatedAt,
     ],
   );
+  await recordChange("note", note.id, "insert");
 }
 
 export async function updateNote(id: string, updates: Partial<Note>): Promise<void> {
@@ -701,10 +1072,12 @@ export async function updateNote(id: string, updates: Partial<Note>): Promise<vo
   if (sets.length === 0) return;
   values.push(id);
   await database.execute(`UPDATE notes SET ${sets.join(", ")} WHERE id = ?`, values);
+  await recordChange("note", id, "update");
 }
 
 export async function deleteNote(id: string): Promise<void> {
   const database = await getDB();
+  await recordChange("note", id, "delete");
   await database.execute("DELETE FROM notes WHERE id = ?", [id]);
 }
 
@@ -720,6 +1093,7 @@ export async function getBookmarks(bookId: string): Promise<Bookmark[]> {
       label: string | null;
       chapter_title: string | null;
       created_at: number;
+      updated_at: number;
     }>
   >("SELECT * FROM bookmarks WHERE book_id = ? ORDER BY created_at DESC", [bookId]);
   return rows.map((r) => ({
@@ -729,13 +1103,14 @@ export async function getBookmarks(bookId: string): Promise<Bookmark[]> {
     label: r.label || undefined,
     chapterTitle: r.chapter_title || undefined,
     createdAt: r.created_at,
+    updatedAt: r.updated_at || undefined,
   }));
 }
 
 export async function insertBookmark(bookmark: Bookmark): Promise<void> {
   const database = await getDB();
   await database.execute(
-    "INSERT INTO bookmarks (id, book_id, cfi, label, chapter_title, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+    "INSERT INTO bookmarks (id, book_id, cfi, label, chapter_title, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
     [
       bookmark.id,
       bookmark.bookId,
@@ -743,12 +1118,15 @@ export async function insertBookmark(bookmark: Bookmark): Promise<void> {
       bookmark.label || null,
       bookmark.chapterTitle || null,
       bookmark.createdAt,
+      bookmark.updatedAt || bookmark.createdAt,
     ],
   );
+  await recordChange("bookmark", bookmark.id, "insert");
 }
 
 export async function deleteBookmark(id: string): Promise<void> {
   const database = await getDB();
+  await recordChange("bookmark", id, "delete");
   await database.execute("DELETE FROM bookmarks WHERE id = ?", [id]);
 }
 
@@ -762,6 +1140,9 @@ export async function getThreads(bookId?: string): Promise<Thread[]> {
           id: string;
           book_id: string | null;
           title: string;
+          auto_approve_actions: number;
+          summary: string | null;
+          summarized_through_id: string | null;
           created_at: number;
           updated_at: number;
         }>
@@ -771,6 +1152,9 @@ export async function getThreads(bookId?: string): Promise<Thread[]> {
           id: string;
           book_id: string | null;
           title: string;
+          auto_approve_actions: number;
+          summary: string | null;
+          summarized_through_id: string | null;
           created_at: number;
           updated_at: number;
         }>
@@ -784,6 +1168,9 @@ export async function getThreads(bookId?: string): Promise<Thread[]> {
       bookId: row.book_id || undefined,
       title: row.title,
       messages,
+      autoApproveActions: row.auto_approve_actions === 1,
+      summary: row.summary || undefined,
+      summarizedThroughId: row.summarized_through_id || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     });
@@ -798,6 +1185,9 @@ export async function getThread(id: string): Promise<Thread | null> {
       id: string;
       book_id: string | null;
       title: string;
+      auto_approve_actions: number;
+      summary: string | null;
+      summarized_through_id: string | null;
       created_at: number;
       updated_at: number;
     }>
@@ -811,6 +1201,9 @@ export async function getThread(id: string): Promise<Thread | null> {
     bookId: row.book_id || undefined,
     title: row.title,
     messages,
+    autoApproveActions: row.auto_approve_actions === 1,
+    summary: row.summary || undefined,
+    summarizedThroughId: row.summarized_through_id || undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -822,6 +1215,7 @@ export async function insertThread(thread: Thread): Promise<void> {
     "INSERT INTO threads (id, book_id, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)",
     [thread.id, thread.bookId || null, thread.title, thread.createdAt, thread.updatedAt],
   );
+  await recordChange("thread", thread.id, "insert");
 }
 
 export async function updateThreadTitle(id: string, title: string): Promise<void> {
@@ -831,10 +1225,35 @@ export async function updateThreadTitle(id: string, title: string): Promise<void
     Date.now(),
     id,
   ]);
+  await recordChange("thread", id, "update");
+}
+
+export async function updateThreadAutoApprove(id: string, enabled: boolean): Promise<void> {
+  const database = await getDB();
+  await database.execute(
+    "UPDATE threads SET auto_approve_actions = ?, updated_at = ? WHERE id = ?",
+    [enabled ? 1 : 0, Date.now(), id],
+  );
+  await recordChange("thread", id, "update");
+}
+
+/** Replace the rolling summary; `summarizedThroughId` is the last message it covers */
+export async function updateThreadSummary(
+  id: string,
+  summary: string,
+  summarizedThroughId: string | null,
+): Promise<void> {
+  const database = await getDB();
+  await database.execute(
+    "UPDATE threads SET summary = ?, summarized_through_id = ?, updated_at = ? WHERE id = ?",
+    [summary || null, summarizedThroughId, Date.now(), id],
+  );
+  await recordChange("thread", id, "update");
 }
 
 export async function deleteThread(id: string): Promise<void> {
   const database = await getDB();
+  await recordChange("thread", id, "delete");
   await database.execute("DELETE FROM messages WHERE thread_id = ?", [id]);
   await database.execute("DELETE FROM threads WHERE id = ?", [id]);
 }
@@ -853,6 +1272,7 @@ export async function getMessages(threadId: string): Promise<Message[]> {
       tool_calls: string | null;
       reasoning: string | null;
       parts_order: string | null;
+      pinned: number;
       created_at: number;
     }>
   >("SELECT * FROM messages WHERE thread_id = ? ORDER BY created_at ASC", [threadId]);
@@ -865,6 +1285,7 @@ export async function getMessages(threadId: string): Promise<Message[]> {
     toolCalls: parseJSON(r.tool_calls, undefined),
     reasoning: parseJSON(r.reasoning, undefined),
     partsOrder: parseJSON(r.parts_order, undefined),
+    pinned: r.pinned === 1 || undefined,
     createdAt: r.created_at,
   }));
 }
@@ -887,6 +1308,11 @@ export async function insertMessage(message: Message): Promise<void> {
   );
 }
 
+export async function updateMessagePinned(id: string, pinned: boolean): Promise<void> {
+  const database = await getDB();
+  await database.execute("UPDATE messages SET pinned = ? WHERE id = ?", [pinned ? 1 : 0, id]);
+}
+
 // --- Reading Sessions ---
 
 export async function getReadingSessions(bookId: string): Promise<ReadingSession[]> {
@@ -946,7 +1372,7 @@ export async function getReadingSessionsByDateRange(
 export async function insertReadingSession(session: ReadingSession): Promise<void> {
   const database = await getDB();
   await database.execute(
-    "INSERT INTO reading_sessions (id, book_id, started_at, ended_at, total_active_time, pages_read, state) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    "INSERT INTO reading_sessions (id, book_id, started_at, ended_at, total_active_time, pages_read, state, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
     [
       session.id,
       session.bookId,
@@ -955,6 +1381,7 @@ export async function insertReadingSession(session: ReadingSession): Promise<voi
       session.totalActiveTime,
       session.pagesRead,
       session.state,
+      Date.now(),
     ],
   );
 }
@@ -985,6 +1412,8 @@ export async function updateReadingSession(
   }
 
   if (sets.length === 0) return;
+  sets.push("updated_at = ?");
+  values.push(Date.now());
   values.push(id);
   await database.execute(`UPDATE reading_sessions SET ${sets.join(", ")} WHERE id = ?`, values);
 }
@@ -1004,6 +1433,9 @@ export async function getChunks(bookId: string): Promise<Chunk[]> {
       start_cfi: string | null;
       end_cfi: string | null;
       embedding: unknown;
+      chapter_hash: string | null;
+      model_id: string | null;
+      embedding_dim: number | null;
     }>
   >("SELECT * FROM chunks WHERE book_id = ? ORDER BY chapter_index, id", [bookId]);
   return rows.map((r) => ({
@@ -1016,6 +1448,9 @@ export async function getChunks(bookId: string): Promise<Chunk[]> {
     startCfi: r.start_cfi || "",
     endCfi: r.end_cfi || "",
     embedding: deserializeEmbedding(r.embedding),
+    chapterHash: r.chapter_hash ?? undefined,
+    modelId: r.model_id ?? undefined,
+    embeddingDim: r.embedding_dim ?? undefined,
   }));
 }
 
@@ -1023,7 +1458,7 @@ export async function insertChunks(chunks: Chunk[]): Promise<void> {
   const database = await getDB();
   for (const chunk of chunks) {
     await database.execute(
-      "INSERT INTO chunks (id, book_id, chapter_index, chapter_title, content, token_count, start_cfi, end_cfi, embedding) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      "INSERT INTO chunks (id, book_id, chapter_index, chapter_title, content, token_count, start_cfi, end_cfi, embedding, chapter_hash, model_id, embedding_dim) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
       [
         chunk.id,
         chunk.bookId,
@@ -1034,14 +1469,554 @@ export async function insertChunks(chunks: Chunk[]): Promise<void> {
         chunk.startCfi || null,
         chunk.endCfi || null,
         serializeEmbedding(chunk.embedding),
+        chunk.chapterHash ?? null,
+        chunk.modelId ?? null,
+        chunk.embeddingDim ?? null,
       ],
     );
   }
 }
 
+export async function getChunksByIds(ids: string[]): Promise<Chunk[]> {
+  if (ids.length === 0) return [];
+  const database = await getDB();
+  const rows = await database.select<
+    Array<{
+      id: string;
+      book_id: string;
+      chapter_index: number;
+      chapter_title: string;
+      content: string;
+      token_count: number;
+      start_cfi: string | null;
+      end_cfi: string | null;
+    }>
+  >(
+    `SELECT id, book_id, chapter_index, chapter_title, content, token_count, start_cfi, end_cfi FROM chunks WHERE id IN (${ids.map(() => "?").join(", ")})`,
+    ids,
+  );
+  return rows.map((r) => ({
+    id: r.id,
+    bookId: r.book_id,
+    chapterIndex: r.chapter_index,
+    chapterTitle: r.chapter_title,
+    content: r.content,
+    tokenCount: r.token_count,
+    startCfi: r.start_cfi || "",
+    endCfi: r.end_cfi || "",
+  }));
+}
+
+/** What is already stored for one chapter of a book, for incremental re-vectorization */
+export interface ChapterChunkState {
+  chapterIndex: number;
+  chapterHash: string | null;
+  modelId: string | null;
+  embeddingDim: number | null;
+  chunkCount: number;
+  /** Chunks in the chapter that have no embedding */
+  missingEmbeddings: number;
+  /** False if the chapter's chunks disagree on hash, model or dimension */
+  consistent: boolean;
+}
+
+export async function getChapterChunkStates(bookId: string): Promise<ChapterChunkState[]> {
+  const database = await getDB();
+  const rows = await database.select<
+    Array<{
+      chapter_index: number;
+      chapter_hash: string | null;
+      model_id: string | null;
+      embedding_dim: number | null;
+      chunk_count: number;
+      missing_embeddings: number;
+      variants: number;
+    }>
+  >(
+    `SELECT chapter_index, MAX(chapter_hash) AS chapter_hash, MAX(model_id) AS model_id,
+       MAX(embedding_dim) AS embedding_dim, COUNT(*) AS chunk_count,
+       SUM(CASE WHEN embedding IS NULL THEN 1 ELSE 0 END) AS missing_embeddings,
+       COUNT(DISTINCT COALESCE(chapter_hash, '') || '|' || COALESCE(model_id, '') || '|' || COALESCE(embedding_dim, 0)) AS variants
+     FROM chunks WHERE book_id = ? GROUP BY chapter_index`,
+    [bookId],
+  );
+  return rows.map((r) => ({
+    chapterIndex: r.chapter_index,
+    chapterHash: r.chapter_hash,
+    modelId: r.model_id,
+    embeddingDim: r.embedding_dim,
+    chunkCount: r.chunk_count,
+    missingEmbeddings: r.missing_embeddings,
+    consistent: r.variants === 1,
+  }));
+}
+
+/** Delete the chunks of specific chapters (before re-inserting them) */
+export async function deleteChapterChunks(bookId: string, chapterIndices: number[]): Promise<void> {
+  if (chapterIndices.length === 0) return;
+  const database = await getDB();
+  await database.execute(
+    `DELETE FROM chunks WHERE book_id = ? AND chapter_index IN (${chapterIndices.map(() => "?").join(", ")})`,
+    [bookId, ...chapterIndices],
+  );
+}
+
 export async function deleteChunks(bookId: string): Promise<void> {
   const database = await getDB();
   await database.execute("DELETE FROM chunks WHERE book_id = ?", [bookId]);
+  await deleteBM25Index(bookId);
+}
+
+// --- BM25 index ---
+
+/**
+ * Rows per multi-row INSERT: 5 params each stays under the 32766 variable limit
+ * of the bundled SQLite (3.32+). Large batches rather than a transaction — the
+ * SQL plugin runs each execute on a pooled connection, so a BEGIN sent on its
+ * own is not guaranteed to cover the INSERTs that follow.
+ */
+const BM25_INSERT_BATCH = 6000;
+
+export async function getBM25BookStats(bookId: string): Promise<BM25BookStats | null> {
+  const database = await getDB();
+  const rows = await database.select<
+    Array<{
+      book_id: string;
+      doc_count: number;
+      avg_doc_length: number;
+      tokenizer: string;
+      updated_at: number;
+    }>
+  >("SELECT * FROM bm25_book_stats WHERE book_id = ?", [bookId]);
+  if (rows.length === 0) return null;
+  return {
+    bookId: rows[0].book_id,
+    docCount: rows[0].doc_count,
+    avgDocLength: rows[0].avg_doc_length,
+    tokenizer: rows[0].tokenizer,
+    updatedAt: rows[0].updated_at,
+  };
+}
+
+/** Postings of the given terms within one book */
+export async function getBM25Postings(bookId: string, terms: string[]): Promise<BM25Posting[]> {
+  if (terms.length === 0) return [];
+  const database = await getDB();
+  const rows = await database.select<
+    Array<{ term: string; chunk_id: string; tf: number; doc_length: number }>
+  >(
+    `SELECT term, chunk_id, tf, doc_length FROM bm25_postings WHERE book_id = ? AND term IN (${terms.map(() => "?").join(", ")})`,
+    [bookId, ...terms],
+  );
+  return rows.map((r) => ({
+    term: r.term,
+    chunkId: r.chunk_id,
+    tf: r.tf,
+    docLength: r.doc_length,
+  }));
+}
+
+/** Replace a book's postings and stats with a freshly built index */
+export async function replaceBM25Index(
+  stats: BM25BookStats,
+  postings: BM25Posting[],
+): Promise<void> {
+  const database = await getDB();
+  await deleteBM25Index(stats.bookId);
+  for (let i = 0; i < postings.length; i += BM25_INSERT_BATCH) {
+    const batch = postings.slice(i, i + BM25_INSERT_BATCH);
+    const values: unknown[] = [];
+    for (const p of batch) {
+      values.push(p.term, stats.bookId, p.chunkId, p.tf, p.docLength);
+    }
+    await database.execute(
+      `INSERT INTO bm25_postings (term, book_id, chunk_id, tf, doc_length) VALUES ${batch.map(() => "(?, ?, ?, ?, ?)").join(", ")}`,
+      values,
+    );
+  }
+  // Stats last: their presence marks the index as complete
+  await database.execute(
+    "INSERT INTO bm25_book_stats (book_id, doc_count, avg_doc_length, tokenizer, updated_at) VALUES (?, ?, ?, ?, ?)",
+    [stats.bookId, stats.docCount, stats.avgDocLength, stats.tokenizer, stats.updatedAt],
+  );
+}
+
+export async function deleteBM25Index(bookId: string): Promise<void> {
+  const database = await getDB();
+  await database.execute("DELETE FROM bm25_book_stats WHERE book_id = ?", [bookId]);
+  await database.execute("DELETE FROM bm25_postings WHERE book_id = ?", [bookId]);
+}
+
+// --- Paragraph translations ---
+
+/** Cached translations of a section's paragraphs for one language and translator */
+export async function getParagraphTranslations(
+  bookId: string,
+  sectionIndex: number,
+  targetLang: string,
+  provider: string,
+): Promise<ParagraphTranslation[]> {
+  const database = await getDB();
+  const rows = await database.select<
+    Array<{
+      paragraph_index: number;
+      source_hash: string;
+      translation: string;
+      created_at: number;
+    }>
+  >(
+    "SELECT paragraph_index, source_hash, translation, created_at FROM paragraph_translations WHERE book_id = ? AND section_index = ? AND target_lang = ? AND provider = ?",
+    [bookId, sectionIndex, targetLang, provider],
+  );
+  return rows.map((r) => ({
+    bookId,
+    sectionIndex,
+    paragraphIndex: r.paragraph_index,
+    targetLang,
+    provider,
+    sourceHash: r.source_hash,
+    translation: r.translation,
+    createdAt: r.created_at,
+  }));
+}
+
+export async function upsertParagraphTranslations(
+  translations: ParagraphTranslation[],
+): Promise<void> {
+  const database = await getDB();
+  for (const t of translations) {
+    await database.execute(
+      "INSERT OR REPLACE INTO paragraph_translations (book_id, section_index, paragraph_index, target_lang, provider, source_hash, translation, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      [
+        t.bookId,
+        t.sectionIndex,
+        t.paragraphIndex,
+        t.targetLang,
+        t.provider,
+        t.sourceHash,
+        t.translation,
+        t.createdAt,
+      ],
+    );
+  }
+}
+
+// --- Translation memory ---
+
+/** Texts per lookup; stays under SQLite's 999 variable limit */
+const TM_LOOKUP_BATCH = 500;
+
+interface TranslationMemoryRow {
+  id: number;
+  source_text: string;
+  source_lang: string;
+  target_lang: string;
+  provider: string;
+  book_id: string;
+  translation: string;
+  created_at: number;
+  last_used_at: number;
+}
+
+function rowToTranslationMemory(r: TranslationMemoryRow): TranslationMemoryEntry {
+  return {
+    id: r.id,
+    sourceText: r.source_text,
+    sourceLang: r.source_lang,
+    targetLang: r.target_lang,
+    provider: r.provider,
+    bookId: r.book_id,
+    translation: r.translation,
+    createdAt: r.created_at,
+    lastUsedAt: r.last_used_at,
+  };
+}
+
+export interface TranslationMemoryBookStats {
+  /** '' for entries not tied to a book */
+  bookId: string;
+  /** null when the book is gone or the entries aren't tied to one */
+  title: string | null;
+  count: number;
+  size: number;
+}
+
+/**
+ * Find stored translations of the given texts, marking them as used.
+ * `providers` lists acceptable translators, most preferred first; entries scoped
+ * to the book win over unscoped ones. An "AUTO" source language matches any.
+ */
+export async function lookupTranslationMemory(
+  texts: string[],
+  sourceLang: string,
+  targetLang: string,
+  providers: string[],
+  bookId = "",
+): Promise<Map<string, string>> {
+  const found = new Map<string, string>();
+  if (texts.length === 0 || providers.length === 0) return found;
+  const database = await getDB();
+  const rank = (r: { provider: string; book_id: string }) =>
+    (r.book_id === bookId ? 0 : providers.length) + providers.indexOf(r.provider);
+  const best = new Map<string, { id: number; rank: number }>();
+  for (let i = 0; i < texts.length; i += TM_LOOKUP_BATCH) {
+    const batch = texts.slice(i, i + TM_LOOKUP_BATCH);
+    const rows = await database.select<
+      Array<{
+        id: number;
+        source_text: string;
+        provider: string;
+        book_id: string;
+        translation: string;
+      }>
+    >(
+      `SELECT id, source_text, provider, book_id, translation FROM translation_memory
+       WHERE (? = 'AUTO' OR source_lang = ?) AND target_lang = ? AND book_id IN (?, '')
+       AND provider IN (${providers.map(() => "?").join(", ")})
+       AND source_text IN (${batch.map(() => "?").join(", ")})`,
+      [sourceLang, sourceLang, targetLang, bookId, ...providers, ...batch],
+    );
+    for (const r of rows) {
+      const current = best.get(r.source_text);
+      if (!current || rank(r) < current.rank) {
+        best.set(r.source_text, { id: r.id, rank: rank(r) });
+        found.set(r.source_text, r.translation);
+      }
+    }
+  }
+  const hitIds = Array.from(best.values(), (b) => b.id);
+  for (let i = 0; i < hitIds.length; i += TM_LOOKUP_BATCH) {
+    const batch = hitIds.slice(i, i + TM_LOOKUP_BATCH);
+    await database.execute(
+      `UPDATE translation_memory SET last_used_at = ? WHERE id IN (${batch.map(() => "?").join(", ")})`,
+      [Date.now(), ...batch],
+    );
+  }
+  return found;
+}
+
+/** Insert entries, replacing the translation of ones already stored */
+export async function upsertTranslationMemory(entries: TranslationMemoryEntry[]): Promise<void> {
+  const database = await getDB();
+  const encoder = new TextEncoder();
+  for (const e of entries) {
+    const size = encoder.encode(e.sourceText).length + encoder.encode(e.translation).length;
+    await database.execute(
+      `INSERT INTO translation_memory (source_text, source_lang, target_lang, provider, book_id, translation, size, created_at, last_used_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (source_text, source_lang, target_lang, provider, book_id)
+       DO UPDATE SET translation = excluded.translation, size = excluded.size, last_used_at = excluded.last_used_at`,
+      [
+        e.sourceText,
+        e.sourceLang,
+        e.targetLang,
+        e.provider,
+        e.bookId,
+        e.translation,
+        size,
+        e.createdAt,
+        e.lastUsedAt,
+      ],
+    );
+  }
+}
+
+/** Delete least recently used entries until the memory fits in maxBytes; returns the count removed */
+export async function evictTranslationMemory(maxBytes: number): Promise<number> {
+  const database = await getDB();
+  const result = await database.execute(
+    `DELETE FROM translation_memory WHERE id IN (
+       SELECT id FROM (
+         SELECT id, SUM(size) OVER (ORDER BY last_used_at DESC, id DESC) AS running
+         FROM translation_memory
+       ) WHERE running > ?
+     )`,
+    [maxBytes],
+  );
+  return result.rowsAffected;
+}
+
+export async function getTranslationMemoryStats(): Promise<TranslationMemoryBookStats[]> {
+  const database = await getDB();
+  const rows = await database.select<
+    Array<{ book_id: string; title: string | null; count: number; size: number }>
+  >(
+    `SELECT tm.book_id, b.title, COUNT(*) AS count, SUM(tm.size) AS size
+     FROM translation_memory tm LEFT JOIN books b ON b.id = tm.book_id
+     GROUP BY tm.book_id ORDER BY size DESC`,
+  );
+  return rows.map((r) => ({ bookId: r.book_id, title: r.title, count: r.count, size: r.size }));
+}
+
+/** Entries matching a search over source and translation, most recently used first */
+export async function searchTranslationMemory(options: {
+  query?: string;
+  bookId?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<TranslationMemoryEntry[]> {
+  const database = await getDB();
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (options.query) {
+    where.push("(source_text LIKE ? OR translation LIKE ?)");
+    params.push(`%${options.query}%`, `%${options.query}%`);
+  }
+  if (options.bookId !== undefined) {
+    where.push("book_id = ?");
+    params.push(options.bookId);
+  }
+  const rows = await database.select<TranslationMemoryRow[]>(
+    `SELECT * FROM translation_memory ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY last_used_at DESC LIMIT ? OFFSET ?`,
+    [...params, options.limit ?? 50, options.offset ?? 0],
+  );
+  return rows.map(rowToTranslationMemory);
+}
+
+export async function getAllTranslationMemory(bookId?: string): Promise<TranslationMemoryEntry[]> {
+  const database = await getDB();
+  const rows =
+    bookId === undefined
+      ? await database.select<TranslationMemoryRow[]>(
+          "SELECT * FROM translation_memory ORDER BY id",
+        )
+      : await database.select<TranslationMemoryRow[]>(
+          "SELECT * FROM translation_memory WHERE book_id = ? ORDER BY id",
+          [bookId],
+        );
+  return rows.map(rowToTranslationMemory);
+}
+
+export async function deleteTranslationMemoryEntry(id: number): Promise<void> {
+  const database = await getDB();
+  await database.execute("DELETE FROM translation_memory WHERE id = ?", [id]);
+}
+
+/** Purge the whole memory, or only the entries of one book */
+export async function clearTranslationMemory(bookId?: string): Promise<void> {
+  const database = await getDB();
+  if (bookId === undefined) {
+    await database.execute("DELETE FROM translation_memory");
+  } else {
+    await database.execute("DELETE FROM translation_memory WHERE book_id = ?", [bookId]);
+  }
+}
+
+// --- Usage ledger ---
+
+/** Ledger totals of a group of requests */
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Sum of the estimated costs (USD) of the priced requests */
+  cost: number;
+  /** Requests whose model price is unknown */
+  unpricedRequests: number;
+}
+
+export interface UsageBreakdownRow extends UsageTotals {
+  category: UsageCategory;
+  endpoint: string;
+  model: string;
+}
+
+export interface DailyUsage extends UsageTotals {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+}
+
+interface UsageTotalsRow {
+  requests: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cost: number | null;
+  unpriced: number | null;
+}
+
+const USAGE_TOTALS_COLUMNS = `COUNT(*) AS requests, SUM(input_tokens) AS input_tokens,
+  SUM(output_tokens) AS output_tokens, SUM(cost) AS cost,
+  SUM(CASE WHEN cost IS NULL THEN 1 ELSE 0 END) AS unpriced`;
+
+function rowToUsageTotals(r: UsageTotalsRow): UsageTotals {
+  return {
+    requests: r.requests,
+    inputTokens: r.input_tokens ?? 0,
+    outputTokens: r.output_tokens ?? 0,
+    cost: r.cost ?? 0,
+    unpricedRequests: r.unpriced ?? 0,
+  };
+}
+
+export async function insertUsageRecord(record: UsageRecord): Promise<void> {
+  const database = await getDB();
+  await database.execute(
+    "INSERT INTO usage_ledger (category, endpoint, model, input_tokens, output_tokens, cost, estimated, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+    [
+      record.category,
+      record.endpoint,
+      record.model,
+      record.inputTokens,
+      record.outputTokens,
+      record.cost,
+      record.estimated ? 1 : 0,
+      record.createdAt,
+    ],
+  );
+}
+
+/** Totals of the requests made at or after `since`, optionally of some categories only */
+export async function getUsageTotals(
+  since: number,
+  categories?: UsageCategory[],
+): Promise<UsageTotals> {
+  const database = await getDB();
+  const categoryFilter = categories
+    ? ` AND category IN (${categories.map(() => "?").join(", ")})`
+    : "";
+  const rows = await database.select<UsageTotalsRow[]>(
+    `SELECT ${USAGE_TOTALS_COLUMNS} FROM usage_ledger WHERE created_at >= ?${categoryFilter}`,
+    [since, ...(categories ?? [])],
+  );
+  return rowToUsageTotals(rows[0]);
+}
+
+/** Totals per category, endpoint and model since `since`, most expensive first */
+export async function getUsageBreakdown(since: number): Promise<UsageBreakdownRow[]> {
+  const database = await getDB();
+  const rows = await database.select<
+    Array<UsageTotalsRow & { category: UsageCategory; endpoint: string; model: string }>
+  >(
+    `SELECT category, endpoint, model, ${USAGE_TOTALS_COLUMNS}
+     FROM usage_ledger WHERE created_at >= ?
+     GROUP BY category, endpoint, model
+     ORDER BY cost DESC, input_tokens + output_tokens DESC`,
+    [since],
+  );
+  return rows.map((r) => ({
+    ...rowToUsageTotals(r),
+    category: r.category,
+    endpoint: r.endpoint,
+    model: r.model,
+  }));
+}
+
+/** Totals per local day since `since`, oldest first; days without requests are left out */
+export async function getDailyUsage(since: number): Promise<DailyUsage[]> {
+  const database = await getDB();
+  const rows = await database.select<Array<UsageTotalsRow & { date: string }>>(
+    `SELECT date(created_at / 1000, 'unixepoch', 'localtime') AS date, ${USAGE_TOTALS_COLUMNS}
+     FROM usage_ledger WHERE created_at >= ?
+     GROUP BY date ORDER BY date ASC`,
+    [since],
+  );
+  return rows.map((r) => ({ ...rowToUsageTotals(r), date: r.date }));
+}
+
+export async function clearUsageLedger(): Promise<void> {
+  const database = await getDB();
+  await database.execute("DELETE FROM usage_ledger");
 }
 
 // --- Skills ---
@@ -1132,3 +2107,561 @@ export async function deleteSkill(id: string): Promise<void> {
   const database = await getDB();
   await database.execute("DELETE FROM skills WHERE id = ?", [id]);
 }
+
+// --- Flashcards ---
+
+interface FlashcardRow {
+  id: string;
+  book_id: string | null;
+  highlight_id: string | null;
+  cfi: string | null;
+  chapter_title: string | null;
+  kind: string;
+  front: string;
+  back: string;
+  source: string;
+  tags: string;
+  state: string;
+  due: number;
+  interval: number;
+  ease: number;
+  stability: number;
+  difficulty: number;
+  reps: number;
+  lapses: number;
+  last_reviewed_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+function rowToFlashcard(r: FlashcardRow): Flashcard {
+  return {
+    id: r.id,
+    bookId: r.book_id || undefined,
+    highlightId: r.highlight_id || undefined,
+    cfi: r.cfi || undefined,
+    chapterTitle: r.chapter_title || undefined,
+    kind: r.kind as Flashcard["kind"],
+    front: r.front,
+    back: r.back,
+    source: r.source as Flashcard["source"],
+    tags: parseJSON(r.tags, []),
+    state: r.state as Flashcard["state"],
+    due: r.due,
+    interval: r.interval,
+    ease: r.ease,
+    stability: r.stability,
+    difficulty: r.difficulty,
+    reps: r.reps,
+    lapses: r.lapses,
+    lastReviewedAt: r.last_reviewed_at ?? undefined,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+/** Get all flashcards, optionally limited to one book, newest first */
+export async function getFlashcards(bookId?: string): Promise<Flashcard[]> {
+  const database = await getDB();
+  const rows = bookId
+    ? await database.select<FlashcardRow[]>(
+        "SELECT * FROM flashcards WHERE book_id = ? ORDER BY created_at DESC",
+        [bookId],
+      )
+    : await database.select<FlashcardRow[]>("SELECT * FROM flashcards ORDER BY created_at DESC");
+  return rows.map(rowToFlashcard);
+}
+
+/** Ids of highlights that already have a card, so the UI can avoid duplicates */
+export async function getFlashcardHighlightIds(): Promise<Set<string>> {
+  const database = await getDB();
+  const rows = await database.select<Array<{ highlight_id: string }>>(
+    "SELECT DISTINCT highlight_id FROM flashcards WHERE highlight_id IS NOT NULL",
+  );
+  return new Set(rows.map((r) => r.highlight_id));
+}
+
+export async function insertFlashcard(card: Flashcard): Promise<void> {
+  const database = await getDB();
+  await database.execute(
+    `INSERT INTO flashcards (id, book_id, highlight_id, cfi, chapter_title, kind, front, back, source, tags,
+      state, due, interval, ease, stability, difficulty, reps, lapses, last_reviewed_at, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      card.id,
+      card.bookId || null,
+      card.highlightId || null,
+      card.cfi || null,
+      card.chapterTitle || null,
+      card.kind,
+      card.front,
+      card.back,
+      card.source,
+      JSON.stringify(card.tags),
+      card.state,
+      card.due,
+      card.interval,
+      card.ease,
+      card.stability,
+      card.difficulty,
+      card.reps,
+      card.lapses,
+      card.lastReviewedAt ?? null,
+      card.createdAt,
+      card.updatedAt,
+    ],
+  );
+}
+
+/** Columns `updateFlashcard` may change, by Flashcard field */
+const FLASHCARD_COLUMNS: Partial<Record<keyof Flashcard, string>> = {
+  kind: "kind",
+  front: "front",
+  back: "back",
+  state: "state",
+  due: "due",
+  interval: "interval",
+  ease: "ease",
+  stability: "stability",
+  difficulty: "difficulty",
+  reps: "reps",
+  lapses: "lapses",
+  lastReviewedAt: "last_reviewed_at",
+};
+
+export async function updateFlashcard(id: string, updates: Partial<Flashcard>): Promise<void> {
+  const database = await getDB();
+  const sets: string[] = [];
+  const values: unknown[] = [];
+
+  for (const [field, column] of Object.entries(FLASHCARD_COLUMNS)) {
+    const value = updates[field as keyof Flashcard];
+    if (value === undefined) continue;
+    sets.push(`${column} = ?`);
+    values.push(value);
+  }
+  if (updates.tags !== undefined) {
+    sets.push("tags = ?");
+    values.push(JSON.stringify(updates.tags));
+  }
+  sets.push("updated_at = ?");
+  values.push(Date.now());
+
+  values.push(id);
+  await database.execute(`UPDATE flashcards SET ${sets.join(", ")} WHERE id = ?`, values);
+}
+
+export async function deleteFlashcard(id: string): Promise<void> {
+  const database = await getDB();
+  await database.execute("DELETE FROM flashcards WHERE id = ?", [id]);
+}
+
+export async function insertFlashcardReview(review: FlashcardReview): Promise<void> {
+  const database = await getDB();
+  await database.execute(
+    "INSERT INTO flashcard_reviews (id, card_id, rating, state, interval, elapsed_days, reviewed_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    [
+      review.id,
+      review.cardId,
+      review.rating,
+      review.state,
+      review.interval,
+      review.elapsedDays,
+      review.reviewedAt,
+    ],
+  );
+}
+
+/** Review log of the given cards (all cards when omitted), oldest first */
+export async function getFlashcardReviews(cardIds?: string[]): Promise<FlashcardReview[]> {
+  const database = await getDB();
+  const rows = await database.select<
+    Array<{
+      id: string;
+      card_id: string;
+      rating: number;
+      state: string;
+      interval: number;
+      elapsed_days: number;
+      reviewed_at: number;
+    }>
+  >(
+    cardIds
+      ? `SELECT * FROM flashcard_reviews WHERE card_id IN (${cardIds.map(() => "?").join(", ")}) ORDER BY reviewed_at ASC`
+      : "SELECT * FROM flashcard_reviews ORDER BY reviewed_at ASC",
+    cardIds ?? [],
+  );
+  return rows.map((r) => ({
+    id: r.id,
+    cardId: r.card_id,
+    rating: r.rating as FlashcardReview["rating"],
+    state: r.state as FlashcardReview["state"],
+    interval: r.interval,
+    elapsedDays: r.elapsed_days,
+    reviewedAt: r.reviewed_at,
+  }));
+}
+
+// --- Sync ---
+
+/** Tables exchanged with a sync backend */
+export type SyncTable = "books" | "highlights" | "notes" | "bookmarks" | "reading_sessions";
+
+export const SYNC_TABLES: SyncTable[] = [
+  "books",
+  "highlights",
+  "notes",
+  "bookmarks",
+  "reading_sessions",
+];
+
+/** Raw table row as stored in SQLite, keyed by column name */
+export interface SyncRow {
+  id: string;
+  updated_at: number;
+  [column: string]: unknown;
+}
+
+/**
+ * Columns carried by sync, per table. Machine-local columns (file paths, cover
+ * paths, vectorization state) are deliberately left out.
+ */
+const SYNC_COLUMNS: Record<SyncTable, string[]> = {
+  books: [
+    "id",
+    "format",
+    "title",
+    "author",
+    "publisher",
+    "language",
+    "isbn",
+    "description",
+    "publish_date",
+    "subjects",
+    "total_pages",
+    "total_chapters",
+    "added_at",
+    "last_opened_at",
+    "progress",
+    "current_cfi",
+    "tags",
+    "updated_at",
+  ],
+  highlights: [
+    "id",
+    "book_id",
+    "cfi",
+    "text",
+    "color",
+    "note",
+    "chapter_title",
+    "created_at",
+    "updated_at",
+  ],
+  notes: [
+    "id",
+    "book_id",
+    "highlight_id",
+    "cfi",
+    "title",
+    "content",
+    "chapter_title",
+    "tags",
+    "created_at",
+    "updated_at",
+  ],
+  bookmarks: ["id", "book_id", "cfi", "label", "chapter_title", "created_at", "updated_at"],
+  reading_sessions: [
+    "id",
+    "book_id",
+    "started_at",
+    "ended_at",
+    "total_active_time",
+    "pages_read",
+    "state",
+    "updated_at",
+  ],
+};
+
+/** Change log entity type of each sync table (reading sessions are append-only and untracked) */
+const SYNC_TABLE_ENTITIES: Record<SyncTable, ChangeEntityType | null> = {
+  books: "book",
+  highlights: "highlight",
+  notes: "note",
+  bookmarks: "bookmark",
+  reading_sessions: null,
+};
+
+/** Get all rows of a sync table, restricted to synced columns */
+export async function getSyncRows(table: SyncTable): Promise<SyncRow[]> {
+  const database = await getDB();
+  const columns = SYNC_COLUMNS[table];
+  return database.select<SyncRow[]>(`SELECT ${columns.join(", ")} FROM ${table}`);
+}
+
+/**
+ * Write rows pulled from a sync backend.
+ * Books are only updated, never created: the book file itself is not synced,
+ * so a remote-only book has nothing to open on this machine.
+ */
+export async function upsertSyncRows(table: SyncTable, rows: SyncRow[]): Promise<void> {
+  if (rows.length === 0) return;
+  const database = await getDB();
+  const columns = SYNC_COLUMNS[table];
+  const updateColumns = columns.filter((c) => c !== "id");
+  const entityType = SYNC_TABLE_ENTITIES[table];
+
+  for (const row of rows) {
+    if (table === "books") {
+      await database.execute(
+        `UPDATE books SET ${updateColumns.map((c) => `${c} = ?`).join(", ")} WHERE id = ?`,
+        [...updateColumns.map((c) => row[c] ?? null), row.id],
+      );
+      await recordChange("book", row.id, "update");
+      continue;
+    }
+    const existing = entityType
+      ? await database.select<Array<{ id: string }>>(`SELECT id FROM ${table} WHERE id = ?`, [
+          row.id,
+        ])
+      : [];
+    await database.execute(
+      `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})
+       ON CONFLICT(id) DO UPDATE SET ${updateColumns.map((c) => `${c} = excluded.${c}`).join(", ")}`,
+      columns.map((c) => row[c] ?? null),
+    );
+    if (entityType) {
+      await recordChange(entityType, row.id, existing.length > 0 ? "update" : "insert");
+    }
+  }
+}
+
+/** Tombstones of a sync table; tables without change tracking have none */
+export async function getSyncTombstones(table: SyncTable): Promise<Tombstone[]> {
+  const entityType = SYNC_TABLE_ENTITIES[table];
+  return entityType ? getTombstones(entityType) : [];
+}
+
+/** Apply deletions pulled from a sync backend, keeping the remote deletion time */
+export async function deleteSyncRows(table: SyncTable, tombstones: Tombstone[]): Promise<void> {
+  const entityType = SYNC_TABLE_ENTITIES[table];
+  if (!entityType) return;
+  const database = await getDB();
+  for (const tombstone of tombstones) {
+    await recordChange(entityType, tombstone.id, "delete", tombstone.deletedAt);
+    await database.execute(`DELETE FROM ${table} WHERE id = ?`, [tombstone.id]);
+  }
+}
+
+// --- Backup ---
+
+/** Tables included in a full backup, parents before children */
+export type BackupTable =
+  | "books"
+  | "threads"
+  | "messages"
+  | "highlights"
+  | "notes"
+  | "bookmarks"
+  | "reading_sessions"
+  | "skills"
+  | "flashcards"
+  | "flashcard_reviews"
+  | "translation_memory"
+  | "usage_ledger";
+
+export const BACKUP_TABLES: BackupTable[] = [
+  "books",
+  "threads",
+  "messages",
+  "highlights",
+  "notes",
+  "bookmarks",
+  "reading_sessions",
+  "skills",
+  "flashcards",
+  "flashcard_reviews",
+  "translation_memory",
+  "usage_ledger",
+];
+
+/**
+ * Raw table row as stored in SQLite, keyed by column name. Rows of the tables
+ * in BACKUP_NATURAL_KEYS carry no id; every other table's rows have a text `id`.
+ */
+export type BackupRow = Record<string, unknown>;
+
+/** Row of a backup table keyed by a text `id` */
+type IdentifiedBackupRow = BackupRow & { id: string };
+
+export type RestoreMode = "merge" | "replace";
+
+/** Change log entity type of each backup table, for tables that are tracked */
+const BACKUP_TABLE_ENTITIES: Partial<Record<BackupTable, ChangeEntityType>> = {
+  books: "book",
+  threads: "thread",
+  highlights: "highlight",
+  notes: "note",
+  bookmarks: "bookmark",
+};
+
+/**
+ * Book columns that describe this machine rather than the book. A restore
+ * never overwrites them on an existing book; new books start unvectorized
+ * because chunks are not part of a backup.
+ */
+const MACHINE_LOCAL_BOOK_COLUMNS = [
+  "file_path",
+  "cover_url",
+  "is_vectorized",
+  "vectorize_progress",
+];
+
+/**
+ * Tables whose `id` is a local AUTOINCREMENT counter. Their ids mean nothing
+ * in another database, so rows are matched on `key` and written without an id;
+ * `updatedAt` names the column that decides which copy a merge keeps.
+ */
+const BACKUP_NATURAL_KEYS: Partial<Record<BackupTable, { key: string[]; updatedAt?: string }>> = {
+  translation_memory: {
+    key: ["source_text", "source_lang", "target_lang", "provider", "book_id"],
+    updatedAt: "last_used_at",
+  },
+  // Ledger rows are never edited; a row matching every one of these is the same request
+  usage_ledger: {
+    key: ["created_at", "category", "endpoint", "model", "input_tokens", "output_tokens"],
+  },
+};
+
+/** Column names of a table as it exists in this database */
+export async function getTableColumns(table: BackupTable): Promise<string[]> {
+  const database = await getDB();
+  const rows = await database.select<Array<{ name: string }>>(`PRAGMA table_info(${table})`);
+  return rows.map((r) => r.name);
+}
+
+/** Whether a backup table's rows are matched on a natural key and exported without their id */
+export function hasBackupNaturalKey(table: BackupTable): boolean {
+  return table in BACKUP_NATURAL_KEYS;
+}
+
+/** All rows of a backup table, every column (but the local id of natural-key tables) */
+export async function getBackupRows(table: BackupTable): Promise<BackupRow[]> {
+  const database = await getDB();
+  const rows = await database.select<BackupRow[]>(`SELECT * FROM ${table}`);
+  if (!hasBackupNaturalKey(table)) return rows;
+  return rows.map(({ id: _id, ...row }) => row as BackupRow);
+}
+
+/**
+ * Write backup rows into a table and return how many were written.
+ *
+ * "merge" inserts missing rows and updates existing ones only when the backup
+ * row is newer (`updated_at`); rows without a timestamp are never overwritten.
+ * "replace" makes the table equal to the backup: local rows missing from it
+ * are deleted (with tombstones) and every backup row is written.
+ * Columns unknown to this database are dropped. Tables in BACKUP_NATURAL_KEYS
+ * are matched on their natural key instead of `id`.
+ */
+export async function restoreBackupRows(
+  table: BackupTable,
+  backupRows: BackupRow[],
+  mode: RestoreMode,
+): Promise<number> {
+  const naturalKey = BACKUP_NATURAL_KEYS[table];
+  if (naturalKey) return restoreKeyedRows(table, backupRows, mode, naturalKey);
+  // Opening a backup checks that every row of the other tables has a text id
+  const rows = backupRows as IdentifiedBackupRow[];
+
+  const database = await getDB();
+  const known = new Set(await getTableColumns(table));
+  const entityType = BACKUP_TABLE_ENTITIES[table];
+  const hasUpdatedAt = known.has("updated_at");
+  const local = new Set(
+    (await database.select<Array<{ id: string }>>(`SELECT id FROM ${table}`)).map((r) => r.id),
+  );
+
+  if (mode === "replace") {
+    const keep = new Set(rows.map((r) => r.id));
+    for (const id of local) {
+      if (keep.has(id)) continue;
+      if (table === "books") {
+        await deleteBook(id);
+        continue;
+      }
+      if (entityType) await recordChange(entityType, id, "delete");
+      await database.execute(`DELETE FROM ${table} WHERE id = ?`, [id]);
+    }
+  }
+
+  let written = 0;
+  for (const row of rows) {
+    const values: Record<string, unknown> = { ...row };
+    if (table === "books" && !local.has(row.id)) {
+      values.is_vectorized = 0;
+      values.vectorize_progress = 0;
+    }
+    const columns = Object.keys(values).filter((c) => known.has(c));
+    const updateColumns = columns.filter(
+      (c) => c !== "id" && !(table === "books" && MACHINE_LOCAL_BOOK_COLUMNS.includes(c)),
+    );
+
+    let conflict = "DO NOTHING";
+    if (updateColumns.length > 0 && (mode === "replace" || hasUpdatedAt)) {
+      const newer = mode === "merge" ? ` WHERE excluded.updated_at > ${table}.updated_at` : "";
+      conflict = `DO UPDATE SET ${updateColumns.map((c) => `${c} = excluded.${c}`).join(", ")}${newer}`;
+    }
+    const result = await database.execute(
+      `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})
+       ON CONFLICT(id) ${conflict}`,
+      columns.map((c) => values[c] ?? null),
+    );
+    if (result.rowsAffected === 0) continue;
+
+    written++;
+    if (entityType) await recordChange(entityType, row.id, local.has(row.id) ? "update" : "insert");
+  }
+  return written;
+}
+
+/** `restoreBackupRows` for the tables in BACKUP_NATURAL_KEYS */
+async function restoreKeyedRows(
+  table: BackupTable,
+  rows: BackupRow[],
+  mode: RestoreMode,
+  { key, updatedAt }: { key: string[]; updatedAt?: string },
+): Promise<number> {
+  const database = await getDB();
+  const known = new Set(await getTableColumns(table));
+  // Without stable ids there is nothing to diff against: replace rebuilds the table
+  if (mode === "replace") await database.execute(`DELETE FROM ${table}`);
+
+  const match = key.map((c) => `${c} = ?`).join(" AND ");
+  let written = 0;
+  for (const row of rows) {
+    const columns = Object.keys(row).filter((c) => c !== "id" && known.has(c));
+    const values = columns.map((c) => row[c] ?? null);
+
+    const [existing] =
+      mode === "merge"
+        ? await database.select<Array<Record<string, unknown>>>(
+            `SELECT * FROM ${table} WHERE ${match} LIMIT 1`,
+            key.map((c) => row[c] ?? null),
+          )
+        : [];
+    if (!existing) {
+      await database.execute(
+        `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+        values,
+      );
+      written++;
+    } else if (updatedAt && Number(row[updatedAt]) > Number(existing[updatedAt])) {
+      await database.execute(
+        `UPDATE ${table} SET ${columns.map((c) => `${c} = ?`).join(", ")} WHERE id = ?`,
+        [...values, existing.id],
+      );
+      written++;
+    }
+  }
+  return written;
+}
@@ -1,13 +1,33 @@
 /**
  * Database migration management
+ *
+ * Each migration may also carry a `backup` step that upgrades the rows of a
+ * backup archive written at the previous schema version, so old backups can
+ * be restored into the current schema.
  */
+import type { BackupRow, BackupTable } from "./database";
+
+/** Table rows of a backup archive, by table name */
+export type BackupTables = Partial<Record<BackupTable, BackupRow[]>>;
 
 interface Migration {
   version: number;
   description: string;
   up: string; // SQL statement
+  backup?: (tables: BackupTables) => void;
 }
 
+/** Fill a column on every row of a backup table where it is missing or left at the 0 default */
+const backfill =
+  (table: BackupTable, column: string, value: (row: BackupRow) => unknown) =>
+  (tables: BackupTables) => {
+    for (const row of tables[table] ?? []) {
+      if (row[column] === undefined || row[column] === null || row[column] === 0) {
+        row[column] = value(row);
+      }
+    }
+  };
+
 const migrations: Migration[] = [
   {
     version: 1,
@@ -18,9 +38,120 @@ const migrations: Migration[] = [
     version: 2,
     description: "Add format column to books",
     up: "ALTER TABLE books ADD COLUMN format TEXT NOT NULL DEFAULT 'epub'",
+    backup: backfill("books", "format", () => "epub"),
+  },
+  {
+    version: 3,
+    description: "Add updated_at to books for sync",
+    up: "ALTER TABLE books ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0",
+    backup: backfill("books", "updated_at", (r) => r.last_opened_at ?? r.added_at),
+  },
+  {
+    version: 4,
+    description: "Add updated_at to bookmarks for sync",
+    up: "ALTER TABLE bookmarks ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0",
+    backup: backfill("bookmarks", "updated_at", (r) => r.created_at),
+  },
+  {
+    version: 5,
+    description: "Add updated_at to reading_sessions for sync",
+    up: "ALTER TABLE reading_sessions ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0",
+    backup: backfill("reading_sessions", "updated_at", (r) => r.ended_at ?? r.started_at),
+  },
+  {
+    version: 6,
+    description: "Create change_log table for tombstones",
+    up: "CREATE TABLE IF NOT EXISTS change_log (seq INTEGER PRIMARY KEY AUTOINCREMENT, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, operation TEXT NOT NULL, book_id TEXT, timestamp INTEGER NOT NULL)",
+  },
+  {
+    version: 7,
+    description: "Create bm25_postings inverted index",
+    up: "CREATE TABLE IF NOT EXISTS bm25_postings (term TEXT NOT NULL, book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE, chunk_id TEXT NOT NULL, tf INTEGER NOT NULL, doc_length INTEGER NOT NULL, PRIMARY KEY (book_id, term, chunk_id))",
+  },
+  {
+    version: 8,
+    description: "Create bm25_book_stats table",
+    up: "CREATE TABLE IF NOT EXISTS bm25_book_stats (book_id TEXT PRIMARY KEY REFERENCES books(id) ON DELETE CASCADE, doc_count INTEGER NOT NULL, avg_doc_length REAL NOT NULL, updated_at INTEGER NOT NULL)",
+  },
+  {
+    version: 9,
+    description: "Add tokenizer to bm25_book_stats",
+    up: "ALTER TABLE bm25_book_stats ADD COLUMN tokenizer TEXT NOT NULL DEFAULT ''",
+  },
+  {
+    version: 10,
+    description: "Add chapter_hash to chunks for incremental re-vectorization",
+    up: "ALTER TABLE chunks ADD COLUMN chapter_hash TEXT",
+  },
+  {
+    version: 11,
+    description: "Add model_id to chunks",
+    up: "ALTER TABLE chunks ADD COLUMN model_id TEXT",
+  },
+  {
+    version: 12,
+    description: "Add embedding_dim to chunks",
+    up: "ALTER TABLE chunks ADD COLUMN embedding_dim INTEGER",
+  },
+  {
+    version: 13,
+    description: "Create flashcards table",
+    up: "CREATE TABLE IF NOT EXISTS flashcards (id TEXT PRIMARY KEY, book_id TEXT REFERENCES books(id) ON DELETE SET NULL, highlight_id TEXT, cfi TEXT, chapter_title TEXT, kind TEXT NOT NULL DEFAULT 'basic', front TEXT NOT NULL, back TEXT NOT NULL DEFAULT '', source TEXT NOT NULL DEFAULT 'manual', tags TEXT DEFAULT '[]', state TEXT NOT NULL DEFAULT 'new', due INTEGER NOT NULL, interval REAL NOT NULL DEFAULT 0, ease REAL NOT NULL DEFAULT 2.5, stability REAL NOT NULL DEFAULT 0, difficulty REAL NOT NULL DEFAULT 0, reps INTEGER NOT NULL DEFAULT 0, lapses INTEGER NOT NULL DEFAULT 0, last_reviewed_at INTEGER, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL)",
+  },
+  {
+    version: 14,
+    description: "Create flashcard_reviews log",
+    up: "CREATE TABLE IF NOT EXISTS flashcard_reviews (id TEXT PRIMARY KEY, card_id TEXT NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE, rating INTEGER NOT NULL, state TEXT NOT NULL, interval REAL NOT NULL, elapsed_days REAL NOT NULL DEFAULT 0, reviewed_at INTEGER NOT NULL)",
+  },
+  {
+    version: 15,
+    description: "Create paragraph_translations cache",
+    up: "CREATE TABLE IF NOT EXISTS paragraph_translations (book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE, section_index INTEGER NOT NULL, paragraph_index INTEGER NOT NULL, target_lang TEXT NOT NULL, provider TEXT NOT NULL, source_hash TEXT NOT NULL, translation TEXT NOT NULL, created_at INTEGER NOT NULL, PRIMARY KEY (book_id, section_index, paragraph_index, target_lang, provider))",
+  },
+  {
+    version: 16,
+    description: "Create translation_memory table",
+    up: "CREATE TABLE IF NOT EXISTS translation_memory (id INTEGER PRIMARY KEY AUTOINCREMENT, source_text TEXT NOT NULL, source_lang TEXT NOT NULL, target_lang TEXT NOT NULL, provider TEXT NOT NULL, book_id TEXT NOT NULL DEFAULT '', translation TEXT NOT NULL, size INTEGER NOT NULL, created_at INTEGER NOT NULL, last_used_at INTEGER NOT NULL, UNIQUE (source_text, source_lang, target_lang, provider, book_id))",
+  },
+  {
+    version: 17,
+    description: "Add auto_approve_actions to threads",
+    up: "ALTER TABLE threads ADD COLUMN auto_approve_actions INTEGER NOT NULL DEFAULT 0",
+    backup: backfill("threads", "auto_approve_actions", () => 0),
+  },
+  {
+    version: 18,
+    description: "Add rolling summary to threads",
+    up: "ALTER TABLE threads ADD COLUMN summary TEXT",
+  },
+  {
+    version: 19,
+    description: "Add summarized_through_id to threads",
+    up: "ALTER TABLE threads ADD COLUMN summarized_through_id TEXT",
+  },
+  {
+    version: 20,
+    description: "Add pinned to messages",
+    up: "ALTER TABLE messages ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0",
+    backup: backfill("messages", "pinned", () => 0),
+  },
+  {
+    version: 21,
+    description: "Create usage_ledger table",
+    up: "CREATE TABLE IF NOT EXISTS usage_ledger (id INTEGER PRIMARY KEY AUTOINCREMENT, category TEXT NOT NULL, endpoint TEXT NOT NULL, model TEXT NOT NULL, input_tokens INTEGER NOT NULL DEFAULT 0, output_tokens INTEGER NOT NULL DEFAULT 0, cost REAL, estimated INTEGER NOT NULL DEFAULT 0, created_at INTEGER NOT NULL)",
   },
 ];
 
+/** Schema version of this build: the latest migration */
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/** Upgrade backup rows written at schema version `fromVersion` to the current schema, in place */
+export function migrateBackupTables(tables: BackupTables, fromVersion: number): void {
+  for (const migration of migrations) {
+    if (migration.version > fromVersion) migration.backup?.(tables);
+  }
+}
+
 /** Run pending migrations */
 export async function runMigrations(): Promise<void> {
   const Database = (await import("@tauri-apps/plugin-sql")).default;
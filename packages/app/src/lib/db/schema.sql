@@ -20,7 +20,8 @@ CREATE TABLE IF NOT EXISTS books (
   is_vectorized INTEGER DEFAULT 0,
   vectorize_progress REAL DEFAULT 0.0,
   added_at INTEGER NOT NULL,
-  last_opened_at INTEGER
+  last_opened_at INTEGER,
+  updated_at INTEGER NOT NULL DEFAULT 0
 );
 
 CREATE TABLE IF NOT EXISTS tags (
@@ -65,7 +66,8 @@ CREATE TABLE IF NOT EXISTS bookmarks (
   cfi TEXT NOT NULL,
   label TEXT,
   chapter_title TEXT,
-  created_at INTEGER NOT NULL
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL DEFAULT 0
 );
 
 CREATE TABLE IF NOT EXISTS threads (
@@ -73,7 +75,10 @@ CREATE TABLE IF NOT EXISTS threads (
   book_id TEXT REFERENCES books(id) ON DELETE SET NULL,
   title TEXT NOT NULL,
   created_at INTEGER NOT NULL,
-  updated_at INTEGER NOT NULL
+  updated_at INTEGER NOT NULL,
+  auto_approve_actions INTEGER NOT NULL DEFAULT 0, -- skip confirmation of write actions
+  summary TEXT, -- rolling summary of messages older than the context window
+  summarized_through_id TEXT -- last message folded into the summary
 );
 
 CREATE TABLE IF NOT EXISTS messages (
@@ -83,7 +88,8 @@ CREATE TABLE IF NOT EXISTS messages (
   content TEXT NOT NULL,
   citations TEXT, -- JSON array
   tool_calls TEXT, -- JSON array
-  created_at INTEGER NOT NULL
+  created_at INTEGER NOT NULL,
+  pinned INTEGER NOT NULL DEFAULT 0 -- always kept in the model context
 );
 
 CREATE TABLE IF NOT EXISTS reading_sessions (
@@ -96,7 +102,8 @@ CREATE TABLE IF NOT EXISTS reading_sessions (
   total_active_time INTEGER DEFAULT 0,
   pages_read INTEGER DEFAULT 0,
   start_cfi TEXT,
-  end_cfi TEXT
+  end_cfi TEXT,
+  updated_at INTEGER NOT NULL DEFAULT 0
 );
 
 CREATE TABLE IF NOT EXISTS skills (
@@ -121,7 +128,116 @@ CREATE TABLE IF NOT EXISTS chunks (
   token_count INTEGER NOT NULL,
   start_cfi TEXT,
   end_cfi TEXT,
-  embedding BLOB -- serialized float32 array
+  embedding BLOB, -- serialized float32 array
+  chapter_hash TEXT, -- SHA-256 of chapter text + chunker settings; unchanged chapters are not re-embedded
+  model_id TEXT, -- embedding model that produced `embedding`
+  embedding_dim INTEGER
+);
+
+-- BM25 inverted index: one row per (term, chunk), built at vectorization time
+CREATE TABLE IF NOT EXISTS bm25_postings (
+  term TEXT NOT NULL,
+  book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  chunk_id TEXT NOT NULL,
+  tf INTEGER NOT NULL, -- term frequency within the chunk
+  doc_length INTEGER NOT NULL, -- token count of the chunk
+  PRIMARY KEY (book_id, term, chunk_id)
+);
+
+-- Per-book BM25 corpus statistics; present only once the book's postings are complete
+CREATE TABLE IF NOT EXISTS bm25_book_stats (
+  book_id TEXT PRIMARY KEY REFERENCES books(id) ON DELETE CASCADE,
+  doc_count INTEGER NOT NULL,
+  avg_doc_length REAL NOT NULL,
+  tokenizer TEXT NOT NULL DEFAULT '', -- tokenizer id; a mismatch triggers a rebuild
+  updated_at INTEGER NOT NULL
+);
+
+-- Spaced-repetition cards; book_id and cfi link back to the passage they came from
+CREATE TABLE IF NOT EXISTS flashcards (
+  id TEXT PRIMARY KEY,
+  book_id TEXT REFERENCES books(id) ON DELETE SET NULL,
+  highlight_id TEXT,
+  cfi TEXT,
+  chapter_title TEXT,
+  kind TEXT NOT NULL DEFAULT 'basic' CHECK (kind IN ('basic', 'cloze')),
+  front TEXT NOT NULL,
+  back TEXT NOT NULL DEFAULT '',
+  source TEXT NOT NULL DEFAULT 'manual', -- highlight | vocabulary | manual
+  tags TEXT DEFAULT '[]', -- JSON array
+  state TEXT NOT NULL DEFAULT 'new', -- new | learning | review | relearning
+  due INTEGER NOT NULL,
+  interval REAL NOT NULL DEFAULT 0, -- days
+  ease REAL NOT NULL DEFAULT 2.5, -- SM-2 ease factor
+  stability REAL NOT NULL DEFAULT 0, -- FSRS stability, days
+  difficulty REAL NOT NULL DEFAULT 0, -- FSRS difficulty, 1-10
+  reps INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  last_reviewed_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Review log, one row per graded review
+CREATE TABLE IF NOT EXISTS flashcard_reviews (
+  id TEXT PRIMARY KEY,
+  card_id TEXT NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE,
+  rating INTEGER NOT NULL, -- 1 again, 2 hard, 3 good, 4 easy
+  state TEXT NOT NULL, -- card state before the review
+  interval REAL NOT NULL, -- days scheduled by the review
+  elapsed_days REAL NOT NULL DEFAULT 0,
+  reviewed_at INTEGER NOT NULL
+);
+
+-- Cached full-book translations, one row per paragraph; source_hash detects edited source text
+CREATE TABLE IF NOT EXISTS paragraph_translations (
+  book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  section_index INTEGER NOT NULL,
+  paragraph_index INTEGER NOT NULL,
+  target_lang TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  source_hash TEXT NOT NULL,
+  translation TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (book_id, section_index, paragraph_index, target_lang, provider)
+);
+
+-- Translation memory keyed by the full source text; book_id is '' for entries not tied to a book
+CREATE TABLE IF NOT EXISTS translation_memory (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_text TEXT NOT NULL,
+  source_lang TEXT NOT NULL,
+  target_lang TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  book_id TEXT NOT NULL DEFAULT '',
+  translation TEXT NOT NULL,
+  size INTEGER NOT NULL, -- UTF-8 bytes of source and translation, counted against the size cap
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER NOT NULL, -- LRU eviction order
+  UNIQUE (source_text, source_lang, target_lang, provider, book_id)
+);
+
+-- One row per metered AI request (chat, translation, embedding)
+CREATE TABLE IF NOT EXISTS usage_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  category TEXT NOT NULL,
+  endpoint TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost REAL, -- USD; NULL when the model has no known price
+  estimated INTEGER NOT NULL DEFAULT 0, -- 1 when token counts were estimated locally
+  created_at INTEGER NOT NULL
+);
+
+-- Append-only record of inserts, updates and deletes (deletes double as tombstones)
+CREATE TABLE IF NOT EXISTS change_log (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('book', 'highlight', 'note', 'bookmark', 'thread')),
+  entity_id TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+  book_id TEXT,
+  timestamp INTEGER NOT NULL
 );
 
 -- Indexes
@@ -133,3 +249,10 @@ CREATE INDEX IF NOT EXISTS idx_threads_book ON threads(book_id);
 CREATE INDEX IF NOT EXISTS idx_reading_sessions_book ON reading_sessions(book_id);
 CREATE INDEX IF NOT EXISTS idx_chunks_book ON chunks(book_id);
 CREATE INDEX IF NOT EXISTS idx_books_last_opened ON books(last_opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_change_log_entity ON change_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_change_log_time ON change_log(timestamp);
+CREATE INDEX IF NOT EXISTS idx_flashcards_due ON flashcards(due);
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_card ON flashcard_reviews(card_id);
+CREATE INDEX IF NOT EXISTS idx_translation_memory_used ON translation_memory(last_used_at);
+CREATE INDEX IF NOT EXISTS idx_translation_memory_book ON translation_memory(book_id);
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_created ON usage_ledger(created_at);
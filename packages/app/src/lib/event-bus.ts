@@ -12,17 +12,19 @@ type EventMap = {
     annotationId: string;
     type: "highlight" | "note" | "bookmark";
   };
-  "annotation:removed": { id: string; type: "highlight" | "note" | "bookmark" };
+  "annotation:removed": { id: string; bookId?: string; type: "highlight" | "note" | "bookmark" };
   "reading:progress": { bookId: string; progress: number; cfi?: string };
   "reading:session-start": { bookId: string; sessionId: string };
   "reading:session-end": { sessionId: string };
   "sync:started": Record<string, never>;
   "sync:completed": { timestamp: number };
   "sync:error": { error: Error };
+  "sync:offline": Record<string, never>;
   "vectorize:started": { bookId: string };
   "vectorize:progress": { bookId: string; progress: number; status: string };
   "vectorize:completed": { bookId: string; chunksCount: number };
   "vectorize:error": { bookId: string; error: string };
+  "vectorize:cancelled": { bookId: string };
 };
 
 type EventCallback<K extends keyof EventMap> = (data: EventMap[K]) => void;
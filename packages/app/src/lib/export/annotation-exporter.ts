@@ -1,16 +1,72 @@
 /**
  * Annotation Exporter — export highlights and notes in multiple formats
  * Supports: Markdown, JSON, Obsidian (with frontmatter), Notion (clipboard-friendly)
+ * and user-defined templates (see template-engine)
  */
-import type { Book, Highlight, Note } from "@/types";
+import type { Book, Highlight, HighlightColor, Note } from "@/types";
+import { renderTemplate } from "./template-engine";
 
-export type ExportFormat = "markdown" | "json" | "obsidian" | "notion";
+export type ExportFormat = "markdown" | "json" | "obsidian" | "notion" | "template";
 
 export interface ExportOptions {
   format: ExportFormat;
   includeNotes: boolean;
   includeHighlights: boolean;
   groupByChapter: boolean;
+  /** Template source, required by the "template" format */
+  template?: string;
+}
+
+/** Highlight as exposed to export templates */
+export interface TemplateHighlight {
+  id: string;
+  text: string;
+  color: HighlightColor;
+  note?: string;
+  chapter: string;
+  cfi: string;
+  /** Tags of the notes attached to this highlight */
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Note as exposed to export templates */
+export interface TemplateNote {
+  id: string;
+  title: string;
+  content: string;
+  chapter?: string;
+  cfi?: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Variables available to export templates */
+export interface TemplateContext {
+  book: {
+    id: string;
+    title: string;
+    author: string;
+    publisher?: string;
+    language?: string;
+    isbn?: string;
+    description?: string;
+    publishDate?: string;
+    format: string;
+    tags: string[];
+    /** Reading progress in percent */
+    progress: number;
+  };
+  exportedAt: number;
+  highlightCount: number;
+  noteCount: number;
+  highlights: TemplateHighlight[];
+  /** Highlights grouped by chapter, in reading order of first appearance */
+  chapters: Array<{ title: string; highlights: TemplateHighlight[] }>;
+  /** Notes not attached to a highlight */
+  notes: TemplateNote[];
 }
 
 const DEFAULT_OPTIONS: ExportOptions = {
@@ -42,6 +98,12 @@ export class AnnotationExporter {
         return this.toObsidian(filteredHighlights, filteredNotes, book, opts);
       case "notion":
         return this.toNotion(filteredHighlights, filteredNotes, book);
+      case "template":
+        if (!opts.template) throw new Error("Template export needs a template");
+        return renderTemplate(
+          opts.template,
+          this.buildTemplateContext(filteredHighlights, filteredNotes, book),
+        );
       default:
         throw new Error(`Unsupported export format: ${opts.format}`);
     }
@@ -49,7 +111,8 @@ export class AnnotationExporter {
 
   /** Trigger a file download with the exported content */
   downloadAsFile(content: string, filename: string, format: ExportFormat): void {
-    const mimeType = format === "json" ? "application/json" : "text/markdown";
+    const mimeType =
+      format === "json" ? "application/json" : format === "template" ? "text/plain" : "text/markdown";
     const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
     const url = URL.createObjectURL(blob);
 
@@ -257,6 +320,65 @@ export class AnnotationExporter {
     return lines.join("\n");
   }
 
+  /** Variables exposed to export templates for one book */
+  buildTemplateContext(highlights: Highlight[], notes: Note[], book: Book): TemplateContext {
+    const noteTags = new Map<string, string[]>();
+    for (const n of notes) {
+      if (!n.highlightId) continue;
+      noteTags.set(n.highlightId, [...(noteTags.get(n.highlightId) ?? []), ...n.tags]);
+    }
+    const templateHighlights: TemplateHighlight[] = highlights.map((h) => ({
+      id: h.id,
+      text: h.text,
+      color: h.color,
+      note: h.note,
+      chapter: h.chapterTitle || "Unknown Chapter",
+      cfi: h.cfi,
+      tags: [...new Set(noteTags.get(h.id) ?? [])],
+      createdAt: h.createdAt,
+      updatedAt: h.updatedAt,
+    }));
+    const chapters = new Map<string, TemplateHighlight[]>();
+    for (const h of templateHighlights) {
+      chapters.set(h.chapter, [...(chapters.get(h.chapter) ?? []), h]);
+    }
+    const standaloneNotes = notes.filter((n) => !n.highlightId);
+
+    return {
+      book: {
+        id: book.id,
+        title: book.meta.title,
+        author: book.meta.author,
+        publisher: book.meta.publisher,
+        language: book.meta.language,
+        isbn: book.meta.isbn,
+        description: book.meta.description,
+        publishDate: book.meta.publishDate,
+        format: book.format,
+        tags: book.tags,
+        progress: Math.round(book.progress * 100),
+      },
+      exportedAt: Date.now(),
+      highlightCount: highlights.length,
+      noteCount: notes.length,
+      highlights: templateHighlights,
+      chapters: [...chapters].map(([title, chapterHighlights]) => ({
+        title,
+        highlights: chapterHighlights,
+      })),
+      notes: standaloneNotes.map((n) => ({
+        id: n.id,
+        title: n.title,
+        content: n.content,
+        chapter: n.chapterTitle,
+        cfi: n.cfi,
+        tags: n.tags,
+        createdAt: n.createdAt,
+        updatedAt: n.updatedAt,
+      })),
+    };
+  }
+
   // --- Helpers ---
 
   private groupByChapter(highlights: Highlight[]): Map<string, Highlight[]> {
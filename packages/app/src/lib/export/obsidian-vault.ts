@@ -0,0 +1,256 @@
+/**
+ * Obsidian vault export — write one markdown file per book into a vault folder.
+ *
+ * Every highlight is written as a managed block between `%% readany:begin <id> %%`
+ * and `%% readany:end <id> %%` comments (hidden in Obsidian's reading view) and
+ * carries a stable `^hl-<id>` block ID, so other notes in the vault can link to
+ * or embed it. Re-exporting parses the existing file and only touches managed
+ * blocks: changed highlights are rewritten in place, deleted ones are dropped
+ * and new ones are inserted after the last block of their chapter. Everything
+ * outside the markers — the user's own writing — is left as it is.
+ */
+import * as db from "@/lib/db/database";
+import type { Book, Highlight, Note } from "@/types";
+import * as CFI from "foliate-js/epubcfi.js";
+
+export interface VaultExportTarget {
+  /** Absolute path of the vault */
+  vaultPath: string;
+  /** Folder inside the vault for book files; empty for the vault root */
+  folder: string;
+}
+
+export interface VaultExportResult {
+  path: string;
+  created: boolean;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+const BLOCK_PATTERN = /%% readany:begin (\S+) %%\n[\s\S]*?%% readany:end \1 %%\n?/g;
+
+type Segment = { kind: "text"; text: string } | { kind: "block"; id: string; text: string };
+
+/** Obsidian block IDs may only contain letters, digits and dashes */
+export function highlightBlockId(highlightId: string): string {
+  return `hl-${highlightId.replace(/[^A-Za-z0-9-]/g, "")}`;
+}
+
+/**
+ * File name for a book: its title without characters Obsidian does not allow
+ * in links. `withId` appends the book id, for a title another book's file
+ * already uses.
+ */
+export function vaultFileName(book: Book, withId = false): string {
+  const name = book.meta.title
+    .replace(/[\\/:*?"<>|#^[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!name) return `${book.id}.md`;
+  return withId ? `${name} (${book.id}).md` : `${name}.md`;
+}
+
+/** Book id recorded in a vault file's frontmatter, if any */
+function vaultFileBookId(content: string): string | null {
+  const match = content.match(/^---\n[\s\S]*?\n---\n/);
+  return match?.[0].match(/^readany-id: *(\S+) *$/m)?.[1] ?? null;
+}
+
+/** Highlights in reading order; CFIs that do not parse (e.g. PDF pages) fall back to creation time */
+function sortByPosition(highlights: Highlight[]): Highlight[] {
+  return [...highlights].sort((a, b) => {
+    try {
+      return CFI.compare(a.cfi, b.cfi) || a.createdAt - b.createdAt;
+    } catch {
+      return a.createdAt - b.createdAt;
+    }
+  });
+}
+
+const chapterOf = (h: Highlight) => h.chapterTitle || "Unknown Chapter";
+
+function renderBlock(h: Highlight, tags: string[]): string {
+  const lines = [`%% readany:begin ${h.id} %%`, `> [!quote] ${h.color}`];
+  for (const line of h.text.trim().split("\n")) lines.push(`> ${line}`);
+  lines.push("", `^${highlightBlockId(h.id)}`, "");
+  if (h.note) lines.push(`**Note:** ${h.note}`, "");
+  if (tags.length > 0) lines.push(tags.map((t) => `#${t.replace(/\s+/g, "-")}`).join(" "), "");
+  lines.push(`%% readany:end ${h.id} %%`, "");
+  return lines.join("\n");
+}
+
+/** Tags of the notes attached to each highlight */
+function tagsByHighlight(notes: Note[]): Map<string, string[]> {
+  const tags = new Map<string, string[]>();
+  for (const n of notes) {
+    if (!n.highlightId || n.tags.length === 0) continue;
+    tags.set(n.highlightId, [...new Set([...(tags.get(n.highlightId) ?? []), ...n.tags])]);
+  }
+  return tags;
+}
+
+function frontmatter(book: Book, highlightCount: number): string {
+  return [
+    "---",
+    `title: "${book.meta.title.replace(/"/g, '\\"')}"`,
+    `author: "${book.meta.author.replace(/"/g, '\\"')}"`,
+    `readany-id: ${book.id}`,
+    `progress: ${Math.round(book.progress * 100)}%`,
+    `highlights: ${highlightCount}`,
+    "tags:",
+    "  - book",
+    "  - reading-notes",
+    ...book.tags.map((t) => `  - ${t}`),
+    "---",
+    "",
+  ].join("\n");
+}
+
+/** Refresh the fields the exporter owns in an existing frontmatter; other keys are kept */
+function updateFrontmatter(content: string, book: Book, highlightCount: number): string {
+  const match = content.match(/^---\n[\s\S]*?\n---\n/);
+  if (!match) return content;
+  const updated = match[0]
+    .replace(/^progress: .*$/m, `progress: ${Math.round(book.progress * 100)}%`)
+    .replace(/^highlights: .*$/m, `highlights: ${highlightCount}`);
+  return updated + content.slice(match[0].length);
+}
+
+/** Content of a new vault file for a book */
+export function renderVaultFile(book: Book, highlights: Highlight[], notes: Note[]): string {
+  const tags = tagsByHighlight(notes);
+  const parts = [frontmatter(book, highlights.length), `# ${book.meta.title}`, ""];
+  let chapter: string | null = null;
+  for (const h of sortByPosition(highlights)) {
+    if (chapterOf(h) !== chapter) {
+      chapter = chapterOf(h);
+      parts.push(`## ${chapter}`, "");
+    }
+    parts.push(renderBlock(h, tags.get(h.id) ?? []));
+  }
+  return parts.join("\n");
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+function parseSegments(content: string): Segment[] {
+  const segments: Segment[] = [];
+  let last = 0;
+  for (const match of content.matchAll(BLOCK_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ kind: "text", text: content.slice(last, start) });
+    segments.push({ kind: "block", id: match[1], text: match[0] });
+    last = start + match[0].length;
+  }
+  if (last < content.length) segments.push({ kind: "text", text: content.slice(last) });
+  return segments;
+}
+
+/**
+ * Update an existing vault file in place. Returns the new content and what
+ * changed; unchanged blocks and all text outside managed blocks are kept.
+ */
+export function mergeVaultFile(
+  existing: string,
+  book: Book,
+  highlights: Highlight[],
+  notes: Note[],
+): { content: string; added: number; updated: number; removed: number } {
+  const tags = tagsByHighlight(notes);
+  const byId = new Map(highlights.map((h) => [h.id, h]));
+  const segments = parseSegments(existing);
+  let updated = 0;
+  let removed = 0;
+
+  const kept: Segment[] = [];
+  for (const segment of segments) {
+    if (segment.kind === "text") {
+      // Drop the blank line that separated a removed block from what follows
+      const previous = segments[segments.indexOf(segment) - 1];
+      const afterRemoved = previous?.kind === "block" && !byId.has(previous.id);
+      kept.push(afterRemoved ? { ...segment, text: segment.text.replace(/^\n/, "") } : segment);
+      continue;
+    }
+    const highlight = byId.get(segment.id);
+    if (!highlight) {
+      removed++;
+      continue;
+    }
+    const text = renderBlock(highlight, tags.get(highlight.id) ?? []);
+    if (text !== segment.text) updated++;
+    kept.push({ ...segment, text });
+  }
+
+  const present = new Set(kept.flatMap((s) => (s.kind === "block" ? [s.id] : [])));
+  const added = sortByPosition(highlights.filter((h) => !present.has(h.id)));
+  for (const h of added) {
+    const block: Segment = { kind: "block", id: h.id, text: renderBlock(h, tags.get(h.id) ?? []) };
+    const sameChapter = findLastIndex(kept, (s) => {
+      const neighbour = s.kind === "block" ? byId.get(s.id) : undefined;
+      return neighbour !== undefined && chapterOf(neighbour) === chapterOf(h);
+    });
+    if (sameChapter >= 0) {
+      kept.splice(sameChapter + 1, 0, { kind: "text", text: "\n" }, block);
+      continue;
+    }
+    // New chapter: after the last managed block, or at the end of the file
+    const lastBlock = findLastIndex(kept, (s) => s.kind === "block");
+    const heading: Segment = { kind: "text", text: `\n## ${chapterOf(h)}\n\n` };
+    if (lastBlock >= 0) {
+      kept.splice(lastBlock + 1, 0, heading, block);
+    } else {
+      const tail = kept.length > 0 ? kept[kept.length - 1].text : "";
+      const separator = tail.endsWith("\n") ? "" : "\n";
+      kept.push({ kind: "text", text: `${separator}\n## ${chapterOf(h)}\n\n` }, block);
+    }
+  }
+
+  const content = updateFrontmatter(kept.map((s) => s.text).join(""), book, highlights.length);
+  return { content, added: added.length, updated, removed };
+}
+
+async function joinTargetPath(target: VaultExportTarget, fileName: string): Promise<string> {
+  const { join } = await import("@tauri-apps/api/path");
+  const folder = target.folder.trim().replace(/^[\\/]+|[\\/]+$/g, "");
+  return folder ? join(target.vaultPath, folder, fileName) : join(target.vaultPath, fileName);
+}
+
+/** Write or update the vault file of one book */
+export async function exportBookToVault(
+  bookId: string,
+  target: VaultExportTarget,
+): Promise<VaultExportResult> {
+  const book = await db.getBook(bookId);
+  if (!book) throw new Error(`Book not found: ${bookId}`);
+  const [highlights, notes] = await Promise.all([db.getHighlights(bookId), db.getNotes(bookId)]);
+
+  const { exists, mkdir, readTextFile, writeTextFile } = await import("@tauri-apps/plugin-fs");
+  const { dirname } = await import("@tauri-apps/api/path");
+  const read = async (path: string) =>
+    (await exists(path)) ? (await readTextFile(path)).replace(/\r\n/g, "\n") : null;
+
+  let path = await joinTargetPath(target, vaultFileName(book));
+  let existing = await read(path);
+  // Another book with the same title (a second edition, a duplicate import) owns that file
+  const owner = existing === null ? null : vaultFileBookId(existing);
+  if (owner !== null && owner !== book.id) {
+    path = await joinTargetPath(target, vaultFileName(book, true));
+    existing = await read(path);
+  }
+
+  if (existing === null) {
+    await mkdir(await dirname(path), { recursive: true });
+    await writeTextFile(path, renderVaultFile(book, highlights, notes));
+    return { path, created: true, added: highlights.length, updated: 0, removed: 0 };
+  }
+
+  const { content, ...changes } = mergeVaultFile(existing, book, highlights, notes);
+  if (content !== existing) await writeTextFile(path, content);
+  return { path, created: false, ...changes };
+}
@@ -0,0 +1,426 @@
+/**
+ * Reading report — a rendered, self-contained HTML report for one book.
+ *
+ * The report has a cover with the book's metadata, one section per chapter
+ * showing each highlight inside the paragraph it came from (pulled from the
+ * book file through `extractBookChapters`), highlight notes and standalone
+ * notes rendered from markdown, and optionally AI chapter summaries and
+ * reading-session statistics. Images (the cover) are inlined as data URLs so
+ * the file can be shared on its own; `printReport` opens the print dialog,
+ * where the system's "Save as PDF" produces the PDF version.
+ */
+import { createChatModel } from "@/lib/ai/llm-provider";
+import * as db from "@/lib/db/database";
+import { type ChapterData, extractBookChapters } from "@/lib/rag/book-extractor";
+import { assertWithinQuota } from "@/lib/usage/quota";
+import { useSettingsStore } from "@/stores/settings-store";
+import { type Book, HIGHLIGHT_COLOR_HEX, type Highlight, type Note } from "@/types";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import * as CFI from "foliate-js/epubcfi.js";
+import { Marked } from "marked";
+
+export interface ReadingReportOptions {
+  /** Show each highlight inside its surrounding paragraph */
+  includeContext: boolean;
+  /** Ask the active AI endpoint for a summary of every highlighted chapter */
+  includeSummaries: boolean;
+  /** Add reading-session statistics */
+  includeStats: boolean;
+}
+
+export interface ReadingReportProgress {
+  stage: "loading" | "extracting" | "summarizing" | "rendering";
+  current?: number;
+  total?: number;
+}
+
+/** Chapter text sent to the LLM is truncated to bound prompt size */
+const SUMMARY_CHAPTER_CHARS = 12000;
+
+const SUMMARY_PROMPT =
+  "You summarize book chapters for a study group. Write a concise summary of the chapter in 3-5 sentences, in the language of the chapter text. Respond with the summary only, as plain markdown without headings.";
+
+interface ReportChapter {
+  title: string;
+  highlights: Highlight[];
+  source?: ChapterData;
+  summary?: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Link targets a report may point at; anything else (javascript:, data:, file:…) is dropped */
+function safeUrl(href: string): string | null {
+  const url = href.trim();
+  return /^(https?|mailto):/i.test(url) ? url : null;
+}
+
+/**
+ * Markdown renderer for untrusted text (book descriptions, imported notes, AI
+ * summaries): raw HTML is shown as text rather than passed through, links
+ * keep only http(s) and mailto targets, and images become links so opening
+ * the report never loads anything remote.
+ */
+const markdown = new Marked({
+  async: false,
+  gfm: true,
+  breaks: true,
+  renderer: {
+    html: ({ text }) => escapeHtml(text),
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens);
+      const url = safeUrl(href);
+      if (!url) return text;
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : "";
+      return `<a href="${escapeHtml(url)}"${titleAttr}>${text}</a>`;
+    },
+    image({ href, text }) {
+      const url = safeUrl(href);
+      const label = escapeHtml(text || href);
+      return url ? `<a href="${escapeHtml(url)}">${label}</a>` : label;
+    },
+  },
+});
+
+function renderMarkdown(text: string): string {
+  return markdown.parse(text) as string;
+}
+
+/** Publisher descriptions are HTML: keep only their text, paragraph breaks included */
+function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  for (const el of doc.body.querySelectorAll("br")) el.replaceWith("\n");
+  for (const el of doc.body.querySelectorAll("p, div, li, h1, h2, h3, h4, h5, h6")) {
+    el.append("\n\n");
+  }
+  return (doc.body.textContent ?? "").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function sortByPosition(highlights: Highlight[]): Highlight[] {
+  return [...highlights].sort((a, b) => {
+    try {
+      return CFI.compare(a.cfi, b.cfi) || a.createdAt - b.createdAt;
+    } catch {
+      return a.createdAt - b.createdAt;
+    }
+  });
+}
+
+/** Chapter of the book text a highlight belongs to: by title first, then by where its text occurs */
+function findSourceChapter(h: Highlight, chapters: ChapterData[]): ChapterData | undefined {
+  const byTitle = chapters.filter((c) => c.title === h.chapterTitle);
+  const candidates = byTitle.length > 0 ? byTitle : chapters;
+  return candidates.find((c) => c.content.includes(h.text.trim())) ?? byTitle[0];
+}
+
+/**
+ * The paragraph(s) around a highlight with the highlighted text marked, or
+ * null when the text cannot be found in the chapter.
+ */
+function highlightInContext(h: Highlight, chapter: ChapterData): string | null {
+  const text = h.text.trim();
+  const start = chapter.content.indexOf(text);
+  if (start < 0 || !text) return null;
+  const end = start + text.length;
+  const paragraphStart = chapter.content.lastIndexOf("\n\n", start);
+  const paragraphEnd = chapter.content.indexOf("\n\n", end);
+  const from = paragraphStart < 0 ? 0 : paragraphStart + 2;
+  const to = paragraphEnd < 0 ? chapter.content.length : paragraphEnd;
+  const color = HIGHLIGHT_COLOR_HEX[h.color];
+  return [
+    escapeHtml(chapter.content.slice(from, start)),
+    `<mark style="background:${color}55;border-bottom:2px solid ${color}">${escapeHtml(text)}</mark>`,
+    escapeHtml(chapter.content.slice(end, to)),
+  ]
+    .join("")
+    .replace(/\n/g, "<br>");
+}
+
+function groupChapters(highlights: Highlight[], chapters: ChapterData[]): ReportChapter[] {
+  const groups = new Map<string, ReportChapter>();
+  for (const h of sortByPosition(highlights)) {
+    const title = h.chapterTitle || "Unknown Chapter";
+    const group = groups.get(title) ?? { title, highlights: [] };
+    group.highlights.push(h);
+    group.source ??= findSourceChapter(h, chapters);
+    groups.set(title, group);
+  }
+  return [...groups.values()];
+}
+
+async function summarizeChapter(chapter: ChapterData): Promise<string> {
+  await assertWithinQuota("ai_messages");
+  const llm = await createChatModel(useSettingsStore.getState().aiConfig, {
+    temperature: 0.3,
+    maxTokens: 512,
+    streaming: false,
+    usageCategory: "background",
+  });
+  const response = await llm.invoke([
+    new SystemMessage(SUMMARY_PROMPT),
+    new HumanMessage(
+      `Chapter: ${chapter.title}\n\n${chapter.content.slice(0, SUMMARY_CHAPTER_CHARS)}`,
+    ),
+  ]);
+  return typeof response.content === "string" ? response.content.trim() : "";
+}
+
+/** Cover image as a data URL so the report does not depend on app-local files */
+async function inlineCover(coverUrl: string | undefined): Promise<string | null> {
+  if (!coverUrl) return null;
+  try {
+    const blob = await (await fetch(coverUrl)).blob();
+    return await new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (err) {
+    console.warn("[ReadingReport] Failed to inline cover:", err);
+    return null;
+  }
+}
+
+const REPORT_CSS = `
+body { font-family: Georgia, "Noto Serif", "Songti SC", serif; color: #1f2328; max-width: 760px; margin: 0 auto; padding: 48px 32px; line-height: 1.7; }
+h1, h2, h3 { font-family: -apple-system, "Segoe UI", "PingFang SC", sans-serif; line-height: 1.3; }
+.cover { text-align: center; padding: 48px 0 64px; border-bottom: 1px solid #d0d7de; margin-bottom: 48px; }
+.cover img { max-height: 320px; box-shadow: 0 4px 16px rgba(0,0,0,.18); border-radius: 4px; }
+.cover h1 { font-size: 2.2em; margin: 32px 0 8px; }
+.cover .author { font-size: 1.2em; color: #57606a; }
+.meta { display: inline-grid; grid-template-columns: auto auto; gap: 4px 24px; margin-top: 24px; text-align: left; font-size: .9em; color: #57606a; }
+.meta dt { font-weight: 600; }
+.meta dd { margin: 0; }
+.stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin: 24px 0 48px; }
+.stat { background: #f6f8fa; border-radius: 8px; padding: 12px; text-align: center; }
+.stat b { display: block; font-size: 1.4em; }
+.stat span { font-size: .8em; color: #57606a; }
+.chapter { margin-bottom: 48px; page-break-inside: auto; }
+.chapter h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 6px; }
+.summary { background: #f6f8fa; border-left: 4px solid #8250df; padding: 8px 16px; margin: 16px 0; font-size: .95em; }
+.summary-label { font-size: .75em; text-transform: uppercase; letter-spacing: .05em; color: #8250df; font-weight: 600; }
+.highlight { margin: 24px 0; page-break-inside: avoid; }
+.highlight .context { color: #57606a; }
+.highlight .context mark { color: #1f2328; }
+.highlight blockquote { margin: 0; padding: 4px 16px; border-left: 4px solid; }
+.note { margin: 8px 0 0 16px; padding: 4px 12px; background: #fff8c5; border-radius: 4px; font-size: .95em; }
+.note p { margin: 4px 0; }
+.date { font-size: .75em; color: #8c959f; margin-top: 4px; }
+.notes-section .note-card { border: 1px solid #d0d7de; border-radius: 8px; padding: 12px 16px; margin: 16px 0; page-break-inside: avoid; }
+.tags { font-size: .8em; color: #0969da; }
+footer { margin-top: 64px; font-size: .8em; color: #8c959f; text-align: center; }
+@media print { body { padding: 0; } .cover { page-break-after: always; border: none; } }
+`;
+
+function renderCover(book: Book, cover: string | null): string {
+  const meta: Array<[string, string | undefined]> = [
+    ["Publisher", book.meta.publisher],
+    ["Published", book.meta.publishDate],
+    ["Language", book.meta.language],
+    ["ISBN", book.meta.isbn],
+    ["Progress", `${Math.round(book.progress * 100)}%`],
+    ["Tags", book.tags.join(", ") || undefined],
+  ];
+  return `<section class="cover">
+${cover ? `<img src="${cover}" alt="">` : ""}
+<h1>${escapeHtml(book.meta.title)}</h1>
+<div class="author">${escapeHtml(book.meta.author)}</div>
+<dl class="meta">${meta
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value as string)}</dd>`)
+    .join("")}</dl>
+${book.meta.description ? `<div class="description">${renderMarkdown(htmlToText(book.meta.description))}</div>` : ""}
+</section>`;
+}
+
+function renderStats(
+  highlights: Highlight[],
+  notes: Note[],
+  sessions: Awaited<ReturnType<typeof db.getReadingSessions>>,
+): string {
+  const totalTime = sessions.reduce((sum, s) => sum + s.totalActiveTime, 0);
+  const pages = sessions.reduce((sum, s) => sum + s.pagesRead, 0);
+  const days = new Set(sessions.map((s) => new Date(s.startedAt).toDateString())).size;
+  const first = sessions.length > 0 ? Math.min(...sessions.map((s) => s.startedAt)) : null;
+  const last =
+    sessions.length > 0 ? Math.max(...sessions.map((s) => s.endedAt ?? s.startedAt)) : null;
+  const stats: Array<[string, string]> = [
+    [formatDuration(totalTime), "Reading time"],
+    [String(sessions.length), "Sessions"],
+    [String(days), "Reading days"],
+    [String(pages), "Pages read"],
+    [String(highlights.length), "Highlights"],
+    [String(notes.length), "Notes"],
+    [first ? new Date(first).toLocaleDateString() : "—", "Started"],
+    [last ? new Date(last).toLocaleDateString() : "—", "Last read"],
+  ];
+  return `<h2>Reading statistics</h2>
+<div class="stats">${stats
+    .map(
+      ([value, label]) =>
+        `<div class="stat"><b>${escapeHtml(value)}</b><span>${label}</span></div>`,
+    )
+    .join("")}</div>`;
+}
+
+function renderHighlight(
+  h: Highlight,
+  attached: Note[],
+  includeContext: boolean,
+  chapter?: ChapterData,
+): string {
+  const color = HIGHLIGHT_COLOR_HEX[h.color];
+  const context = includeContext && chapter ? highlightInContext(h, chapter) : null;
+  const body = context
+    ? `<p class="context">${context}</p>`
+    : `<blockquote style="border-color:${color}">${escapeHtml(h.text.trim()).replace(/\n/g, "<br>")}</blockquote>`;
+  const notes = [
+    ...(h.note ? [renderMarkdown(h.note)] : []),
+    ...attached.filter((n) => n.content.trim()).map((n) => renderMarkdown(n.content)),
+  ];
+  const tags = [...new Set(attached.flatMap((n) => n.tags))];
+  return `<div class="highlight">
+${body}
+${notes.map((html) => `<div class="note">${html}</div>`).join("\n")}
+${tags.length > 0 ? `<div class="tags">${tags.map((t) => `#${escapeHtml(t)}`).join(" ")}</div>` : ""}
+<div class="date">${new Date(h.createdAt).toLocaleString()}</div>
+</div>`;
+}
+
+/** Build the report HTML for a book */
+export async function buildReadingReport(
+  book: Book,
+  options: ReadingReportOptions,
+  onProgress?: (progress: ReadingReportProgress) => void,
+): Promise<string> {
+  onProgress?.({ stage: "loading" });
+  const [highlights, notes, sessions, cover] = await Promise.all([
+    db.getHighlights(book.id),
+    db.getNotes(book.id),
+    options.includeStats ? db.getReadingSessions(book.id) : Promise.resolve([]),
+    inlineCover(book.meta.coverUrl),
+  ]);
+
+  let sourceChapters: ChapterData[] = [];
+  if ((options.includeContext || options.includeSummaries) && highlights.length > 0) {
+    onProgress?.({ stage: "extracting" });
+    try {
+      sourceChapters = await extractBookChapters(book.filePath);
+    } catch (err) {
+      console.warn("[ReadingReport] Failed to extract chapters, rendering without context:", err);
+    }
+  }
+
+  const chapters = groupChapters(highlights, sourceChapters);
+
+  if (options.includeSummaries) {
+    const summarizable = chapters.filter((c) => c.source);
+    for (const [i, chapter] of summarizable.entries()) {
+      onProgress?.({ stage: "summarizing", current: i + 1, total: summarizable.length });
+      chapter.summary = await summarizeChapter(chapter.source as ChapterData);
+    }
+  }
+
+  onProgress?.({ stage: "rendering" });
+  const notesByHighlight = new Map<string, Note[]>();
+  for (const n of notes) {
+    if (!n.highlightId) continue;
+    notesByHighlight.set(n.highlightId, [...(notesByHighlight.get(n.highlightId) ?? []), n]);
+  }
+  const standaloneNotes = notes.filter((n) => !n.highlightId);
+
+  const sections = chapters.map(
+    (chapter) => `<section class="chapter">
+<h2>${escapeHtml(chapter.title)}</h2>
+${
+  chapter.summary
+    ? `<div class="summary"><div class="summary-label">AI summary</div>${renderMarkdown(chapter.summary)}</div>`
+    : ""
+}
+${chapter.highlights
+  .map((h) =>
+    renderHighlight(h, notesByHighlight.get(h.id) ?? [], options.includeContext, chapter.source),
+  )
+  .join("\n")}
+</section>`,
+  );
+
+  const notesSection =
+    standaloneNotes.length > 0
+      ? `<section class="notes-section">
+<h2>Notes</h2>
+${standaloneNotes
+  .map(
+    (n) => `<div class="note-card">
+${n.title ? `<h3>${escapeHtml(n.title)}</h3>` : ""}
+${n.chapterTitle ? `<div class="date">${escapeHtml(n.chapterTitle)}</div>` : ""}
+${renderMarkdown(n.content)}
+${n.tags.length > 0 ? `<div class="tags">${n.tags.map((t) => `#${escapeHtml(t)}`).join(" ")}</div>` : ""}
+</div>`,
+  )
+  .join("\n")}
+</section>`
+      : "";
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(book.meta.language || "en")}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(book.meta.title)} — Reading Report</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+${renderCover(book, cover)}
+${options.includeStats ? renderStats(highlights, notes, sessions) : ""}
+${sections.join("\n")}
+${notesSection}
+<footer>Generated by ReadAny on ${new Date().toLocaleString()}</footer>
+</body>
+</html>
+`;
+}
+
+/**
+ * Open the print dialog for a report. The report is printed from a hidden
+ * iframe so the app window itself is not affected; choosing "Save as PDF" in
+ * the dialog produces the PDF.
+ */
+export function printReport(html: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement("iframe");
+    iframe.style.position = "fixed";
+    iframe.style.width = "0";
+    iframe.style.height = "0";
+    iframe.style.border = "0";
+    // No scripts run inside the report; same-origin lets this window call print() on it
+    iframe.sandbox.value = "allow-modals allow-same-origin";
+    iframe.srcdoc = html;
+    iframe.onload = () => {
+      const win = iframe.contentWindow;
+      if (!win) {
+        iframe.remove();
+        reject(new Error("Print frame is not available"));
+        return;
+      }
+      win.addEventListener("afterprint", () => iframe.remove(), { once: true });
+      win.focus();
+      win.print();
+      resolve();
+    };
+    document.body.appendChild(iframe);
+  });
+}
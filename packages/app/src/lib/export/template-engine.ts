@@ -0,0 +1,440 @@
+/**
+ * Template engine — a small Handlebars-style renderer for annotation exports.
+ *
+ * Supported syntax:
+ * - `{{path.to.value}}` / `{{{value}}}` — output (no HTML escaping; exports are Markdown)
+ * - `{{helper arg "literal" (sub expr)}}` — helper calls, see `HELPERS`
+ * - `{{#if expr}}…{{else}}…{{/if}}`, `{{#unless expr}}…{{/unless}}`
+ * - `{{#each list}}…{{else}}…{{/each}}` with `this`, `@index`, `@number`, `@first`, `@last`
+ * - `{{#with expr}}…{{/with}}`, `{{! comment }}` and `{{!-- comment --}}`
+ *
+ * Paths resolve against the current block's context first and fall back to
+ * the enclosing contexts, so `{{book.title}}` works inside `{{#each}}`.
+ * `../` reaches the parent context explicitly. Block tags alone on a line
+ * take the whole line with them, so templates can be laid out readably.
+ */
+
+/** Raised for malformed templates; `line` is 1-based */
+export class TemplateSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+  ) {
+    super(`${message} (line ${line})`);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+// --- Expressions ---
+
+type Expr =
+  | { type: "path"; parts: string[]; depth: number; data: boolean }
+  | { type: "literal"; value: unknown }
+  | { type: "call"; name: string; args: Expr[] };
+
+const ARG_TOKEN = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(\()|(\))|([^\s()]+))/y;
+
+function parsePath(raw: string, line: number): Expr {
+  if (raw === "true" || raw === "false") return { type: "literal", value: raw === "true" };
+  if (raw === "null" || raw === "undefined") return { type: "literal", value: null };
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return { type: "literal", value: Number(raw) };
+
+  let rest = raw;
+  let depth = 0;
+  while (rest.startsWith("../")) {
+    depth++;
+    rest = rest.slice(3);
+  }
+  const data = rest.startsWith("@");
+  if (data) rest = rest.slice(1);
+  if (rest === "this" || rest === ".") return { type: "path", parts: [], depth, data: false };
+  if (rest.startsWith("this.")) rest = rest.slice(5);
+  if (!/^[\w$-]+(\.[\w$-]+)*$/.test(rest)) {
+    throw new TemplateSyntaxError(`Invalid expression "${raw}"`, line);
+  }
+  return { type: "path", parts: rest.split("."), depth, data };
+}
+
+/** Parse the inside of a tag (after any `#`, `/` sigil) into an expression */
+function parseExpression(source: string, line: number): Expr {
+  const tokens: Array<{ kind: "string" | "open" | "close" | "word"; value: string }> = [];
+  ARG_TOKEN.lastIndex = 0;
+  const text = source.trim();
+  while (ARG_TOKEN.lastIndex < text.length) {
+    const match = ARG_TOKEN.exec(text);
+    if (!match) throw new TemplateSyntaxError(`Cannot parse "${text}"`, line);
+    if (match[1] !== undefined) tokens.push({ kind: "string", value: match[1] });
+    else if (match[2]) tokens.push({ kind: "open", value: "(" });
+    else if (match[3]) tokens.push({ kind: "close", value: ")" });
+    else if (match[4]) tokens.push({ kind: "word", value: match[4] });
+  }
+  if (tokens.length === 0) throw new TemplateSyntaxError("Empty expression", line);
+
+  let pos = 0;
+  const parseArg = (): Expr => {
+    const token = tokens[pos++];
+    if (!token) throw new TemplateSyntaxError(`Unexpected end of "${text}"`, line);
+    if (token.kind === "string") {
+      return { type: "literal", value: token.value.slice(1, -1).replace(/\\(.)/g, "$1") };
+    }
+    if (token.kind === "open") {
+      const call = parseCall(true);
+      if (tokens[pos++]?.kind !== "close") {
+        throw new TemplateSyntaxError(`Missing ")" in "${text}"`, line);
+      }
+      return call;
+    }
+    if (token.kind === "close") throw new TemplateSyntaxError(`Unexpected ")" in "${text}"`, line);
+    return parsePath(token.value, line);
+  };
+  const parseCall = (inParens: boolean): Expr => {
+    const head = tokens[pos];
+    const isHelper = head?.kind === "word" && Object.hasOwn(HELPERS, head.value);
+    if (!isHelper) {
+      const expr = parseArg();
+      if (inParens || pos === tokens.length) return expr;
+      throw new TemplateSyntaxError(`Unknown helper "${head?.value}"`, line);
+    }
+    pos++;
+    const args: Expr[] = [];
+    while (pos < tokens.length && tokens[pos].kind !== "close") args.push(parseArg());
+    return { type: "call", name: head.value, args };
+  };
+
+  const expr = parseCall(false);
+  if (pos < tokens.length) throw new TemplateSyntaxError(`Unexpected "${tokens[pos].value}"`, line);
+  return expr;
+}
+
+// --- Helpers ---
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** Format a timestamp or date string with YYYY, MM, DD, HH, mm, ss tokens */
+function formatDate(value: unknown, format = "YYYY-MM-DD"): string {
+  if (value === null || value === undefined || value === "") return "";
+  const date = new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) return "";
+  if (format === "iso") return date.toISOString();
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
+
+const toText = (value: unknown) => (value === null || value === undefined ? "" : String(value));
+
+const HELPERS: Record<string, (...args: unknown[]) => unknown> = {
+  date: (value, format) => formatDate(value, typeof format === "string" ? format : undefined),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  join: (list, separator) =>
+    Array.isArray(list)
+      ? list.join(typeof separator === "string" ? separator : ", ")
+      : toText(list),
+  /** Prefix every line with "> " (Markdown blockquote) */
+  quote: (value) =>
+    toText(value)
+      .split("\n")
+      .map((line) => (line ? `> ${line}` : ">"))
+      .join("\n"),
+  replace: (value, search, replacement) =>
+    toText(value).split(toText(search)).join(toText(replacement)),
+  default: (value, fallback) => (isTruthy(value) ? value : fallback),
+  length: (value) => (Array.isArray(value) || typeof value === "string" ? value.length : 0),
+  json: (value) => JSON.stringify(value),
+  eq: (a, b) => a === b,
+  ne: (a, b) => a !== b,
+  gt: (a, b) => Number(a) > Number(b),
+  lt: (a, b) => Number(a) < Number(b),
+  not: (value) => !isTruthy(value),
+  and: (...values) => values.every(isTruthy),
+  or: (...values) => values.some(isTruthy),
+};
+
+/** Names of the available helpers, for the template editor's reference list */
+export const TEMPLATE_HELPERS = Object.keys(HELPERS);
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+// --- Parsing ---
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "output"; expr: Expr }
+  | {
+      type: "block";
+      name: "if" | "unless" | "each" | "with";
+      expr: Expr;
+      body: Node[];
+      inverse: Node[];
+      line: number;
+    };
+
+type Token =
+  | { type: "text"; value: string }
+  | { type: "tag"; sigil: "" | "#" | "/" | "else" | "!"; content: string; line: number };
+
+const TAG = /\{\{(\{)?\s*([\s\S]*?)\s*(\})?\}\}/g;
+const COMMENT = /\{\{!--[\s\S]*?--\}\}/y;
+const BLOCK_NAMES = ["if", "unless", "each", "with"] as const;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let last = 0;
+  let line = 1;
+  const pushText = (text: string) => {
+    if (text) tokens.push({ type: "text", value: text });
+    line += text.split("\n").length - 1;
+  };
+
+  for (let i = source.indexOf("{{"); i >= 0; i = source.indexOf("{{", last)) {
+    pushText(source.slice(last, i));
+    COMMENT.lastIndex = i;
+    const comment = COMMENT.exec(source);
+    if (comment) {
+      tokens.push({ type: "tag", sigil: "!", content: "", line });
+      line += comment[0].split("\n").length - 1;
+      last = i + comment[0].length;
+      continue;
+    }
+    TAG.lastIndex = i;
+    const match = TAG.exec(source);
+    if (!match || match.index !== i) throw new TemplateSyntaxError("Unclosed {{", line);
+    const inner = match[2];
+    let token: Token;
+    if (inner.startsWith("!")) token = { type: "tag", sigil: "!", content: "", line };
+    else if (inner.startsWith("#"))
+      token = { type: "tag", sigil: "#", content: inner.slice(1), line };
+    else if (inner.startsWith("/"))
+      token = { type: "tag", sigil: "/", content: inner.slice(1), line };
+    else if (inner === "else") token = { type: "tag", sigil: "else", content: "", line };
+    else token = { type: "tag", sigil: "", content: inner, line };
+    tokens.push(token);
+    line += match[0].split("\n").length - 1;
+    last = i + match[0].length;
+  }
+  pushText(source.slice(last));
+  stripStandaloneLines(tokens);
+  return tokens;
+}
+
+/** Remove the indentation and line break around block tags that sit alone on their line */
+function stripStandaloneLines(tokens: Token[]): void {
+  // Decide on the original text first: one text token can both end one tag's line and start the next
+  const trims = new Map<number, { start: number; end: number }>();
+  const trimOf = (i: number) => {
+    const token = tokens[i] as { value: string };
+    let trim = trims.get(i);
+    if (!trim) {
+      trim = { start: 0, end: token.value.length };
+      trims.set(i, trim);
+    }
+    return trim;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "tag" || token.sigil === "") continue;
+    const before = tokens[i - 1];
+    const after = tokens[i + 1];
+    if ((before && before.type !== "text") || (after && after.type !== "text")) continue;
+
+    const beforeText = before?.type === "text" ? before.value : "";
+    const lineStart = beforeText.lastIndexOf("\n") + 1;
+    const startsLine = /^[ \t]*$/.test(beforeText.slice(lineStart)) && (lineStart > 0 || i <= 1);
+    const lineEnd = (after?.type === "text" ? after.value : "").match(/^[ \t]*(\r?\n|$)/);
+    if (!startsLine || !lineEnd) continue;
+    if (before) trimOf(i - 1).end = lineStart;
+    if (after) trimOf(i + 1).start = lineEnd[0].length;
+  }
+
+  for (const [i, { start, end }] of trims) {
+    const token = tokens[i] as { value: string };
+    token.value = token.value.slice(start, Math.max(start, end));
+  }
+}
+
+function parse(tokens: Token[]): Node[] {
+  let pos = 0;
+  const parseUntil = (closing?: { name: string; line: number }): {
+    body: Node[];
+    inverse: Node[];
+  } => {
+    const body: Node[] = [];
+    const inverse: Node[] = [];
+    let target = body;
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      if (token.type === "text") {
+        if (token.value) target.push({ type: "text", value: token.value });
+        continue;
+      }
+      switch (token.sigil) {
+        case "!":
+          break;
+        case "":
+          target.push({ type: "output", expr: parseExpression(token.content, token.line) });
+          break;
+        case "else":
+          if (!closing || target === inverse) {
+            throw new TemplateSyntaxError("Unexpected {{else}}", token.line);
+          }
+          target = inverse;
+          break;
+        case "/":
+          if (!closing || token.content.trim() !== closing.name) {
+            throw new TemplateSyntaxError(`Unexpected {{/${token.content.trim()}}}`, token.line);
+          }
+          return { body, inverse };
+        case "#": {
+          const [name, ...rest] = token.content.trim().split(/\s+/);
+          if (!BLOCK_NAMES.includes(name as (typeof BLOCK_NAMES)[number])) {
+            throw new TemplateSyntaxError(`Unknown block "#${name}"`, token.line);
+          }
+          const expr = parseExpression(rest.join(" "), token.line);
+          const block = parseUntil({ name, line: token.line });
+          target.push({
+            type: "block",
+            name: name as (typeof BLOCK_NAMES)[number],
+            expr,
+            ...block,
+            line: token.line,
+          });
+          break;
+        }
+      }
+    }
+    if (closing) throw new TemplateSyntaxError(`Unclosed {{#${closing.name}}}`, closing.line);
+    return { body, inverse };
+  };
+  return parseUntil().body;
+}
+
+// --- Rendering ---
+
+interface Frame {
+  context: unknown;
+  data: Record<string, unknown>;
+}
+
+function lookup(value: unknown, parts: string[]): unknown {
+  let current = value;
+  for (const part of parts) {
+    if (current === null || current === undefined) return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function evaluate(expr: Expr, frames: Frame[]): unknown {
+  if (expr.type === "literal") return expr.value;
+  if (expr.type === "call") {
+    return HELPERS[expr.name](...expr.args.map((arg) => evaluate(arg, frames)));
+  }
+  const start = frames.length - 1 - expr.depth;
+  if (start < 0) return undefined;
+  if (expr.data) return lookup(frames[start].data, expr.parts);
+  if (expr.parts.length === 0) return frames[start].context;
+  // Look up the first segment through enclosing contexts
+  for (let i = start; i >= 0; i--) {
+    const context = frames[i].context;
+    if (context !== null && typeof context === "object" && Object.hasOwn(context, expr.parts[0])) {
+      return lookup(context, expr.parts);
+    }
+  }
+  return undefined;
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(stringify).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function renderNodes(nodes: Node[], frames: Frame[]): string {
+  let out = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      out += node.value;
+      continue;
+    }
+    if (node.type === "output") {
+      out += stringify(evaluate(node.expr, frames));
+      continue;
+    }
+
+    const value = evaluate(node.expr, frames);
+    const data = frames[frames.length - 1].data;
+    switch (node.name) {
+      case "if":
+      case "unless": {
+        const pass = isTruthy(value) === (node.name === "if");
+        out += renderNodes(pass ? node.body : node.inverse, frames);
+        break;
+      }
+      case "with":
+        out += isTruthy(value)
+          ? renderNodes(node.body, [...frames, { context: value, data }])
+          : renderNodes(node.inverse, frames);
+        break;
+      case "each": {
+        const entries: Array<[string | number, unknown]> = Array.isArray(value)
+          ? value.map((item, i) => [i, item])
+          : value && typeof value === "object"
+            ? Object.entries(value)
+            : [];
+        if (entries.length === 0) {
+          out += renderNodes(node.inverse, frames);
+          break;
+        }
+        entries.forEach(([key, item], i) => {
+          out += renderNodes(node.body, [
+            ...frames,
+            {
+              context: item,
+              data: {
+                ...data,
+                index: i,
+                number: i + 1,
+                key,
+                first: i === 0,
+                last: i === entries.length - 1,
+              },
+            },
+          ]);
+        });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** A parsed template that can be rendered repeatedly */
+export interface CompiledTemplate {
+  render: (context: unknown) => string;
+}
+
+/** Parse a template; throws `TemplateSyntaxError` when it is malformed */
+export function compileTemplate(source: string): CompiledTemplate {
+  const nodes = parse(tokenize(source));
+  return {
+    render: (context) => renderNodes(nodes, [{ context, data: { root: context } }]),
+  };
+}
+
+/** Parse and render in one step */
+export function renderTemplate(source: string, context: unknown): string {
+  return compileTemplate(source).render(context);
+}
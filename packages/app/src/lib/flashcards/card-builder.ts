@@ -0,0 +1,144 @@
+/**
+ * Card builder — turn highlights and vocabulary-helper answers into flashcards.
+ *
+ * Highlights become cloze cards: the most significant word of the passage
+ * (longest non-stop word) is hidden as `{{c1::…}}`, the same syntax Anki uses,
+ * so cards export without conversion. Vocabulary answers become basic cards
+ * with the term on the front and the parsed explanation on the back.
+ */
+import { STOP_WORDS } from "@/lib/rag/stop-words";
+import { segmentWords } from "@/lib/rag/tokenizer";
+import type { Flashcard, Highlight } from "@/types";
+import { newCardSchedule } from "./scheduler";
+
+const CLOZE = /\{\{c\d+::(.*?)(?:::(.*?))?\}\}/g;
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/;
+
+const ALL_STOP_WORDS = new Set(Object.values(STOP_WORDS).flatMap((set) => [...set]));
+
+/** Cloze text with its deletions hidden (`[...]`, or the hint when one is given) */
+export function clozeFront(text: string): string {
+  return text.replace(CLOZE, (_, _answer, hint) => `[${hint || "..."}]`);
+}
+
+/** Cloze text with its deletions revealed */
+export function clozeBack(text: string): string {
+  return text.replace(CLOZE, (_, answer) => answer);
+}
+
+/** Hide the most significant word of `text` as a cloze deletion; null when there is none */
+export function makeCloze(text: string): string | null {
+  let best: { start: number; end: number; score: number } | null = null;
+  for (const token of segmentWords(text)) {
+    const word = token.term.toLowerCase();
+    if (ALL_STOP_WORDS.has(word) || /^\d+$/.test(word)) continue;
+    // CJK words are short but dense; weigh their characters like two Latin letters
+    const score = CJK_CHAR.test(word) ? word.length * 2 : word.length;
+    if (score < 4) continue;
+    if (!best || score > best.score) best = { start: token.start, end: token.end, score };
+  }
+  if (!best) return null;
+  return `${text.slice(0, best.start)}{{c1::${text.slice(best.start, best.end)}}}${text.slice(best.end)}`;
+}
+
+function baseCard(now: number): Omit<Flashcard, "kind" | "front" | "back" | "source"> {
+  return {
+    id: crypto.randomUUID(),
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    ...newCardSchedule(now),
+  };
+}
+
+/** Cloze card from a highlight; falls back to a basic card when no word can be hidden */
+export function cardFromHighlight(highlight: Highlight, now = Date.now()): Flashcard {
+  const text = highlight.text.trim();
+  const cloze = makeCloze(text);
+  return {
+    ...baseCard(now),
+    bookId: highlight.bookId,
+    highlightId: highlight.id,
+    cfi: highlight.cfi,
+    chapterTitle: highlight.chapterTitle,
+    kind: cloze ? "cloze" : "basic",
+    front: cloze ?? text,
+    back: highlight.note ?? "",
+    source: "highlight",
+    tags: ["highlight"],
+  };
+}
+
+/** Fields of a vocabulary-helper answer (see its output format in builtin-skills) */
+export interface VocabularyEntry {
+  term?: string;
+  partOfSpeech?: string;
+  meaning?: string;
+  contextMeaning?: string;
+  examples?: string;
+}
+
+/** Answer field labels, in the skill's Chinese output format and in English */
+const VOCABULARY_FIELDS: Array<[keyof VocabularyEntry, string[]]> = [
+  ["term", ["词汇", "term", "word"]],
+  ["partOfSpeech", ["词性", "part of speech"]],
+  ["meaning", ["基本含义", "meaning", "definition"]],
+  ["contextMeaning", ["文中含义", "meaning in context", "in context"]],
+  ["examples", ["例句", "examples", "example"]],
+];
+
+/**
+ * Parse the `- **字段**：value` list of a vocabulary-helper answer. Values may
+ * continue on the following lines (e.g. numbered example sentences).
+ */
+export function parseVocabularyAnswer(markdown: string): VocabularyEntry {
+  const entry: VocabularyEntry = {};
+  let current: keyof VocabularyEntry | null = null;
+  for (const line of markdown.split("\n")) {
+    const field = line.match(/^\s*[-*]?\s*\*\*(.+?)\*\*\s*(?:[（(][^）)]*[）)])?\s*[:：]\s*(.*)$/);
+    if (field) {
+      const label = field[1].trim().toLowerCase();
+      current = VOCABULARY_FIELDS.find(([, labels]) => labels.includes(label))?.[0] ?? null;
+      if (current) entry[current] = field[2].trim();
+      continue;
+    }
+    if (current && line.trim()) {
+      entry[current] = [entry[current], line.trim()].filter(Boolean).join("\n");
+    }
+  }
+  return entry;
+}
+
+export interface VocabularyCardInput {
+  /** Term the skill was asked about; the answer's own term wins when present */
+  term: string;
+  /** Sentence the term appeared in */
+  context?: string;
+  /** Markdown answer of the vocabulary-helper skill */
+  answer: string;
+  bookId?: string;
+  cfi?: string;
+}
+
+/** Basic card from a vocabulary-helper answer; unparseable answers go on the back as-is */
+export function cardFromVocabulary(input: VocabularyCardInput, now = Date.now()): Flashcard {
+  const entry = parseVocabularyAnswer(input.answer);
+  const term = (entry.term || input.term).replace(/^\[|\]$/g, "").trim();
+  const front = input.context ? `${term}\n\n${input.context.trim()}` : term;
+  const parsed = [
+    entry.partOfSpeech && `(${entry.partOfSpeech})`,
+    entry.meaning,
+    entry.contextMeaning,
+    entry.examples,
+  ].filter(Boolean);
+  return {
+    ...baseCard(now),
+    bookId: input.bookId,
+    cfi: input.cfi,
+    kind: "basic",
+    front,
+    back: parsed.length > 0 ? parsed.join("\n\n") : input.answer.trim(),
+    source: "vocabulary",
+    tags: ["vocabulary"],
+  };
+}
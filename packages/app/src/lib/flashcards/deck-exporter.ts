@@ -0,0 +1,298 @@
+/**
+ * Deck exporter — export flashcards as an Anki package (.apkg) or plain CSV.
+ *
+ * An .apkg is a zip holding `collection.anki2` (an Anki SQLite collection,
+ * schema version 11) and a `media` manifest. The collection is built in a
+ * temporary database through the SQL plugin, read back and zipped. Cards keep
+ * their schedule: review cards export with their interval, due date and ease;
+ * everything else exports as new. Each note carries a Source field with the
+ * book, chapter and CFI the card came from.
+ */
+import type { Flashcard } from "@/types";
+import { clozeBack } from "./card-builder";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Book id → title, for the Source field and CSV column */
+export type BookTitles = Map<string, string>;
+
+// --- CSV ---
+
+const CSV_COLUMNS = [
+  "front",
+  "back",
+  "kind",
+  "book",
+  "chapter",
+  "cfi",
+  "tags",
+  "state",
+  "due",
+  "interval",
+] as const;
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** CSV with a header row; cloze cards keep their `{{c1::…}}` markup */
+export function exportFlashcardsCsv(cards: Flashcard[], bookTitles: BookTitles): string {
+  const rows = cards.map((card) => {
+    const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+      front: card.front,
+      back: card.back,
+      kind: card.kind,
+      book: (card.bookId && bookTitles.get(card.bookId)) || "",
+      chapter: card.chapterTitle ?? "",
+      cfi: card.cfi ?? "",
+      tags: card.tags.join(" "),
+      state: card.state,
+      due: new Date(card.due).toISOString(),
+      interval: String(card.interval),
+    };
+    return CSV_COLUMNS.map((column) => csvCell(values[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+// --- Anki ---
+
+const FIELD_SEPARATOR = "\x1f";
+const BASIC_MODEL_ID = 1700000000001;
+const CLOZE_MODEL_ID = 1700000000002;
+const ANKI_CSS =
+  ".card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.cloze { font-weight: bold; color: blue; }\n.source { font-size: 12px; color: #888; }";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "<br>");
+}
+
+const ankiField = (name: string, ord: number) => ({
+  name,
+  ord,
+  sticky: false,
+  rtl: false,
+  font: "Arial",
+  size: 20,
+  media: [],
+});
+
+const ankiTemplate = (name: string, qfmt: string, afmt: string) => ({
+  name,
+  ord: 0,
+  qfmt,
+  afmt,
+  did: null,
+  bqfmt: "",
+  bafmt: "",
+});
+
+function ankiModels(deckId: number, now: number) {
+  const common = {
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    css: ANKI_CSS,
+    latexPre:
+      "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    tags: [],
+    vers: [],
+  };
+  const source = '<div class="source">{{Source}}</div>';
+  return {
+    [BASIC_MODEL_ID]: {
+      ...common,
+      id: BASIC_MODEL_ID,
+      name: "ReadAny Basic",
+      type: 0,
+      flds: [ankiField("Front", 0), ankiField("Back", 1), ankiField("Source", 2)],
+      tmpls: [
+        ankiTemplate("Card 1", "{{Front}}", `{{FrontSide}}<hr id="answer">{{Back}}${source}`),
+      ],
+      req: [[0, "all", [0]]],
+    },
+    [CLOZE_MODEL_ID]: {
+      ...common,
+      id: CLOZE_MODEL_ID,
+      name: "ReadAny Cloze",
+      type: 1,
+      flds: [ankiField("Text", 0), ankiField("Back Extra", 1), ankiField("Source", 2)],
+      tmpls: [ankiTemplate("Cloze", "{{cloze:Text}}", `{{cloze:Text}}<br>{{Back Extra}}${source}`)],
+    },
+  };
+}
+
+function ankiDeck(id: number, name: string, now: number) {
+  return {
+    id,
+    name,
+    desc: "",
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const ANKI_DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: {
+      bury: true,
+      delays: [1, 10],
+      initialFactor: 2500,
+      ints: [1, 4, 7],
+      order: 1,
+      perDay: 20,
+    },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 },
+  },
+};
+
+const ANKI_SCHEMA = [
+  "CREATE TABLE IF NOT EXISTS col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)",
+  "CREATE TABLE IF NOT EXISTS notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)",
+  "CREATE TABLE IF NOT EXISTS cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)",
+  "CREATE TABLE IF NOT EXISTS revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)",
+  "CREATE TABLE IF NOT EXISTS graves (usn integer not null, oid integer not null, type integer not null)",
+  "CREATE INDEX IF NOT EXISTS ix_notes_usn ON notes (usn)",
+  "CREATE INDEX IF NOT EXISTS ix_cards_usn ON cards (usn)",
+  "CREATE INDEX IF NOT EXISTS ix_revlog_usn ON revlog (usn)",
+  "CREATE INDEX IF NOT EXISTS ix_cards_nid ON cards (nid)",
+  "CREATE INDEX IF NOT EXISTS ix_cards_sched ON cards (did, queue, due)",
+  "CREATE INDEX IF NOT EXISTS ix_revlog_cid ON revlog (cid)",
+  "CREATE INDEX IF NOT EXISTS ix_notes_csum ON notes (csum)",
+];
+
+/** Anki's duplicate-check checksum: first 8 hex digits of the SHA-1 of the plain sort field */
+async function fieldChecksum(field: string): Promise<number> {
+  const plain = field.replace(/<[^>]*>/g, "");
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(plain));
+  return Number.parseInt(
+    [...new Uint8Array(digest).slice(0, 4)].map((b) => b.toString(16).padStart(2, "0")).join(""),
+    16,
+  );
+}
+
+/** Stable note guid from the card id, so re-importing updates notes instead of duplicating */
+function noteGuid(cardId: string): string {
+  return cardId.replace(/-/g, "").slice(0, 20);
+}
+
+function sourceField(card: Flashcard, bookTitles: BookTitles): string {
+  const book = card.bookId ? bookTitles.get(card.bookId) : undefined;
+  const label = [book, card.chapterTitle].filter(Boolean).join(" · ");
+  if (!card.cfi) return escapeHtml(label);
+  return `${escapeHtml(label)}<br><small>${escapeHtml(card.cfi)}</small>`;
+}
+
+/** Build an .apkg with all cards in one deck named `deckName` */
+export async function exportFlashcardsApkg(
+  cards: Flashcard[],
+  deckName: string,
+  bookTitles: BookTitles,
+): Promise<Uint8Array> {
+  const Database = (await import("@tauri-apps/plugin-sql")).default;
+  const { readFile, remove } = await import("@tauri-apps/plugin-fs");
+  const { appCacheDir, join } = await import("@tauri-apps/api/path");
+
+  const now = Date.now();
+  const deckId = now;
+  // Anki counts review due dates in days since the collection was created
+  const created = new Date(now);
+  created.setHours(4, 0, 0, 0);
+  const crt = Math.floor(created.getTime() / 1000);
+
+  const path = await join(await appCacheDir(), `anki-export-${now}.anki2`);
+  const db = await Database.load(`sqlite:${path}`);
+  try {
+    for (const statement of ANKI_SCHEMA) await db.execute(statement);
+    await db.execute("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      crt,
+      now,
+      now,
+      JSON.stringify({ nextPos: cards.length + 1, curDeck: deckId, activeDecks: [deckId] }),
+      JSON.stringify(ankiModels(deckId, now)),
+      JSON.stringify({ 1: ankiDeck(1, "Default", now), [deckId]: ankiDeck(deckId, deckName, now) }),
+      JSON.stringify(ANKI_DECK_CONFIG),
+    ]);
+
+    for (const [i, card] of cards.entries()) {
+      // Anki ids are millisecond timestamps; offset them to keep them unique
+      const noteId = now + i;
+      const isCloze = card.kind === "cloze";
+      const fields = [escapeHtml(card.front), escapeHtml(card.back), sourceField(card, bookTitles)];
+      const sortField = isCloze ? clozeBack(card.front) : card.front;
+      const tags = card.tags.map((t) => t.replace(/\s+/g, "_")).join(" ");
+      await db.execute("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+        noteId,
+        noteGuid(card.id),
+        isCloze ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+        Math.floor(card.updatedAt / 1000),
+        tags ? ` ${tags} ` : "",
+        fields.join(FIELD_SEPARATOR),
+        sortField,
+        await fieldChecksum(sortField),
+      ]);
+
+      const isReview = card.state === "review";
+      const due = isReview ? Math.max(0, Math.round((card.due - crt * 1000) / DAY)) : i + 1;
+      await db.execute(
+        "INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, '')",
+        [
+          noteId,
+          noteId,
+          deckId,
+          Math.floor(card.updatedAt / 1000),
+          isReview ? 2 : 0,
+          isReview ? 2 : 0,
+          due,
+          isReview ? Math.round(card.interval) : 0,
+          isReview ? Math.round(card.ease * 1000) : 0,
+          card.reps,
+          card.lapses,
+        ],
+      );
+    }
+  } finally {
+    await db.close();
+  }
+
+  const collection = await readFile(path);
+  await remove(path).catch((err) =>
+    console.warn("[DeckExporter] Failed to remove temp file:", err),
+  );
+
+  const { configure, ZipWriter, Uint8ArrayWriter, Uint8ArrayReader, TextReader } = await import(
+    "@zip.js/zip.js"
+  );
+  configure({ useWebWorkers: false });
+  const writer = new ZipWriter(new Uint8ArrayWriter());
+  await writer.add("collection.anki2", new Uint8ArrayReader(collection));
+  await writer.add("media", new TextReader("{}"));
+  return writer.close();
+}
@@ -0,0 +1,51 @@
+/**
+ * Flashcard service — create cards from highlights and vocabulary answers,
+ * and record reviews (schedule update plus review log entry).
+ */
+import {
+  getFlashcardHighlightIds,
+  insertFlashcard,
+  insertFlashcardReview,
+  updateFlashcard,
+} from "@/lib/db/database";
+import type { Flashcard, Highlight, ReviewRating, SchedulerAlgorithm } from "@/types";
+import { type VocabularyCardInput, cardFromHighlight, cardFromVocabulary } from "./card-builder";
+import { scheduleCard } from "./scheduler";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Add a card for a highlight; returns null when the highlight already has one */
+export async function addHighlightCard(highlight: Highlight): Promise<Flashcard | null> {
+  if ((await getFlashcardHighlightIds()).has(highlight.id)) return null;
+  const card = cardFromHighlight(highlight);
+  await insertFlashcard(card);
+  return card;
+}
+
+/** Add a card for a vocabulary-helper answer */
+export async function addVocabularyCard(input: VocabularyCardInput): Promise<Flashcard> {
+  const card = cardFromVocabulary(input);
+  await insertFlashcard(card);
+  return card;
+}
+
+/** Grade a card: reschedule it, log the review and return the updated card */
+export async function reviewFlashcard(
+  card: Flashcard,
+  rating: ReviewRating,
+  algorithm: SchedulerAlgorithm,
+  now = Date.now(),
+): Promise<Flashcard> {
+  const schedule = scheduleCard(card, rating, algorithm, now);
+  await insertFlashcardReview({
+    id: crypto.randomUUID(),
+    cardId: card.id,
+    rating,
+    state: card.state,
+    interval: schedule.interval,
+    elapsedDays: card.lastReviewedAt ? (now - card.lastReviewedAt) / DAY : 0,
+    reviewedAt: now,
+  });
+  await updateFlashcard(card.id, schedule);
+  return { ...card, ...schedule, updatedAt: now };
+}
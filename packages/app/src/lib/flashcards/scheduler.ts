@@ -0,0 +1,235 @@
+/**
+ * Flashcard scheduler — SM-2 and FSRS (v4.5) spaced-repetition scheduling.
+ *
+ * Both algorithms work on the same `CardSchedule`, so a deck can switch
+ * between them: SM-2 reads `ease`, FSRS reads `stability` and `difficulty`,
+ * and each seeds its own fields from the other's when they were never set.
+ * New and lapsed cards go through short learning steps (minutes) before they
+ * graduate to day intervals.
+ */
+import type { CardSchedule, ReviewRating, SchedulerAlgorithm } from "@/types";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const MAX_INTERVAL_DAYS = 36500;
+
+/** Learning step delays (ms) for Again, Hard and Good before a card graduates */
+const LEARNING_STEPS: Record<1 | 2 | 3, number> = { 1: MINUTE, 2: 5 * MINUTE, 3: 10 * MINUTE };
+const RELEARNING_STEP = 10 * MINUTE;
+
+// --- SM-2 ---
+
+const SM2_MIN_EASE = 1.3;
+const SM2_GRADUATING_INTERVAL = 1;
+const SM2_EASY_INTERVAL = 4;
+const SM2_HARD_FACTOR = 1.2;
+const SM2_EASY_BONUS = 1.3;
+const SM2_LAPSE_FACTOR = 0.5;
+
+function scheduleSm2(card: CardSchedule, rating: ReviewRating, now: number): CardSchedule {
+  const next: CardSchedule = { ...card, reps: card.reps + 1, lastReviewedAt: now };
+  const ease = card.ease > 0 ? card.ease : 2.5;
+
+  if (card.state === "new" || card.state === "learning") {
+    if (rating === 4) {
+      return graduate(next, SM2_EASY_INTERVAL, now, { ease: ease + 0.15 });
+    }
+    if (rating === 3 && card.state === "learning") {
+      return graduate(next, SM2_GRADUATING_INTERVAL, now, { ease });
+    }
+    return { ...next, ease, state: "learning", due: now + LEARNING_STEPS[rating] };
+  }
+
+  if (card.state === "relearning") {
+    if (rating === 1) return { ...next, due: now + RELEARNING_STEP };
+    return graduate(next, card.interval, now);
+  }
+
+  // Review
+  if (rating === 1) {
+    return {
+      ...next,
+      state: "relearning",
+      lapses: card.lapses + 1,
+      ease: Math.max(SM2_MIN_EASE, ease - 0.2),
+      interval: Math.max(1, card.interval * SM2_LAPSE_FACTOR),
+      due: now + RELEARNING_STEP,
+    };
+  }
+  const interval = Math.max(card.interval, 1);
+  if (rating === 2) {
+    return graduate(next, interval * SM2_HARD_FACTOR, now, {
+      ease: Math.max(SM2_MIN_EASE, ease - 0.15),
+    });
+  }
+  if (rating === 3) return graduate(next, Math.max(interval + 1, interval * ease), now);
+  return graduate(next, Math.max(interval + 1, interval * ease * SM2_EASY_BONUS), now, {
+    ease: ease + 0.15,
+  });
+}
+
+// --- FSRS v4.5 ---
+
+/** Default FSRS v4.5 parameters */
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+  0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+/** Probability of recall the intervals are chosen for */
+const FSRS_REQUEST_RETENTION = 0.9;
+
+const clampDifficulty = (d: number) => Math.min(10, Math.max(1, d));
+
+const initialStability = (rating: ReviewRating) => FSRS_WEIGHTS[rating - 1];
+const initialDifficulty = (rating: ReviewRating) =>
+  clampDifficulty(FSRS_WEIGHTS[4] - (rating - 3) * FSRS_WEIGHTS[5]);
+
+/** Probability of recalling a card `elapsedDays` after its last review */
+function retrievability(elapsedDays: number, stability: number): number {
+  return (1 + (FSRS_FACTOR * elapsedDays) / stability) ** FSRS_DECAY;
+}
+
+function fsrsInterval(stability: number): number {
+  return (stability / FSRS_FACTOR) * (FSRS_REQUEST_RETENTION ** (1 / FSRS_DECAY) - 1);
+}
+
+function nextDifficulty(difficulty: number, rating: ReviewRating): number {
+  const w = FSRS_WEIGHTS;
+  const updated = difficulty - w[6] * (rating - 3);
+  // Mean reversion towards the difficulty of an "Easy" first answer
+  return clampDifficulty(w[7] * initialDifficulty(4) + (1 - w[7]) * updated);
+}
+
+function recallStability(d: number, s: number, r: number, rating: ReviewRating): number {
+  const w = FSRS_WEIGHTS;
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  return (
+    s *
+    (1 +
+      Math.exp(w[8]) *
+        (11 - d) *
+        s ** -w[9] *
+        (Math.exp(w[10] * (1 - r)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+function forgetStability(d: number, s: number, r: number): number {
+  const w = FSRS_WEIGHTS;
+  return Math.min(s, w[11] * d ** -w[12] * ((s + 1) ** w[13] - 1) * Math.exp(w[14] * (1 - r)));
+}
+
+function scheduleFsrs(card: CardSchedule, rating: ReviewRating, now: number): CardSchedule {
+  const next: CardSchedule = { ...card, reps: card.reps + 1, lastReviewedAt: now };
+
+  if (card.state === "new" || card.stability <= 0) {
+    const seeded =
+      card.state === "new"
+        ? { stability: initialStability(rating), difficulty: initialDifficulty(rating) }
+        : // Card scheduled by SM-2 so far: its interval is the best stability estimate
+          {
+            stability: Math.max(card.interval, initialStability(rating)),
+            difficulty: clampDifficulty(11 - (card.ease - SM2_MIN_EASE) * 4),
+          };
+    Object.assign(next, seeded);
+    if (card.state === "new") {
+      if (rating === 4) return graduate(next, fsrsInterval(next.stability), now);
+      return { ...next, state: "learning", due: now + LEARNING_STEPS[rating] };
+    }
+  }
+
+  if (card.state === "learning" || card.state === "relearning") {
+    if (rating === 1) {
+      const step = card.state === "learning" ? LEARNING_STEPS[1] : RELEARNING_STEP;
+      return { ...next, due: now + step };
+    }
+    if (rating === 2 && card.state === "learning") {
+      return { ...next, due: now + LEARNING_STEPS[2] };
+    }
+    return graduate(next, fsrsInterval(next.stability), now, {
+      difficulty: nextDifficulty(next.difficulty, rating),
+    });
+  }
+
+  // Review
+  const elapsedDays = Math.max(0, (now - (card.lastReviewedAt ?? now)) / DAY);
+  const r = retrievability(elapsedDays, next.stability);
+  const difficulty = nextDifficulty(next.difficulty, rating);
+  if (rating === 1) {
+    const stability = forgetStability(next.difficulty, next.stability, r);
+    return {
+      ...next,
+      state: "relearning",
+      lapses: card.lapses + 1,
+      stability,
+      difficulty,
+      interval: Math.max(1, fsrsInterval(stability)),
+      due: now + RELEARNING_STEP,
+    };
+  }
+  const stability = recallStability(next.difficulty, next.stability, r, rating);
+  return graduate(next, fsrsInterval(stability), now, { stability, difficulty });
+}
+
+// --- Shared ---
+
+/** Move a card to review with an interval in days (at least one day) */
+function graduate(
+  card: CardSchedule,
+  intervalDays: number,
+  now: number,
+  updates: Partial<CardSchedule> = {},
+): CardSchedule {
+  const interval = Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(intervalDays)));
+  return { ...card, ...updates, state: "review", interval, due: now + interval * DAY };
+}
+
+/** Schedule of a card that was never reviewed; it is due immediately */
+export function newCardSchedule(now = Date.now()): CardSchedule {
+  return {
+    state: "new",
+    due: now,
+    interval: 0,
+    ease: 2.5,
+    stability: 0,
+    difficulty: 0,
+    reps: 0,
+    lapses: 0,
+  };
+}
+
+/** Next schedule of a card after it was graded `rating` at `now` */
+export function scheduleCard(
+  card: CardSchedule,
+  rating: ReviewRating,
+  algorithm: SchedulerAlgorithm,
+  now = Date.now(),
+): CardSchedule {
+  return algorithm === "fsrs" ? scheduleFsrs(card, rating, now) : scheduleSm2(card, rating, now);
+}
+
+/** Delay (ms) until the card would be due again for each rating, for button labels */
+export function previewIntervals(
+  card: CardSchedule,
+  algorithm: SchedulerAlgorithm,
+  now = Date.now(),
+): Record<ReviewRating, number> {
+  const ratings: ReviewRating[] = [1, 2, 3, 4];
+  return Object.fromEntries(
+    ratings.map((rating) => [rating, scheduleCard(card, rating, algorithm, now).due - now]),
+  ) as Record<ReviewRating, number>;
+}
+
+/** Short label for a delay, e.g. "10m", "3d", "2.5mo" */
+export function formatInterval(ms: number): string {
+  if (ms < 60 * MINUTE) return `${Math.max(1, Math.round(ms / MINUTE))}m`;
+  if (ms < DAY) return `${Math.round(ms / (60 * MINUTE))}h`;
+  const days = ms / DAY;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${Math.round((days / 30) * 10) / 10}mo`;
+  return `${Math.round((days / 365) * 10) / 10}y`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Annotation Importer — bring highlights from other readers into the library.
+ *
+ * Entries from `clipping-parsers` are matched to a library book, anchored to a
+ * range CFI in the book text and stored through the regular database layer.
+ * Anything that cannot be placed is returned as unresolved (with the reason)
+ * so the user can review it instead of losing it.
+ */
+import { getBooks, getHighlights, insertHighlight, insertNote } from "@/lib/db/database";
+import { extractBookChapters } from "@/lib/rag/book-extractor";
+import type { Book } from "@/types";
+import { matchBook } from "./book-matcher";
+import type { ImportedAnnotation } from "./clipping-parsers";
+import { TextAnchorIndex, normalizeForMatch } from "./text-anchor";
+
+export type UnresolvedReason = "no-book" | "no-anchor";
+
+export interface UnresolvedAnnotation {
+  entry: ImportedAnnotation;
+  reason: UnresolvedReason;
+  /** Matched book for "no-anchor" entries */
+  bookId?: string;
+}
+
+export interface ImportReport {
+  /** Highlights created with a location */
+  imported: number;
+  /** Standalone notes created (entries without highlighted text) */
+  notes: number;
+  /** Entries skipped because the book already has the same highlight */
+  duplicates: number;
+  unresolved: UnresolvedAnnotation[];
+}
+
+export interface ImportOptions {
+  /** Entry id → book id, for entries the user assigned by hand */
+  bookOverrides?: Record<string, string>;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const dedupKey = (text: string) => normalizeForMatch(text).text;
+
+export class AnnotationImporter {
+  async import(entries: ImportedAnnotation[], options: ImportOptions = {}): Promise<ImportReport> {
+    const report: ImportReport = { imported: 0, notes: 0, duplicates: 0, unresolved: [] };
+    const books = await getBooks();
+    const booksById = new Map(books.map((b) => [b.id, b]));
+
+    // Group by book so each book is parsed at most once
+    const groups = new Map<string, ImportedAnnotation[]>();
+    for (const entry of entries) {
+      const override = options.bookOverrides?.[entry.id];
+      const book = override ? booksById.get(override) : matchBook(entry, books);
+      if (!book) {
+        report.unresolved.push({ entry, reason: "no-book" });
+        continue;
+      }
+      const group = groups.get(book.id) ?? [];
+      group.push(entry);
+      groups.set(book.id, group);
+    }
+
+    let done = report.unresolved.length;
+    options.onProgress?.(done, entries.length);
+
+    for (const [bookId, group] of groups) {
+      const book = booksById.get(bookId) as Book;
+      await this.importForBook(book, group, report);
+      done += group.length;
+      options.onProgress?.(done, entries.length);
+    }
+
+    return report;
+  }
+
+  /** Store an entry without a location, as a note on the book */
+  async keepAsNote(entry: ImportedAnnotation, bookId: string): Promise<void> {
+    const quote = entry.text ? `> ${entry.text.replace(/\n/g, "\n> ")}` : "";
+    const now = Date.now();
+    await insertNote({
+      id: crypto.randomUUID(),
+      bookId,
+      title: entry.chapter ?? entry.location ?? "",
+      content: [quote, entry.note ?? ""].filter(Boolean).join("\n\n"),
+      chapterTitle: entry.chapter,
+      tags: [entry.source],
+      createdAt: entry.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  private async importForBook(book: Book, entries: ImportedAnnotation[], report: ImportReport) {
+    const existing = await getHighlights(book.id);
+    const seen = new Set(existing.map((h) => dedupKey(h.text)));
+
+    const pending: ImportedAnnotation[] = [];
+    for (const entry of entries) {
+      if (!entry.text) {
+        await this.keepAsNote(entry, book.id);
+        report.notes++;
+      } else if (seen.has(dedupKey(entry.text))) {
+        report.duplicates++;
+      } else {
+        pending.push(entry);
+      }
+    }
+    if (pending.length === 0) return;
+
+    let index: TextAnchorIndex | null = null;
+    try {
+      index = new TextAnchorIndex(await extractBookChapters(book.filePath));
+    } catch (err) {
+      console.warn(`[AnnotationImporter] Could not read "${book.meta.title}":`, err);
+    }
+
+    for (const entry of pending) {
+      const key = dedupKey(entry.text);
+      if (seen.has(key)) {
+        report.duplicates++;
+        continue;
+      }
+
+      const anchor = index?.find(entry.text, entry.chapter);
+      if (!anchor) {
+        report.unresolved.push({ entry, reason: "no-anchor", bookId: book.id });
+        continue;
+      }
+
+      const now = Date.now();
+      await insertHighlight({
+        id: crypto.randomUUID(),
+        bookId: book.id,
+        cfi: anchor.cfi,
+        text: entry.text,
+        color: entry.color ?? "yellow",
+        note: entry.note,
+        chapterTitle: anchor.chapterTitle,
+        createdAt: entry.createdAt ?? now,
+        updatedAt: now,
+      });
+      seen.add(key);
+      report.imported++;
+    }
+  }
+}
+
+export const annotationImporter = new AnnotationImporter();
@@ -0,0 +1,77 @@
+/**
+ * Book matcher — find the library book an imported annotation belongs to.
+ * ISBN wins when both sides have one; otherwise titles are compared after
+ * normalization (case, subtitles, punctuation) and authors break ties.
+ */
+import type { Book } from "@/types";
+
+const normalizeIsbn = (isbn: string) => isbn.replace(/[^\dX]/gi, "").toUpperCase();
+
+/** Lowercase, drop "(…)" / "[…]" groups and subtitles, keep letters and digits only */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[([{（【][^)\]}）】]*[)\]}）】]/g, " ")
+    .split(/\s[:：\-–—]\s|[:：]/)[0]
+    .replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+const authorTokens = (author: string | undefined) =>
+  new Set(
+    (author ?? "")
+      .normalize("NFKC")
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((t) => t.length > 1),
+  );
+
+function authorOverlap(a: string | undefined, b: string | undefined): number {
+  const left = authorTokens(a);
+  const right = authorTokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  for (const token of left) if (right.has(token)) shared++;
+  return shared / Math.min(left.size, right.size);
+}
+
+/** Best matching book, or null when no title is close enough */
+export function matchBook(
+  entry: { bookTitle: string; bookAuthor?: string; isbn?: string },
+  books: Book[],
+): Book | null {
+  if (entry.isbn) {
+    const isbn = normalizeIsbn(entry.isbn);
+    const byIsbn = books.find((b) => b.meta.isbn && normalizeIsbn(b.meta.isbn) === isbn);
+    if (byIsbn) return byIsbn;
+  }
+
+  const title = normalizeTitle(entry.bookTitle);
+  if (!title) return null;
+
+  let best: Book | null = null;
+  let bestScore = 0;
+  for (const book of books) {
+    const candidate = normalizeTitle(book.meta.title);
+    if (!candidate) continue;
+
+    let score = 0;
+    if (candidate === title) score = 2;
+    else if (
+      Math.min(candidate.length, title.length) >= 4 &&
+      (candidate.includes(title) || title.includes(candidate))
+    ) {
+      score = 1;
+    }
+    if (score === 0) continue;
+
+    score += authorOverlap(entry.bookAuthor, book.meta.author);
+    if (score > bestScore) {
+      best = book;
+      bestScore = score;
+    }
+  }
+
+  // A partial title match needs the author to agree
+  return bestScore >= 1.5 || (bestScore >= 1 && !entry.bookAuthor) ? best : null;
+}
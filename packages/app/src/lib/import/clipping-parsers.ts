@@ -0,0 +1,306 @@
+/**
+ * Clipping parsers — turn third-party highlight exports into ImportedAnnotation entries.
+ * Supports: Kindle "My Clippings.txt", KOReader `.sdr/metadata.*.lua`,
+ * Readwise / Apple Books CSV exports (columns matched by header name).
+ */
+import { HIGHLIGHT_COLOR_HEX, type HighlightColor } from "@/types";
+import { type LuaValue, parseLuaTable } from "./lua-table";
+
+export type ImportSource = "kindle" | "koreader" | "csv";
+
+/** One highlight (or standalone note) read from an export file, not yet tied to a book */
+export interface ImportedAnnotation {
+  id: string;
+  source: ImportSource;
+  bookTitle: string;
+  bookAuthor?: string;
+  isbn?: string;
+  /** Highlighted passage; empty for a note without a highlight */
+  text: string;
+  note?: string;
+  chapter?: string;
+  /** Human-readable position from the source, e.g. "Location 170-172" or "page 12" */
+  location?: string;
+  color?: HighlightColor;
+  createdAt?: number;
+}
+
+const newEntry = (entry: Omit<ImportedAnnotation, "id">): ImportedAnnotation => ({
+  id: crypto.randomUUID(),
+  ...entry,
+});
+
+function parseDate(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  // KOReader writes "2023-01-31 10:00:00"; Date.parse wants a T in some engines
+  const time = Date.parse(value.trim().replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, "$1T$2"));
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function toHighlightColor(value: string | undefined): HighlightColor | undefined {
+  const color = value?.trim().toLowerCase();
+  return color && color in HIGHLIGHT_COLOR_HEX ? (color as HighlightColor) : undefined;
+}
+
+// --- Kindle ---
+
+const KINDLE_SEPARATOR = /^={10}\s*$/m;
+/** Entry kinds by keyword across common Kindle UI languages */
+const KINDLE_NOTE = /\b(note|notiz)\b|笔记|メモ/i;
+const KINDLE_BOOKMARK = /\b(bookmark|signet|lesezeichen|marcador)\b|书签|ブックマーク/i;
+const KINDLE_LOCATION = /(?:location|loc\.|position|posición|位置)\s*#?\s*(\d+)(?:\s*-\s*(\d+))?/i;
+const KINDLE_PAGE = /(?:page|seite|página|页|ページ)\s*#?\s*(\d+)/i;
+
+/** "Title (Author)" — the author is the last parenthesised group */
+function splitKindleTitle(line: string): { title: string; author?: string } {
+  const match = line.match(/^(.*)\(([^()]*)\)\s*$/);
+  if (!match) return { title: line.trim() };
+  return { title: match[1].trim(), author: match[2].trim() || undefined };
+}
+
+export function parseKindleClippings(text: string): ImportedAnnotation[] {
+  const entries: ImportedAnnotation[] = [];
+  // Notes refer to the highlight ending at the same location
+  const highlightsByLocation = new Map<string, ImportedAnnotation>();
+
+  for (const block of text.replace(/^\uFEFF/, "").split(KINDLE_SEPARATOR)) {
+    const lines = block
+      .split(/\r?\n/)
+      .map((l) => l.replace(/^\uFEFF/, ""))
+      .filter((l, i, all) => l.trim() || (i > 0 && i < all.length - 1));
+    while (lines.length > 0 && !lines[0].trim()) lines.shift();
+    if (lines.length < 2) continue;
+
+    const { title, author } = splitKindleTitle(lines[0]);
+    const meta = lines[1];
+    const body = lines.slice(2).join("\n").trim();
+    if (KINDLE_BOOKMARK.test(meta) || !body) continue;
+
+    const loc = meta.match(KINDLE_LOCATION);
+    const page = meta.match(KINDLE_PAGE);
+    const location = loc
+      ? `Location ${loc[1]}${loc[2] ? `-${loc[2]}` : ""}`
+      : page
+        ? `page ${page[1]}`
+        : undefined;
+    const addedOn = meta
+      .split("|")
+      .pop()
+      ?.replace(/^[^,\d]*?(?=\w+,|\d)/, "");
+    const createdAt = parseDate(addedOn);
+    const key = `${title}|${loc?.[2] ?? loc?.[1] ?? page?.[1] ?? ""}`;
+
+    if (KINDLE_NOTE.test(meta.split("|")[0])) {
+      const highlight = highlightsByLocation.get(key);
+      if (highlight && !highlight.note) {
+        highlight.note = body;
+      } else {
+        entries.push(
+          newEntry({
+            source: "kindle",
+            bookTitle: title,
+            bookAuthor: author,
+            text: "",
+            note: body,
+            location,
+            createdAt,
+          }),
+        );
+      }
+      continue;
+    }
+
+    const entry = newEntry({
+      source: "kindle",
+      bookTitle: title,
+      bookAuthor: author,
+      text: body,
+      location,
+      createdAt,
+    });
+    entries.push(entry);
+    highlightsByLocation.set(key, entry);
+  }
+
+  return entries;
+}
+
+// --- KOReader ---
+
+type LuaTable = { [key: string]: LuaValue };
+
+const asTable = (value: LuaValue | undefined): LuaTable | null =>
+  value && typeof value === "object" && !Array.isArray(value) ? value : null;
+const asList = (value: LuaValue | undefined): LuaValue[] =>
+  Array.isArray(value) ? value : (Object.values(asTable(value) ?? {}) as LuaValue[]);
+const asString = (value: LuaValue | undefined): string | undefined =>
+  typeof value === "string" ? value : typeof value === "number" ? String(value) : undefined;
+
+export function parseKOReaderMetadata(text: string): ImportedAnnotation[] {
+  const root = asTable(parseLuaTable(text));
+  if (!root) return [];
+
+  const props = asTable(root.doc_props) ?? {};
+  const docPath = asString(root.doc_path);
+  const bookTitle =
+    asString(props.title)?.trim() ||
+    docPath
+      ?.split(/[\\/]/)
+      .pop()
+      ?.replace(/\.[^.]+$/, "") ||
+    "";
+  const bookAuthor = asString(props.authors)?.replace(/\n/g, ", ").trim() || undefined;
+  const isbn = asString(props.identifiers)?.match(/(?:isbn)?:?\s*([\dXx-]{10,17})/i)?.[1];
+
+  const entries: ImportedAnnotation[] = [];
+  const push = (item: LuaTable, text: string | undefined, note: string | undefined) => {
+    if (!text?.trim() && !note?.trim()) return;
+    const page = asString(item.pageno) ?? asString(item.page);
+    entries.push(
+      newEntry({
+        source: "koreader",
+        bookTitle,
+        bookAuthor,
+        isbn,
+        text: text?.trim() ?? "",
+        note: note?.trim() || undefined,
+        chapter: asString(item.chapter),
+        location: page && /^\d+$/.test(page) ? `page ${page}` : undefined,
+        color: toHighlightColor(asString(item.color)),
+        createdAt: parseDate(asString(item.datetime)),
+      }),
+    );
+  };
+
+  if (root.annotations !== undefined) {
+    // KOReader 2024.07+: one list of annotations; bookmarks have no pos1
+    for (const value of asList(root.annotations)) {
+      const item = asTable(value);
+      if (!item || (item.pos0 !== undefined && item.pos1 === undefined && !item.text)) continue;
+      push(item, asString(item.text), asString(item.note));
+    }
+    return entries;
+  }
+
+  // Older layout: highlights per page, notes attached through bookmarks
+  const notesByText = new Map<string, string>();
+  for (const value of asList(root.bookmarks)) {
+    const item = asTable(value);
+    const highlighted = asString(item?.notes);
+    const note = asString(item?.text);
+    if (item && highlighted && note && !note.startsWith(highlighted.slice(0, 20))) {
+      notesByText.set(highlighted.trim(), note);
+    }
+  }
+  for (const page of asList(root.highlight)) {
+    for (const value of asList(page)) {
+      const item = asTable(value);
+      const highlighted = asString(item?.text);
+      if (item)
+        push(item, highlighted, highlighted ? notesByText.get(highlighted.trim()) : undefined);
+    }
+  }
+  return entries;
+}
+
+// --- CSV (Readwise, Apple Books) ---
+
+/** RFC 4180 rows; handles quoted fields with commas, quotes and newlines */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += c;
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/** Accepted header names per field, lowercase */
+const CSV_COLUMNS = {
+  text: ["highlight", "text", "quote", "selected text", "highlighted text"],
+  title: ["book title", "title", "book"],
+  author: ["book author", "author", "authors"],
+  note: ["note", "notes", "comment", "annotation"],
+  chapter: ["chapter", "section"],
+  location: ["location", "page"],
+  color: ["color", "colour", "style"],
+  date: ["highlighted at", "date", "created", "created at", "date added", "modified date"],
+  isbn: ["isbn", "isbn13", "isbn10"],
+} as const;
+
+export function parseAnnotationCsv(text: string): ImportedAnnotation[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const names = header.map((h) => h.trim().toLowerCase());
+  const column = (field: keyof typeof CSV_COLUMNS) => {
+    for (const alias of CSV_COLUMNS[field]) {
+      const index = names.indexOf(alias);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+  const columns = Object.fromEntries(
+    (Object.keys(CSV_COLUMNS) as Array<keyof typeof CSV_COLUMNS>).map((f) => [f, column(f)]),
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+  if (columns.text < 0 || columns.title < 0) {
+    throw new Error("CSV needs at least a highlight and a book title column");
+  }
+
+  const get = (row: string[], field: keyof typeof CSV_COLUMNS) =>
+    columns[field] >= 0 ? row[columns[field]]?.trim() || undefined : undefined;
+
+  return rows
+    .map((row) => {
+      const location = get(row, "location");
+      return newEntry({
+        source: "csv",
+        bookTitle: get(row, "title") ?? "",
+        bookAuthor: get(row, "author"),
+        isbn: get(row, "isbn"),
+        text: get(row, "text") ?? "",
+        note: get(row, "note"),
+        chapter: get(row, "chapter"),
+        location: location && /^\d+$/.test(location) ? `Location ${location}` : location,
+        color: toHighlightColor(get(row, "color")),
+        createdAt: parseDate(get(row, "date")),
+      });
+    })
+    .filter((e) => e.bookTitle && (e.text || e.note));
+}
+
+// --- Detection ---
+
+/** Parse an export file, choosing the parser from its name and content */
+export function parseAnnotationFile(fileName: string, text: string): ImportedAnnotation[] {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".lua")) return parseKOReaderMetadata(text);
+  if (name.endsWith(".csv")) return parseAnnotationCsv(text);
+  if (KINDLE_SEPARATOR.test(text)) return parseKindleClippings(text);
+  throw new Error(`Unrecognized annotation export: ${fileName}`);
+}
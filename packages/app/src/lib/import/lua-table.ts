@@ -0,0 +1,153 @@
+/**
+ * Minimal parser for the Lua table literals KOReader writes to `.sdr/metadata.*.lua`.
+ *
+ * Supports `return { ... }`, `[key] = value` / `key = value` / positional
+ * fields, strings (quoted with escapes, or `[[long]]`), numbers, booleans and
+ * nil, plus `--` comments. Tables whose keys are exactly 1..n become arrays.
+ */
+
+export type LuaValue = string | number | boolean | null | LuaValue[] | { [key: string]: LuaValue };
+
+class LuaParser {
+  private pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  parse(): LuaValue {
+    this.skip();
+    if (this.src.startsWith("return", this.pos)) {
+      this.pos += "return".length;
+    }
+    const value = this.value();
+    this.skip();
+    return value;
+  }
+
+  private error(message: string): never {
+    throw new Error(`Lua parse error at ${this.pos}: ${message}`);
+  }
+
+  /** Skip whitespace and comments */
+  private skip() {
+    for (;;) {
+      while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) this.pos++;
+      if (!this.src.startsWith("--", this.pos)) return;
+      this.pos += 2;
+      const long = this.src.slice(this.pos).match(/^\[(=*)\[/);
+      if (long) {
+        const close = `]${long[1]}]`;
+        const end = this.src.indexOf(close, this.pos);
+        this.pos = end < 0 ? this.src.length : end + close.length;
+      } else {
+        const end = this.src.indexOf("\n", this.pos);
+        this.pos = end < 0 ? this.src.length : end + 1;
+      }
+    }
+  }
+
+  private value(): LuaValue {
+    this.skip();
+    const c = this.src[this.pos];
+    if (c === "{") return this.table();
+    if (c === '"' || c === "'") return this.quoted();
+    if (c === "[" && /^\[=*\[/.test(this.src.slice(this.pos, this.pos + 64))) return this.long();
+    if (c === "-" || (c >= "0" && c <= "9") || c === ".") return this.number();
+    const word = this.src.slice(this.pos).match(/^[A-Za-z_]\w*/)?.[0];
+    if (word === "true" || word === "false" || word === "nil") {
+      this.pos += word.length;
+      return word === "nil" ? null : word === "true";
+    }
+    return this.error(`unexpected ${c ?? "end of input"}`);
+  }
+
+  private number(): number {
+    const match = this.src.slice(this.pos).match(/^-?(0x[0-9a-fA-F]+|\d*\.?\d+(?:[eE][+-]?\d+)?)/);
+    if (!match) this.error("invalid number");
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+
+  private quoted(): string {
+    const quote = this.src[this.pos++];
+    let out = "";
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos++];
+      if (c === quote) return out;
+      if (c !== "\\") {
+        out += c;
+        continue;
+      }
+      const e = this.src[this.pos++];
+      if (e === "n") out += "\n";
+      else if (e === "t") out += "\t";
+      else if (e === "r") out += "\r";
+      else if (e === "\n") out += "\n";
+      else if (/\d/.test(e)) {
+        // \ddd decimal byte escape
+        const digits = this.src.slice(this.pos - 1).match(/^\d{1,3}/)?.[0] ?? e;
+        this.pos += digits.length - 1;
+        out += String.fromCharCode(Number(digits));
+      } else out += e;
+    }
+    return this.error("unterminated string");
+  }
+
+  private long(): string {
+    const open = this.src.slice(this.pos).match(/^\[(=*)\[/);
+    if (!open) this.error("invalid long string");
+    const close = `]${open[1]}]`;
+    const start = this.pos + open[0].length;
+    const end = this.src.indexOf(close, start);
+    if (end < 0) this.error("unterminated long string");
+    this.pos = end + close.length;
+    // A newline right after the opening bracket is not part of the string
+    return this.src.slice(start, end).replace(/^\r?\n/, "");
+  }
+
+  private table(): LuaValue {
+    this.pos++; // {
+    const entries: Array<[string | number, LuaValue]> = [];
+    let nextIndex = 1;
+
+    for (;;) {
+      this.skip();
+      if (this.src[this.pos] === "}") {
+        this.pos++;
+        break;
+      }
+
+      let key: string | number;
+      const name = this.src.slice(this.pos).match(/^([A-Za-z_]\w*)\s*=(?!=)/);
+      if (this.src[this.pos] === "[" && !/^\[=*\[/.test(this.src.slice(this.pos, this.pos + 64))) {
+        this.pos++;
+        const k = this.value();
+        this.skip();
+        if (this.src[this.pos] !== "]") this.error("expected ]");
+        this.pos++;
+        this.skip();
+        if (this.src[this.pos] !== "=") this.error("expected =");
+        this.pos++;
+        key = typeof k === "number" ? k : String(k);
+      } else if (name) {
+        this.pos += name[0].length;
+        key = name[1];
+      } else {
+        key = nextIndex++;
+      }
+
+      entries.push([key, this.value()]);
+      this.skip();
+      const sep = this.src[this.pos];
+      if (sep === "," || sep === ";") this.pos++;
+      else if (sep !== "}") this.error("expected , or }");
+    }
+
+    const isArray = entries.every(([k], i) => k === i + 1);
+    if (isArray) return entries.map(([, v]) => v);
+    return Object.fromEntries(entries.map(([k, v]) => [String(k), v]));
+  }
+}
+
+export function parseLuaTable(source: string): LuaValue {
+  return new LuaParser(source).parse();
+}
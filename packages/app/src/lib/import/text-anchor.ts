@@ -0,0 +1,167 @@
+/**
+ * Text anchor — locate an imported highlight's text in a book's chapters and
+ * turn the match into a range CFI.
+ *
+ * Exports from other readers rarely match the EPUB text byte for byte (curly
+ * vs straight quotes, hyphenation, collapsed whitespace, small OCR-like
+ * differences), so both sides are normalized with an offset map back to the
+ * original content. An exact match on the normalized text is tried first; if
+ * that fails, short probes from the passage propose candidate windows that are
+ * scored by bigram similarity.
+ */
+import { type ChapterData, cfiAtOffset, rangeCfi } from "@/lib/rag/book-extractor";
+
+export interface TextAnchor {
+  cfi: string;
+  chapterIndex: number;
+  chapterTitle: string;
+  /** 1 for an exact (normalized) match, lower for fuzzy matches */
+  score: number;
+}
+
+/** Minimum bigram similarity for a fuzzy match to count */
+const MIN_FUZZY_SCORE = 0.8;
+const PROBE_LENGTH = 16;
+
+/** Characters dropped during normalization: soft hyphen, zero-width spaces/joiners, BOM */
+const IGNORED_CODES = new Set([0xad, 0x200b, 0x200c, 0x200d, 0x2060, 0xfeff]);
+/** Typographic variants folded onto their ASCII counterparts */
+const FOLDED_CODES = new Map<number, string>([
+  [0x2018, "'"],
+  [0x2019, "'"],
+  [0x201a, "'"],
+  [0x201b, "'"],
+  [0x2032, "'"],
+  [0x201c, '"'],
+  [0x201d, '"'],
+  [0x201e, '"'],
+  [0x201f, '"'],
+  [0x2033, '"'],
+  [0xab, '"'],
+  [0xbb, '"'],
+  [0x2010, "-"],
+  [0x2011, "-"],
+  [0x2012, "-"],
+  [0x2013, "-"],
+  [0x2014, "-"],
+  [0x2015, "-"],
+  [0x2212, "-"],
+  [0x2026, "..."],
+]);
+
+interface NormalizedText {
+  text: string;
+  /** Original offset of each normalized character */
+  offsets: number[];
+}
+
+/** Lowercase, fold quotes/dashes, drop whitespace and invisible characters */
+export function normalizeForMatch(source: string): NormalizedText {
+  let text = "";
+  const offsets: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    const code = ch.charCodeAt(0);
+    if (IGNORED_CODES.has(code) || /\s/.test(ch)) continue;
+    const folded = FOLDED_CODES.get(code) ?? ch.toLowerCase();
+    for (const c of folded) {
+      text += c;
+      offsets.push(i);
+    }
+  }
+  return { text, offsets };
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Sørensen–Dice coefficient over character bigrams */
+function similarity(a: Map<string, number>, aLength: number, b: string): number {
+  const grams = bigrams(b);
+  let shared = 0;
+  for (const [gram, count] of grams) shared += Math.min(count, a.get(gram) ?? 0);
+  const total = aLength - 1 + (b.length - 1);
+  return total > 0 ? (2 * shared) / total : 0;
+}
+
+/** Best [start, end) of `needle` in `haystack` (normalized offsets), with its score */
+function findInText(
+  haystack: string,
+  needle: string,
+): { start: number; end: number; score: number } | null {
+  const exact = haystack.indexOf(needle);
+  if (exact >= 0) return { start: exact, end: exact + needle.length, score: 1 };
+  if (needle.length < PROBE_LENGTH * 2) return null;
+
+  // Probes at the start, middle and end propose where the passage begins
+  const probes = [0, Math.floor((needle.length - PROBE_LENGTH) / 2), needle.length - PROBE_LENGTH];
+  const candidates = new Set<number>();
+  for (const at of probes) {
+    const probe = needle.slice(at, at + PROBE_LENGTH);
+    for (let pos = haystack.indexOf(probe); pos >= 0; pos = haystack.indexOf(probe, pos + 1)) {
+      candidates.add(Math.max(0, pos - at));
+    }
+  }
+
+  const needleGrams = bigrams(needle);
+  let best: { start: number; end: number; score: number } | null = null;
+  for (const start of candidates) {
+    const end = Math.min(haystack.length, start + needle.length);
+    const score = similarity(needleGrams, needle.length, haystack.slice(start, end));
+    if (score >= MIN_FUZZY_SCORE && (!best || score > best.score)) best = { start, end, score };
+  }
+  return best;
+}
+
+/**
+ * Anchors passages against one book. Normalized chapter text is computed once
+ * and reused for every annotation of the book.
+ */
+export class TextAnchorIndex {
+  private normalized: NormalizedText[];
+
+  constructor(private readonly chapters: ChapterData[]) {
+    this.normalized = chapters.map((c) => normalizeForMatch(c.content));
+  }
+
+  /** Range CFI of `passage`, searching the chapter whose title matches `chapterHint` first */
+  find(passage: string, chapterHint?: string): TextAnchor | null {
+    const needle = normalizeForMatch(passage).text;
+    if (!needle) return null;
+
+    const hint = chapterHint ? normalizeForMatch(chapterHint).text : "";
+    const order = this.chapters.map((_, i) => i);
+    if (hint) {
+      const hinted = (i: number) => Number(normalizeForMatch(this.chapters[i].title).text === hint);
+      order.sort((a, b) => hinted(b) - hinted(a));
+    }
+
+    let best: TextAnchor | null = null;
+    for (const i of order) {
+      const match = findInText(this.normalized[i].text, needle);
+      if (!match || (best && match.score <= best.score)) continue;
+
+      const { offsets } = this.normalized[i];
+      const chapter = this.chapters[i];
+      const start = offsets[match.start];
+      const end = offsets[match.end - 1] + 1;
+      best = {
+        cfi: rangeCfi(
+          cfiAtOffset(chapter.segments, start),
+          cfiAtOffset(chapter.segments, end, true),
+        ),
+        chapterIndex: chapter.index,
+        chapterTitle: chapter.title,
+        score: match.score,
+      };
+      if (match.score === 1) break;
+    }
+    return best;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * MCP client — JSON-RPC session with one Model Context Protocol server.
+ *
+ * Covers what the reading agent needs: the initialize handshake, tools/list
+ * (with pagination) and tools/call. Server-initiated pings are answered;
+ * other server requests are declined.
+ */
+import type { JsonRpcId, JsonRpcMessage, McpTransport } from "./transport";
+
+const PROTOCOL_VERSION = "2025-03-26";
+const REQUEST_TIMEOUT_MS = 60_000;
+const CONNECT_TIMEOUT_MS = 20_000;
+
+export class McpError extends Error {
+  constructor(
+    message: string,
+    public code?: number,
+  ) {
+    super(message);
+    this.name = "McpError";
+  }
+}
+
+/** JSON Schema subset used in tool input schemas */
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: JsonSchema;
+}
+
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image" | "audio"; data: string; mimeType: string }
+  | { type: "resource"; resource: { uri: string; text?: string; mimeType?: string } }
+  | { type: "resource_link"; uri: string; name?: string };
+
+export interface McpToolResult {
+  content?: McpContent[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class McpClient {
+  private nextId = 1;
+  private pending = new Map<JsonRpcId, PendingRequest>();
+  private closed = false;
+  serverInfo: { name: string; version?: string } | null = null;
+
+  /** Called when the server goes away or the server's tool list changes */
+  onClose: ((reason: string) => void) | null = null;
+  onToolsChanged: (() => void) | null = null;
+
+  constructor(private transport: McpTransport) {}
+
+  async connect(): Promise<void> {
+    await this.transport.start(
+      (message) => this.handleMessage(message),
+      (reason) => this.handleClose(reason),
+    );
+
+    const { getVersion } = await import("@tauri-apps/api/app");
+    const version = await getVersion().catch(() => "0.0.0");
+    const result = await this.request<{ serverInfo?: { name: string; version?: string } }>(
+      "initialize",
+      {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "ReadAny", version },
+      },
+      CONNECT_TIMEOUT_MS,
+    );
+    this.serverInfo = result.serverInfo ?? null;
+    await this.notify("notifications/initialized");
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request<{ tools: McpTool[]; nextCursor?: string }>(
+        "tools/list",
+        cursor ? { cursor } : {},
+      );
+      tools.push(...(page.tools ?? []));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  callTool(name: string, args: Record<string, unknown>): Promise<McpToolResult> {
+    return this.request<McpToolResult>("tools/call", { name, arguments: args });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.handleClose("Connection closed");
+    await this.transport.close();
+  }
+
+  private request<T>(
+    method: string,
+    params: Record<string, unknown>,
+    timeoutMs = REQUEST_TIMEOUT_MS,
+  ): Promise<T> {
+    if (this.closed) return Promise.reject(new McpError("Connection closed"));
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new McpError(`${method} timed out after ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timer });
+
+      // Not awaited: with HTTP the reply may arrive on a stream that stays open
+      this.transport.send({ jsonrpc: "2.0", id, method, params }).catch((err) => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(err instanceof Error ? err : new McpError(String(err)));
+      });
+    });
+  }
+
+  private notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    return this.transport.send({ jsonrpc: "2.0", method, ...(params ? { params } : {}) });
+  }
+
+  private handleMessage(message: JsonRpcMessage) {
+    // Response to one of our requests
+    if (message.id !== undefined && !message.method) {
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+      this.pending.delete(message.id);
+      clearTimeout(pending.timer);
+      if (message.error) {
+        pending.reject(new McpError(message.error.message, message.error.code));
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    // Request from the server
+    if (message.id !== undefined && message.method) {
+      const reply: JsonRpcMessage =
+        message.method === "ping"
+          ? { jsonrpc: "2.0", id: message.id, result: {} }
+          : {
+              jsonrpc: "2.0",
+              id: message.id,
+              error: { code: -32601, message: `Method not supported: ${message.method}` },
+            };
+      this.transport.send(reply).catch(() => {});
+      return;
+    }
+
+    if (message.method === "notifications/tools/list_changed") {
+      this.onToolsChanged?.();
+    }
+  }
+
+  private handleClose(reason: string) {
+    if (this.closed) return;
+    this.closed = true;
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(new McpError(reason));
+    }
+    this.pending.clear();
+    this.onClose?.(reason);
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * MCP manager — keeps one live connection per configured server and turns
+ * the allowed tools of enabled servers into agent ToolDefinitions.
+ *
+ * Connections are opened lazily on first use and reused across chats; a
+ * changed server config (command, URL, …) reconnects, and a server that exits
+ * is reconnected the next time its tools are needed.
+ */
+import type { ToolDefinition } from "@/lib/ai/tools";
+import type { McpServerConfig } from "@/types";
+import { McpClient, type McpTool, type McpToolResult } from "./client";
+import { decodeArguments, jsonSchemaToParameters } from "./schema";
+import { createTransport } from "./transport";
+
+interface Connection {
+  fingerprint: string;
+  client: McpClient;
+  tools: McpTool[] | null;
+}
+
+const connections = new Map<string, Promise<Connection>>();
+
+/** The config fields a live connection depends on */
+function fingerprint(config: McpServerConfig): string {
+  const { transport, command, args, env, url, headers } = config;
+  return JSON.stringify({ transport, command, args, env, url, headers });
+}
+
+async function openConnection(config: McpServerConfig): Promise<Connection> {
+  const client = new McpClient(createTransport(config));
+  const connection: Connection = { fingerprint: fingerprint(config), client, tools: null };
+  client.onToolsChanged = () => {
+    connection.tools = null;
+  };
+  client.onClose = () => {
+    // Only forget it if it hasn't been replaced already
+    const current = connections.get(config.id);
+    current?.then((c) => c === connection && connections.delete(config.id)).catch(() => {});
+  };
+
+  try {
+    await client.connect();
+  } catch (err) {
+    await client.close().catch(() => {});
+    throw err;
+  }
+  return connection;
+}
+
+async function getConnection(config: McpServerConfig): Promise<Connection> {
+  const existing = connections.get(config.id);
+  if (existing) {
+    const connection = await existing.catch(() => null);
+    if (connection && connection.fingerprint === fingerprint(config)) return connection;
+    await disconnectMcpServer(config.id);
+  }
+
+  const promise = openConnection(config);
+  connections.set(config.id, promise);
+  promise.catch(() => {
+    if (connections.get(config.id) === promise) connections.delete(config.id);
+  });
+  return promise;
+}
+
+/** Connect (if needed) and list a server's tools */
+export async function listMcpServerTools(
+  config: McpServerConfig,
+  refresh = false,
+): Promise<McpTool[]> {
+  const connection = await getConnection(config);
+  if (!connection.tools || refresh) {
+    connection.tools = await connection.client.listTools();
+  }
+  return connection.tools;
+}
+
+export async function disconnectMcpServer(serverId: string): Promise<void> {
+  const existing = connections.get(serverId);
+  if (!existing) return;
+  connections.delete(serverId);
+  const connection = await existing.catch(() => null);
+  await connection?.client.close().catch(() => {});
+}
+
+export async function disconnectAllMcpServers(): Promise<void> {
+  await Promise.all([...connections.keys()].map(disconnectMcpServer));
+}
+
+/** Tool names must match ^[a-zA-Z0-9_-]{1,64}$ for every provider */
+function toolName(server: McpServerConfig, tool: McpTool): string {
+  const slug = (value: string) => value.replace(/[^a-zA-Z0-9_-]+/g, "_").replace(/^_+|_+$/g, "");
+  return `mcp_${slug(server.name) || server.id.slice(0, 8)}_${slug(tool.name)}`.slice(0, 64);
+}
+
+/** Flatten a tools/call result into something the model can read */
+function formatToolResult(result: McpToolResult): unknown {
+  const parts = (result.content ?? []).map((item) => {
+    switch (item.type) {
+      case "text":
+        return item.text;
+      case "resource":
+        return item.resource.text ?? `[resource: ${item.resource.uri}]`;
+      case "resource_link":
+        return `[resource: ${item.name ?? item.uri}] ${item.uri}`;
+      default:
+        return `[${item.type}: ${item.mimeType}]`;
+    }
+  });
+  const text = parts.join("\n");
+
+  if (result.isError) return { error: text || "The tool reported an error" };
+  if (result.structuredContent !== undefined) return result.structuredContent;
+  return { content: text };
+}
+
+function mcpToolToDefinition(server: McpServerConfig, tool: McpTool): ToolDefinition {
+  const { parameters, jsonEncoded } = jsonSchemaToParameters(tool.inputSchema);
+  return {
+    name: toolName(server, tool),
+    description: `[${server.name}] ${tool.description || tool.name}`,
+    parameters,
+    execute: async (args) => {
+      const { client } = await getConnection(server);
+      const result = await client.callTool(tool.name, decodeArguments(args, jsonEncoded));
+      return formatToolResult(result);
+    },
+  };
+}
+
+/**
+ * ToolDefinitions for the allowed tools of all enabled servers.
+ * A server that can't be reached is skipped so the chat still works.
+ */
+export async function getMcpTools(servers: McpServerConfig[]): Promise<ToolDefinition[]> {
+  const active = servers.filter((s) => s.enabled && s.allowedTools.length > 0);
+  const results = await Promise.allSettled(
+    active.map(async (server) => {
+      const tools = await listMcpServerTools(server);
+      return tools
+        .filter((tool) => server.allowedTools.includes(tool.name))
+        .map((tool) => mcpToolToDefinition(server, tool));
+    }),
+  );
+
+  const definitions: ToolDefinition[] = [];
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      definitions.push(...result.value);
+    } else {
+      console.warn(`[mcp] Skipping server "${active[i].name}":`, result.reason);
+    }
+  });
+  return definitions;
+}
@@ -0,0 +1,101 @@
+/**
+ * Convert MCP tool input schemas (JSON Schema) into ToolDefinition parameters.
+ *
+ * ToolDefinition parameters are flat strings, numbers and booleans (they become
+ * the Zod schema in buildZodSchema). Object and array properties are passed as
+ * JSON-encoded strings and decoded again before the call reaches the server.
+ */
+import type { ToolParameter } from "@/lib/ai/tools";
+import type { JsonSchema } from "./client";
+
+export interface ConvertedParameters {
+  parameters: Record<string, ToolParameter>;
+  /** Parameters the model sends as JSON strings */
+  jsonEncoded: Set<string>;
+}
+
+/** The first non-null type of a property, looking through anyOf / oneOf */
+function primaryType(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) return schema.type.find((t) => t !== "null");
+  if (schema.type) return schema.type;
+  for (const option of schema.anyOf ?? schema.oneOf ?? []) {
+    const type = primaryType(option);
+    if (type && type !== "null") return type;
+  }
+  if (schema.enum?.length) return typeof schema.enum[0];
+  return undefined;
+}
+
+/** Allowed values of a property, looking through anyOf / oneOf */
+function enumValues(schema: JsonSchema): unknown[] | undefined {
+  if (schema.enum?.length) return schema.enum;
+  for (const option of schema.anyOf ?? schema.oneOf ?? []) {
+    const values = enumValues(option);
+    if (values) return values;
+  }
+  return undefined;
+}
+
+export function jsonSchemaToParameters(schema: JsonSchema | undefined): ConvertedParameters {
+  const parameters: Record<string, ToolParameter> = {};
+  const jsonEncoded = new Set<string>();
+  const required = new Set(schema?.required ?? []);
+
+  for (const [key, property] of Object.entries(schema?.properties ?? {})) {
+    const type = primaryType(property);
+    const notes: string[] = [property.description || property.title || key];
+
+    let paramType: ToolParameter["type"];
+    if (type === "number" || type === "integer") {
+      paramType = "number";
+      if (type === "integer") notes.push("Integer");
+    } else if (type === "boolean") {
+      paramType = "boolean";
+    } else if (type === "string" || type === undefined) {
+      paramType = "string";
+    } else {
+      paramType = "string";
+      jsonEncoded.add(key);
+      const itemType = type === "array" && property.items ? primaryType(property.items) : undefined;
+      notes.push(`JSON-encoded ${type}${itemType ? ` of ${itemType}` : ""}`);
+    }
+
+    const values = enumValues(property);
+    if (values) {
+      notes.push(`One of: ${values.map((v) => JSON.stringify(v)).join(", ")}`);
+    }
+    if (property.default !== undefined) {
+      notes.push(`Default: ${JSON.stringify(property.default)}`);
+    }
+
+    parameters[key] = {
+      type: paramType,
+      description: notes.join(". "),
+      required: required.has(key),
+    };
+  }
+
+  return { parameters, jsonEncoded };
+}
+
+/** Turn the model's arguments back into what the server's schema expects */
+export function decodeArguments(
+  args: Record<string, unknown>,
+  jsonEncoded: Set<string>,
+): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (value === undefined) continue;
+    if (jsonEncoded.has(key) && typeof value === "string") {
+      try {
+        decoded[key] = JSON.parse(value);
+      } catch {
+        // Not valid JSON — let the server report it
+        decoded[key] = value;
+      }
+    } else {
+      decoded[key] = value;
+    }
+  }
+  return decoded;
+}
@@ -0,0 +1,215 @@
+/**
+ * MCP transports — move JSON-RPC messages between the client and a server.
+ *
+ * - stdio: the server runs as a child process of the Tauri backend, which
+ *   relays its stdout lines as `mcp://message` events (see src-tauri/src/mcp.rs)
+ * - http: Streamable HTTP — each message is POSTed, replies come back as JSON
+ *   or as a server-sent event stream; requests go through the Tauri HTTP
+ *   plugin so servers don't need CORS (most local ones don't send it)
+ */
+import type { McpServerConfig } from "@/types";
+import type { UnlistenFn } from "@tauri-apps/api/event";
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface McpTransport {
+  start(
+    onMessage: (message: JsonRpcMessage) => void,
+    onClose: (reason: string) => void,
+  ): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+export class StdioTransport implements McpTransport {
+  private pid: number | null = null;
+  private unlisteners: UnlistenFn[] = [];
+
+  constructor(
+    private serverId: string,
+    private command: string,
+    private args: string[],
+    private env: Record<string, string>,
+  ) {}
+
+  async start(onMessage: (message: JsonRpcMessage) => void, onClose: (reason: string) => void) {
+    const { invoke } = await import("@tauri-apps/api/core");
+    const { listen } = await import("@tauri-apps/api/event");
+
+    this.unlisteners.push(
+      await listen<{ id: string; pid: number; line: string }>("mcp://message", (event) => {
+        if (event.payload.id !== this.serverId || event.payload.pid !== this.pid) return;
+        try {
+          onMessage(JSON.parse(event.payload.line));
+        } catch {
+          // Not JSON — some servers print banners to stdout, ignore them
+        }
+      }),
+      await listen<{ id: string; pid: number }>("mcp://exit", (event) => {
+        if (event.payload.id !== this.serverId || event.payload.pid !== this.pid) return;
+        this.pid = null;
+        this.unlisten();
+        onClose(`"${this.command}" exited`);
+      }),
+    );
+
+    try {
+      this.pid = await invoke<number>("mcp_spawn", {
+        id: this.serverId,
+        command: this.command,
+        args: this.args,
+        env: this.env,
+      });
+    } catch (err) {
+      this.unlisten();
+      throw new Error(String(err));
+    }
+  }
+
+  async send(message: JsonRpcMessage) {
+    const { invoke } = await import("@tauri-apps/api/core");
+    await invoke("mcp_send", { id: this.serverId, line: JSON.stringify(message) });
+  }
+
+  async close() {
+    this.unlisten();
+    if (this.pid === null) return;
+    this.pid = null;
+    const { invoke } = await import("@tauri-apps/api/core");
+    await invoke("mcp_kill", { id: this.serverId }).catch(() => {});
+  }
+
+  private unlisten() {
+    for (const unlisten of this.unlisteners) unlisten();
+    this.unlisteners = [];
+  }
+}
+
+export class HttpTransport implements McpTransport {
+  private sessionId: string | null = null;
+  private onMessage: ((message: JsonRpcMessage) => void) | null = null;
+  /** Replies and notifications still being posted; close() lets them land first */
+  private acknowledgements = new Set<Promise<void>>();
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string>,
+  ) {}
+
+  async start(onMessage: (message: JsonRpcMessage) => void) {
+    this.onMessage = onMessage;
+  }
+
+  send(message: JsonRpcMessage): Promise<void> {
+    const sending = this.post(message);
+    // Requests may stream for as long as a tool runs, so only the rest is awaited on close
+    if (message.method === undefined || message.id === undefined) {
+      const settled = sending.catch(() => {});
+      this.acknowledgements.add(settled);
+      settled.then(() => this.acknowledgements.delete(settled));
+    }
+    return sending;
+  }
+
+  private async post(message: JsonRpcMessage) {
+    const { fetch: tauriFetch } = await import("@tauri-apps/plugin-http");
+    const response = await tauriFetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+        ...this.headers,
+      },
+      body: JSON.stringify(message),
+    });
+
+    const sessionId = response.headers.get("mcp-session-id");
+    if (sessionId) this.sessionId = sessionId;
+
+    // Notifications and responses are acknowledged without a body
+    if (response.status === 202 || response.status === 204) return;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("text/event-stream")) {
+      await this.readEventStream(response);
+      return;
+    }
+    const text = await response.text();
+    if (text.trim()) this.dispatch(JSON.parse(text));
+  }
+
+  async close() {
+    await Promise.all(this.acknowledgements);
+    if (!this.sessionId) return;
+    const { fetch: tauriFetch } = await import("@tauri-apps/plugin-http");
+    // Let the server free the session; servers that don't support it answer 405
+    await tauriFetch(this.url, {
+      method: "DELETE",
+      headers: { "Mcp-Session-Id": this.sessionId, ...this.headers },
+    }).catch(() => {});
+    this.sessionId = null;
+  }
+
+  private dispatch(data: JsonRpcMessage | JsonRpcMessage[]) {
+    for (const message of Array.isArray(data) ? data : [data]) {
+      this.onMessage?.(message);
+    }
+  }
+
+  /** Read `data:` payloads from an SSE response until the server closes it */
+  private async readEventStream(response: Response) {
+    const handleEvent = (event: string) => {
+      const data = event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (!data) return;
+      try {
+        this.dispatch(JSON.parse(data));
+      } catch {
+        // Keep-alive comments and non-JSON events
+      }
+    };
+
+    if (!response.body) {
+      for (const event of (await response.text()).split(/\r?\n\r?\n/)) handleEvent(event);
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? "";
+      for (const event of events) handleEvent(event);
+    }
+    handleEvent(buffer);
+  }
+}
+
+export function createTransport(config: McpServerConfig): McpTransport {
+  if (config.transport === "http") {
+    if (!config.url) throw new Error(`MCP server "${config.name}" has no URL`);
+    return new HttpTransport(config.url, config.headers ?? {});
+  }
+  if (!config.command) throw new Error(`MCP server "${config.name}" has no command`);
+  return new StdioTransport(config.id, config.command, config.args ?? [], config.env ?? {});
+}
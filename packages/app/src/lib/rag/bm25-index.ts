@@ -0,0 +1,146 @@
+/**
+ * Persisted BM25 inverted index.
+ *
+ * Postings (term → chunk, tf) and per-book stats are stored in SQLite when a
+ * book is vectorized, so a query only reads the postings of its own terms
+ * instead of re-tokenizing and scanning every chunk of the book.
+ */
+import {
+  getBM25BookStats,
+  getBM25Postings,
+  getBook,
+  getChunks,
+  replaceBM25Index,
+} from "@/lib/db/database";
+import type { BM25BookStats, BM25Posting, Chunk } from "@/types";
+import { type Tokenizer, getTokenizer, tokenize } from "./tokenizer";
+
+/** BM25 parameters */
+const K1 = 1.5;
+const B = 0.75;
+
+export interface BM25IndexData {
+  stats: BM25BookStats;
+  postings: BM25Posting[];
+}
+
+/** Build postings and stats for a book's chunks (pure, no I/O) */
+export function buildBM25Index(
+  bookId: string,
+  chunks: Array<Pick<Chunk, "id" | "content">>,
+  tokenizer: Tokenizer,
+): BM25IndexData {
+  const postings: BM25Posting[] = [];
+  let totalLength = 0;
+
+  for (const chunk of chunks) {
+    const tokens = tokenize(chunk.content, tokenizer);
+    totalLength += tokens.length;
+
+    const tf = new Map<string, number>();
+    for (const token of tokens) tf.set(token, (tf.get(token) || 0) + 1);
+    for (const [term, count] of tf) {
+      postings.push({ term, chunkId: chunk.id, tf: count, docLength: tokens.length });
+    }
+  }
+
+  return {
+    stats: {
+      bookId,
+      docCount: chunks.length,
+      avgDocLength: totalLength / Math.max(chunks.length, 1),
+      tokenizer: tokenizer.id,
+      updatedAt: Date.now(),
+    },
+    postings,
+  };
+}
+
+/**
+ * Score chunks from the postings of the query terms.
+ * Repeated query terms count once per occurrence, like the query text itself.
+ */
+export function scoreBM25(
+  terms: string[],
+  postings: BM25Posting[],
+  stats: BM25BookStats,
+): Map<string, number> {
+  const byTerm = new Map<string, BM25Posting[]>();
+  for (const p of postings) {
+    const list = byTerm.get(p.term);
+    if (list) list.push(p);
+    else byTerm.set(p.term, [p]);
+  }
+
+  const scores = new Map<string, number>();
+  for (const term of terms) {
+    const list = byTerm.get(term);
+    if (!list) continue;
+    const df = list.length;
+    const idf = Math.log((stats.docCount - df + 0.5) / (df + 0.5) + 1);
+    for (const p of list) {
+      const norm = p.tf + K1 * (1 - B + B * (p.docLength / stats.avgDocLength));
+      scores.set(p.chunkId, (scores.get(p.chunkId) || 0) + (idf * (p.tf * (K1 + 1))) / norm);
+    }
+  }
+  return scores;
+}
+
+/** Tokenizer for a book, chosen by its `BookMeta.language` */
+export async function getBookTokenizer(bookId: string): Promise<Tokenizer> {
+  const book = await getBook(bookId);
+  return getTokenizer(book?.meta.language);
+}
+
+/** Build and persist the index for a book (call after its chunks are stored) */
+export async function indexBookBM25(
+  bookId: string,
+  chunks: Array<Pick<Chunk, "id" | "content">>,
+  tokenizer?: Tokenizer,
+): Promise<BM25BookStats> {
+  const { stats, postings } = buildBM25Index(
+    bookId,
+    chunks,
+    tokenizer ?? (await getBookTokenizer(bookId)),
+  );
+  await replaceBM25Index(stats, postings);
+  return stats;
+}
+
+/**
+ * Stats for a book's index, (re)building it from the stored chunks if it is
+ * missing (books vectorized before the index existed) or was built with a
+ * different tokenizer. Null if the book has no chunks.
+ */
+export async function ensureBM25Index(
+  bookId: string,
+  tokenizer: Tokenizer,
+): Promise<BM25BookStats | null> {
+  const stats = await getBM25BookStats(bookId);
+  if (stats && stats.tokenizer === tokenizer.id) return stats;
+
+  const chunks = await getChunks(bookId);
+  if (chunks.length === 0) return null;
+  return indexBookBM25(bookId, chunks, tokenizer);
+}
+
+export interface BM25QueryResult {
+  /** chunkId → BM25 score */
+  scores: Map<string, number>;
+  /** Query terms as produced by the book's tokenizer */
+  terms: string[];
+  tokenizer: Tokenizer;
+}
+
+/** Tokenize a query with the book's tokenizer and score the book's chunks */
+export async function queryBM25(bookId: string, query: string): Promise<BM25QueryResult> {
+  const tokenizer = await getBookTokenizer(bookId);
+  const terms = tokenize(query, tokenizer);
+  if (terms.length === 0) return { scores: new Map(), terms, tokenizer };
+
+  const stats = await ensureBM25Index(bookId, tokenizer);
+  if (!stats) return { scores: new Map(), terms, tokenizer };
+
+  const postings = await getBM25Postings(bookId, [...new Set(terms)]);
+  return { scores: scoreBM25(terms, postings, stats), terms, tokenizer };
+}
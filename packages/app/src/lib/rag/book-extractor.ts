@@ -3,27 +3,100 @@
  * Uses foliate-js DocumentLoader to parse the book, then extracts
  * plain text from each section's DOM Document.
  *
- * Also generates EPUB CFI references for each text segment,
- * enabling precise navigation from RAG search results to book locations.
+ * Also records where every text node lands in the chapter content together
+ * with its EPUB CFI, so any character offset of the content (and therefore any
+ * chunk) can be mapped back to an exact CFI. PDF pages map to page-level CFIs.
  */
 import { DocumentLoader } from "@/lib/reader/document-loader";
 import type { TOCItem } from "@/lib/reader/document-loader";
 import * as CFI from "foliate-js/epubcfi.js";
 
-/** A text segment with its corresponding CFI for precise navigation */
+/** A run of chapter content with its corresponding CFI for precise navigation */
 export interface TextSegment {
   text: string;
+  /**
+   * CFI of the segment's first character. For EPUB text nodes it ends in a
+   * character offset (`…/1:0)`) that `cfiAtOffset` advances; PDF pages carry a
+   * page-level CFI without one.
+   */
   cfi: string;
+  /** Offsets of `text` in the chapter content */
+  start: number;
+  end: number;
 }
 
 export interface ChapterData {
   index: number;
   title: string;
   content: string;
-  /** Text segments with CFI references for precise location mapping */
+  /** Text segments with CFI references for precise location mapping, in content order */
   segments: TextSegment[];
 }
 
+/** Trailing character offset of a text-node CFI, e.g. the `:12` in `epubcfi(/6/4!/4/2/1:12)` */
+const CFI_CHAR_OFFSET = /:(\d+)\)$/;
+
+/**
+ * CFI of a character offset in chapter content. Offsets that fall between
+ * segments (block separators) snap forward to the next segment, or back to the
+ * previous one when `isEnd` is set, so ranges never start or end in a gap.
+ */
+export function cfiAtOffset(segments: TextSegment[], offset: number, isEnd = false): string {
+  if (segments.length === 0) return "";
+
+  // Binary search for the first segment ending after (or, for ends, at) the offset
+  let lo = 0;
+  let hi = segments.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (isEnd ? segments[mid].end < offset : segments[mid].end <= offset) lo = mid + 1;
+    else hi = mid;
+  }
+
+  let segment = segments[lo];
+  let local = Math.min(Math.max(offset - segment.start, 0), segment.text.length);
+  if (isEnd && offset <= segment.start && lo > 0) {
+    segment = segments[lo - 1];
+    local = segment.text.length;
+  }
+
+  const match = segment.cfi.match(CFI_CHAR_OFFSET);
+  if (!match) return segment.cfi;
+  return segment.cfi.replace(CFI_CHAR_OFFSET, `:${Number(match[1]) + local})`);
+}
+
+const CFI_STEP = /\/\d+(?:\[[^\]]*\])?(?::\d+)?/g;
+
+/**
+ * Range CFI (`epubcfi(base!parent,start,end)`) spanning two point CFIs from
+ * `cfiAtOffset` in the same section. Page-level CFIs (PDF) have no character
+ * offsets to span, so the start CFI is returned as-is.
+ */
+export function rangeCfi(startCfi: string, endCfi: string): string {
+  const inner = (cfi: string) => cfi.replace(/^epubcfi\(|\)$/g, "");
+  const start = inner(startCfi);
+  const end = inner(endCfi);
+  const startSplit = start.lastIndexOf("!");
+  const endSplit = end.lastIndexOf("!");
+  const base = start.slice(0, startSplit);
+  if (startSplit < 0 || base !== end.slice(0, endSplit) || !CFI_CHAR_OFFSET.test(startCfi)) {
+    return startCfi;
+  }
+
+  const startSteps = start.slice(startSplit + 1).match(CFI_STEP) ?? [];
+  const endSteps = end.slice(endSplit + 1).match(CFI_STEP) ?? [];
+  let common = 0;
+  while (
+    common < startSteps.length - 1 &&
+    common < endSteps.length - 1 &&
+    startSteps[common] === endSteps[common]
+  ) {
+    common++;
+  }
+  const parent = startSteps.slice(0, common).join("");
+  return `epubcfi(${base}!${parent},${startSteps.slice(common).join("")},${endSteps.slice(common).join("")})`;
+}
+
 /**
  * Extract all chapter text content from a book file.
  * Reads the file from disk, parses it via foliate-js, and iterates
@@ -60,16 +133,14 @@ export async function extractBookChapters(filePath: string): Promise<ChapterData
       const body = doc.body;
       if (!body) continue;
 
-      const text = body.textContent?.trim() ?? "";
-      if (!text) continue;
+      // Build the content and its CFI-tagged text segments from the DOM
+      const baseCfi = section.cfi ?? CFI.fake.fromIndex(i);
+      const { content, segments } = extractTextWithCfi(doc, baseCfi);
+      if (!content.trim()) continue;
 
       const title = tocMap.get(i) ?? tocMap.get(section.href ?? "") ?? `Section ${i + 1}`;
 
-      // Generate CFI-tagged text segments from DOM
-      const baseCfi = section.cfi ?? CFI.fake.fromIndex(i);
-      const segments = extractSegmentsWithCfi(doc, baseCfi);
-
-      chapters.push({ index: i, title, content: text, segments });
+      chapters.push({ index: i, title, content, segments });
     } catch (err) {
       console.warn(`[extractBookChapters] Failed to extract section ${i}:`, err);
     }
@@ -78,52 +149,67 @@ export async function extractBookChapters(filePath: string): Promise<ChapterData
   return chapters;
 }
 
+/** Elements whose text starts a new paragraph in the chapter content */
+const BLOCK_SELECTOR =
+  "p, h1, h2, h3, h4, h5, h6, li, blockquote, dd, dt, figcaption, pre, td, th, div, section, article, aside, header, footer, body";
+
+const SKIPPED_ELEMENTS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE"]);
+
 /**
- * Extract text segments from a DOM document with CFI references.
+ * Build chapter content from a DOM document with a CFI for every text node.
  *
- * Walks block-level elements (p, h1-h6, li, blockquote, etc.),
- * creates a Range for each block's text content, and generates a CFI
- * using epubcfi.js pure functions.
+ * Text nodes are concatenated in document order; a blank line separates
+ * blocks and `<br>` becomes a newline. Each text node becomes a TextSegment
+ * whose CFI (from epubcfi.js `fromRange`) points at its first character.
  */
-function extractSegmentsWithCfi(doc: Document, baseCfi: string): TextSegment[] {
+export function extractTextWithCfi(
+  doc: Document,
+  baseCfi: string,
+): { content: string; segments: TextSegment[] } {
   const segments: TextSegment[] = [];
   const body = doc.body;
-  if (!body) return segments;
-
-  // Block-level elements that typically contain readable text
-  const blockSelector = "p, h1, h2, h3, h4, h5, h6, li, blockquote, dd, dt, figcaption, pre, td, th";
-  const blocks = body.querySelectorAll(blockSelector);
-
-  if (blocks.length === 0) {
-    // Fallback: if no block elements found, use body text with section-level CFI
-    const text = body.textContent?.trim();
-    if (text) {
-      segments.push({ text, cfi: baseCfi });
+  if (!body) return { content: "", segments };
+
+  let content = "";
+  let currentBlock: Element | null = null;
+  const walker = doc.createTreeWalker(body, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.nodeType === Node.ELEMENT_NODE && SKIPPED_ELEMENTS.has((node as Element).tagName.toUpperCase())
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      if ((node as Element).tagName.toUpperCase() === "BR" && content) content += "\n";
+      continue;
     }
-    return segments;
-  }
 
-  for (const block of blocks) {
-    const text = block.textContent?.trim();
-    if (!text || text.length < 2) continue;
+    const text = node.nodeValue ?? "";
+    const block = node.parentElement?.closest(BLOCK_SELECTOR) ?? body;
+    if (block !== currentBlock) {
+      // Whitespace between blocks is markup formatting, not content
+      if (!text.trim()) continue;
+      if (content) content = `${content.trimEnd()}\n\n`;
+      currentBlock = block;
+    }
+    if (!text) continue;
 
+    let cfi = baseCfi;
     try {
-      // Create a Range covering the entire block element's content
       const range = doc.createRange();
-      range.selectNodeContents(block);
-
-      // Generate CFI from the range: joinIndir(sectionCfi, fromRange(range))
-      const rangeCfi = CFI.fromRange(range);
-      const fullCfi = CFI.joinIndir(baseCfi, rangeCfi);
-
-      segments.push({ text, cfi: fullCfi });
+      range.setStart(node, 0);
+      range.collapse(true);
+      cfi = CFI.joinIndir(baseCfi, CFI.fromRange(range));
     } catch {
-      // If CFI generation fails for this block, include text with section-level CFI
-      segments.push({ text, cfi: baseCfi });
+      // Fall back to the section-level CFI for this node
     }
+
+    segments.push({ text, cfi, start: content.length, end: content.length + text.length });
+    content += text;
   }
 
-  return segments;
+  return { content, segments };
 }
 
 /** Build a map from section index/href to TOC label */
@@ -171,7 +257,8 @@ async function extractPdfChapters(fileBytes: Uint8Array): Promise<ChapterData[]>
 
   for (let start = 1; start <= numPages; start += pagesPerChapter) {
     const end = Math.min(start + pagesPerChapter - 1, numPages);
-    const texts: string[] = [];
+    let content = "";
+    const segments: TextSegment[] = [];
 
     for (let p = start; p <= end; p++) {
       try {
@@ -179,21 +266,25 @@ async function extractPdfChapters(fileBytes: Uint8Array): Promise<ChapterData[]>
         const textContent = await page.getTextContent();
         const pageText = textContent.items
           .map((item: any) => item.str ?? "")
-          .join(" ");
-        if (pageText.trim()) texts.push(pageText.trim());
+          .join(" ")
+          .trim();
+        if (!pageText) continue;
+        if (content) content += "\n\n";
+        // foliate-js addresses PDF pages as spine items, so page p is section p - 1
+        segments.push({
+          text: pageText,
+          cfi: CFI.fake.fromIndex(p - 1),
+          start: content.length,
+          end: content.length + pageText.length,
+        });
+        content += pageText;
       } catch {
         // skip unreadable pages
       }
     }
 
-    if (texts.length > 0) {
-      // PDF doesn't have real EPUB CFI, use empty segments
-      chapters.push({
-        index: start - 1,
-        title: `Pages ${start}-${end}`,
-        content: texts.join("\n\n"),
-        segments: [],
-      });
+    if (content) {
+      chapters.push({ index: start - 1, title: `Pages ${start}-${end}`, content, segments });
     }
   }
 
@@ -1,26 +1,42 @@
 /**
- * Markdown-aware chunker — splits content preserving structure
+ * Chunker — splits chapter text into embedding-sized chunks
  * Default: 300 tokens target / 50 min / 20% overlap
  *
- * Supports optional TextSegment mapping from book-extractor
- * to record precise EPUB CFI positions for each chunk.
+ * Strategies:
+ * - sentence (default): packs whole sentences (Intl.Segmenter sentence
+ *   granularity), starting a new chunk at headings; overlap is whole sentences
+ * - markdown: packs blank-line paragraphs and markdown sections
+ *
+ * Token budgets use a pluggable TokenCounter, ideally the embedding model's.
+ *
+ * Every chunk keeps the character range it covers in the chapter content, so
+ * with the TextSegment map from book-extractor its start/end CFIs are exact.
  */
 import type { Chunk } from "@/types";
-import type { TextSegment } from "./book-extractor";
+import { type TextSegment, cfiAtOffset } from "./book-extractor";
+import { type TokenCounter, heuristicTokenCounter } from "./token-counter";
+
+export type ChunkStrategy = "sentence" | "markdown";
 
 export interface ChunkerConfig {
   targetTokens: number; // default 300
   minTokens: number; // default 50
   overlapRatio: number; // default 0.2
+  strategy?: ChunkStrategy; // default "sentence"
+  /** BCP 47 locale for sentence segmentation, e.g. the book's language */
+  locale?: string;
+  /** Defaults to the script-aware estimate */
+  tokenCounter?: TokenCounter;
 }
 
 const DEFAULT_CONFIG: ChunkerConfig = {
   targetTokens: 300,
   minTokens: 50,
   overlapRatio: 0.2,
+  strategy: "sentence",
 };
 
-/** Split book content into chunks preserving markdown structure */
+/** Split book content into chunks */
 export function chunkContent(
   content: string,
   bookId: string,
@@ -29,98 +45,304 @@ export function chunkContent(
   config: ChunkerConfig = DEFAULT_CONFIG,
   segments?: TextSegment[],
 ): Chunk[] {
+  const counter = config.tokenCounter ?? heuristicTokenCounter;
+  const spans =
+    (config.strategy ?? "sentence") === "sentence"
+      ? chunkBySentences(content, config, counter)
+      : chunkBySections(content, config, counter);
+
+  return spans.map((span, index) =>
+    createChunk(span, bookId, chapterIndex, chapterTitle, index, counter, segments),
+  );
+}
+
+/** Chunk text and the range of chapter content it covers */
+interface ChunkSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** A trimmed paragraph or markdown section and its offset in the content */
+interface Section {
+  text: string;
+  start: number;
+}
+
+/** Split content by markdown headers and paragraphs */
+function splitBySections(content: string): Section[] {
+  const sections: Section[] = [];
+  let last = 0;
+  const push = (end: number) => {
+    const raw = content.slice(last, end);
+    const text = raw.trim();
+    if (text) sections.push({ text, start: last + raw.length - raw.trimStart().length });
+  };
+  for (const match of content.matchAll(/\n(?=#{1,6}\s)|\n\n+/g)) {
+    push(match.index);
+    last = match.index + match[0].length;
+  }
+  push(content.length);
+  return sections;
+}
+
+// --- Markdown strategy ---
+
+function chunkBySections(
+  content: string,
+  config: ChunkerConfig,
+  counter: TokenCounter,
+): ChunkSpan[] {
   const sections = splitBySections(content);
-  const chunks: Chunk[] = [];
+  const chunks: ChunkSpan[] = [];
   let currentChunk = "";
   let currentTokens = 0;
+  let currentStart = 0;
+  let currentEnd = 0;
+  // Sections joined into currentChunk, with the joiner length before each
+  let currentSections: Array<Section & { gap: number }> = [];
 
   for (const section of sections) {
-    const sectionTokens = estimateTokens(section);
+    const sectionTokens = counter.count(section.text);
+    const sectionEnd = section.start + section.text.length;
 
     if (currentTokens + sectionTokens > config.targetTokens && currentTokens >= config.minTokens) {
-      chunks.push(createChunk(currentChunk, bookId, chapterIndex, chapterTitle, chunks.length, segments));
+      chunks.push({ text: currentChunk, start: currentStart, end: currentEnd });
 
       // Apply overlap
       const overlapTokens = Math.floor(currentTokens * config.overlapRatio);
-      currentChunk = getOverlapText(currentChunk, overlapTokens) + section;
-      currentTokens = estimateTokens(currentChunk);
+      const overlap = getOverlapText(currentChunk, overlapTokens);
+      currentStart = tailStart(currentSections, overlap.length);
+      currentChunk = overlap + section.text;
+      currentTokens = counter.count(currentChunk);
+      currentSections = [
+        { text: overlap, start: currentStart, gap: 0 },
+        { ...section, gap: 0 },
+      ];
     } else {
-      currentChunk += (currentChunk ? "\n\n" : "") + section;
+      if (!currentChunk) currentStart = section.start;
+      currentChunk += (currentChunk ? "\n\n" : "") + section.text;
       currentTokens += sectionTokens;
+      currentSections.push({ ...section, gap: currentSections.length > 0 ? 2 : 0 });
     }
+    currentEnd = sectionEnd;
   }
 
   if (currentTokens >= config.minTokens) {
-    chunks.push(createChunk(currentChunk, bookId, chapterIndex, chapterTitle, chunks.length, segments));
+    chunks.push({ text: currentChunk, start: currentStart, end: currentEnd });
   }
 
   return chunks;
 }
 
-/** Split content by markdown headers and paragraphs */
-function splitBySections(content: string): string[] {
-  return content
-    .split(/\n(?=#{1,6}\s)|\n\n+/)
-    .map((s) => s.trim())
-    .filter(Boolean);
+/** Content offset where the last `chars` characters of the joined sections begin */
+function tailStart(sections: Array<Section & { gap: number }>, chars: number): number {
+  let remaining = chars;
+  for (let i = sections.length - 1; i >= 0; i--) {
+    const { text, start, gap } = sections[i];
+    // Landing in the joiner before a section means the tail starts at that section
+    if (remaining <= text.length + gap) return start + Math.max(text.length - remaining, 0);
+    remaining -= text.length + gap;
+  }
+  return sections[0]?.start ?? 0;
 }
 
-/** Rough token estimation (~4 chars per token for English) */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+function getOverlapText(text: string, targetTokens: number): string {
+  const targetChars = targetTokens * 4;
+  if (text.length <= targetChars) return text;
+  return text.slice(-targetChars);
 }
 
-/**
- * Find the best matching CFI for a chunk by matching its text content
- * against the TextSegments extracted from the DOM.
- *
- * Strategy: find the first segment whose text appears in the chunk content
- * (as startCfi) and the last such segment (as endCfi).
- */
-function findCfiForChunk(
-  chunkContent: string,
-  segments: TextSegment[],
-): { startCfi: string; endCfi: string } {
-  if (!segments || segments.length === 0) {
-    return { startCfi: "", endCfi: "" };
+// --- Sentence strategy ---
+
+/** A sentence (or a piece of an over-long one) with its token count */
+interface SentenceUnit {
+  /** Raw text including trailing whitespace, so concatenation restores the source */
+  text: string;
+  /** Offset of `text` in the chapter content */
+  start: number;
+  tokens: number;
+  /** First unit of a paragraph; joined to the previous one with a blank line */
+  paragraphStart: boolean;
+  /** First unit of a markdown heading section; a chunk boundary is preferred here */
+  heading: boolean;
+}
+
+const segmenterAvailable = typeof Intl !== "undefined" && "Segmenter" in Intl;
+const segmenters = new Map<string, Intl.Segmenter>();
+
+function getSegmenter(
+  locale: string | undefined,
+  granularity: "sentence" | "word",
+): Intl.Segmenter {
+  const key = `${granularity}:${locale ?? ""}`;
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(locale, { granularity });
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+}
+
+/** Fallback sentence split on terminal punctuation (Latin and CJK) and line breaks */
+const SENTENCE_FALLBACK = /[^。！？!?.…\n]+(?:[。！？!?.…]+[”’"'」』）)]*)?\s*|[。！？!?.…\n]+\s*/g;
+
+function splitSentences(text: string, locale: string | undefined): string[] {
+  if (!segmenterAvailable) return text.match(SENTENCE_FALLBACK) ?? [text];
+  return Array.from(getSegmenter(locale, "sentence").segment(text), (s) => s.segment);
+}
+
+/** Split an over-long sentence at word boundaries (or characters) into pieces within budget */
+function splitOversized(
+  sentence: string,
+  maxTokens: number,
+  counter: TokenCounter,
+  locale: string | undefined,
+): Array<{ text: string; tokens: number }> {
+  const words = segmenterAvailable
+    ? Array.from(getSegmenter(locale, "word").segment(sentence), (s) => s.segment)
+    : (sentence.match(/\S+\s*|\s+/g) ?? [sentence]);
+
+  const pieces: Array<{ text: string; tokens: number }> = [];
+  let current = "";
+  let currentTokens = 0;
+  const push = (text: string, tokens: number) => {
+    if (current && currentTokens + tokens > maxTokens) {
+      pieces.push({ text: current, tokens: currentTokens });
+      current = "";
+      currentTokens = 0;
+    }
+    current += text;
+    currentTokens += tokens;
+  };
+
+  for (const word of words) {
+    const tokens = counter.count(word);
+    if (tokens <= maxTokens) {
+      push(word, tokens);
+      continue;
+    }
+    // A single "word" over budget (e.g. unsegmented CJK run): cut by characters
+    const step = Math.max(1, Math.floor((word.length * maxTokens) / tokens));
+    for (let i = 0; i < word.length; i += step) {
+      const part = word.slice(i, i + step);
+      push(part, counter.count(part));
+    }
   }
+  if (current) pieces.push({ text: current, tokens: currentTokens });
+  return pieces;
+}
 
-  let startCfi = "";
-  let endCfi = "";
+function toSentenceUnits(
+  content: string,
+  config: ChunkerConfig,
+  counter: TokenCounter,
+): SentenceUnit[] {
+  const units: SentenceUnit[] = [];
+  for (const section of splitBySections(content)) {
+    const heading = /^#{1,6}\s/.test(section.text);
+    let first = true;
+    let offset = section.start;
+    for (const sentence of splitSentences(section.text, config.locale)) {
+      const sentenceStart = offset;
+      offset += sentence.length;
+      if (!sentence.trim()) continue;
+      const tokens = counter.count(sentence);
+      const pieces =
+        tokens > config.targetTokens
+          ? splitOversized(sentence, config.targetTokens, counter, config.locale)
+          : [{ text: sentence, tokens }];
+      let pieceStart = sentenceStart;
+      for (const piece of pieces) {
+        units.push({
+          ...piece,
+          start: pieceStart,
+          paragraphStart: first,
+          heading: heading && first,
+        });
+        pieceStart += piece.text.length;
+        first = false;
+      }
+    }
+  }
+  return units;
+}
 
-  // Normalize chunk text for matching (collapse whitespace)
-  const normalizedChunk = chunkContent.replace(/\s+/g, " ").trim();
+function joinUnits(units: SentenceUnit[]): ChunkSpan {
+  let text = "";
+  for (const unit of units) {
+    text = unit.paragraphStart && text ? `${text.trimEnd()}\n\n${unit.text}` : text + unit.text;
+  }
+  const first = units[0];
+  const last = units[units.length - 1];
+  return {
+    text: text.trim(),
+    start: first.start + first.text.length - first.text.trimStart().length,
+    end: last.start + last.text.trimEnd().length,
+  };
+}
+
+function chunkBySentences(
+  content: string,
+  config: ChunkerConfig,
+  counter: TokenCounter,
+): ChunkSpan[] {
+  const units = toSentenceUnits(content, config, counter);
+  const chunks: SentenceUnit[][] = [];
+  let current: SentenceUnit[] = [];
+  let currentTokens = 0;
+  // Units at the start of `current` repeated from the previous chunk
+  let overlapCount = 0;
 
-  for (const seg of segments) {
-    const normalizedSeg = seg.text.replace(/\s+/g, " ").trim();
-    if (!normalizedSeg || normalizedSeg.length < 2) continue;
+  for (const unit of units) {
+    const full = currentTokens + unit.tokens > config.targetTokens;
+    if (
+      current.length > overlapCount &&
+      currentTokens >= config.minTokens &&
+      (full || unit.heading)
+    ) {
+      chunks.push(current);
 
-    // Check if this segment's text appears in the chunk
-    // Use a substring of the segment (first 40 chars) for fuzzy matching
-    // since chunker may have split or merged text differently
-    const matchText = normalizedSeg.slice(0, Math.min(40, normalizedSeg.length));
-    if (normalizedChunk.includes(matchText)) {
-      if (!startCfi) {
-        startCfi = seg.cfi;
+      // Overlap with trailing whole sentences, but never carry text across a heading
+      const overlapBudget = Math.floor(currentTokens * config.overlapRatio);
+      const overlap: SentenceUnit[] = [];
+      let overlapTokens = 0;
+      for (let i = current.length - 1; i > 0 && !unit.heading; i--) {
+        if (overlapTokens + current[i].tokens > overlapBudget) break;
+        overlap.unshift(current[i]);
+        overlapTokens += current[i].tokens;
       }
-      endCfi = seg.cfi;
+      current = overlap;
+      currentTokens = overlapTokens;
+      overlapCount = overlap.length;
+    }
+    current.push(unit);
+    currentTokens += unit.tokens;
+  }
+
+  if (current.length > overlapCount) {
+    if (currentTokens >= config.minTokens) {
+      chunks.push(current);
+    } else if (chunks.length > 0) {
+      // Too short on its own: append the new sentences to the last chunk
+      chunks[chunks.length - 1].push(...current.slice(overlapCount));
     }
   }
 
-  return { startCfi, endCfi };
+  return chunks.map(joinUnits);
 }
 
 function createChunk(
-  content: string,
+  { text: content, start, end }: ChunkSpan,
   bookId: string,
   chapterIndex: number,
   chapterTitle: string,
   index: number,
+  counter: TokenCounter,
   segments?: TextSegment[],
 ): Chunk {
-  const { startCfi, endCfi } = segments
-    ? findCfiForChunk(content, segments)
-    : { startCfi: "", endCfi: "" };
+  const startCfi = segments ? cfiAtOffset(segments, start) : "";
+  const endCfi = segments ? cfiAtOffset(segments, end, true) : "";
 
   return {
     id: `${bookId}-${chapterIndex}-${index}`,
@@ -128,14 +350,8 @@ function createChunk(
     chapterIndex,
     chapterTitle,
     content,
-    tokenCount: estimateTokens(content),
+    tokenCount: counter.count(content),
     startCfi,
     endCfi,
   };
 }
-
-function getOverlapText(text: string, targetTokens: number): string {
-  const targetChars = targetTokens * 4;
-  if (text.length <= targetChars) return text;
-  return text.slice(-targetChars);
-}
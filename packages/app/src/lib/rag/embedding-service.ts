@@ -2,6 +2,10 @@
  * Embedding service — handles API calls to embedding providers
  */
 import type { EmbeddingModel } from "@/types";
+import { recordUsage } from "../usage/ledger";
+import { isLocalUrl } from "../usage/pricing";
+import { assertWithinQuota } from "../usage/quota";
+import { estimateTokens } from "./token-counter";
 
 export interface EmbeddingConfig {
   model: EmbeddingModel;
@@ -23,34 +27,36 @@ export class EmbeddingService {
   }
 
   /** Generate embedding for a single text */
-  async embed(text: string): Promise<number[]> {
-    const results = await this.embedBatch([text]);
+  async embed(text: string, signal?: AbortSignal): Promise<number[]> {
+    const results = await this.embedBatch([text], signal);
     return results[0];
   }
 
-  /** Generate embeddings for multiple texts with batching */
-  async embedBatch(texts: string[]): Promise<number[][]> {
+  /** Generate embeddings for multiple texts with batching; `signal` aborts the in-flight request */
+  async embedBatch(texts: string[], signal?: AbortSignal): Promise<number[][]> {
     const allEmbeddings: number[][] = [];
 
     for (let i = 0; i < texts.length; i += this.config.batchSize) {
+      signal?.throwIfAborted();
       const batch = texts.slice(i, i + this.config.batchSize);
-      const batchEmbeddings = await this.callEmbeddingAPI(batch);
+      const batchEmbeddings = await this.callEmbeddingAPI(batch, signal);
       allEmbeddings.push(...batchEmbeddings);
     }
 
     return allEmbeddings;
   }
 
-  private async callEmbeddingAPI(texts: string[]): Promise<number[][]> {
+  private async callEmbeddingAPI(texts: string[], signal?: AbortSignal): Promise<number[][]> {
     if (this.config.model.provider === "openai") {
-      return this.callOpenAI(texts);
+      return this.callOpenAI(texts, signal);
     }
     throw new Error(`Unsupported embedding provider: ${this.config.model.provider}`);
   }
 
-  private async callOpenAI(texts: string[]): Promise<number[][]> {
+  private async callOpenAI(texts: string[], signal?: AbortSignal): Promise<number[][]> {
     const baseUrl = this.config.baseUrl || "https://api.openai.com/v1";
     const url = `${baseUrl}/embeddings`;
+    await assertWithinQuota("vectorize");
 
     const response = await fetch(url, {
       method: "POST",
@@ -62,6 +68,7 @@ export class EmbeddingService {
         model: this.config.model.id,
         input: texts,
       }),
+      signal,
     });
 
     if (!response.ok) {
@@ -70,6 +77,16 @@ export class EmbeddingService {
     }
 
     const data = await response.json();
+    void recordUsage({
+      category: "embedding",
+      endpoint: new URL(baseUrl).host,
+      model: this.config.model.id,
+      inputTokens:
+        data.usage?.prompt_tokens ?? texts.reduce((sum, t) => sum + estimateTokens(t), 0),
+      outputTokens: 0,
+      estimated: !data.usage,
+      local: isLocalUrl(baseUrl),
+    });
     return (data.data as Array<{ embedding: number[]; index: number }>)
       .sort((a, b) => a.index - b.index)
       .map((d) => d.embedding);
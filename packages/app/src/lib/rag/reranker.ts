@@ -0,0 +1,76 @@
+import { useSettingsStore } from "@/stores/settings-store";
+import type { RetrievalConfig, SearchResult } from "@/types";
+/**
+ * Reranker — optional second pass over fused search candidates.
+ *
+ * - cross-encoder: a built-in model scores (query, passage) pairs in the embedding Worker
+ * - llm: the active AI endpoint grades every passage in a single request
+ *
+ * Both produce a 0-1 relevance score per result, recorded as `scores.rerank`
+ * next to the fusion score so retrieval quality can be compared before and after.
+ */
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { createChatModel } from "../ai/llm-provider";
+import { rerankWithCrossEncoder } from "../ai/local-embedding-service";
+import { assertWithinQuota } from "../usage/quota";
+
+/** Passages are truncated before being sent to the LLM to bound prompt size */
+const LLM_PASSAGE_CHARS = 600;
+
+const LLM_RERANK_PROMPT = `You are a search relevance grader. Given a query and numbered passages, rate how well each passage answers or relates to the query on a scale of 0 (irrelevant) to 10 (directly answers it).
+Respond with ONLY a JSON array of numbers, one score per passage, in passage order. Example for three passages: [7, 0, 3]`;
+
+async function scoreWithLLM(query: string, documents: string[]): Promise<number[]> {
+  await assertWithinQuota("ai_messages");
+  const llm = await createChatModel(useSettingsStore.getState().aiConfig, {
+    temperature: 0,
+    maxTokens: 512,
+    streaming: false,
+    usageCategory: "background",
+  });
+
+  const passages = documents
+    .map((doc, i) => `[${i}] ${doc.slice(0, LLM_PASSAGE_CHARS).replace(/\s+/g, " ")}`)
+    .join("\n\n");
+  const response = await llm.invoke([
+    new SystemMessage(LLM_RERANK_PROMPT),
+    new HumanMessage(`Query: ${query}\n\nPassages:\n${passages}`),
+  ]);
+
+  const text = typeof response.content === "string" ? response.content : "";
+  const match = text.match(/\[[\d\s.,]*\]/);
+  if (!match) throw new Error("Reranker response contained no score array");
+  const scores = JSON.parse(match[0]) as number[];
+  if (scores.length !== documents.length) {
+    throw new Error(`Reranker returned ${scores.length} scores for ${documents.length} passages`);
+  }
+  return scores.map((s) => Math.min(Math.max(s / 10, 0), 1));
+}
+
+/**
+ * Rerank candidates and return the best `topK`. `score` becomes the rerank
+ * score; the fused score stays available in `scores.fusion`.
+ */
+export async function rerankResults(
+  query: string,
+  candidates: SearchResult[],
+  config: RetrievalConfig,
+  topK: number,
+): Promise<SearchResult[]> {
+  if (config.rerank === "none" || candidates.length === 0) return candidates.slice(0, topK);
+
+  const documents = candidates.map((r) => r.chunk.content);
+  const rerankScores =
+    config.rerank === "cross-encoder"
+      ? await rerankWithCrossEncoder(config.crossEncoderModelId, query, documents)
+      : await scoreWithLLM(query, documents);
+
+  return candidates
+    .map((r, i) => ({
+      ...r,
+      score: rerankScores[i],
+      scores: { ...r.scores, fusion: r.scores?.fusion ?? r.score, rerank: rerankScores[i] },
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
@@ -1,4 +1,4 @@
-import { getChunks } from "@/lib/db/database";
+import { getBooks, getChunks, getChunksByIds } from "@/lib/db/database";
 /**
  * Hybrid search — vector + BM25 with configurable weighting
  * Full implementation with actual search algorithms.
@@ -6,9 +6,21 @@ import { getChunks } from "@/lib/db/database";
  * Optimization: In-memory embedding cache per book to avoid repeated
  * SQLite BLOB deserialization on every search query.
  */
-import type { Chunk, SearchQuery, SearchResult } from "@/types";
+import { useVectorModelStore } from "@/stores/vector-model-store";
+import type {
+  Chunk,
+  LibrarySearchQuery,
+  LibrarySearchResult,
+  RetrievalConfig,
+  SearchQuery,
+  SearchResult,
+  SearchScores,
+} from "@/types";
+import { queryBM25 } from "./bm25-index";
 import { cosineSimilarity } from "./embedding";
 import type { EmbeddingService } from "./embedding-service";
+import { rerankResults } from "./reranker";
+import type { Tokenizer } from "./tokenizer";
 
 let embeddingService: EmbeddingService | null = null;
 
@@ -24,17 +36,34 @@ interface CachedBookChunks {
   timestamp: number;
 }
 
+// Kept in least-recently-used order (Map iteration order) and capped by book
+// count; library search reads it but never fills it (see getCachedChunks)
 const chunkCache = new Map<string, CachedBookChunks>();
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const CACHE_MAX_BOOKS = 5;
 
-/** Get chunks for a book, using cache if available */
-async function getCachedChunks(bookId: string): Promise<Chunk[]> {
+/**
+ * Get chunks for a book, using cache if available. With `store` off (library
+ * scans) a cached copy is used but nothing is added or reordered: a scan over
+ * more books than the cache holds would otherwise evict every book before it
+ * is read again, and push out the books being chatted with.
+ */
+async function getCachedChunks(bookId: string, store = true): Promise<Chunk[]> {
   const cached = chunkCache.get(bookId);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+  const fresh = cached && Date.now() - cached.timestamp < CACHE_TTL_MS;
+  if (!store) return fresh ? cached.chunks : getChunks(bookId);
+
+  chunkCache.delete(bookId);
+  if (fresh) {
+    chunkCache.set(bookId, cached);
     return cached.chunks;
   }
   const chunks = await getChunks(bookId);
   chunkCache.set(bookId, { chunks, timestamp: Date.now() });
+  for (const oldest of chunkCache.keys()) {
+    if (chunkCache.size <= CACHE_MAX_BOOKS) break;
+    chunkCache.delete(oldest);
+  }
   return chunks;
 }
 
@@ -60,26 +89,35 @@ export async function search(query: SearchQuery): Promise<SearchResult[]> {
   }
 }
 
-/** Vector similarity search */
-async function vectorSearch(query: SearchQuery): Promise<SearchResult[]> {
+/** Embed the query text with the configured embedding service */
+async function embedQuery(text: string): Promise<number[]> {
   if (!embeddingService) {
     throw new Error("Embedding service not configured. Call configureSearch() first.");
   }
+  return embeddingService.embed(text);
+}
 
-  // Get query embedding
-  const queryEmbedding = await embeddingService.embed(query.query);
+/**
+ * Vector similarity search. Library search passes `queryEmbedding` to reuse
+ * one across books, and `cacheChunks: false` to keep its scan out of the cache.
+ */
+async function vectorSearch(
+  query: SearchQuery,
+  queryEmbedding?: number[],
+  cacheChunks = true,
+): Promise<SearchResult[]> {
+  const embedding = queryEmbedding ?? (await embedQuery(query.query));
 
   // Get all chunks for this book (cached)
-  const chunks = await getCachedChunks(query.bookId);
+  const chunks = await getCachedChunks(query.bookId, cacheChunks);
 
   // Compute cosine similarity against each chunk with an embedding
   const results: SearchResult[] = chunks
     .filter((c) => c.embedding && c.embedding.length > 0)
-    .map((chunk) => ({
-      chunk,
-      score: cosineSimilarity(queryEmbedding, chunk.embedding!),
-      matchType: "vector" as const,
-    }))
+    .map((chunk) => {
+      const score = cosineSimilarity(embedding, chunk.embedding!);
+      return { chunk, score, matchType: "vector" as const, scores: { vector: score } };
+    })
     .filter((r) => r.score >= (query.threshold || 0.3))
     .sort((a, b) => b.score - a.score)
     .slice(0, query.topK);
@@ -87,96 +125,79 @@ async function vectorSearch(query: SearchQuery): Promise<SearchResult[]> {
   return results;
 }
 
-// ---- BM25 pre-computed index cache ----
-interface BM25Index {
-  bookId: string;
-  avgdl: number;
-  docCount: number;
-  docTokens: string[][]; // tokenized content for each chunk
-  docLengths: number[];
-  chunkIds: string[];
-}
+/** BM25 keyword search over the book's persisted inverted index */
+async function bm25Search(query: SearchQuery): Promise<SearchResult[]> {
+  const { scores, terms, tokenizer } = await queryBM25(query.bookId, query.query);
+  const ranked = [...scores.entries()]
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, query.topK);
+  if (ranked.length === 0) return [];
 
-const bm25IndexCache = new Map<string, { index: BM25Index; timestamp: number }>();
+  // Only the winning chunks are loaded, without their embedding BLOBs
+  const chunks = new Map((await getChunksByIds(ranked.map(([id]) => id))).map((c) => [c.id, c]));
 
-function getOrBuildBM25Index(chunks: Chunk[], bookId: string): BM25Index {
-  const cached = bm25IndexCache.get(bookId);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    return cached.index;
+  const results: SearchResult[] = [];
+  for (const [id, score] of ranked) {
+    const chunk = chunks.get(id);
+    if (!chunk) continue;
+    results.push({
+      chunk,
+      score,
+      matchType: "bm25",
+      scores: { bm25: score },
+      highlights: findHighlightSnippets(chunk.content, terms, tokenizer),
+    });
   }
-
-  const docTokens = chunks.map((c) => tokenize(c.content));
-  const docLengths = docTokens.map((t) => t.length);
-  const avgdl = docLengths.reduce((s, l) => s + l, 0) / Math.max(chunks.length, 1);
-
-  const index: BM25Index = {
-    bookId,
-    avgdl,
-    docCount: chunks.length,
-    docTokens,
-    docLengths,
-    chunkIds: chunks.map((c) => c.id),
-  };
-
-  bm25IndexCache.set(bookId, { index, timestamp: Date.now() });
-  return index;
+  return results;
 }
 
-/** BM25 keyword search */
-async function bm25Search(query: SearchQuery): Promise<SearchResult[]> {
-  const chunks = await getCachedChunks(query.bookId);
-  if (chunks.length === 0) return [];
-
-  const terms = tokenize(query.query);
-  if (terms.length === 0) return [];
-
-  const idx = getOrBuildBM25Index(chunks, query.bookId);
+/** Effective retrieval settings: configured defaults plus per-query overrides */
+function resolveRetrievalConfig(query: { retrieval?: Partial<RetrievalConfig> }): RetrievalConfig {
+  return { ...useVectorModelStore.getState().retrievalConfig, ...query.retrieval };
+}
 
-  // BM25 parameters
-  const k1 = 1.5;
-  const b = 0.75;
+/** Number of fused candidates to keep — the reranker wants a wider pool than topK */
+function candidateCount(topK: number, config: RetrievalConfig): number {
+  return config.rerank === "none" ? topK : Math.max(topK, config.rerankCandidates);
+}
 
-  // Compute IDF for each query term
-  const idfMap = new Map<string, number>();
-  for (const term of terms) {
-    const df = idx.docTokens.filter((tokens) => tokens.includes(term)).length;
-    const idf = Math.log((idx.docCount - df + 0.5) / (df + 0.5) + 1);
-    idfMap.set(term, idf);
+/**
+ * Fuse vector and BM25 lists, then rerank if configured.
+ * A failing reranker (model download, LLM error) degrades to the fused order.
+ */
+async function fuseAndRerank(
+  queryText: string,
+  vectorResults: SearchResult[],
+  bm25Results: SearchResult[],
+  topK: number,
+  config: RetrievalConfig,
+): Promise<SearchResult[]> {
+  const poolSize = candidateCount(topK, config);
+  let fused: SearchResult[];
+  if (vectorResults.length === 0 || bm25Results.length === 0) {
+    fused = (vectorResults.length === 0 ? bm25Results : vectorResults)
+      .slice(0, poolSize)
+      .map((r) => ({ ...r, scores: { ...r.scores, fusion: r.score } }));
+  } else if (config.fusion === "weighted") {
+    fused = weightedFusion(vectorResults, bm25Results, poolSize, config.hybridAlpha);
+  } else {
+    fused = rrfFusion([vectorResults, bm25Results], poolSize);
   }
 
-  // Score each chunk
-  const results: SearchResult[] = chunks
-    .map((chunk, ci) => {
-      const docTokens = idx.docTokens[ci];
-      const docLen = idx.docLengths[ci];
-      let score = 0;
-
-      for (const term of terms) {
-        const tf = docTokens.filter((t) => t === term).length;
-        const idf = idfMap.get(term) || 0;
-        score += idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + b * (docLen / idx.avgdl))));
-      }
-
-      const highlights = score > 0 ? findHighlightSnippets(chunk.content, terms) : [];
-
-      return {
-        chunk,
-        score,
-        matchType: "bm25" as const,
-        highlights,
-      };
-    })
-    .filter((r) => r.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, query.topK);
-
-  return results;
+  try {
+    return await rerankResults(queryText, fused, config, topK);
+  } catch (err) {
+    console.warn("[search] Reranking failed, using fused order:", err);
+    return fused.slice(0, topK);
+  }
 }
 
-/** Hybrid search combining vector and BM25 with RRF fusion */
+/** Hybrid search: vector + BM25, fused (RRF or weighted) and optionally reranked */
 async function hybridSearch(query: SearchQuery): Promise<SearchResult[]> {
-  // Run both searches in parallel with double the topK to get better fusion
-  const expandedQuery = { ...query, topK: query.topK * 2 };
+  const config = resolveRetrievalConfig(query);
+  // Fetch double the candidate pool from each method to get better fusion
+  const expandedQuery = { ...query, topK: candidateCount(query.topK, config) * 2 };
 
   let vectorResults: SearchResult[] = [];
   let bm25Results: SearchResult[] = [];
@@ -190,72 +211,167 @@ async function hybridSearch(query: SearchQuery): Promise<SearchResult[]> {
 
   bm25Results = await bm25Search(expandedQuery);
 
-  if (vectorResults.length === 0) return bm25Results.slice(0, query.topK);
-  if (bm25Results.length === 0) return vectorResults.slice(0, query.topK);
-
-  return rrfFusion(vectorResults, bm25Results, query.topK);
+  return fuseAndRerank(query.query, vectorResults, bm25Results, query.topK, config);
 }
 
-/** Reciprocal Rank Fusion — merges results from multiple retrieval methods */
-function rrfFusion(
-  vectorResults: SearchResult[],
-  bm25Results: SearchResult[],
-  topK: number,
-  k = 60,
-): SearchResult[] {
-  const scores = new Map<string, number>();
-  const chunkMap = new Map<string, SearchResult>();
-
-  // Score from vector results
-  vectorResults.forEach((r, i) => {
-    const id = r.chunk.id;
-    scores.set(id, (scores.get(id) || 0) + 1 / (k + i + 1));
-    chunkMap.set(id, r);
-  });
+/**
+ * Search every vectorized book in the library.
+ * Each retrieval method runs per book; its hits are pooled into one ranked
+ * list across books (cosine scores as they are, BM25 scores min-max normalized
+ * per book), then the per-method lists are fused and reranked like single-book
+ * hybrid search.
+ */
+export async function searchLibrary(query: LibrarySearchQuery): Promise<LibrarySearchResult[]> {
+  const books = (await getBooks()).filter(
+    (b) => b.isVectorized && (!query.bookIds || query.bookIds.includes(b.id)),
+  );
+  if (books.length === 0) return [];
+
+  const config = resolveRetrievalConfig(query);
+  const expandedTopK =
+    query.mode === "hybrid" ? candidateCount(query.topK, config) * 2 : query.topK;
+  const useVector = query.mode !== "bm25";
+  const useBM25 = query.mode !== "vector";
+
+  let queryEmbedding: number[] | undefined;
+  if (useVector) {
+    try {
+      queryEmbedding = await embedQuery(query.query);
+    } catch (err) {
+      // Hybrid degrades to BM25 like single-book search; vector-only must fail loudly
+      if (!useBM25) throw err;
+    }
+  }
 
-  // Score from BM25 results
-  bm25Results.forEach((r, i) => {
-    const id = r.chunk.id;
-    scores.set(id, (scores.get(id) || 0) + 1 / (k + i + 1));
-    if (!chunkMap.has(id)) {
-      chunkMap.set(id, r);
+  const vectorPool: SearchResult[] = [];
+  const bm25Pool: SearchResult[] = [];
+  // Sequential on purpose: only one book's chunks and embeddings are held at a time
+  for (const book of books) {
+    const bookQuery: SearchQuery = { ...query, bookId: book.id, topK: expandedTopK };
+    if (queryEmbedding) {
+      vectorPool.push(...(await vectorSearch(bookQuery, queryEmbedding, false)));
+    }
+    if (useBM25) {
+      // BM25 scores depend on each book's corpus statistics; rescale per book so they compare
+      const results = await bm25Search(bookQuery);
+      const normalized = minMaxNormalize(results);
+      bm25Pool.push(...results.map((r) => ({ ...r, score: normalized.get(r.chunk.id) ?? 0 })));
     }
+  }
+
+  const byScore = (a: SearchResult, b: SearchResult) => b.score - a.score;
+  const vectorResults = vectorPool.sort(byScore).slice(0, expandedTopK);
+  const bm25Results = bm25Pool.sort(byScore).slice(0, expandedTopK);
+
+  const results =
+    query.mode === "hybrid"
+      ? await fuseAndRerank(query.query, vectorResults, bm25Results, query.topK, config)
+      : [...vectorResults, ...bm25Results].slice(0, query.topK);
+
+  const bookMap = new Map(books.map((b) => [b.id, b]));
+  return results.map((r) => {
+    const book = bookMap.get(r.chunk.bookId);
+    return {
+      ...r,
+      bookTitle: book?.meta.title || "",
+      bookAuthor: book?.meta.author || "",
+    };
   });
+}
+
+/** Reciprocal Rank Fusion — merges ranked lists from multiple retrieval methods */
+function rrfFusion(rankedLists: SearchResult[][], topK: number, k = 60): SearchResult[] {
+  const scores = new Map<string, number>();
+  const chunkMap = new Map<string, SearchResult>();
+  const stageScores = new Map<string, SearchScores>();
+
+  // Earlier lists win when the same chunk appears in several (keeps vector metadata first)
+  for (const list of rankedLists) {
+    list.forEach((r, i) => {
+      const id = r.chunk.id;
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + i + 1));
+      stageScores.set(id, { ...stageScores.get(id), ...r.scores });
+      if (!chunkMap.has(id)) {
+        chunkMap.set(id, r);
+      }
+    });
+  }
 
   return Array.from(scores.entries())
     .map(([id, score]) => ({
       ...chunkMap.get(id)!,
       score,
       matchType: "hybrid" as const,
+      scores: { ...stageScores.get(id), fusion: score },
     }))
     .sort((a, b) => b.score - a.score)
     .slice(0, topK);
 }
 
-/** Tokenize text for BM25 — handles both English and CJK characters */
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s\u4e00-\u9fff\u3040-\u309f\u30a0-\u30ff]/g, " ")
-    .split(/\s+/)
-    .filter((t) => t.length > 0);
+/** Scores of a result list rescaled to 0-1, by chunk id; a single or tied list scores 1 */
+function minMaxNormalize(list: SearchResult[]): Map<string, number> {
+  const values = list.map((r) => r.score);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  return new Map(list.map((r) => [r.chunk.id, range > 0 ? (r.score - min) / range : 1]));
 }
 
-/** Find highlight snippets around matching terms */
-function findHighlightSnippets(content: string, terms: string[], contextChars = 50): string[] {
+/**
+ * Weighted score fusion — min-max normalizes each list to 0-1, then combines
+ * `alpha * vector + (1 - alpha) * bm25`. A chunk missing from a list scores 0 there.
+ */
+function weightedFusion(
+  vectorResults: SearchResult[],
+  bm25Results: SearchResult[],
+  topK: number,
+  alpha: number,
+): SearchResult[] {
+  const vectorNorm = minMaxNormalize(vectorResults);
+  const bm25Norm = minMaxNormalize(bm25Results);
+
+  const merged = new Map<string, SearchResult>();
+  for (const r of [...vectorResults, ...bm25Results]) {
+    const existing = merged.get(r.chunk.id);
+    merged.set(r.chunk.id, {
+      ...(existing ?? r),
+      scores: { ...existing?.scores, ...r.scores },
+    });
+  }
+
+  return Array.from(merged.values())
+    .map((r) => {
+      const score =
+        alpha * (vectorNorm.get(r.chunk.id) ?? 0) + (1 - alpha) * (bm25Norm.get(r.chunk.id) ?? 0);
+      return { ...r, score, matchType: "hybrid" as const, scores: { ...r.scores, fusion: score } };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Find highlight snippets around matching terms. The content is tokenized with
+ * the same tokenizer as the query, so stemmed or segmented terms still map back
+ * to their original spans.
+ */
+function findHighlightSnippets(
+  content: string,
+  terms: string[],
+  tokenizer: Tokenizer,
+  contextChars = 50,
+): string[] {
   const snippets: string[] = [];
-  const lowerContent = content.toLowerCase();
+  const remaining = new Set(terms);
 
-  for (const term of terms) {
-    const idx = lowerContent.indexOf(term);
-    if (idx === -1) continue;
+  for (const token of tokenizer.tokens(content)) {
+    if (!remaining.delete(token.term)) continue;
 
-    const start = Math.max(0, idx - contextChars);
-    const end = Math.min(content.length, idx + term.length + contextChars);
+    const start = Math.max(0, token.start - contextChars);
+    const end = Math.min(content.length, token.end + contextChars);
     const snippet =
       (start > 0 ? "..." : "") + content.slice(start, end) + (end < content.length ? "..." : "");
     snippets.push(snippet);
+    if (snippets.length === 3 || remaining.size === 0) break; // max 3 snippets
   }
 
-  return snippets.slice(0, 3); // max 3 snippets
+  return snippets;
 }
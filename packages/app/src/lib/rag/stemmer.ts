@@ -0,0 +1,330 @@
+/**
+ * Stemmers for the RAG tokenizer — the Porter algorithm for English and light
+ * suffix strippers for other Latin-script languages.
+ */
+
+export type Stemmer = (word: string) => string;
+
+// ---- Porter stemmer (M.F. Porter, 1980) ----
+
+function isConsonant(word: string, i: number): boolean {
+  const c = word[i];
+  if ("aeiou".includes(c)) return false;
+  if (c === "y") return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+/** m() — number of VC sequences in the stem */
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  const n = stem.length;
+  while (i < n && isConsonant(stem, i)) i++;
+  while (i < n) {
+    while (i < n && !isConsonant(stem, i)) i++;
+    if (i >= n) break;
+    m++;
+    while (i < n && isConsonant(stem, i)) i++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+/** *o — stem ends cvc, where the final c is not w, x or y */
+function endsCVC(word: string): boolean {
+  const n = word.length;
+  if (n < 3) return false;
+  return (
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !"wxy".includes(word[n - 1])
+  );
+}
+
+/** Replace `suffix` with `replacement` when the remaining stem has measure > minMeasure */
+function replaceSuffix(
+  word: string,
+  rules: Array<[string, string]>,
+  minMeasure: number,
+): string | null {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return null;
+}
+
+const STEP2_RULES: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["izer", "ize"],
+  ["bli", "ble"],
+  ["alli", "al"],
+  ["entli", "ent"],
+  ["eli", "e"],
+  ["ousli", "ous"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["aliti", "al"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+  ["logi", "log"],
+];
+
+const STEP3_RULES: Array<[string, string]> = [
+  ["icate", "ic"],
+  ["ative", ""],
+  ["alize", "al"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+];
+
+const STEP4_SUFFIXES = [
+  "al",
+  "ance",
+  "ence",
+  "er",
+  "ic",
+  "able",
+  "ible",
+  "ant",
+  "ement",
+  "ment",
+  "ent",
+  "ion",
+  "ou",
+  "ism",
+  "ate",
+  "iti",
+  "ous",
+  "ive",
+  "ize",
+];
+
+/** Longest-match lookup, as the algorithm requires for overlapping suffixes */
+function sortByLength<T extends string | [string, string]>(rules: T[]): T[] {
+  const len = (r: T) => (typeof r === "string" ? r.length : r[0].length);
+  return [...rules].sort((a, b) => len(b) - len(a));
+}
+
+const STEP2 = sortByLength(STEP2_RULES);
+const STEP3 = sortByLength(STEP3_RULES);
+const STEP4 = sortByLength(STEP4_SUFFIXES);
+
+export function porterStem(input: string): string {
+  if (input.length <= 2) return input;
+  let word = input;
+
+  // Step 1a
+  if (word.endsWith("sses")) word = word.slice(0, -2);
+  else if (word.endsWith("ies")) word = word.slice(0, -2);
+  else if (!word.endsWith("ss") && word.endsWith("s")) word = word.slice(0, -1);
+
+  // Step 1b
+  let step1bExtra = false;
+  if (word.endsWith("eed")) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else if (word.endsWith("ed") && hasVowel(word.slice(0, -2))) {
+    word = word.slice(0, -2);
+    step1bExtra = true;
+  } else if (word.endsWith("ing") && hasVowel(word.slice(0, -3))) {
+    word = word.slice(0, -3);
+    step1bExtra = true;
+  }
+  if (step1bExtra) {
+    if (word.endsWith("at") || word.endsWith("bl") || word.endsWith("iz")) {
+      word += "e";
+    } else if (endsWithDoubleConsonant(word) && !"lsz".includes(word[word.length - 1])) {
+      word = word.slice(0, -1);
+    } else if (measure(word) === 1 && endsCVC(word)) {
+      word += "e";
+    }
+  }
+
+  // Step 1c
+  if (word.endsWith("y") && hasVowel(word.slice(0, -1))) {
+    word = `${word.slice(0, -1)}i`;
+  }
+
+  // Steps 2 and 3
+  word = replaceSuffix(word, STEP2, 0) ?? word;
+  word = replaceSuffix(word, STEP3, 0) ?? word;
+
+  // Step 4
+  for (const suffix of STEP4) {
+    if (!word.endsWith(suffix)) continue;
+    const stem = word.slice(0, -suffix.length);
+    if (measure(stem) > 1 && (suffix !== "ion" || /[st]$/.test(stem))) word = stem;
+    break;
+  }
+
+  // Step 5a
+  if (word.endsWith("e")) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsCVC(stem))) word = stem;
+  }
+
+  // Step 5b
+  if (measure(word) > 1 && endsWithDoubleConsonant(word) && word.endsWith("l")) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+}
+
+// ---- Light stemmers for other Latin-script languages ----
+
+/**
+ * Strip the longest matching inflectional suffix while keeping a stem of at
+ * least `minStem` characters. Not a full morphological stemmer — it only
+ * conflates the common plural and verb/adjective endings.
+ */
+function createSuffixStemmer(suffixes: string[], minStem = 3): Stemmer {
+  const sorted = [...suffixes].sort((a, b) => b.length - a.length);
+  return (word) => {
+    for (const suffix of sorted) {
+      if (word.endsWith(suffix) && word.length - suffix.length >= minStem) {
+        return word.slice(0, -suffix.length);
+      }
+    }
+    return word;
+  };
+}
+
+export const LIGHT_STEMMERS: Record<string, Stemmer> = {
+  fr: createSuffixStemmer([
+    "issements",
+    "issement",
+    "ations",
+    "ation",
+    "ements",
+    "ement",
+    "euses",
+    "euse",
+    "ités",
+    "ité",
+    "ives",
+    "ive",
+    "eaux",
+    "aux",
+    "ées",
+    "ée",
+    "és",
+    "er",
+    "ez",
+    "es",
+    "e",
+    "s",
+    "x",
+  ]),
+  de: createSuffixStemmer([
+    "ungen",
+    "ung",
+    "heit",
+    "keit",
+    "ern",
+    "em",
+    "en",
+    "er",
+    "es",
+    "e",
+    "s",
+    "n",
+  ]),
+  es: createSuffixStemmer([
+    "aciones",
+    "ación",
+    "amientos",
+    "amiento",
+    "mente",
+    "idades",
+    "idad",
+    "ando",
+    "iendo",
+    "ados",
+    "idos",
+    "ado",
+    "ido",
+    "ar",
+    "er",
+    "ir",
+    "es",
+    "as",
+    "os",
+    "a",
+    "o",
+    "e",
+    "s",
+  ]),
+  it: createSuffixStemmer([
+    "azioni",
+    "azione",
+    "amento",
+    "amenti",
+    "mente",
+    "ità",
+    "ando",
+    "endo",
+    "are",
+    "ere",
+    "ire",
+    "ato",
+    "ati",
+    "ata",
+    "ate",
+    "i",
+    "e",
+    "a",
+    "o",
+  ]),
+  pt: createSuffixStemmer([
+    "ações",
+    "ação",
+    "amentos",
+    "amento",
+    "mente",
+    "idades",
+    "idade",
+    "ando",
+    "endo",
+    "ados",
+    "idos",
+    "ado",
+    "ido",
+    "ões",
+    "ar",
+    "er",
+    "ir",
+    "es",
+    "as",
+    "os",
+    "a",
+    "o",
+    "e",
+    "s",
+  ]),
+};
@@ -0,0 +1,56 @@
+/**
+ * Stop-word lists for the RAG tokenizer, keyed by primary language subtag.
+ * Kept short on purpose: only function words frequent enough to distort BM25.
+ */
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+export const STOP_WORDS: Record<string, Set<string>> = {
+  en: words(`
+    a about above after again against all am an and any are as at be because been before
+    being below between both but by can could did do does doing down during each few for
+    from further had has have having he her here hers herself him himself his how i if in
+    into is it its itself just me more most my myself no nor not now of off on once only or
+    other our ours ourselves out over own same she should so some such than that the their
+    theirs them themselves then there these they this those through to too under until up
+    very was we were what when where which while who whom why will with would you your
+    yours yourself yourselves
+  `),
+  fr: words(`
+    a au aux avec ce ces dans de des du elle en et eux il ils je la le les leur lui ma mais
+    me mes moi mon ne nos notre nous on ou par pas pour qu que qui sa se ses son sur ta te
+    tes toi ton tu un une vos votre vous y été être est sont était ont avait cette cet
+  `),
+  de: words(`
+    aber alle als am an auch auf aus bei bin bis bist da damit dann das dass dein der den
+    des dem die dies diese dir doch du durch ein eine einem einen einer eines er es für hat
+    hatte ich ihr im in ist ja kann man mein mit nach nicht noch nun nur ob oder sein sich
+    sie sind so um und uns unter von vor war was wenn wer wie wir wird zu zum zur über
+  `),
+  es: words(`
+    a al algo como con de del el ella ellas ellos en entre era es esa ese eso esta este esto
+    fue ha han hay la las le les lo los más me mi muy no nos o para pero por que se si sin
+    sobre su sus también te tu un una uno unos y ya yo
+  `),
+  it: words(`
+    a ad al alla alle anche che chi ci come con da dal dalla dei del della delle di e ed
+    gli ha hanno i il in io la le lei lo loro lui ma mi ne nei nel nella non o per più quando
+    se si sono su sua sue suo suoi tra un una uno è
+  `),
+  pt: words(`
+    a ao aos as com como da das de do dos e ela elas ele eles em entre era essa esse esta
+    este eu foi há isso mais mas me meu minha muito na nas no nos não o os ou para pela
+    pelo por que se sem seu sua são também te um uma você
+  `),
+  zh: words(`
+    的 了 是 在 和 与 及 或 也 就 都 而 着 之 其 这 那 有 我 你 他 她 它 们 我们 你们 他们
+    一个 没有 不是 就是 还是 以及 因为 所以 但是 如果 这个 那个 这些 那些 什么 怎么
+  `),
+  ja: words(`
+    の に は を た が で て と し れ さ ある いる も する から な こと として い や れる など
+    なっ ない この ため その あっ よう また もの という あり まで られ なる へ か だ これ
+  `),
+  ko: words(`
+    이 그 저 것 수 등 및 에 의 가 을 를 은 는 과 와 도 으로 로 에서 하다 있다 되다 않다
+  `),
+};
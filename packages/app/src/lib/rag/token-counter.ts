@@ -0,0 +1,73 @@
+/**
+ * Token counters for the chunker.
+ *
+ * Chunk budgets are meant in the embedding model's tokens, so when the active
+ * model is a built-in one its HuggingFace tokenizer is loaded and used
+ * directly. Remote models fall back to a script-aware estimate. Every counter
+ * has an `id` that goes into the chapter hash, so switching counters re-chunks.
+ */
+import { useVectorModelStore } from "@/stores/vector-model-store";
+import { BUILTIN_EMBEDDING_MODELS } from "../ai/builtin-embedding-models";
+
+export interface TokenCounter {
+  id: string;
+  count: (text: string) => number;
+}
+
+/** Han, kana and Hangul characters — usually one or more tokens each */
+const CJK_CHARS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Estimate without a tokenizer: one token per CJK character, ~4 characters
+ * per token for everything else (English-like text).
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_CHARS)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+export const heuristicTokenCounter: TokenCounter = {
+  id: "heuristic-v2",
+  count: estimateTokens,
+};
+
+const modelCounters = new Map<string, Promise<TokenCounter>>();
+
+/** Counter backed by a HuggingFace tokenizer (downloaded once, then cached) */
+function loadModelTokenCounter(hfModelId: string): Promise<TokenCounter> {
+  let counter = modelCounters.get(hfModelId);
+  if (!counter) {
+    counter = (async () => {
+      const { AutoTokenizer, env } = await import("@huggingface/transformers");
+      env.allowLocalModels = false;
+      const tokenizer = await AutoTokenizer.from_pretrained(hfModelId);
+      return {
+        id: `hf:${hfModelId}`,
+        count: (text: string) => tokenizer.encode(text, { add_special_tokens: false }).length,
+      };
+    })();
+    modelCounters.set(hfModelId, counter);
+    // Let a failed download be retried next time
+    counter.catch(() => modelCounters.delete(hfModelId));
+  }
+  return counter;
+}
+
+/**
+ * Counter matching the active embedding model's tokenizer when it is a
+ * built-in model, the heuristic otherwise (or if the tokenizer fails to load).
+ */
+export async function getEmbeddingTokenCounter(): Promise<TokenCounter> {
+  const vmState = useVectorModelStore.getState();
+  if (vmState.vectorModelMode !== "builtin") return heuristicTokenCounter;
+
+  const model = BUILTIN_EMBEDDING_MODELS.find((m) => m.id === vmState.selectedBuiltinModelId);
+  if (!model) return heuristicTokenCounter;
+
+  try {
+    return await loadModelTokenCounter(model.hfModelId);
+  } catch (err) {
+    console.warn(`[TokenCounter] Tokenizer for ${model.hfModelId} unavailable, estimating:`, err);
+    return heuristicTokenCounter;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Tokenizer layer shared by BM25 indexing, querying and snippet highlighting.
+ * Index and query side must split text identically or persisted postings stop
+ * matching query terms, so every tokenizer carries an `id` that is stored with
+ * the index and triggers a rebuild when it changes.
+ *
+ * Pipeline: word segmentation (Intl.Segmenter, or a regex + CJK bigram
+ * fallback) → lowercase → stop-word removal → stemming. Tokenizers are picked
+ * by the book's `BookMeta.language`; `registerTokenizer` adds or overrides one.
+ */
+import { LIGHT_STEMMERS, type Stemmer, porterStem } from "./stemmer";
+import { STOP_WORDS } from "./stop-words";
+
+export interface Token {
+  term: string;
+  /** Offsets of the source text span in the original string */
+  start: number;
+  end: number;
+}
+
+export interface Tokenizer {
+  id: string;
+  tokens: (text: string) => Token[];
+}
+
+/** Han, kana and Hangul — scripts written without spaces between words */
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]+/g;
+const WORD_RUN = /[\p{L}\p{N}_]+/gu;
+const HAS_WORD_CHAR = /[\p{L}\p{N}]/u;
+const LATIN_WORD = /^[\p{Script=Latin}]+$/u;
+
+const segmenterAvailable = typeof Intl !== "undefined" && "Segmenter" in Intl;
+const segmenters = new Map<string, Intl.Segmenter>();
+
+function getSegmenter(locale: string | undefined): Intl.Segmenter {
+  const key = locale ?? "";
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(locale, { granularity: "word" });
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+}
+
+/** Overlapping character bigrams of a CJK run (a lone character stays a unigram) */
+function bigrams(run: string, offset: number): Token[] {
+  if (run.length === 1) return [{ term: run, start: offset, end: offset + 1 }];
+  const result: Token[] = [];
+  for (let i = 0; i < run.length - 1; i++) {
+    result.push({ term: run.slice(i, i + 2), start: offset + i, end: offset + i + 2 });
+  }
+  return result;
+}
+
+/** Regex fallback: words split on non-letters, CJK runs split into bigrams */
+function segmentFallback(text: string): Token[] {
+  const result: Token[] = [];
+  for (const match of text.matchAll(WORD_RUN)) {
+    const word = match[0];
+    const start = match.index ?? 0;
+    if (!CJK_CHAR.test(word)) {
+      result.push({ term: word, start, end: start + word.length });
+      continue;
+    }
+    // Mixed runs ("AI时代"): split CJK runs from the rest
+    let last = 0;
+    for (const run of word.matchAll(CJK_RUN)) {
+      const runStart = run.index ?? 0;
+      if (runStart > last) {
+        result.push({
+          term: word.slice(last, runStart),
+          start: start + last,
+          end: start + runStart,
+        });
+      }
+      result.push(...bigrams(run[0], start + runStart));
+      last = runStart + run[0].length;
+    }
+    if (last < word.length) {
+      result.push({ term: word.slice(last), start: start + last, end: start + word.length });
+    }
+  }
+  return result;
+}
+
+/** Split text into word segments with their offsets */
+export function segmentWords(text: string, locale?: string): Token[] {
+  if (!segmenterAvailable) return segmentFallback(text);
+  const result: Token[] = [];
+  for (const { segment, index, isWordLike } of getSegmenter(locale).segment(text)) {
+    if (isWordLike === false || !HAS_WORD_CHAR.test(segment)) continue;
+    result.push({ term: segment, start: index, end: index + segment.length });
+  }
+  return result;
+}
+
+interface TokenizerOptions {
+  id: string;
+  /** Locale passed to Intl.Segmenter; undefined lets ICU pick per script */
+  locale?: string;
+  stopWords?: Set<string>;
+  /** Applied to Latin-script words only, so CJK terms in mixed text stay intact */
+  stem?: Stemmer;
+}
+
+export function createTokenizer({ id, locale, stopWords, stem }: TokenizerOptions): Tokenizer {
+  return {
+    id,
+    tokens: (text) => {
+      const result: Token[] = [];
+      for (const segment of segmentWords(text, locale)) {
+        let term = segment.term.toLowerCase();
+        if (stopWords?.has(term)) continue;
+        if (stem && LATIN_WORD.test(term)) term = stem(term);
+        if (term) result.push({ ...segment, term });
+      }
+      return result;
+    },
+  };
+}
+
+// Bump when segmentation or normalization changes so persisted indexes rebuild
+const VERSION = "v1";
+const SEGMENTER_TAG = segmenterAvailable ? "seg" : "bigram";
+
+/** Used for books without a (known) language: segmentation only, no stemming */
+const defaultTokenizer = createTokenizer({ id: `default-${SEGMENTER_TAG}-${VERSION}` });
+
+const tokenizers = new Map<string, Tokenizer>();
+
+/** Register (or replace) the tokenizer for a primary language subtag, e.g. "en" */
+export function registerTokenizer(language: string, tokenizer: Tokenizer): void {
+  tokenizers.set(language.toLowerCase(), tokenizer);
+}
+
+for (const language of ["zh", "ja", "ko"]) {
+  registerTokenizer(
+    language,
+    createTokenizer({
+      id: `${language}-${SEGMENTER_TAG}-${VERSION}`,
+      locale: language,
+      stopWords: STOP_WORDS[language],
+    }),
+  );
+}
+
+registerTokenizer(
+  "en",
+  createTokenizer({
+    id: `en-${SEGMENTER_TAG}-porter-${VERSION}`,
+    locale: "en",
+    stopWords: STOP_WORDS.en,
+    stem: porterStem,
+  }),
+);
+
+for (const [language, stem] of Object.entries(LIGHT_STEMMERS)) {
+  registerTokenizer(
+    language,
+    createTokenizer({
+      id: `${language}-${SEGMENTER_TAG}-light-${VERSION}`,
+      locale: language,
+      stopWords: STOP_WORDS[language],
+      stem,
+    }),
+  );
+}
+
+/** Tokenizer for a BCP 47 language tag ("en-US", "zh-Hans"); falls back to the default */
+export function getTokenizer(language?: string): Tokenizer {
+  const primary = language?.trim().toLowerCase().split(/[-_]/)[0];
+  return (primary && tokenizers.get(primary)) || defaultTokenizer;
+}
+
+/** Terms of a text, in order */
+export function tokenize(text: string, tokenizer: Tokenizer = defaultTokenizer): string[] {
+  return tokenizer.tokens(text).map((t) => t.term);
+}
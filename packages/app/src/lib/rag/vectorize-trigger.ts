@@ -7,33 +7,116 @@
 import { eventBus } from "@/lib/event-bus";
 import { useLibraryStore } from "@/stores/library-store";
 import { useVectorModelStore } from "@/stores/vector-model-store";
-import type { VectorizeProgress } from "@/types";
+import type { Chunk, VectorizeProgress } from "@/types";
 import { BUILTIN_EMBEDDING_MODELS } from "../ai/builtin-embedding-models";
 import { generateLocalEmbeddings, loadEmbeddingPipeline } from "../ai/local-embedding-service";
-import { insertChunks, deleteChunks } from "../db/database";
+import {
+  type ChapterChunkState,
+  deleteChapterChunks,
+  getChapterChunkStates,
+  insertChunks,
+} from "../db/database";
+import { recordUsage } from "../usage/ledger";
+import { isLocalUrl } from "../usage/pricing";
+import { assertWithinQuota } from "../usage/quota";
+import { indexBookBM25 } from "./bm25-index";
 import { extractBookChapters } from "./book-extractor";
-import { chunkContent } from "./chunker";
+import { type ChunkerConfig, chunkContent } from "./chunker";
 import { invalidateChunkCache } from "./search";
+import { estimateTokens, getEmbeddingTokenCounter } from "./token-counter";
 
 export type VectorizeStatusCallback = (progress: VectorizeProgress) => void;
 
+/** True for the rejection of an aborted signal (fetch, Worker request or throwIfAborted) */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
 /** Yield to the event loop so UI can repaint */
 const yieldToUI = () => new Promise<void>((r) => setTimeout(r, 0));
 
+/** Chunking settings; part of the chapter hash so changing them re-chunks every chapter */
+const CHUNKER_CONFIG: ChunkerConfig = {
+  targetTokens: 300,
+  minTokens: 50,
+  overlapRatio: 0.2,
+  strategy: "sentence",
+};
+
+/** Identity of the active embedding model, stored on every chunk it embeds */
+interface EmbeddingModelInfo {
+  id: string;
+  /** Expected vector size, when known up front */
+  dimension?: number;
+}
+
+function getEmbeddingModelInfo(): EmbeddingModelInfo {
+  const vmState = useVectorModelStore.getState();
+  if (vmState.vectorModelMode === "builtin") {
+    const model = BUILTIN_EMBEDDING_MODELS.find((m) => m.id === vmState.selectedBuiltinModelId);
+    if (!model) {
+      throw new Error("No built-in model selected. Please select one in Settings → Vector Model.");
+    }
+    return { id: `builtin:${model.id}`, dimension: model.dimension };
+  }
+  const selected = vmState.getSelectedVectorModel();
+  if (!selected) {
+    throw new Error("No remote vector model selected. Please configure one in Settings → Vector Model.");
+  }
+  return { id: `remote:${selected.url}#${selected.modelId}`, dimension: selected.dimension };
+}
+
+/** SHA-256 of a chapter's text together with the chunker settings (token counter by id) */
+async function hashChapter(content: string, config: ChunkerConfig): Promise<string> {
+  const settings = JSON.stringify({ ...config, tokenCounter: config.tokenCounter?.id });
+  const data = new TextEncoder().encode(`${settings}\n${content}`);
+  const hash = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Stored chunks can be kept if they came from the same text and the same model */
+function isChapterUpToDate(
+  stored: ChapterChunkState,
+  chapterHash: string,
+  model: EmbeddingModelInfo,
+): boolean {
+  return (
+    stored.consistent &&
+    stored.missingEmbeddings === 0 &&
+    stored.chapterHash === chapterHash &&
+    stored.modelId === model.id &&
+    (model.dimension === undefined || stored.embeddingDim === model.dimension)
+  );
+}
+
 /**
- * Trigger full vectorization for a book.
+ * Vectorize a book incrementally.
  * 1. Extracts chapter text from the book file
- * 2. Chunks text into manageable pieces
- * 3. Generates embeddings (local via Worker or remote API)
- * 4. Stores chunks + embeddings in SQLite
- * 5. Updates library store
+ * 2. Chunks every chapter and hashes its text
+ * 3. Skips chapters whose stored chunks have the same hash and embedding model
+ * 4. Embeds the remaining chapters one at a time (local via Worker or remote API),
+ *    replacing each chapter's chunks in SQLite as soon as it is done — an
+ *    interrupted run therefore resumes after the last completed chapter
+ * 5. Rebuilds the BM25 inverted index and updates the library store
+ *
+ * Aborting `signal` stops the run between chapters or mid-batch; chapters
+ * already stored are kept, so the next run picks up where this one stopped.
  */
 export async function triggerVectorizeBook(
   bookId: string,
   filePath: string,
   onProgress?: VectorizeStatusCallback,
+  signal?: AbortSignal,
 ): Promise<void> {
-  const updateBook = useLibraryStore.getState().updateBook;
+  const { updateBook, books } = useLibraryStore.getState();
+  const book = books.find((b) => b.id === bookId);
+  // Restored when the run is cancelled or paused: the stored chunks are still usable
+  const previousState = {
+    isVectorized: book?.isVectorized ?? false,
+    vectorizeProgress: book?.vectorizeProgress ?? 0,
+  };
   const vmState = useVectorModelStore.getState();
 
   if (!vmState.vectorModelEnabled) {
@@ -54,51 +137,100 @@ export async function triggerVectorizeBook(
     onProgress?.(progress);
     await yieldToUI();
 
+    const model = getEmbeddingModelInfo();
+    // Budget chunks in the embedding model's own tokens when its tokenizer is available
+    const chunkerConfig: ChunkerConfig = {
+      ...CHUNKER_CONFIG,
+      locale: book?.meta.language,
+      tokenCounter: await getEmbeddingTokenCounter(),
+    };
+
     // Phase 1: Extract chapters from book file
     const chapters = await extractBookChapters(filePath);
+    signal?.throwIfAborted();
     if (chapters.length === 0) {
       throw new Error("No content could be extracted from the book.");
     }
 
-    // Phase 2: Chunk chapters
-    const allChunks: Array<{ id: string; bookId: string; chapterIndex: number; chapterTitle: string; content: string; tokenCount: number; startCfi: string; endCfi: string; embedding?: number[] }> = [];
+    // Phase 2: Chunk chapters and find the ones that need (re-)embedding
+    const storedStates = new Map(
+      (await getChapterChunkStates(bookId)).map((state) => [state.chapterIndex, state]),
+    );
+    const allChunks: Chunk[] = [];
+    const pendingChapters: Array<{ chapterIndex: number; chunks: Chunk[] }> = [];
+    let reusedChunks = 0;
+
     for (const chapter of chapters) {
-      const chunks = chunkContent(chapter.content, bookId, chapter.index, chapter.title, {
-        targetTokens: 300,
-        minTokens: 50,
-        overlapRatio: 0.2,
-      });
+      const chapterHash = await hashChapter(chapter.content, chunkerConfig);
+      const chunks: Chunk[] = chunkContent(
+        chapter.content,
+        bookId,
+        chapter.index,
+        chapter.title,
+        chunkerConfig,
+        chapter.segments,
+      ).map((chunk) => ({ ...chunk, chapterHash, modelId: model.id }));
       allChunks.push(...chunks);
+
+      const stored = storedStates.get(chapter.index);
+      if (stored && isChapterUpToDate(stored, chapterHash, model)) {
+        reusedChunks += chunks.length;
+      } else if (chunks.length > 0 || stored) {
+        pendingChapters.push({ chapterIndex: chapter.index, chunks });
+      }
     }
 
     if (allChunks.length === 0) {
       throw new Error("No chunks were generated from the book content.");
     }
 
+    // Chapters that no longer exist in the book file
+    const chapterIndices = new Set(chapters.map((c) => c.index));
+    await deleteChapterChunks(
+      bookId,
+      [...storedStates.keys()].filter((index) => !chapterIndices.has(index)),
+    );
+
     progress.totalChunks = allChunks.length;
     progress.status = "embedding";
-    progress.processedChunks = 0;
+    progress.processedChunks = reusedChunks;
     onProgress?.(progress);
     await yieldToUI();
 
-    // Phase 3: Generate embeddings
-    if (vmState.vectorModelMode === "builtin") {
-      await generateBuiltinEmbeddings(allChunks, vmState.selectedBuiltinModelId, progress, onProgress);
-    } else {
-      await generateRemoteEmbeddings(allChunks, progress, onProgress);
+    // Phase 3: Embed and store chapter by chapter
+    for (const { chapterIndex, chunks } of pendingChapters) {
+      signal?.throwIfAborted();
+      if (chunks.length > 0) {
+        if (vmState.vectorModelMode === "builtin") {
+          await generateBuiltinEmbeddings(
+            chunks,
+            vmState.selectedBuiltinModelId,
+            progress,
+            onProgress,
+            signal,
+          );
+        } else {
+          await generateRemoteEmbeddings(chunks, progress, onProgress, signal);
+        }
+        for (const chunk of chunks) chunk.embeddingDim = chunk.embedding?.length || undefined;
+      }
+
+      await deleteChapterChunks(bookId, [chapterIndex]);
+      // Insert in batches of 50 to avoid huge single transaction
+      const insertBatchSize = 50;
+      for (let i = 0; i < chunks.length; i += insertBatchSize) {
+        await insertChunks(chunks.slice(i, i + insertBatchSize));
+      }
     }
 
-    // Phase 4: Store in database (batch insert for performance)
+    // Phase 4: Rebuild the keyword index
     progress.status = "indexing";
     onProgress?.(progress);
     await yieldToUI();
 
-    await deleteChunks(bookId);
-    // Insert in batches of 50 to avoid huge single transaction
-    const insertBatchSize = 50;
-    for (let i = 0; i < allChunks.length; i += insertBatchSize) {
-      await insertChunks(allChunks.slice(i, i + insertBatchSize));
-    }
+    // Re-chunking is deterministic, so the in-memory chunks match what is stored;
+    // the index is persisted alongside them so BM25 queries skip re-tokenizing
+    await indexBookBM25(bookId, allChunks);
 
     // Invalidate search cache so next query picks up new embeddings
     invalidateChunkCache(bookId);
@@ -111,6 +243,14 @@ export async function triggerVectorizeBook(
     eventBus.emit("vectorize:completed", { bookId, chunksCount: allChunks.length });
 
   } catch (err) {
+    if (isAbortError(err)) {
+      progress.status = "idle";
+      onProgress?.(progress);
+      updateBook(bookId, previousState);
+      eventBus.emit("vectorize:cancelled", { bookId });
+      throw err;
+    }
+
     const message = err instanceof Error ? err.message : String(err);
     progress.status = "error";
     progress.error = message;
@@ -128,6 +268,7 @@ async function generateBuiltinEmbeddings(
   builtinModelId: string | null,
   progress: VectorizeProgress,
   onProgress?: VectorizeStatusCallback,
+  signal?: AbortSignal,
 ) {
   if (!builtinModelId) {
     throw new Error("No built-in model selected. Please select one in Settings → Vector Model.");
@@ -142,7 +283,9 @@ async function generateBuiltinEmbeddings(
   // Process in batches — Worker handles the heavy lifting off main thread
   // Larger batches are fine since Worker doesn't block UI
   const batchSize = 16;
-  let globalProcessed = 0;
+  // Chunks of earlier chapters (or reused ones) are already counted
+  const processedBefore = progress.processedChunks;
+  let globalProcessed = processedBefore;
 
   for (let i = 0; i < chunks.length; i += batchSize) {
     const batch = chunks.slice(i, i + batchSize);
@@ -155,7 +298,7 @@ async function generateBuiltinEmbeddings(
       texts,
       (done, _total) => {
         // Per-item progress within this batch
-        globalProcessed = batchOffset + done;
+        globalProcessed = processedBefore + batchOffset + done;
         progress.processedChunks = globalProcessed;
         eventBus.emit("vectorize:progress", {
           bookId: progress.bookId,
@@ -164,6 +307,7 @@ async function generateBuiltinEmbeddings(
         });
         onProgress?.(progress);
       },
+      signal,
     );
 
     for (let j = 0; j < batch.length; j++) {
@@ -180,6 +324,7 @@ async function generateRemoteEmbeddings(
   chunks: Array<{ content: string; embedding?: number[] }>,
   progress: VectorizeProgress,
   onProgress?: VectorizeStatusCallback,
+  signal?: AbortSignal,
 ) {
   const vmState = useVectorModelStore.getState();
   const selectedModel = vmState.getSelectedVectorModel();
@@ -194,9 +339,12 @@ async function generateRemoteEmbeddings(
   }
 
   const batchSize = 20;
+  const processedBefore = progress.processedChunks;
   for (let i = 0; i < chunks.length; i += batchSize) {
     const batch = chunks.slice(i, i + batchSize);
     const texts = batch.map((c) => c.content);
+    // Checked per batch so a long book stops once the quota runs out
+    await assertWithinQuota("vectorize");
 
     const requestBody = isOllama
       ? { model: selectedModel.modelId, input: texts }
@@ -206,6 +354,7 @@ async function generateRemoteEmbeddings(
       method: "POST",
       headers,
       body: JSON.stringify(requestBody),
+      signal,
     });
 
     if (!res.ok) {
@@ -214,6 +363,19 @@ async function generateRemoteEmbeddings(
     }
 
     const json = await res.json();
+    const reportedTokens: number | undefined = isOllama
+      ? json?.prompt_eval_count
+      : json?.usage?.prompt_tokens;
+    void recordUsage({
+      category: "embedding",
+      endpoint: selectedModel.name,
+      model: selectedModel.modelId,
+      inputTokens: reportedTokens ?? texts.reduce((sum, t) => sum + estimateTokens(t), 0),
+      outputTokens: 0,
+      estimated: reportedTokens === undefined,
+      local: isLocalUrl(selectedModel.url),
+    });
+
     const embeddings: number[][] = isOllama
       ? (json?.embeddings ?? [])
       : ((json?.data ?? []) as Array<{ embedding: number[]; index: number }>)
@@ -224,7 +386,7 @@ async function generateRemoteEmbeddings(
       batch[j].embedding = embeddings[j] ?? [];
     }
 
-    progress.processedChunks = Math.min(i + batchSize, chunks.length);
+    progress.processedChunks = processedBefore + Math.min(i + batchSize, chunks.length);
     eventBus.emit("vectorize:progress", {
       bookId: progress.bookId,
       progress: progress.processedChunks / progress.totalChunks,
@@ -3,6 +3,7 @@ import { deleteChunks, insertChunks } from "@/lib/db/database";
  * Vectorize pipeline — orchestrates chunking + embedding + indexing for a book
  */
 import type { Chunk, VectorConfig, VectorizeProgress } from "@/types";
+import { indexBookBM25 } from "./bm25-index";
 import { chunkContent } from "./chunker";
 import type { TextSegment } from "./book-extractor";
 import { EmbeddingService } from "./embedding-service";
@@ -79,6 +80,7 @@ export async function vectorizeBook(
     await deleteChunks(bookId);
     // Insert new chunks
     await insertChunks(allChunks);
+    await indexBookBM25(bookId, allChunks);
   } catch (err) {
     progress.status = "error";
     progress.error = err instanceof Error ? err.message : "Database indexing failed";
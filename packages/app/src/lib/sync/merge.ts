@@ -0,0 +1,81 @@
+/**
+ * Last-writer-wins merge of sync rows, keyed by id and decided by updated_at.
+ * Tombstones take part in the vote: a deletion wins over any row version that
+ * is not newer than it.
+ */
+import type { SyncRow, Tombstone } from "@/lib/db/database";
+
+export interface MergeResult {
+  /** Union of both sides with the newest version of every surviving row */
+  merged: SyncRow[];
+  /** Remote rows that are newer than (or missing from) the local side */
+  incoming: SyncRow[];
+  /** Union of both sides' tombstones, latest deletion time per id */
+  tombstones: Tombstone[];
+  /** Local rows deleted on the remote side after their last local update */
+  deleted: Tombstone[];
+  /** Whether the remote side lacks or holds an older version of any local row or tombstone */
+  remoteChanged: boolean;
+}
+
+/** Merge local and remote rows; on equal timestamps the local row is kept */
+export function mergeRows(
+  local: SyncRow[],
+  remote: SyncRow[],
+  localTombstones: Tombstone[] = [],
+  remoteTombstones: Tombstone[] = [],
+): MergeResult {
+  const merged = new Map<string, SyncRow>();
+  const incoming: SyncRow[] = [];
+  let remoteChanged = false;
+
+  for (const row of local) merged.set(row.id, row);
+
+  const remoteIds = new Set<string>();
+  for (const row of remote) {
+    remoteIds.add(row.id);
+    const existing = merged.get(row.id);
+    if (!existing || (row.updated_at ?? 0) > (existing.updated_at ?? 0)) {
+      merged.set(row.id, row);
+      incoming.push(row);
+    } else if ((existing.updated_at ?? 0) > (row.updated_at ?? 0)) {
+      remoteChanged = true;
+    }
+  }
+
+  if (!remoteChanged) {
+    remoteChanged = local.some((row) => !remoteIds.has(row.id));
+  }
+
+  const tombstones = new Map<string, number>();
+  for (const t of remoteTombstones) {
+    tombstones.set(t.id, Math.max(tombstones.get(t.id) ?? 0, t.deletedAt));
+  }
+  for (const t of localTombstones) {
+    const remoteDeletedAt = tombstones.get(t.id);
+    if (remoteDeletedAt === undefined || t.deletedAt > remoteDeletedAt) {
+      tombstones.set(t.id, t.deletedAt);
+      remoteChanged = true;
+    }
+  }
+
+  const localById = new Map(local.map((row) => [row.id, row]));
+  const deleted: Tombstone[] = [];
+  for (const [id, deletedAt] of tombstones) {
+    const row = merged.get(id);
+    if (!row || (row.updated_at ?? 0) > deletedAt) continue;
+    merged.delete(id);
+    const localRow = localById.get(id);
+    if (localRow && (localRow.updated_at ?? 0) <= deletedAt) {
+      deleted.push({ id, deletedAt });
+    }
+  }
+
+  return {
+    merged: [...merged.values()],
+    incoming: incoming.filter((row) => merged.has(row.id)),
+    tombstones: [...tombstones].map(([id, deletedAt]) => ({ id, deletedAt })),
+    deleted,
+    remoteChanged,
+  };
+}
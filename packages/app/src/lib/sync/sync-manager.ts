@@ -1,6 +1,26 @@
 /**
  * Cloud sync manager — handles data synchronization
+ *
+ * Keeps one JSON snapshot of the synced tables on a WebDAV server. Each sync
+ * pulls the snapshot, merges it with local rows (last writer wins on
+ * `updated_at`, with change-log tombstones so deletions propagate), writes the
+ * newer remote rows locally and pushes the merged snapshot back with an ETag
+ * precondition so concurrent devices cannot overwrite each other.
  */
+import {
+  CHANGE_LOG_RETENTION_MS,
+  SYNC_TABLES,
+  type SyncRow,
+  type SyncTable,
+  type Tombstone,
+  deleteSyncRows,
+  getSyncRows,
+  getSyncTombstones,
+  upsertSyncRows,
+} from "@/lib/db/database";
+import { eventBus } from "@/lib/event-bus";
+import { mergeRows } from "./merge";
+import { WebDAVClient, type WebDAVConfig, WebDAVConflictError } from "./webdav-client";
 
 export type SyncStatus = "idle" | "syncing" | "error" | "offline";
 
@@ -17,28 +37,151 @@ export interface SyncManager {
   disableAutoSync: () => void;
 }
 
+export interface SyncManagerOptions {
+  /** Current WebDAV settings, or null when sync is not configured */
+  getConfig: () => WebDAVConfig | null;
+  /** Stable id of this installation, recorded in pushed snapshots */
+  deviceId: string;
+}
+
+/** Remote snapshot file layout (version 1 had no tombstones) */
+export interface SyncSnapshot {
+  version: 1 | 2;
+  deviceId: string;
+  updatedAt: number;
+  tables: Partial<Record<SyncTable, SyncRow[]>>;
+  tombstones?: Partial<Record<SyncTable, Tombstone[]>>;
+}
+
+const SNAPSHOT_FILE = "snapshot.json";
+const MAX_CONFLICT_RETRIES = 3;
+
+/** Tables whose rows belong to a book and can only be stored once the book exists locally */
+const BOOK_SCOPED_TABLES: SyncTable[] = ["highlights", "notes", "bookmarks", "reading_sessions"];
+
+/** Pull, merge and push once; throws WebDAVConflictError if another device pushed meanwhile */
+async function runSyncPass(client: WebDAVClient, deviceId: string): Promise<void> {
+  const remote = await client.getJSON<SyncSnapshot>(SNAPSHOT_FILE);
+  const remoteTables = remote?.data.tables ?? {};
+  const remoteTombstones = remote?.data.tombstones ?? {};
+  const tombstoneCutoff = Date.now() - CHANGE_LOG_RETENTION_MS;
+  const pushedTombstones: Partial<Record<SyncTable, Tombstone[]>> = {};
+  const snapshot: SyncSnapshot = {
+    version: 2,
+    deviceId,
+    updatedAt: Date.now(),
+    tables: {},
+    tombstones: pushedTombstones,
+  };
+  let needsPush = !remote;
+  let localBookIds = new Set<string>();
+
+  for (const table of SYNC_TABLES) {
+    const localRows = await getSyncRows(table);
+    const { merged, incoming, tombstones, deleted, remoteChanged } = mergeRows(
+      localRows,
+      remoteTables[table] ?? [],
+      await getSyncTombstones(table),
+      remoteTombstones[table] ?? [],
+    );
+    snapshot.tables[table] = merged;
+    // Expired tombstones are dropped remotely too, matching local change log compaction
+    pushedTombstones[table] = tombstones.filter((t) => t.deletedAt >= tombstoneCutoff);
+    if (remoteChanged) needsPush = true;
+
+    await deleteSyncRows(table, deleted);
+
+    if (table === "books") {
+      const deletedIds = new Set(deleted.map((t) => t.id));
+      localBookIds = new Set(localRows.map((r) => r.id).filter((id) => !deletedIds.has(id)));
+      await upsertSyncRows(
+        table,
+        incoming.filter((r) => localBookIds.has(r.id)),
+      );
+    } else if (BOOK_SCOPED_TABLES.includes(table)) {
+      // Rows of books not present on this device stay in the snapshot only
+      await upsertSyncRows(
+        table,
+        incoming.filter((r) => localBookIds.has(r.book_id as string)),
+      );
+    }
+  }
+
+  if (!needsPush) return;
+  // No ETag on an existing file means the server can't do preconditions: write unconditionally
+  const precondition = remote ? (remote.etag ?? undefined) : null;
+  await client.putJSON(SNAPSHOT_FILE, snapshot, precondition);
+}
+
 /** Create a sync manager instance */
-export function createSyncManager(): SyncManager {
+export function createSyncManager(options: SyncManagerOptions): SyncManager {
   let state: SyncState = {
     status: "idle",
     lastSyncAt: null,
     error: null,
   };
   let autoSyncTimer: ReturnType<typeof setInterval> | null = null;
+  let inFlight: Promise<void> | null = null;
+
+  const doSync = async () => {
+    const config = options.getConfig();
+    if (!config?.url) {
+      throw new Error("WebDAV sync is not configured");
+    }
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      state = { ...state, status: "offline" };
+      eventBus.emit("sync:offline", {});
+      return;
+    }
+
+    state = { ...state, status: "syncing", error: null };
+    eventBus.emit("sync:started", {});
+
+    try {
+      const client = new WebDAVClient(config);
+      await client.ensureDir();
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await runSyncPass(client, options.deviceId);
+          break;
+        } catch (err) {
+          if (!(err instanceof WebDAVConflictError) || attempt >= MAX_CONFLICT_RETRIES) throw err;
+        }
+      }
+      const timestamp = Date.now();
+      state = { ...state, status: "idle", lastSyncAt: timestamp };
+      eventBus.emit("sync:completed", { timestamp });
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      state = { ...state, status: "error", error: error.message };
+      eventBus.emit("sync:error", { error });
+      throw error;
+    }
+  };
+
+  const sync = () => {
+    // Coalesce overlapping calls (e.g. manual sync during an auto-sync tick)
+    if (!inFlight) {
+      inFlight = doSync().finally(() => {
+        inFlight = null;
+      });
+    }
+    return inFlight;
+  };
 
   return {
     getState: () => state,
 
-    sync: async () => {
-      state = { ...state, status: "syncing", error: null };
-      // TODO: Implement cloud sync logic
-      state = { ...state, status: "idle", lastSyncAt: Date.now() };
-    },
+    sync,
 
     enableAutoSync: (intervalMs) => {
       if (autoSyncTimer) clearInterval(autoSyncTimer);
       autoSyncTimer = setInterval(async () => {
-        // TODO: auto sync
+        try {
+          await sync();
+        } catch (err) {
+          console.error("Auto sync failed:", err);
+        }
       }, intervalMs);
     },
 
@@ -0,0 +1,125 @@
+/**
+ * Minimal WebDAV client — just enough verbs to store sync snapshots
+ * (PROPFIND for connection tests, MKCOL, GET/PUT with ETag preconditions)
+ */
+
+export interface WebDAVConfig {
+  url: string;
+  username: string;
+  password: string;
+  /** Directory on the server that holds ReadAny's sync files */
+  remoteDir: string;
+}
+
+export interface WebDAVFile<T> {
+  data: T;
+  etag: string | null;
+}
+
+/** Raised when a conditional PUT loses against a concurrent writer (HTTP 412) */
+export class WebDAVConflictError extends Error {
+  constructor(path: string) {
+    super(`WebDAV precondition failed for ${path}`);
+    this.name = "WebDAVConflictError";
+  }
+}
+
+/**
+ * WebDAV servers rarely send CORS headers, so go through the Tauri HTTP plugin
+ * (allowed to reach the configured server by capabilities/webdav-sync.json)
+ */
+async function httpFetch(input: string, init: RequestInit): Promise<Response> {
+  const { fetch: tauriFetch } = await import("@tauri-apps/plugin-http");
+  return tauriFetch(input, init);
+}
+
+export class WebDAVClient {
+  private config: WebDAVConfig;
+
+  constructor(config: WebDAVConfig) {
+    this.config = config;
+  }
+
+  /** Absolute URL of a path inside the configured remote directory */
+  private resolve(path = ""): string {
+    const base = this.config.url.replace(/\/+$/, "");
+    const dir = this.config.remoteDir.replace(/^\/+|\/+$/g, "");
+    const segments = [dir, path.replace(/^\/+/, "")].filter(Boolean).map(encodeURI);
+    return [base, ...segments].join("/");
+  }
+
+  private headers(extra: Record<string, string> = {}): Record<string, string> {
+    const headers: Record<string, string> = { ...extra };
+    if (this.config.username) {
+      const credentials = new TextEncoder().encode(
+        `${this.config.username}:${this.config.password}`,
+      );
+      headers.Authorization = `Basic ${btoa(String.fromCharCode(...credentials))}`;
+    }
+    return headers;
+  }
+
+  /** Check that the server is reachable and the credentials are accepted */
+  async testConnection(): Promise<void> {
+    const response = await httpFetch(this.config.url.replace(/\/+$/, "/"), {
+      method: "PROPFIND",
+      headers: this.headers({ Depth: "0" }),
+    });
+    if (!response.ok && response.status !== 207) {
+      throw new Error(`WebDAV error (${response.status}): ${response.statusText}`);
+    }
+  }
+
+  /** Create the remote directory (and its parents) if missing */
+  async ensureDir(): Promise<void> {
+    const dir = this.config.remoteDir.replace(/^\/+|\/+$/g, "");
+    if (!dir) return;
+    const base = this.config.url.replace(/\/+$/, "");
+    let current = base;
+    for (const segment of dir.split("/")) {
+      current = `${current}/${encodeURI(segment)}`;
+      const response = await httpFetch(`${current}/`, {
+        method: "MKCOL",
+        headers: this.headers(),
+      });
+      // 405 Method Not Allowed = collection already exists
+      if (!response.ok && response.status !== 405) {
+        throw new Error(`WebDAV MKCOL failed (${response.status}): ${response.statusText}`);
+      }
+    }
+  }
+
+  /** Read and parse a JSON file; returns null if it does not exist yet */
+  async getJSON<T>(path: string): Promise<WebDAVFile<T> | null> {
+    const response = await httpFetch(this.resolve(path), {
+      method: "GET",
+      headers: this.headers({ Accept: "application/json" }),
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`WebDAV GET failed (${response.status}): ${response.statusText}`);
+    }
+    const data = (await response.json()) as T;
+    return { data, etag: response.headers.get("ETag") };
+  }
+
+  /**
+   * Write a JSON file. With `etag` the write only succeeds if the file is
+   * unchanged; with `etag === null` it only succeeds if the file does not exist.
+   */
+  async putJSON(path: string, data: unknown, etag?: string | null): Promise<void> {
+    const extra: Record<string, string> = { "Content-Type": "application/json" };
+    if (etag) extra["If-Match"] = etag;
+    else if (etag === null) extra["If-None-Match"] = "*";
+
+    const response = await httpFetch(this.resolve(path), {
+      method: "PUT",
+      headers: this.headers(extra),
+      body: JSON.stringify(data),
+    });
+    if (response.status === 412) throw new WebDAVConflictError(path);
+    if (!response.ok) {
+      throw new Error(`WebDAV PUT failed (${response.status}): ${response.statusText}`);
+    }
+  }
+}
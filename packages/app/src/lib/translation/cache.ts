@@ -1,92 +1,120 @@
 /**
  * Translation Cache
- * Simple in-memory cache for translation results
+ * Backed by the SQLite translation memory, keyed by the full source text.
+ * Least recently used entries are evicted once the memory outgrows its size cap.
  */
 
+import {
+  clearTranslationMemory,
+  evictTranslationMemory,
+  getAllTranslationMemory,
+  lookupTranslationMemory,
+  upsertTranslationMemory,
+} from "@/lib/db/database";
+import { useSettingsStore } from "@/stores/settings-store";
+import { IMPORTED_PROVIDER, parseTMX, toTMX } from "./tmx";
 import type { TranslatorName } from "./types";
 
-const CACHE_PREFIX = "readany_translation_cache_";
+/** Size cap used when none is configured */
+export const DEFAULT_MEMORY_LIMIT_MB = 50;
 
-/** Generate cache key */
-function getCacheKey(
-  text: string,
-  sourceLang: string,
-  targetLang: string,
-  provider: TranslatorName,
-): string {
-  const hash = simpleHash(text);
-  return `${CACHE_PREFIX}${provider}_${sourceLang}_${targetLang}_${hash}`;
-}
+/** Prefix of the per-entry localStorage keys used before the translation memory */
+const LEGACY_CACHE_PREFIX = "readany_translation_cache_";
+let legacyPurged = false;
 
-/** Simple hash function for cache key */
-function simpleHash(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32-bit integer
+/** Drop the old localStorage entries; they only stored a hash of the source, so can't be migrated */
+function purgeLegacyCache(): void {
+  if (legacyPurged) return;
+  legacyPurged = true;
+  try {
+    const keysToRemove: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(LEGACY_CACHE_PREFIX)) {
+        keysToRemove.push(key);
+      }
+    }
+    for (const key of keysToRemove) localStorage.removeItem(key);
+  } catch {
+    // Ignore storage errors
   }
-  return Math.abs(hash).toString(36);
 }
 
-/** Get translation from cache */
-export function getFromCache(
-  text: string,
+/** Get stored translations of texts, keyed by source text */
+export async function getFromCache(
+  texts: string[],
   sourceLang: string,
   targetLang: string,
   provider: TranslatorName,
-): string | null {
+  bookId?: string,
+): Promise<Map<string, string>> {
+  purgeLegacyCache();
   try {
-    const key = getCacheKey(text, sourceLang, targetLang, provider);
-    const cached = localStorage.getItem(key);
-    if (cached) {
-      const { translation, timestamp } = JSON.parse(cached);
-      // Cache expires after 7 days
-      if (Date.now() - timestamp < 7 * 24 * 60 * 60 * 1000) {
-        return translation;
-      }
-      localStorage.removeItem(key);
-    }
-  } catch {
-    // Ignore storage errors
+    // Prefer the translator's own output over entries imported from TMX files
+    return await lookupTranslationMemory(
+      texts,
+      sourceLang,
+      targetLang,
+      [provider, IMPORTED_PROVIDER],
+      bookId,
+    );
+  } catch (err) {
+    console.warn("[TranslationCache] Lookup failed:", err);
+    return new Map();
   }
-  return null;
 }
 
-/** Store translation in cache */
-export function storeInCache(
-  text: string,
-  translation: string,
+/** Evict least recently used entries down to the configured size cap */
+async function enforceSizeLimit(): Promise<void> {
+  const limitMB =
+    useSettingsStore.getState().translationConfig.memoryLimitMB ?? DEFAULT_MEMORY_LIMIT_MB;
+  await evictTranslationMemory(limitMB * 1024 * 1024);
+}
+
+/** Store translations, then evict down to the configured size cap */
+export async function storeInCache(
+  entries: Array<{ text: string; translation: string }>,
   sourceLang: string,
   targetLang: string,
   provider: TranslatorName,
-): void {
+  bookId?: string,
+): Promise<void> {
+  if (entries.length === 0) return;
+  const now = Date.now();
   try {
-    const key = getCacheKey(text, sourceLang, targetLang, provider);
-    localStorage.setItem(
-      key,
-      JSON.stringify({
+    await upsertTranslationMemory(
+      entries.map(({ text, translation }) => ({
+        sourceText: text,
+        sourceLang,
+        targetLang,
+        provider,
+        bookId: bookId ?? "",
         translation,
-        timestamp: Date.now(),
-      }),
+        createdAt: now,
+        lastUsedAt: now,
+      })),
     );
-  } catch {
-    // Ignore storage errors (quota exceeded, etc.)
+    await enforceSizeLimit();
+  } catch (err) {
+    console.warn("[TranslationCache] Store failed:", err);
   }
 }
 
-/** Clear all translation cache */
-export function clearTranslationCache(): void {
-  try {
-    const keysToRemove: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key?.startsWith(CACHE_PREFIX)) {
-        keysToRemove.push(key);
-      }
-    }
-    keysToRemove.forEach((key) => localStorage.removeItem(key));
-  } catch {
-    // Ignore storage errors
-  }
+/** Clear the translation memory, or only one book's entries */
+export async function clearTranslationCache(bookId?: string): Promise<void> {
+  purgeLegacyCache();
+  await clearTranslationMemory(bookId);
+}
+
+/** The translation memory (or one book's part of it) as a TMX document */
+export async function exportTranslationMemory(bookId?: string): Promise<string> {
+  return toTMX(await getAllTranslationMemory(bookId));
+}
+
+/** Merge a TMX document into the translation memory; returns the number of entries read */
+export async function importTranslationMemory(xml: string): Promise<number> {
+  const entries = parseTMX(xml);
+  await upsertTranslationMemory(entries);
+  await enforceSizeLimit();
+  return entries.length;
 }
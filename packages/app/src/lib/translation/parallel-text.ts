@@ -0,0 +1,207 @@
+/**
+ * Parallel text — bilingual reading mode
+ * Shows each paragraph's translation right below it in the section document.
+ * Injected blocks carry the `cfi-inert` attribute, which foliate-js leaves out
+ * when computing and resolving CFIs, so highlights stay anchored to the original text.
+ */
+
+import { getParagraphTranslations, upsertParagraphTranslations } from "@/lib/db/database";
+import { useSettingsStore } from "@/stores/settings-store";
+import type { ParagraphTranslation } from "@/types";
+import { parseGlossary, resolveTranslatorConfig } from "./registry";
+import { translateBatch } from "./translator";
+
+const TRANSLATION_ATTR = "data-readany-translation";
+const STYLE_ATTR = "data-readany-parallel-style";
+const PARAGRAPH_SELECTOR = "p, h1, h2, h3, h4, h5, h6, li, blockquote, dt, dd, figcaption";
+/** Blocks whose translation goes inside them rather than after them (e.g. keep lists valid) */
+const APPEND_INSIDE = new Set(["LI", "DT", "DD"]);
+
+/** Paragraphs translated ahead of the one at the top of the page */
+const LOOKAHEAD_PARAGRAPHS = 30;
+
+const PARALLEL_TEXT_CSS = `
+[${TRANSLATION_ATTR}] {
+  margin: 0.3em 0 1em;
+  opacity: 0.72;
+  font-size: 0.95em;
+  text-indent: 0;
+  -webkit-user-select: none;
+  user-select: none;
+}`;
+
+interface SectionState {
+  /** `${targetLang}:${provider}` the state was built for */
+  key: string;
+  /** Paragraph index -> translation; loaded from the cache, then filled in */
+  translations: Map<number, string>;
+  /** Paragraphs currently being translated */
+  pending: Set<number>;
+  loaded: Promise<void>;
+}
+
+const sectionStates = new WeakMap<Document, SectionState>();
+
+/** Short hash of a paragraph's text, to notice when a cached entry no longer matches it */
+function simpleHash(str: string): string {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash << 5) - hash + str.charCodeAt(i);
+    hash |= 0; // Convert to 32-bit integer
+  }
+  return Math.abs(hash).toString(36);
+}
+
+/** Translatable paragraphs of a section, in document order */
+export function getParagraphs(doc: Document): HTMLElement[] {
+  const elements = doc.body?.querySelectorAll<HTMLElement>(PARAGRAPH_SELECTOR) ?? [];
+  return Array.from(elements).filter(
+    (el) =>
+      !el.closest(`[${TRANSLATION_ATTR}]`) &&
+      // Innermost blocks only: a blockquote's paragraphs are translated one by one
+      !el.querySelector(PARAGRAPH_SELECTOR) &&
+      /\p{L}/u.test(el.textContent ?? ""),
+  );
+}
+
+function paragraphText(el: HTMLElement): string {
+  return (el.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+/** Index of the first paragraph at or after the start of a range (e.g. the visible page) */
+export function paragraphIndexAt(paragraphs: HTMLElement[], range: Range): number {
+  const node = range.startContainer;
+  const index = paragraphs.findIndex(
+    (p) =>
+      p.contains(node) || !!(node.compareDocumentPosition(p) & Node.DOCUMENT_POSITION_FOLLOWING),
+  );
+  return Math.max(0, index);
+}
+
+function findTranslationBlock(el: HTMLElement): HTMLElement | null {
+  if (APPEND_INSIDE.has(el.tagName.toUpperCase())) {
+    return el.querySelector<HTMLElement>(`:scope > [${TRANSLATION_ATTR}]`);
+  }
+  const next = el.nextElementSibling;
+  return next?.hasAttribute(TRANSLATION_ATTR) ? (next as HTMLElement) : null;
+}
+
+function showTranslation(el: HTMLElement, text: string, lang: string): void {
+  const doc = el.ownerDocument;
+  if (!doc.head?.querySelector(`[${STYLE_ATTR}]`)) {
+    const style = doc.createElement("style");
+    style.setAttribute("cfi-inert", "");
+    style.setAttribute(STYLE_ATTR, "");
+    style.textContent = PARALLEL_TEXT_CSS;
+    doc.head?.append(style);
+  }
+
+  let block = findTranslationBlock(el);
+  if (!block) {
+    block = doc.createElement("div");
+    block.setAttribute("cfi-inert", "");
+    block.setAttribute(TRANSLATION_ATTR, "");
+    if (APPEND_INSIDE.has(el.tagName.toUpperCase())) el.append(block);
+    else el.after(block);
+  }
+  block.lang = lang;
+  block.textContent = text;
+}
+
+/** Remove all injected translations from a section document */
+export function removeTranslations(doc: Document): void {
+  for (const el of doc.querySelectorAll(`[${TRANSLATION_ATTR}], [${STYLE_ATTR}]`)) {
+    el.remove();
+  }
+  sectionStates.delete(doc);
+}
+
+/**
+ * Show cached translations for a loaded section and translate the paragraphs
+ * from `fromParagraph` onward that aren't translated yet.
+ * Returns the error message when translating failed.
+ */
+export async function translateSection(
+  bookId: string,
+  sectionIndex: number,
+  doc: Document,
+  fromParagraph = 0,
+): Promise<string | null> {
+  const { translationConfig, aiConfig } = useSettingsStore.getState();
+  const { targetLang } = translationConfig;
+  const provider = translationConfig.provider.id;
+  const paragraphs = getParagraphs(doc);
+  if (paragraphs.length === 0) return null;
+
+  let state = sectionStates.get(doc);
+  const key = `${targetLang}:${provider}`;
+  if (!state || state.key !== key) {
+    if (state) removeTranslations(doc);
+    const translations = new Map<number, string>();
+    const loaded = getParagraphTranslations(bookId, sectionIndex, targetLang, provider)
+      .then((cached) => {
+        for (const entry of cached) {
+          const el = paragraphs[entry.paragraphIndex];
+          // A changed source text (e.g. a re-imported book) invalidates the entry
+          if (el && simpleHash(paragraphText(el)) === entry.sourceHash) {
+            translations.set(entry.paragraphIndex, entry.translation);
+          }
+        }
+      })
+      .catch((err) => console.warn("[ParallelText] Failed to load cached translations:", err));
+    state = { key, translations, pending: new Set(), loaded };
+    sectionStates.set(doc, state);
+  }
+  await state.loaded;
+
+  for (const [index, translation] of state.translations) {
+    showTranslation(paragraphs[index], translation, targetLang);
+  }
+
+  const todo: number[] = [];
+  const end = Math.min(paragraphs.length, fromParagraph + LOOKAHEAD_PARAGRAPHS);
+  for (let i = fromParagraph; i < end; i++) {
+    if (!state.translations.has(i) && !state.pending.has(i)) todo.push(i);
+  }
+  if (todo.length === 0) return null;
+
+  const sectionState = state;
+  for (const i of todo) sectionState.pending.add(i);
+  try {
+    const texts = todo.map((i) => paragraphText(paragraphs[i]));
+    const results = await translateBatch(
+      texts,
+      translationConfig,
+      resolveTranslatorConfig(translationConfig, aiConfig),
+      { glossary: parseGlossary(translationConfig.glossary) },
+    );
+
+    // The mode may have been switched off, or the language changed, meanwhile
+    if (sectionStates.get(doc) !== sectionState) return null;
+
+    const now = Date.now();
+    const fresh: ParagraphTranslation[] = [];
+    for (const [n, i] of todo.entries()) {
+      const translation = results[n]?.translatedText;
+      if (!translation) continue;
+      sectionState.translations.set(i, translation);
+      showTranslation(paragraphs[i], translation, targetLang);
+      fresh.push({
+        bookId,
+        sectionIndex,
+        paragraphIndex: i,
+        targetLang,
+        provider,
+        sourceHash: simpleHash(texts[n]),
+        translation,
+        createdAt: now,
+      });
+    }
+    await upsertParagraphTranslations(fresh).catch((err) =>
+      console.warn("[ParallelText] Failed to cache translations:", err),
+    );
+    return results.find((r) => r.error)?.error ?? null;
+  } finally {
+    for (const i of todo) sectionState.pending.delete(i);
+  }
+}
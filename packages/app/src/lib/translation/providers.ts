@@ -1,9 +1,14 @@
 /**
  * Translation Providers
- * Supports AI (using existing AI config) and DeepL
+ * Built-in translators: AI (using existing AI config), DeepL, Google, Microsoft,
+ * LibreTranslate and a local Ollama endpoint. Registered in ./registry.
  */
 
-import type { TranslationProvider, TranslatorName } from "./types";
+import { estimateTokens } from "../rag/token-counter";
+import { recordUsage } from "../usage/ledger";
+import { isLocalUrl } from "../usage/pricing";
+import { assertWithinQuota } from "../usage/quota";
+import type { TranslateOptions, TranslationProvider, TranslationTargetLang } from "./types";
 
 /** Get language display name */
 function getLanguageName(code: string): string {
@@ -31,7 +36,75 @@ function getLanguageName(code: string): string {
   return langMap[code] || code;
 }
 
-/** AI Translation - uses OpenAI-compatible API */
+/** Prompt line asking an LLM to follow the glossary */
+function glossaryInstruction(glossary?: Record<string, string>): string {
+  const entries = Object.entries(glossary ?? {});
+  if (entries.length === 0) return "";
+  const lines = entries.map(([term, translation]) => `- ${term} => ${translation}`);
+  return `\nAlways translate these terms as given:\n${lines.join("\n")}`;
+}
+
+async function assertOk(response: Response, service: string): Promise<void> {
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`${service} API error (${response.status}): ${error}`);
+  }
+}
+
+/** Attempts for a request that keeps getting HTTP 429 */
+const MAX_RATE_LIMIT_ATTEMPTS = 4;
+
+/** fetch that waits and retries on HTTP 429, honouring Retry-After when present */
+async function fetchWithBackoff(url: string, init: RequestInit): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(url, init);
+    if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_ATTEMPTS) return response;
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    const delay = retryAfter > 0 ? retryAfter * 1000 : 1000 * 2 ** (attempt - 1);
+    await new Promise((resolve) => setTimeout(resolve, Math.min(delay, 30_000)));
+  }
+}
+
+/** Raised when a batched AI reply can't be matched up with its inputs */
+export class BatchMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchMismatchError";
+  }
+}
+
+/** Requests per batch before falling back to smaller batches */
+const MAX_BATCH_ATTEMPTS = 2;
+/** Source characters packed into one AI request */
+const MAX_BATCH_CHARS = 6000;
+
+/** Read the {"translations": [...]} reply of a batch request */
+export function parseBatchReply(content: string, expected: number): string[] {
+  // Models sometimes wrap JSON in a code fence or add a sentence around it
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start < 0 || end < start) {
+    throw new BatchMismatchError("Reply is not JSON");
+  }
+  let translations: unknown;
+  try {
+    translations = JSON.parse(content.slice(start, end + 1)).translations;
+  } catch {
+    throw new BatchMismatchError("Reply is not valid JSON");
+  }
+  if (!Array.isArray(translations) || translations.some((t) => typeof t !== "string")) {
+    throw new BatchMismatchError("Reply has no translations array");
+  }
+  if (translations.length !== expected) {
+    throw new BatchMismatchError(`Expected ${expected} translations, got ${translations.length}`);
+  }
+  return translations as string[];
+}
+
+/**
+ * AI Translation - uses OpenAI-compatible API.
+ * Every request is recorded in the usage ledger under `endpointName`.
+ */
 export async function aiTranslate(
   texts: string[],
   _sourceLang: string,
@@ -39,73 +112,99 @@ export async function aiTranslate(
   apiKey: string,
   baseUrl: string,
   model: string,
+  options?: TranslateOptions,
+  endpointName?: string,
 ): Promise<string[]> {
   if (!apiKey) {
     throw new Error("AI API key is required. Please configure in AI settings.");
   }
+  await assertWithinQuota("translation");
 
   const targetLangName = getLanguageName(targetLang);
+  const glossary = glossaryInstruction(options?.glossary);
   const apiUrl = baseUrl || "https://api.openai.com/v1";
+  const modelName = model || "gpt-4o-mini";
 
-  // For single text, use simple translation
-  if (texts.length === 1) {
-    const response = await fetch(`${apiUrl}/chat/completions`, {
+  const complete = async (system: string, user: string, maxTokens: number): Promise<string> => {
+    const response = await fetchWithBackoff(`${apiUrl}/chat/completions`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${apiKey}`,
       },
       body: JSON.stringify({
-        model: model || "gpt-4o-mini",
+        model: modelName,
         messages: [
-          {
-            role: "system",
-            content: `You are a professional translator. Translate the following text to ${targetLangName}. Only output the translation, no explanations or additional text.`,
-          },
-          { role: "user", content: texts[0] },
+          { role: "system", content: system },
+          { role: "user", content: user },
         ],
         temperature: 0.3,
-        max_tokens: 2048,
+        max_tokens: maxTokens,
       }),
     });
+    await assertOk(response, "AI");
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content?.trim() || "";
+    void recordUsage({
+      category: "translation",
+      endpoint: endpointName || new URL(apiUrl).host,
+      model: modelName,
+      inputTokens: data.usage?.prompt_tokens ?? estimateTokens(system + user),
+      outputTokens: data.usage?.completion_tokens ?? estimateTokens(content),
+      estimated: !data.usage,
+      local: isLocalUrl(apiUrl),
+    });
+    return content;
+  };
+
+  const translateOne = async (text: string): Promise<string> =>
+    (await complete(
+      `You are a professional translator. Translate the following text to ${targetLangName}. Only output the translation, no explanations or additional text.${glossary}`,
+      text,
+      2048,
+    )) || text;
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`AI API error (${response.status}): ${error}`);
+  /**
+   * Translate several paragraphs in one request so the model sees them in context.
+   * A reply that doesn't line up is retried, then the batch is halved.
+   */
+  const translateMany = async (batch: string[]): Promise<string[]> => {
+    if (batch.length === 1) return [await translateOne(batch[0])];
+
+    const chars = batch.reduce((sum, text) => sum + text.length, 0);
+    if (chars <= MAX_BATCH_CHARS) {
+      const system = `You are a professional translator. You receive a JSON array of ${batch.length} consecutive paragraphs. Translate each one to ${targetLangName}, keeping the surrounding paragraphs in mind for context.
+Reply with only a JSON object {"translations": [...]} holding exactly ${batch.length} strings, in the same order, one per input paragraph. Never merge or split paragraphs.${glossary}`;
+      const maxTokens = Math.min(8192, Math.max(2048, chars * 2));
+      for (let attempt = 1; attempt <= MAX_BATCH_ATTEMPTS; attempt++) {
+        try {
+          const reply = await complete(system, JSON.stringify(batch), maxTokens);
+          return parseBatchReply(reply, batch.length).map((t, i) => t.trim() || batch[i]);
+        } catch (err) {
+          if (!(err instanceof BatchMismatchError)) throw err;
+          console.warn(`[aiTranslate] Batch attempt ${attempt} failed: ${err.message}`);
+        }
+      }
     }
 
-    const data = await response.json();
-    return [data.choices[0]?.message?.content?.trim() || texts[0]];
-  }
+    const mid = Math.ceil(batch.length / 2);
+    return [
+      ...(await translateMany(batch.slice(0, mid))),
+      ...(await translateMany(batch.slice(mid))),
+    ];
+  };
 
-  // For multiple texts, translate individually
-  return Promise.all(
-    texts.map(async (text) => {
-      const response = await fetch(`${apiUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: model || "gpt-4o-mini",
-          messages: [
-            {
-              role: "system",
-              content: `You are a professional translator. Translate the following text to ${targetLangName}. Only output the translation.`,
-            },
-            { role: "user", content: text },
-          ],
-          temperature: 0.3,
-          max_tokens: 2048,
-        }),
-      });
-      const data = await response.json();
-      return data.choices[0]?.message?.content?.trim() || text;
-    }),
-  );
+  return translateMany(texts);
 }
 
+/** DeepL target codes that differ from ours */
+const DEEPL_TARGET_CODES: Record<string, string> = {
+  "zh-CN": "ZH-HANS",
+  "zh-TW": "ZH-HANT",
+  en: "EN-US",
+  pt: "PT-BR",
+};
+
 /** DeepL Translation */
 export async function deeplTranslate(
   texts: string[],
@@ -123,12 +222,12 @@ export async function deeplTranslate(
   // Build URLSearchParams properly
   const params = new URLSearchParams();
   texts.forEach((text) => params.append("text", text));
-  params.append("target_lang", targetLang.toUpperCase().replace("-", "_"));
+  params.append("target_lang", DEEPL_TARGET_CODES[targetLang] || targetLang.toUpperCase());
   if (sourceLang !== "AUTO") {
     params.append("source_lang", sourceLang.toUpperCase());
   }
 
-  const response = await fetch(`${apiBaseUrl}/translate`, {
+  const response = await fetchWithBackoff(`${apiBaseUrl}/translate`, {
     method: "POST",
     headers: {
       "Content-Type": "application/x-www-form-urlencoded",
@@ -146,45 +245,335 @@ export async function deeplTranslate(
   return texts.map((_, i) => data.translations?.[i]?.text || texts[i]);
 }
 
-/** Provider interface for internal use */
-interface InternalTranslationProvider {
-  name: TranslatorName;
-  label: string;
+/** Google Cloud Translation (v2, API key auth) */
+export async function googleTranslate(
+  texts: string[],
+  sourceLang: string,
+  targetLang: string,
+  apiKey: string,
+  baseUrl?: string,
+): Promise<string[]> {
+  const apiBaseUrl = baseUrl || "https://translation.googleapis.com/language/translate/v2";
+  const response = await fetchWithBackoff(`${apiBaseUrl}?key=${encodeURIComponent(apiKey)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      q: texts,
+      target: targetLang,
+      source: sourceLang === "AUTO" ? undefined : sourceLang,
+      format: "text",
+    }),
+  });
+  await assertOk(response, "Google");
+
+  const data = await response.json();
+  return texts.map((text, i) => data.data?.translations?.[i]?.translatedText || text);
 }
 
-/** Available translators list */
-export const TRANSLATOR_PROVIDERS: InternalTranslationProvider[] = [
-  { name: "ai", label: "AI 翻译" },
-  { name: "deepl", label: "DeepL" },
-];
+/** Microsoft Translator codes that differ from ours */
+const MICROSOFT_CODES: Record<string, string> = {
+  "zh-CN": "zh-Hans",
+  "zh-TW": "zh-Hant",
+};
+
+/** Microsoft Translator (Azure AI Translator v3) */
+export async function microsoftTranslate(
+  texts: string[],
+  sourceLang: string,
+  targetLang: string,
+  apiKey: string,
+  region?: string,
+  baseUrl?: string,
+): Promise<string[]> {
+  const apiBaseUrl = baseUrl || "https://api.cognitive.microsofttranslator.com";
+  const params = new URLSearchParams({
+    "api-version": "3.0",
+    to: MICROSOFT_CODES[targetLang] || targetLang,
+  });
+  if (sourceLang !== "AUTO") {
+    params.append("from", MICROSOFT_CODES[sourceLang] || sourceLang);
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "Ocp-Apim-Subscription-Key": apiKey,
+  };
+  // Required for regional and multi-service resources
+  if (region) headers["Ocp-Apim-Subscription-Region"] = region;
 
-/** Get all available translators */
-export function getTranslators(): InternalTranslationProvider[] {
-  return TRANSLATOR_PROVIDERS;
+  const response = await fetchWithBackoff(`${apiBaseUrl}/translate?${params}`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(texts.map((text) => ({ Text: text }))),
+  });
+  await assertOk(response, "Microsoft");
+
+  const data: Array<{ translations?: Array<{ text: string }> }> = await response.json();
+  return texts.map((text, i) => data[i]?.translations?.[0]?.text || text);
+}
+
+/** LibreTranslate codes that differ from ours */
+const LIBRE_CODES: Record<string, string> = {
+  "zh-CN": "zh",
+  "zh-TW": "zt",
+};
+
+/** LibreTranslate (self-hosted or libretranslate.com) */
+export async function libreTranslate(
+  texts: string[],
+  sourceLang: string,
+  targetLang: string,
+  baseUrl: string,
+  apiKey?: string,
+): Promise<string[]> {
+  const response = await fetchWithBackoff(`${baseUrl || "http://localhost:5000"}/translate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      q: texts,
+      source: sourceLang === "AUTO" ? "auto" : LIBRE_CODES[sourceLang] || sourceLang,
+      target: LIBRE_CODES[targetLang] || targetLang,
+      format: "text",
+      api_key: apiKey || undefined,
+    }),
+  });
+  await assertOk(response, "LibreTranslate");
+
+  // A q array returns an array of translations
+  const data: { translatedText: string | string[] } = await response.json();
+  const translated = Array.isArray(data.translatedText)
+    ? data.translatedText
+    : [data.translatedText];
+  return texts.map((text, i) => translated[i] || text);
 }
 
-/** Legacy exports for compatibility */
+/** Ollama — a local model via its native chat API, one text per request */
+export async function ollamaTranslate(
+  texts: string[],
+  _sourceLang: string,
+  targetLang: string,
+  baseUrl: string,
+  model: string,
+  options?: TranslateOptions,
+): Promise<string[]> {
+  if (!model) {
+    throw new Error("Ollama model is required");
+  }
+
+  const system = `You are a professional translator. Translate the following text to ${getLanguageName(targetLang)}. Only output the translation.${glossaryInstruction(options?.glossary)}`;
+  const results: string[] = [];
+  // Sequential: a local model serves one request at a time anyway
+  for (const text of texts) {
+    const response = await fetchWithBackoff(`${baseUrl || "http://localhost:11434"}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: text },
+        ],
+        stream: false,
+        options: { temperature: 0.3 },
+      }),
+    });
+    await assertOk(response, "Ollama");
+    const data = await response.json();
+    results.push(data.message?.content?.trim() || text);
+  }
+  return results;
+}
+
+/** DeepL target languages (among ours) */
+const DEEPL_LANGS: TranslationTargetLang[] = [
+  "zh-CN",
+  "zh-TW",
+  "ja",
+  "ko",
+  "en",
+  "fr",
+  "de",
+  "es",
+  "pt",
+  "it",
+  "ru",
+  "ar",
+  "id",
+  "tr",
+  "pl",
+  "nl",
+  "sv",
+];
+
 export const aiProvider: TranslationProvider = {
   name: "ai",
   label: "AI",
-  translate: async (texts, sourceLang, targetLang, config) => {
-    const { apiKey, baseUrl, model } = config as { apiKey?: string; baseUrl?: string; model?: string };
-    return aiTranslate(texts, sourceLang, targetLang, apiKey || "", baseUrl || "", model || "");
+  capabilities: {
+    batchSize: 20,
+    concurrency: 3,
+    languages: "all",
+    requiresKey: true,
+    glossary: true,
+  },
+  configSchema: [
+    {
+      key: "model",
+      type: "aiModel",
+      label: "settings.translator_model",
+      hint: "settings.translator_aiModelHint",
+    },
+  ],
+  translate: async (texts, sourceLang, targetLang, config, options) => {
+    const { apiKey, baseUrl, model, endpoint } = config;
+    return aiTranslate(
+      texts,
+      sourceLang,
+      targetLang,
+      apiKey || "",
+      baseUrl || "",
+      model || "",
+      options,
+      endpoint,
+    );
   },
 };
 
 export const deeplProvider: TranslationProvider = {
   name: "deepl",
   label: "DeepL",
+  capabilities: {
+    batchSize: 50,
+    concurrency: 2,
+    languages: DEEPL_LANGS,
+    requiresKey: true,
+    glossary: false,
+  },
+  configSchema: [
+    {
+      key: "apiKey",
+      type: "password",
+      label: "settings.translator_apiKey",
+      hint: "settings.translator_deeplKeyHint",
+      required: true,
+    },
+    {
+      key: "baseUrl",
+      type: "url",
+      label: "settings.translator_baseUrl",
+      placeholder: "https://api-free.deepl.com/v2",
+    },
+  ],
   translate: async (texts, sourceLang, targetLang, config) => {
-    const { apiKey, baseUrl } = config as { apiKey?: string; baseUrl?: string };
+    const { apiKey, baseUrl } = config;
     return deeplTranslate(texts, sourceLang, targetLang, apiKey || "", baseUrl);
   },
 };
 
-/** Get a translator by name */
-export function getTranslator(name: TranslatorName): TranslationProvider | undefined {
-  if (name === "ai") return aiProvider;
-  if (name === "deepl") return deeplProvider;
-  return undefined;
-}
+export const googleProvider: TranslationProvider = {
+  name: "google",
+  label: "Google",
+  capabilities: { batchSize: 100, languages: "all", requiresKey: true, glossary: false },
+  configSchema: [
+    {
+      key: "apiKey",
+      type: "password",
+      label: "settings.translator_apiKey",
+      hint: "settings.translator_googleKeyHint",
+      required: true,
+    },
+  ],
+  translate: async (texts, sourceLang, targetLang, config) =>
+    googleTranslate(texts, sourceLang, targetLang, config.apiKey || "", config.baseUrl),
+};
+
+export const microsoftProvider: TranslationProvider = {
+  name: "microsoft",
+  label: "Microsoft",
+  capabilities: { batchSize: 100, languages: "all", requiresKey: true, glossary: false },
+  configSchema: [
+    {
+      key: "apiKey",
+      type: "password",
+      label: "settings.translator_apiKey",
+      required: true,
+    },
+    {
+      key: "region",
+      type: "text",
+      label: "settings.translator_region",
+      hint: "settings.translator_regionHint",
+      placeholder: "eastasia",
+    },
+  ],
+  translate: async (texts, sourceLang, targetLang, config) =>
+    microsoftTranslate(
+      texts,
+      sourceLang,
+      targetLang,
+      config.apiKey || "",
+      config.region,
+      config.baseUrl,
+    ),
+};
+
+export const libreTranslateProvider: TranslationProvider = {
+  name: "libretranslate",
+  label: "LibreTranslate",
+  capabilities: { batchSize: 25, languages: "all", requiresKey: false, glossary: false },
+  configSchema: [
+    {
+      key: "baseUrl",
+      type: "url",
+      label: "settings.translator_serverUrl",
+      placeholder: "http://localhost:5000",
+    },
+    {
+      key: "apiKey",
+      type: "password",
+      label: "settings.translator_apiKeyOptional",
+    },
+  ],
+  translate: async (texts, sourceLang, targetLang, config) =>
+    libreTranslate(texts, sourceLang, targetLang, config.baseUrl || "", config.apiKey),
+};
+
+export const ollamaProvider: TranslationProvider = {
+  name: "ollama",
+  label: "Ollama",
+  capabilities: { batchSize: 10, languages: "all", requiresKey: false, glossary: true },
+  configSchema: [
+    {
+      key: "baseUrl",
+      type: "url",
+      label: "settings.translator_serverUrl",
+      placeholder: "http://localhost:11434",
+    },
+    {
+      key: "model",
+      type: "text",
+      label: "settings.translator_model",
+      hint: "settings.translator_ollamaModelHint",
+      placeholder: "qwen2.5:7b",
+      required: true,
+    },
+  ],
+  translate: async (texts, sourceLang, targetLang, config, options) =>
+    ollamaTranslate(
+      texts,
+      sourceLang,
+      targetLang,
+      config.baseUrl || "",
+      config.model || "",
+      options,
+    ),
+};
+
+/** Translators available out of the box, in display order */
+export const BUILTIN_TRANSLATORS: TranslationProvider[] = [
+  aiProvider,
+  deeplProvider,
+  googleProvider,
+  microsoftProvider,
+  libreTranslateProvider,
+  ollamaProvider,
+];
@@ -0,0 +1,140 @@
+/**
+ * Translator registry
+ * Looks up translators by id and runs them within their declared capabilities
+ */
+
+import { LOCAL_API_KEY_PLACEHOLDER, localOpenAIBaseUrl } from "@/lib/ai/local-models";
+import type { AIConfig } from "@/types";
+import type { TranslationConfig } from "@/types/translation";
+import { BUILTIN_TRANSLATORS } from "./providers";
+import type {
+  TranslateOptions,
+  TranslationProvider,
+  TranslationTargetLang,
+  TranslatorConfig,
+  TranslatorName,
+} from "./types";
+
+const translators = new Map<TranslatorName, TranslationProvider>(
+  BUILTIN_TRANSLATORS.map((provider) => [provider.name, provider]),
+);
+
+/** Add a translator, or replace the one with the same name */
+export function registerTranslator(provider: TranslationProvider): void {
+  translators.set(provider.name, provider);
+}
+
+/** Get a translator by name */
+export function getTranslator(name: TranslatorName): TranslationProvider | undefined {
+  return translators.get(name);
+}
+
+/** Get all registered translators, built-ins first */
+export function getTranslators(): TranslationProvider[] {
+  return Array.from(translators.values());
+}
+
+/** Whether a translator accepts the given target language */
+export function supportsLanguage(provider: TranslationProvider, lang: string): boolean {
+  const { languages } = provider.capabilities;
+  return languages === "all" || languages.includes(lang as TranslationTargetLang);
+}
+
+/** Parse "term = translation" lines into a glossary map */
+export function parseGlossary(text?: string): Record<string, string> | undefined {
+  const glossary: Record<string, string> = {};
+  for (const line of (text ?? "").split("\n")) {
+    const sep = line.indexOf("=");
+    if (sep <= 0) continue;
+    const term = line.slice(0, sep).trim();
+    const translation = line.slice(sep + 1).trim();
+    if (term && translation) glossary[term] = translation;
+  }
+  return Object.keys(glossary).length > 0 ? glossary : undefined;
+}
+
+/**
+ * Build the config passed to a translator from the settings.
+ * The AI translator borrows key, URL and model from an AI endpoint; the others
+ * use their own form values, falling back to keys stored on the provider by older versions.
+ */
+export function resolveTranslatorConfig(
+  translationConfig: TranslationConfig,
+  aiConfig: AIConfig,
+): TranslatorConfig {
+  const { provider } = translationConfig;
+  if (provider.id === "ai") {
+    const endpointId = provider.endpointId || aiConfig.activeEndpointId;
+    const endpoint = aiConfig.endpoints.find((e) => e.id === endpointId);
+    if (endpoint?.provider === "local") {
+      return {
+        apiKey: endpoint.apiKey || LOCAL_API_KEY_PLACEHOLDER,
+        baseUrl: localOpenAIBaseUrl(endpoint),
+        model: provider.model || aiConfig.activeModel,
+        endpoint: endpoint.name,
+      };
+    }
+    return {
+      apiKey: endpoint?.apiKey,
+      baseUrl: endpoint?.baseUrl,
+      model: provider.model || aiConfig.activeModel,
+      endpoint: endpoint?.name,
+    };
+  }
+  return {
+    apiKey: provider.apiKey,
+    baseUrl: provider.baseUrl,
+    model: provider.model,
+    ...translationConfig.providerSettings?.[provider.id],
+  };
+}
+
+/**
+ * Translate texts with a translator: validates the config and target language,
+ * then sends the texts in chunks of the translator's batch size, at most
+ * `concurrency` chunks at a time.
+ */
+export async function runTranslator(
+  provider: TranslationProvider,
+  texts: string[],
+  sourceLang: string,
+  targetLang: string,
+  config: TranslatorConfig,
+  options?: TranslateOptions,
+): Promise<string[]> {
+  if (provider.capabilities.requiresKey && !config.apiKey) {
+    throw new Error(`${provider.label} API key is required`);
+  }
+  const missing = provider.configSchema.find((field) => field.required && !config[field.key]);
+  if (missing) {
+    throw new Error(`${provider.label}: "${missing.key}" is not configured`);
+  }
+  if (!supportsLanguage(provider, targetLang)) {
+    throw new Error(`${provider.label} does not support translating to ${targetLang}`);
+  }
+
+  const { batchSize, concurrency = 1, glossary } = provider.capabilities;
+  const translateOptions = glossary ? options : undefined;
+  const chunks: string[][] = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    chunks.push(texts.slice(i, i + batchSize));
+  }
+
+  // A fixed pool of workers takes the next chunk as each one finishes
+  const results: string[][] = new Array(chunks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const index = next++;
+      results[index] = await provider.translate(
+        chunks[index],
+        sourceLang,
+        targetLang,
+        config,
+        translateOptions,
+      );
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  return results.flat();
+}
@@ -0,0 +1,117 @@
+/**
+ * TMX (Translation Memory eXchange 1.4) export and import for the translation memory.
+ * Translator and book are kept as x-readany-* properties, so a round trip is lossless;
+ * TMX files from other tools import as unscoped entries.
+ */
+
+import type { TranslationMemoryEntry } from "@/types";
+
+export class TMXParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TMXParseError";
+  }
+}
+
+/** Source language we store for auto-detected sources, and its TMX code */
+const AUTO_LANG = "AUTO";
+const UNDETERMINED_LANG = "und";
+const PROVIDER_PROP = "x-readany-provider";
+const BOOK_PROP = "x-readany-book";
+/** Provider recorded for entries imported from files without one; they serve every translator */
+export const IMPORTED_PROVIDER = "tmx";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** 20261019T093000Z */
+function toTMXDate(ms: number): string {
+  return new Date(ms)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function fromTMXDate(value: string | null): number | null {
+  const m = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!m) return null;
+  return Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]);
+}
+
+export function toTMX(entries: TranslationMemoryEntry[]): string {
+  const units = entries.map((e) => {
+    const srcLang = e.sourceLang === AUTO_LANG ? UNDETERMINED_LANG : e.sourceLang;
+    const props = [`      <prop type="${PROVIDER_PROP}">${escapeXml(e.provider)}</prop>`];
+    if (e.bookId) props.push(`      <prop type="${BOOK_PROP}">${escapeXml(e.bookId)}</prop>`);
+    return [
+      `    <tu srclang="${escapeXml(srcLang)}" creationdate="${toTMXDate(e.createdAt)}" lastusagedate="${toTMXDate(e.lastUsedAt)}">`,
+      ...props,
+      `      <tuv xml:lang="${escapeXml(srcLang)}"><seg>${escapeXml(e.sourceText)}</seg></tuv>`,
+      `      <tuv xml:lang="${escapeXml(e.targetLang)}"><seg>${escapeXml(e.translation)}</seg></tuv>`,
+      "    </tu>",
+    ].join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="ReadAny" creationtoolversion="1.0" datatype="plaintext" segtype="paragraph" adminlang="en" srclang="*all*" o-tmf="ReadAny"/>
+  <body>
+${units.join("\n")}
+  </body>
+</tmx>
+`;
+}
+
+/** Read a TMX file into entries; units without a source and a target variant are skipped */
+export function parseTMX(xml: string): TranslationMemoryEntry[] {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new TMXParseError("The file is not well-formed XML");
+  }
+  const root = doc.documentElement;
+  if (root.nodeName !== "tmx") {
+    throw new TMXParseError("The file is not a TMX document");
+  }
+
+  const headerSrcLang = root.getElementsByTagName("header")[0]?.getAttribute("srclang");
+  const now = Date.now();
+  const entries: TranslationMemoryEntry[] = [];
+
+  for (const tu of Array.from(root.getElementsByTagName("tu"))) {
+    const variants = Array.from(tu.getElementsByTagName("tuv")).map((tuv) => ({
+      // TMX 1.1 used `lang`, 1.4 uses `xml:lang`
+      lang: tuv.getAttribute("xml:lang") || tuv.getAttribute("lang") || "",
+      text: tuv.getElementsByTagName("seg")[0]?.textContent ?? "",
+    }));
+    if (variants.length < 2) continue;
+
+    const srcLang = tu.getAttribute("srclang") || headerSrcLang;
+    const source = variants.find((v) => v.lang === srcLang) ?? variants[0];
+    const target = variants.find((v) => v !== source);
+    if (!target || !source.text.trim() || !target.text.trim()) continue;
+
+    const props = new Map(
+      Array.from(tu.getElementsByTagName("prop")).map((p) => [
+        p.getAttribute("type"),
+        p.textContent ?? "",
+      ]),
+    );
+    const createdAt = fromTMXDate(tu.getAttribute("creationdate")) ?? now;
+    entries.push({
+      sourceText: source.text,
+      sourceLang: source.lang === UNDETERMINED_LANG || !source.lang ? AUTO_LANG : source.lang,
+      targetLang: target.lang,
+      provider: props.get(PROVIDER_PROP) || IMPORTED_PROVIDER,
+      bookId: props.get(BOOK_PROP) ?? "",
+      translation: target.text,
+      createdAt,
+      lastUsedAt: fromTMXDate(tu.getAttribute("lastusagedate")) ?? createdAt,
+    });
+  }
+  return entries;
+}
@@ -3,15 +3,46 @@
  * Re-exports from modular translation architecture
  */
 
+import type { TranslateOptions, TranslatorConfig } from "./types";
+
 // Types
-export type { TranslationProvider, UseTranslatorOptions, TranslatorName } from "./types";
+export type {
+  TranslationProvider,
+  TranslatorCapabilities,
+  TranslatorConfig,
+  TranslatorConfigField,
+  UseTranslatorOptions,
+  TranslatorName,
+} from "./types";
 export { ErrorCodes } from "./types";
 
 // Providers
-export { getTranslator, getTranslators, aiProvider, deeplProvider } from "./providers";
+export {
+  aiProvider,
+  deeplProvider,
+  googleProvider,
+  microsoftProvider,
+  libreTranslateProvider,
+  ollamaProvider,
+} from "./providers";
+
+// Registry
+export {
+  getTranslator,
+  getTranslators,
+  registerTranslator,
+  resolveTranslatorConfig,
+  runTranslator,
+} from "./registry";
 
 // Cache
-export { getFromCache, storeInCache, clearTranslationCache } from "./cache";
+export {
+  getFromCache,
+  storeInCache,
+  clearTranslationCache,
+  exportTranslationMemory,
+  importTranslationMemory,
+} from "./cache";
 
 // Language support
 export const SUPPORTED_LANGUAGES = [
@@ -43,6 +74,8 @@ export interface TranslationResult {
   translatedText: string;
   targetLang: string;
   confidence?: number;
+  /** Set when the translation failed; translatedText is then empty */
+  error?: string;
 }
 
 /** Get the display name for a language code */
@@ -60,15 +93,16 @@ export async function translate(
   text: string,
   config: { provider: { id: string; apiKey?: string; baseUrl?: string }; targetLang: string; model?: string },
 ): Promise<TranslationResult> {
-  const { getTranslator } = await import("./providers");
-  
-  const provider = getTranslator(config.provider.id as any);
+  const { getTranslator, runTranslator } = await import("./registry");
+
+  const provider = getTranslator(config.provider.id);
   if (!provider) {
     return { originalText: text, translatedText: "", targetLang: config.targetLang };
   }
 
   try {
-    const results = await provider.translate(
+    const results = await runTranslator(
+      provider,
       [text],
       "AUTO",
       config.targetLang,
@@ -85,24 +119,36 @@ export async function translate(
   }
 }
 
-/** Batch translate function */
+/**
+ * Batch translate function
+ * Pass `translatorConfig` (see resolveTranslatorConfig) to use settings such as
+ * the AI endpoint instead of the key and URL on `config.provider`.
+ */
 export async function translateBatch(
   texts: string[],
   config: { provider: { id: string; apiKey?: string; baseUrl?: string }; targetLang: string; model?: string },
+  translatorConfig?: TranslatorConfig,
+  options?: TranslateOptions,
 ): Promise<TranslationResult[]> {
-  const { getTranslator } = await import("./providers");
-  
-  const provider = getTranslator(config.provider.id as any);
+  const { getTranslator, runTranslator } = await import("./registry");
+
+  const provider = getTranslator(config.provider.id);
   if (!provider) {
     return texts.map((text) => ({ originalText: text, translatedText: "", targetLang: config.targetLang }));
   }
 
   try {
-    const results = await provider.translate(
+    const results = await runTranslator(
+      provider,
       texts,
       "AUTO",
       config.targetLang,
-      { apiKey: config.provider.apiKey, baseUrl: config.provider.baseUrl, model: config.model },
+      translatorConfig ?? {
+        apiKey: config.provider.apiKey,
+        baseUrl: config.provider.baseUrl,
+        model: config.model,
+      },
+      options,
     );
     return texts.map((text, i) => ({
       originalText: text,
@@ -111,6 +157,12 @@ export async function translateBatch(
     }));
   } catch (error) {
     console.error("Batch translation error:", error);
-    return texts.map((text) => ({ originalText: text, translatedText: "", targetLang: config.targetLang }));
+    const message = error instanceof Error ? error.message : String(error);
+    return texts.map((text) => ({
+      originalText: text,
+      translatedText: "",
+      targetLang: config.targetLang,
+      error: message,
+    }));
   }
 }
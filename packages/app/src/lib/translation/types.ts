@@ -7,15 +7,60 @@ import type { TranslatorName, TranslationTargetLang } from "@/types/translation"
 // Re-export for convenience
 export type { TranslatorName, TranslationTargetLang } from "@/types/translation";
 
+/** What a translator can do; callers chunk, validate and show settings from this */
+export interface TranslatorCapabilities {
+  /** Most texts sent in one request */
+  batchSize: number;
+  /** Batches sent at the same time (default 1) */
+  concurrency?: number;
+  /** Target languages the service accepts, or "all" */
+  languages: TranslationTargetLang[] | "all";
+  /** Whether an API key must be configured */
+  requiresKey: boolean;
+  /** Whether translate() honours the glossary option */
+  glossary: boolean;
+}
+
+/**
+ * One field of a translator's config form.
+ * "aiModel" is a picker over the endpoints configured in AI settings.
+ */
+export interface TranslatorConfigField {
+  key: string;
+  type: "text" | "password" | "url" | "aiModel";
+  /** i18n key of the field label */
+  label: string;
+  /** i18n key of the hint shown under the field */
+  hint?: string;
+  placeholder?: string;
+  required?: boolean;
+}
+
+/** Resolved config passed to translate(), keyed by schema field */
+export interface TranslatorConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  [key: string]: string | undefined;
+}
+
+export interface TranslateOptions {
+  /** Source term -> preferred translation */
+  glossary?: Record<string, string>;
+}
+
 // Internal provider interface (includes translate method)
 export interface TranslationProvider {
   name: TranslatorName;
   label: string;
+  capabilities: TranslatorCapabilities;
+  configSchema: TranslatorConfigField[];
   translate: (
     texts: string[],
     sourceLang: string,
     targetLang: string,
-    config: { apiKey?: string; baseUrl?: string; model?: string },
+    config: TranslatorConfig,
+    options?: TranslateOptions,
   ) => Promise<string[]>;
 }
 
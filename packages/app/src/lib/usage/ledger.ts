@@ -0,0 +1,119 @@
+/**
+ * Usage ledger — records the tokens and estimated cost of every AI request.
+ *
+ * Chat models are metered through a LangChain callback attached in
+ * createChatModel; translation and embedding calls record their usage
+ * directly from the API response. Token counts the API doesn't report are
+ * estimated from the text and flagged as such.
+ */
+import { insertUsageRecord } from "@/lib/db/database";
+import type { UsageCategory } from "@/types";
+import type { CallbackHandlerMethods } from "@langchain/core/callbacks/base";
+import type { AIMessage, BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { estimateTokens } from "../rag/token-counter";
+import { estimateCost } from "./pricing";
+
+export interface UsageEntry {
+  category: UsageCategory;
+  endpoint: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;
+  /** The request went to a server on this machine or network */
+  local?: boolean;
+}
+
+/** Add a request to the ledger; metering never fails the request itself */
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  try {
+    await insertUsageRecord({
+      category: entry.category,
+      endpoint: entry.endpoint,
+      model: entry.model,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      cost: estimateCost(entry.model, entry.inputTokens, entry.outputTokens, entry.local),
+      estimated: entry.estimated ?? false,
+      createdAt: Date.now(),
+    });
+  } catch (err) {
+    console.warn("[usage] Failed to record usage:", err);
+  }
+}
+
+function messageText(message: BaseMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => ("text" in part && typeof part.text === "string" ? part.text : ""))
+    .join("");
+}
+
+/** Token counts reported by the provider, from whichever field it fills */
+function reportedUsage(output: LLMResult): { input: number; output: number } | null {
+  let input = 0;
+  let outputTokens = 0;
+  let found = false;
+  for (const generation of output.generations.flat() as ChatGeneration[]) {
+    const usage = (generation.message as AIMessage | undefined)?.usage_metadata;
+    if (usage) {
+      input += usage.input_tokens;
+      outputTokens += usage.output_tokens;
+      found = true;
+    }
+  }
+  if (found) return { input, output: outputTokens };
+
+  const tokenUsage = output.llmOutput?.tokenUsage as
+    | { promptTokens?: number; completionTokens?: number }
+    | undefined;
+  if (tokenUsage?.promptTokens !== undefined) {
+    return { input: tokenUsage.promptTokens, output: tokenUsage.completionTokens ?? 0 };
+  }
+  return null;
+}
+
+/**
+ * Callback handler that records one ledger entry per model call. Prompt
+ * tokens are estimated when the call starts, in case the provider (or a
+ * streaming response) doesn't report usage.
+ */
+export function createUsageCallback(
+  category: UsageCategory,
+  endpoint: string,
+  model: string,
+  local: boolean,
+): CallbackHandlerMethods {
+  const estimatedInput = new Map<string, number>();
+
+  return {
+    handleChatModelStart(_llm, messages, runId) {
+      const text = messages.flat().map(messageText).join("\n");
+      estimatedInput.set(runId, estimateTokens(text));
+    },
+
+    handleLLMEnd(output, runId) {
+      const fallbackInput = estimatedInput.get(runId) ?? 0;
+      estimatedInput.delete(runId);
+      const reported = reportedUsage(output);
+      const outputText = output.generations
+        .flat()
+        .map((g) => g.text)
+        .join("");
+      void recordUsage({
+        category,
+        endpoint,
+        model,
+        inputTokens: reported?.input ?? fallbackInput,
+        outputTokens: reported?.output ?? estimateTokens(outputText),
+        estimated: !reported,
+        local,
+      });
+    },
+
+    handleLLMError(_err, runId) {
+      estimatedInput.delete(runId);
+    },
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Model pricing — list prices used to estimate what a request cost.
+ *
+ * Prices are USD per million tokens and only need to be close: the ledger
+ * marks costs as estimates. Unknown models get no price rather than a guess.
+ */
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Model name patterns → price, most specific first */
+const KNOWN_PRICES: Array<[RegExp, ModelPrice]> = [
+  // OpenAI
+  [/gpt-4o-mini/i, { input: 0.15, output: 0.6 }],
+  [/gpt-4o|chatgpt-4o/i, { input: 2.5, output: 10 }],
+  [/gpt-4\.1-nano/i, { input: 0.1, output: 0.4 }],
+  [/gpt-4\.1-mini/i, { input: 0.4, output: 1.6 }],
+  [/gpt-4\.1/i, { input: 2, output: 8 }],
+  [/gpt-4-turbo/i, { input: 10, output: 30 }],
+  [/gpt-4/i, { input: 30, output: 60 }],
+  [/gpt-3\.5/i, { input: 0.5, output: 1.5 }],
+  [/gpt-5-nano/i, { input: 0.05, output: 0.4 }],
+  [/gpt-5-mini/i, { input: 0.25, output: 2 }],
+  [/gpt-5/i, { input: 1.25, output: 10 }],
+  [/(^|[^a-z])o[34]-mini/i, { input: 1.1, output: 4.4 }],
+  [/(^|[^a-z])o1-mini/i, { input: 1.1, output: 4.4 }],
+  [/(^|[^a-z])o1(-|$)/i, { input: 15, output: 60 }],
+  [/(^|[^a-z])o3(-|$)/i, { input: 2, output: 8 }],
+  // Anthropic
+  [/claude.*haiku/i, { input: 0.8, output: 4 }],
+  [/claude.*opus/i, { input: 15, output: 75 }],
+  [/claude/i, { input: 3, output: 15 }],
+  // Google
+  [/gemini.*flash-lite/i, { input: 0.1, output: 0.4 }],
+  [/gemini.*flash/i, { input: 0.3, output: 2.5 }],
+  [/gemini.*pro/i, { input: 1.25, output: 10 }],
+  // DeepSeek
+  [/deepseek-reasoner/i, { input: 0.55, output: 2.19 }],
+  [/deepseek/i, { input: 0.27, output: 1.1 }],
+  // Embeddings
+  [/text-embedding-3-small/i, { input: 0.02, output: 0 }],
+  [/text-embedding-3-large/i, { input: 0.13, output: 0 }],
+  [/text-embedding-ada-002/i, { input: 0.1, output: 0 }],
+];
+
+/** Endpoints served from this machine or the local network cost nothing */
+const LOCAL_URL = /^https?:\/\/(localhost|127\.|0\.0\.0\.0|\[::1\]|192\.168\.|10\.)/i;
+
+export function isLocalUrl(url: string | undefined): boolean {
+  return !!url && LOCAL_URL.test(url);
+}
+
+/**
+ * Estimated cost of a request in USD, or null when the model's price is
+ * unknown. Pass `local` for requests that never leave the machine.
+ */
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  local = false,
+): number | null {
+  if (local) return 0;
+  const price = KNOWN_PRICES.find(([pattern]) => pattern.test(model))?.[1];
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,84 @@
+/**
+ * Quota enforcement — measures the usage ledger against the configured
+ * daily and monthly limits before a metered request is made.
+ *
+ * - ai_messages: chat, skill and background model requests (each tool-calling round counts)
+ * - translation: tokens in and out of AI translation
+ * - vectorize: tokens sent to remote embedding models
+ */
+import { getUsageTotals } from "@/lib/db/database";
+import { useUsageStore } from "@/stores/usage-store";
+import type { Quota, QuotaType } from "@/types";
+
+const QUOTA_LABELS: Record<QuotaType, string> = {
+  ai_messages: "AI message",
+  translation: "AI translation token",
+  vectorize: "embedding token",
+};
+
+export class QuotaExceededError extends Error {
+  quota: Quota;
+
+  constructor(quota: Quota) {
+    const period = quota.period === "daily" ? "Daily" : "Monthly";
+    const resetAt = new Date(quota.resetAt).toLocaleString();
+    super(
+      `${period} ${QUOTA_LABELS[quota.type]} quota reached (${quota.used.toLocaleString()} / ${quota.limit.toLocaleString()}). It resets on ${resetAt}; limits can be changed under Stats → AI usage.`,
+    );
+    this.name = "QuotaExceededError";
+    this.quota = quota;
+  }
+}
+
+/** Start of the current period: local midnight, or the 1st of the month */
+export function getPeriodStart(period: Quota["period"], now = new Date()): number {
+  return period === "daily"
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+    : new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+/** When the current period ends and its usage starts over */
+export function getPeriodReset(period: Quota["period"], now = new Date()): number {
+  return period === "daily"
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime()
+    : new Date(now.getFullYear(), now.getMonth() + 1, 1).getTime();
+}
+
+async function measureQuota(type: QuotaType, since: number): Promise<number> {
+  switch (type) {
+    case "ai_messages":
+      return (await getUsageTotals(since, ["chat", "skill", "background"])).requests;
+    case "translation": {
+      const totals = await getUsageTotals(since, ["translation"]);
+      return totals.inputTokens + totals.outputTokens;
+    }
+    case "vectorize":
+      return (await getUsageTotals(since, ["embedding"])).inputTokens;
+  }
+}
+
+/** The configured quotas with `used` and `resetAt` filled in from the ledger */
+export async function getQuotaStatus(type?: QuotaType): Promise<Quota[]> {
+  const quotas = useUsageStore.getState().profile.quotas.filter((q) => !type || q.type === type);
+  return Promise.all(
+    quotas.map(async (q) => ({
+      ...q,
+      used: await measureQuota(q.type, getPeriodStart(q.period)),
+      resetAt: getPeriodReset(q.period),
+    })),
+  );
+}
+
+/** Throw a QuotaExceededError if any limit (0 = unlimited) of `type` is used up */
+export async function assertWithinQuota(type: QuotaType): Promise<void> {
+  const limited = useUsageStore
+    .getState()
+    .profile.quotas.some((q) => q.type === type && q.limit > 0);
+  if (!limited) return;
+
+  for (const quota of await getQuotaStatus(type)) {
+    if (quota.limit > 0 && quota.used >= quota.limit) {
+      throw new QuotaExceededError(quota);
+    }
+  }
+}
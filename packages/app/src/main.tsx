@@ -8,6 +8,8 @@ import "./i18n";
 import "./styles/globals.css";
 import { useLibraryStore } from "./stores/library-store";
 import { flushAllWrites } from "./stores/persist";
+// Registers the Obsidian auto-export listeners on annotation events
+import "./stores/vault-export-store";
 
 // Flush pending state writes before window closes
 window.addEventListener("beforeunload", () => {
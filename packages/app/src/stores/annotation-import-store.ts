@@ -0,0 +1,45 @@
+/**
+ * Annotation import store — imported entries waiting for review.
+ *
+ * Entries the importer could not match to a book or locate in the text are
+ * kept here (persisted) until the user assigns a book, keeps them as notes
+ * or dismisses them.
+ */
+import type { UnresolvedAnnotation } from "@/lib/import/annotation-importer";
+import { create } from "zustand";
+import { withPersist } from "./persist";
+
+export interface AnnotationImportState {
+  pending: UnresolvedAnnotation[];
+
+  // Actions
+  addPending: (items: UnresolvedAnnotation[]) => void;
+  /** Replace a pending entry (e.g. after a retry changed its reason or book) */
+  updatePending: (entryId: string, item: UnresolvedAnnotation) => void;
+  removePending: (entryIds: string[]) => void;
+  clearPending: () => void;
+}
+
+export const useAnnotationImportStore = create<AnnotationImportState>()(
+  withPersist("annotation-import", (set) => ({
+    pending: [],
+
+    addPending: (items) =>
+      set((state) => {
+        const known = new Set(state.pending.map((p) => p.entry.id));
+        return { pending: [...state.pending, ...items.filter((i) => !known.has(i.entry.id))] };
+      }),
+
+    updatePending: (entryId, item) =>
+      set((state) => ({
+        pending: state.pending.map((p) => (p.entry.id === entryId ? item : p)),
+      })),
+
+    removePending: (entryIds) =>
+      set((state) => ({
+        pending: state.pending.filter((p) => !entryIds.includes(p.entry.id)),
+      })),
+
+    clearPending: () => set({ pending: [] }),
+  })),
+);
@@ -1,5 +1,6 @@
 import type { Bookmark, Highlight, HighlightColor, Note } from "@/types";
 import * as db from "@/lib/db/database";
+import { eventBus } from "@/lib/event-bus";
 import type { HighlightWithBook } from "@/lib/db/database";
 /**
  * Annotation store — highlights, notes, bookmarks management
@@ -44,7 +45,7 @@ export interface AnnotationState {
   loadStats: () => Promise<void>;
 }
 
-export const useAnnotationStore = create<AnnotationState>((set) => ({
+export const useAnnotationStore = create<AnnotationState>((set, get) => ({
   highlights: [],
   highlightsWithBooks: [],
   notes: [],
@@ -54,9 +55,15 @@ export const useAnnotationStore = create<AnnotationState>((set) => ({
   setHighlights: (highlights) => set({ highlights }),
   addHighlight: (highlight) => {
     set((state) => ({ highlights: [...state.highlights, highlight] }));
-    db.insertHighlight(highlight).catch((err) =>
-      console.error("Failed to insert highlight:", err),
-    );
+    db.insertHighlight(highlight)
+      .then(() =>
+        eventBus.emit("annotation:added", {
+          bookId: highlight.bookId,
+          annotationId: highlight.id,
+          type: "highlight",
+        }),
+      )
+      .catch((err) => console.error("Failed to insert highlight:", err));
   },
   updateHighlight: (id, updates) => {
     set((state) => ({
@@ -68,13 +75,15 @@ export const useAnnotationStore = create<AnnotationState>((set) => ({
     );
   },
   removeHighlight: (id) => {
+    const { highlights, highlightsWithBooks } = get();
+    const bookId = [...highlights, ...highlightsWithBooks].find((h) => h.id === id)?.bookId;
     set((state) => ({
       highlights: state.highlights.filter((h) => h.id !== id),
       highlightsWithBooks: state.highlightsWithBooks.filter((h) => h.id !== id),
     }));
-    db.deleteHighlight(id).catch((err) =>
-      console.error("Failed to delete highlight:", err),
-    );
+    db.deleteHighlight(id)
+      .then(() => eventBus.emit("annotation:removed", { id, bookId, type: "highlight" }))
+      .catch((err) => console.error("Failed to delete highlight:", err));
   },
   changeHighlightColor: (id, color) => {
     set((state) => ({
@@ -90,9 +99,11 @@ export const useAnnotationStore = create<AnnotationState>((set) => ({
   setNotes: (notes) => set({ notes }),
   addNote: (note) => {
     set((state) => ({ notes: [...state.notes, note] }));
-    db.insertNote(note).catch((err) =>
-      console.error("Failed to insert note:", err),
-    );
+    db.insertNote(note)
+      .then(() =>
+        eventBus.emit("annotation:added", { bookId: note.bookId, annotationId: note.id, type: "note" }),
+      )
+      .catch((err) => console.error("Failed to insert note:", err));
   },
   updateNote: (id, updates) => {
     set((state) => ({
@@ -105,26 +116,34 @@ export const useAnnotationStore = create<AnnotationState>((set) => ({
     );
   },
   removeNote: (id) => {
+    const bookId = get().notes.find((n) => n.id === id)?.bookId;
     set((state) => ({ notes: state.notes.filter((n) => n.id !== id) }));
-    db.deleteNote(id).catch((err) =>
-      console.error("Failed to delete note:", err),
-    );
+    db.deleteNote(id)
+      .then(() => eventBus.emit("annotation:removed", { id, bookId, type: "note" }))
+      .catch((err) => console.error("Failed to delete note:", err));
   },
 
   setBookmarks: (bookmarks) => set({ bookmarks }),
   addBookmark: (bookmark) => {
     set((state) => ({ bookmarks: [...state.bookmarks, bookmark] }));
-    db.insertBookmark(bookmark).catch((err) =>
-      console.error("Failed to insert bookmark:", err),
-    );
+    db.insertBookmark(bookmark)
+      .then(() =>
+        eventBus.emit("annotation:added", {
+          bookId: bookmark.bookId,
+          annotationId: bookmark.id,
+          type: "bookmark",
+        }),
+      )
+      .catch((err) => console.error("Failed to insert bookmark:", err));
   },
   removeBookmark: (id) => {
+    const bookId = get().bookmarks.find((b) => b.id === id)?.bookId;
     set((state) => ({
       bookmarks: state.bookmarks.filter((b) => b.id !== id),
     }));
-    db.deleteBookmark(id).catch((err) =>
-      console.error("Failed to delete bookmark:", err),
-    );
+    db.deleteBookmark(id)
+      .then(() => eventBus.emit("annotation:removed", { id, bookId, type: "bookmark" }))
+      .catch((err) => console.error("Failed to delete bookmark:", err));
   },
 
   loadAnnotations: async (bookId) => {
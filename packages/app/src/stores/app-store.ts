@@ -3,7 +3,7 @@
  */
 import { create } from "zustand";
 
-export type TabType = "home" | "reader" | "chat" | "notes" | "skills";
+export type TabType = "home" | "reader" | "chat" | "notes" | "skills" | "flashcards";
 
 export interface Tab {
   id: string;
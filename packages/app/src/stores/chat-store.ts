@@ -14,6 +14,9 @@ import {
   getThreads as dbGetThreads,
   insertMessage as dbInsertMessage,
   insertThread as dbInsertThread,
+  updateMessagePinned as dbUpdateMessagePinned,
+  updateThreadAutoApprove as dbUpdateThreadAutoApprove,
+  updateThreadSummary as dbUpdateThreadSummary,
   updateThreadTitle as dbUpdateThreadTitle,
 } from "@/lib/db/database";
 
@@ -40,6 +43,14 @@ export interface ChatState {
   addMessage: (threadId: string, message: Message) => Promise<void>;
   updateMessage: (threadId: string, messageId: string, content: string) => void;
   updateThreadTitle: (threadId: string, title: string) => Promise<void>;
+  setThreadAutoApprove: (threadId: string, enabled: boolean) => Promise<void>;
+  /** Replace the thread's rolling summary; omit `summarizedThroughId` to keep the current one */
+  updateThreadSummary: (
+    threadId: string,
+    summary: string,
+    summarizedThroughId?: string | null,
+  ) => Promise<void>;
+  setMessagePinned: (threadId: string, messageId: string, pinned: boolean) => Promise<void>;
   setStreaming: (streaming: boolean) => void;
   setStreamingContent: (content: string) => void;
   appendStreamingContent: (chunk: string) => void;
@@ -229,6 +240,60 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }));
   },
 
+  setThreadAutoApprove: async (threadId, enabled) => {
+    try {
+      await dbUpdateThreadAutoApprove(threadId, enabled);
+    } catch (err) {
+      console.error("[chat-store] Failed to update thread auto-approve:", err);
+    }
+
+    set((state) => ({
+      threads: state.threads.map((t) =>
+        t.id === threadId ? { ...t, autoApproveActions: enabled } : t,
+      ),
+    }));
+  },
+
+  updateThreadSummary: async (threadId, summary, summarizedThroughId) => {
+    const thread = get().threads.find((t) => t.id === threadId);
+    const throughId =
+      summarizedThroughId === undefined ? thread?.summarizedThroughId ?? null : summarizedThroughId;
+    try {
+      await dbUpdateThreadSummary(threadId, summary, throughId);
+    } catch (err) {
+      console.error("[chat-store] Failed to update thread summary:", err);
+    }
+
+    set((state) => ({
+      threads: state.threads.map((t) =>
+        t.id === threadId
+          ? { ...t, summary: summary || undefined, summarizedThroughId: throughId || undefined }
+          : t,
+      ),
+    }));
+  },
+
+  setMessagePinned: async (threadId, messageId, pinned) => {
+    try {
+      await dbUpdateMessagePinned(messageId, pinned);
+    } catch (err) {
+      console.error("[chat-store] Failed to update message pin:", err);
+    }
+
+    set((state) => ({
+      threads: state.threads.map((t) =>
+        t.id === threadId
+          ? {
+              ...t,
+              messages: t.messages.map((m) =>
+                m.id === messageId ? { ...m, pinned: pinned || undefined } : m,
+              ),
+            }
+          : t,
+      ),
+    }));
+  },
+
   setStreaming: (streaming) => set({ isStreaming: streaming }),
   setStreamingContent: (content) => set({ streamingContent: content }),
   appendStreamingContent: (chunk) =>
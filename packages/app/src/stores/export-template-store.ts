@@ -0,0 +1,77 @@
+/**
+ * Export template store — named user templates for annotation export.
+ * Templates use the syntax of lib/export/template-engine.
+ */
+import { create } from "zustand";
+import { withPersist } from "./persist";
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  /** Template source */
+  template: string;
+  /** File extension of the exported file, without the dot */
+  extension: string;
+}
+
+export interface ExportTemplateState {
+  templates: ExportTemplate[];
+
+  // Actions
+  addTemplate: (template: Omit<ExportTemplate, "id">) => ExportTemplate;
+  updateTemplate: (id: string, updates: Partial<Omit<ExportTemplate, "id">>) => void;
+  removeTemplate: (id: string) => void;
+}
+
+const EXAMPLE_TEMPLATE = `# {{book.title}}
+{{#if book.author}}*{{book.author}}*{{/if}}
+
+{{#each chapters}}
+## {{title}}
+
+{{#each highlights}}
+> {{text}}
+{{#if note}}
+
+{{note}}
+{{/if}}
+{{#if tags}}
+
+Tags: {{join tags ", "}}
+{{/if}}
+
+— {{date createdAt "YYYY-MM-DD"}} · {{color}}
+
+{{/each}}
+{{/each}}
+{{#if notes}}
+## Notes
+
+{{#each notes}}
+### {{default title "Note"}}
+
+{{content}}
+
+{{/each}}
+{{/if}}
+`;
+
+export const useExportTemplateStore = create<ExportTemplateState>()(
+  withPersist("export-templates", (set) => ({
+    templates: [
+      { id: "example", name: "Chapter digest", template: EXAMPLE_TEMPLATE, extension: "md" },
+    ],
+
+    addTemplate: (template) => {
+      const created = { ...template, id: crypto.randomUUID() };
+      set((state) => ({ templates: [...state.templates, created] }));
+      return created;
+    },
+    updateTemplate: (id, updates) =>
+      set((state) => ({
+        templates: state.templates.map((t) => (t.id === id ? { ...t, ...updates } : t)),
+      })),
+    removeTemplate: (id) =>
+      set((state) => ({ templates: state.templates.filter((t) => t.id !== id) })),
+  })),
+);
@@ -0,0 +1,27 @@
+/**
+ * Flashcard store — review preferences for the flashcard deck.
+ * Cards and their schedules live in SQLite (see lib/flashcards).
+ */
+import type { SchedulerAlgorithm } from "@/types";
+import { create } from "zustand";
+import { withPersist } from "./persist";
+
+export interface FlashcardState {
+  algorithm: SchedulerAlgorithm;
+  /** New cards introduced per review session */
+  newCardsPerSession: number;
+
+  // Actions
+  setAlgorithm: (algorithm: SchedulerAlgorithm) => void;
+  setNewCardsPerSession: (count: number) => void;
+}
+
+export const useFlashcardStore = create<FlashcardState>()(
+  withPersist("flashcards", (set) => ({
+    algorithm: "fsrs",
+    newCardsPerSession: 20,
+
+    setAlgorithm: (algorithm) => set({ algorithm }),
+    setNewCardsPerSession: (count) => set({ newCardsPerSession: Math.max(0, count) }),
+  })),
+);
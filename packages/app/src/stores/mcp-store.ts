@@ -0,0 +1,37 @@
+/**
+ * MCP store — user-configured Model Context Protocol servers whose tools
+ * the reading agent may use. Live connections are kept by lib/mcp.
+ */
+import { disconnectMcpServer } from "@/lib/mcp/mcp-manager";
+import type { McpServerConfig } from "@/types";
+import { create } from "zustand";
+import { withPersist } from "./persist";
+
+export interface McpState {
+  servers: McpServerConfig[];
+
+  addServer: (server: McpServerConfig) => void;
+  updateServer: (id: string, updates: Partial<McpServerConfig>) => void;
+  removeServer: (id: string) => void;
+}
+
+export const useMcpStore = create<McpState>()(
+  withPersist("mcp", (set, get, _api) => ({
+    servers: [],
+
+    addServer: (server) => set({ servers: [...get().servers, server] }),
+
+    updateServer: (id, updates) => {
+      // Closing a disabled server's connection stops its process
+      if (updates.enabled === false) void disconnectMcpServer(id);
+      set({
+        servers: get().servers.map((s) => (s.id === id ? { ...s, ...updates } : s)),
+      });
+    },
+
+    removeServer: (id) => {
+      void disconnectMcpServer(id);
+      set({ servers: get().servers.filter((s) => s.id !== id) });
+    },
+  })),
+);
@@ -75,10 +75,16 @@ export async function flushAllWrites(): Promise<void> {
   await Promise.all(writePromises.values());
 }
 
+export interface PersistOptions<T> {
+  /** The part of the state written to disk; defaults to all of it */
+  partialize?: (state: T) => Partial<T>;
+}
+
 /** Create a persisted store middleware */
 export function withPersist<T extends object>(
   key: string,
   creator: StateCreator<T>,
+  options: PersistOptions<T> = {},
 ): StateCreator<T> {
   return (set, get, api) => {
     const wrappedSet = ((partial: unknown, replace?: boolean) => {
@@ -89,7 +95,8 @@ export function withPersist<T extends object>(
           partial as T | Partial<T> | ((state: T) => T | Partial<T>),
         );
       }
-      debouncedSave(key, (api as StoreApi<T>).getState());
+      const current = (api as StoreApi<T>).getState();
+      debouncedSave(key, options.partialize ? options.partialize(current) : current);
     }) as typeof set;
     const state = creator(wrappedSet, get, api);
     // Load persisted state on creation
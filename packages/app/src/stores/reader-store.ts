@@ -15,12 +15,36 @@ export interface ReaderTab {
   searchResults: string[];
   selectedText: string;
   selectionCfi: string | null;
+  /** Bilingual mode: translations shown beneath each paragraph */
+  parallelText: boolean;
+}
+
+/** A passage found in the open book */
+export interface ReaderTextMatch {
+  cfi: string;
+  excerpt: string;
+  chapterTitle?: string;
+}
+
+/**
+ * Imperative access to an open book, registered by its ReaderView so that
+ * code outside the reader (agent tools) can locate text and navigate.
+ */
+export interface ReaderBridge {
+  /** Find a passage in the current chapter or the whole book */
+  findText: (text: string, scope: "chapter" | "book") => Promise<ReaderTextMatch[]>;
+  goTo: (target: string) => Promise<void>;
+  goToFraction: (fraction: number) => Promise<void>;
+  /** Table of contents, flattened in reading order */
+  getChapters: () => Array<{ title: string; href: string }>;
+  getLocation: () => { cfi: string; chapterTitle?: string; fraction?: number } | null;
 }
 
 export interface ReaderState {
   tabs: Record<string, ReaderTab>; // keyed by tab id
   tocItems: TOCItem[];
   goToChapterFn: ((index: number) => void) | null;
+  readerBridges: Record<string, ReaderBridge>; // keyed by book id
 
   // Actions
   initTab: (tabId: string, bookId: string) => void;
@@ -30,14 +54,17 @@ export interface ReaderState {
   setSelectedText: (tabId: string, text: string, cfi: string | null) => void;
   setSearchQuery: (tabId: string, query: string) => void;
   setSearchResults: (tabId: string, results: string[]) => void;
+  toggleParallelText: (tabId: string) => void;
   setTocItems: (items: TOCItem[]) => void;
   setGoToChapterFn: (fn: ((index: number) => void) | null) => void;
+  setReaderBridge: (bookId: string, bridge: ReaderBridge | null) => void;
 }
 
 export const useReaderStore = create<ReaderState>((set) => ({
   tabs: {},
   tocItems: [],
   goToChapterFn: null,
+  readerBridges: {},
 
   initTab: (tabId, bookId) =>
     set((state) => ({
@@ -54,6 +81,7 @@ export const useReaderStore = create<ReaderState>((set) => ({
           searchResults: [],
           selectedText: "",
           selectionCfi: null,
+          parallelText: false,
         },
       },
     })),
@@ -115,7 +143,25 @@ export const useReaderStore = create<ReaderState>((set) => ({
       },
     })),
 
+  toggleParallelText: (tabId) =>
+    set((state) => ({
+      tabs: {
+        ...state.tabs,
+        [tabId]: state.tabs[tabId]
+          ? { ...state.tabs[tabId], parallelText: !state.tabs[tabId].parallelText }
+          : state.tabs[tabId],
+      },
+    })),
+
   setTocItems: (items) => set({ tocItems: items }),
 
   setGoToChapterFn: (fn) => set({ goToChapterFn: fn }),
+
+  setReaderBridge: (bookId, bridge) =>
+    set((state) => {
+      if (bridge) return { readerBridges: { ...state.readerBridges, [bookId]: bridge } };
+      const { [bookId]: _, ...rest } = state.readerBridges;
+      void _;
+      return { readerBridges: rest };
+    }),
 }));
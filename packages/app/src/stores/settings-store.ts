@@ -1,6 +1,9 @@
+import { DEFAULT_HISTORY_TOKEN_BUDGET } from "@/lib/ai/context-window";
+import { fetchLocalModels, probeModelCapabilities, requiresApiKey } from "@/lib/ai/local-models";
 import type {
   AIConfig,
   AIEndpoint,
+  ModelCapabilities,
   ReadSettings,
 } from "@/types";
 import type { TranslationConfig, TranslationTargetLang } from "@/types/translation";
@@ -18,7 +21,7 @@ export interface SettingsState {
   // Actions
   updateReadSettings: (updates: Partial<ReadSettings>) => void;
   updateTranslationConfig: (updates: Partial<TranslationConfig>) => void;
-  updateAIConfig: (updates: Partial<Pick<AIConfig, "temperature" | "maxTokens" | "slidingWindowSize">>) => void;
+  updateAIConfig: (updates: Partial<Pick<AIConfig, "temperature" | "maxTokens" | "historyTokenBudget">>) => void;
 
   // Endpoint management
   addEndpoint: (endpoint: AIEndpoint) => void;
@@ -30,6 +33,8 @@ export interface SettingsState {
   // Helpers
   getActiveEndpoint: () => AIEndpoint | undefined;
   fetchModels: (endpointId: string) => Promise<string[]>;
+  /** Probe and remember a local model's capabilities */
+  probeModel: (endpointId: string, model: string) => Promise<ModelCapabilities | null>;
 
   setTranslationLang: (lang: TranslationTargetLang) => void;
   resetToDefaults: () => void;
@@ -65,17 +70,19 @@ const defaultAIConfig: AIConfig = {
   activeModel: "",
   temperature: 0.7,
   maxTokens: 4096,
-  slidingWindowSize: 8,
+  historyTokenBudget: DEFAULT_HISTORY_TOKEN_BUDGET,
 };
 
 /**
  * Fetch available models from an AI provider endpoint.
- * Supports OpenAI-compatible (/v1/models), Anthropic, and Google Gemini.
+ * Supports OpenAI-compatible (/v1/models), Anthropic, Google Gemini and local servers.
  */
 async function fetchModelsFromEndpoint(endpoint: AIEndpoint): Promise<string[]> {
-  if (!endpoint.apiKey) return [];
+  if (requiresApiKey(endpoint.provider) && !endpoint.apiKey) return [];
 
   switch (endpoint.provider) {
+    case "local":
+      return fetchLocalModels(endpoint);
     case "anthropic":
       return fetchAnthropicModels(endpoint);
     case "google":
@@ -288,6 +295,14 @@ export const useSettingsStore = create<SettingsState>()(
           ),
         },
       }));
+      if (endpoint.provider === "local") {
+        // Probe new models one at a time in the background — a probe may load the model
+        (async () => {
+          for (const model of models) {
+            if (!endpoint.modelCapabilities?.[model]) await get().probeModel(endpointId, model);
+          }
+        })();
+      }
       return models;
     } catch (err) {
       console.error("Failed to fetch models:", err);
@@ -303,6 +318,31 @@ export const useSettingsStore = create<SettingsState>()(
     }
   },
 
+  probeModel: async (endpointId, model) => {
+    const endpoint = get().aiConfig.endpoints.find((ep) => ep.id === endpointId);
+    if (!endpoint || endpoint.provider !== "local") return null;
+    try {
+      const capabilities = await probeModelCapabilities(endpoint, model);
+      set((s) => ({
+        aiConfig: {
+          ...s.aiConfig,
+          endpoints: s.aiConfig.endpoints.map((ep) =>
+            ep.id === endpointId
+              ? {
+                  ...ep,
+                  modelCapabilities: { ...ep.modelCapabilities, [model]: capabilities },
+                }
+              : ep,
+          ),
+        },
+      }));
+      return capabilities;
+    } catch (err) {
+      console.error("Failed to probe model capabilities:", err);
+      return null;
+    }
+  },
+
   setTranslationLang: (lang) =>
     set((state) => ({
       translationConfig: { ...state.translationConfig, targetLang: lang },
@@ -0,0 +1,157 @@
+/**
+ * Sync store — WebDAV sync settings and status, wraps the sync manager.
+ *
+ * The WebDAV password is not persisted with the other settings: it lives in
+ * its own file under the app's local data directory, outside `readany-store/`,
+ * so it is neither written next to the settings nor copied into backups.
+ */
+import { eventBus } from "@/lib/event-bus";
+import { type SyncManager, type SyncStatus, createSyncManager } from "@/lib/sync/sync-manager";
+import { WebDAVClient } from "@/lib/sync/webdav-client";
+import { create } from "zustand";
+import { useLibraryStore } from "./library-store";
+import { withPersist } from "./persist";
+
+export interface SyncConfig {
+  enabled: boolean;
+  url: string;
+  username: string;
+  password: string;
+  remoteDir: string;
+  /** Auto-sync interval in minutes; 0 disables auto-sync */
+  autoSyncMinutes: number;
+}
+
+export interface SyncStoreState {
+  config: SyncConfig;
+  /** Stable id of this installation */
+  deviceId: string;
+  status: SyncStatus;
+  lastSyncAt: number | null;
+  error: string | null;
+
+  // Actions
+  updateConfig: (updates: Partial<SyncConfig>) => void;
+  syncNow: () => Promise<void>;
+  testConnection: () => Promise<void>;
+}
+
+const defaultSyncConfig: SyncConfig = {
+  enabled: false,
+  url: "",
+  username: "",
+  password: "",
+  remoteDir: "readany",
+  autoSyncMinutes: 15,
+};
+
+const CREDENTIALS_DIR = "credentials";
+const PASSWORD_FILE = `${CREDENTIALS_DIR}/webdav.json`;
+
+async function loadPassword(): Promise<string | null> {
+  try {
+    const { readTextFile, BaseDirectory } = await import("@tauri-apps/plugin-fs");
+    const text = await readTextFile(PASSWORD_FILE, { baseDir: BaseDirectory.AppLocalData });
+    return (JSON.parse(text) as { password: string }).password;
+  } catch {
+    // Not saved yet
+    return null;
+  }
+}
+
+async function savePassword(password: string): Promise<void> {
+  try {
+    const { writeTextFile, mkdir, BaseDirectory } = await import("@tauri-apps/plugin-fs");
+    await mkdir(CREDENTIALS_DIR, { baseDir: BaseDirectory.AppLocalData, recursive: true });
+    await writeTextFile(PASSWORD_FILE, JSON.stringify({ password }), {
+      baseDir: BaseDirectory.AppLocalData,
+    });
+  } catch (err) {
+    console.error("Failed to save the WebDAV password:", err);
+  }
+}
+
+let manager: SyncManager | null = null;
+
+function getManager(): SyncManager {
+  if (!manager) {
+    manager = createSyncManager({
+      deviceId: useSyncStore.getState().deviceId,
+      getConfig: () => {
+        const { config } = useSyncStore.getState();
+        return config.enabled && config.url ? config : null;
+      },
+    });
+  }
+  return manager;
+}
+
+/** Start or stop the auto-sync timer to match the current config */
+function applyAutoSync(config: SyncConfig) {
+  const m = getManager();
+  if (config.enabled && config.url && config.autoSyncMinutes > 0) {
+    m.enableAutoSync(config.autoSyncMinutes * 60 * 1000);
+  } else {
+    m.disableAutoSync();
+  }
+}
+
+export const useSyncStore = create<SyncStoreState>()(
+  withPersist(
+    "sync",
+    (set, get, _api) => ({
+      config: defaultSyncConfig,
+      deviceId: crypto.randomUUID(),
+      status: "idle",
+      lastSyncAt: null,
+      error: null,
+
+      updateConfig: (updates) => {
+        set((state) => ({ config: { ...state.config, ...updates } }));
+        if (updates.password !== undefined) void savePassword(updates.password);
+        applyAutoSync(get().config);
+      },
+
+      syncNow: async () => {
+        await getManager().sync();
+      },
+
+      testConnection: async () => {
+        const { config } = get();
+        await new WebDAVClient(config).testConnection();
+      },
+    }),
+    {
+      partialize: (state) => ({ ...state, config: { ...state.config, password: "" } }),
+    },
+  ),
+);
+
+// Mirror sync manager lifecycle into the store
+eventBus.on("sync:started", () => useSyncStore.setState({ status: "syncing", error: null }));
+eventBus.on("sync:completed", ({ timestamp }) => {
+  useSyncStore.setState({ status: "idle", lastSyncAt: timestamp });
+  // Pulled rows may have changed book progress/metadata
+  useLibraryStore.getState().loadBooks();
+});
+eventBus.on("sync:error", ({ error }) =>
+  useSyncStore.setState({ status: "error", error: error.message }),
+);
+eventBus.on("sync:offline", () => useSyncStore.setState({ status: "offline", error: null }));
+
+// After rehydration, reset transient status, restore the password and start auto-sync
+setTimeout(async () => {
+  const state = useSyncStore.getState();
+  if (state.status === "syncing") {
+    useSyncStore.setState({ status: "idle" });
+  }
+  const password = await loadPassword();
+  if (password !== null) {
+    useSyncStore.setState({ config: { ...useSyncStore.getState().config, password } });
+  } else if (state.config.password) {
+    // Settings written before the password moved out still carry it: move it over
+    await savePassword(state.config.password);
+    useSyncStore.getState().updateConfig({});
+  }
+  applyAutoSync(useSyncStore.getState().config);
+}, 1000);
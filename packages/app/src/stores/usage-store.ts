@@ -0,0 +1,79 @@
+/**
+ * Usage store — the user's tier and the daily / monthly quota limits that
+ * cap AI spend on shared API keys. Usage itself lives in the SQLite usage
+ * ledger; lib/usage/quota measures it against these limits.
+ */
+import type { Quota, QuotaType, UserProfile, UserTier } from "@/types";
+import { create } from "zustand";
+import { withPersist } from "./persist";
+
+type QuotaLimit = Pick<Quota, "type" | "period" | "limit">;
+
+/**
+ * Limits each tier starts with; 0 means unlimited. AI messages count model
+ * requests, translation counts tokens in and out, vectorize counts tokens embedded.
+ */
+export const TIER_QUOTAS: Record<UserTier, QuotaLimit[]> = {
+  free: [
+    { type: "ai_messages", period: "daily", limit: 100 },
+    { type: "ai_messages", period: "monthly", limit: 2_000 },
+    { type: "translation", period: "daily", limit: 200_000 },
+    { type: "translation", period: "monthly", limit: 2_000_000 },
+    { type: "vectorize", period: "daily", limit: 500_000 },
+    { type: "vectorize", period: "monthly", limit: 5_000_000 },
+  ],
+  pro: [
+    { type: "ai_messages", period: "daily", limit: 1_000 },
+    { type: "ai_messages", period: "monthly", limit: 20_000 },
+    { type: "translation", period: "daily", limit: 2_000_000 },
+    { type: "translation", period: "monthly", limit: 20_000_000 },
+    { type: "vectorize", period: "daily", limit: 5_000_000 },
+    { type: "vectorize", period: "monthly", limit: 50_000_000 },
+  ],
+  premium: [
+    { type: "ai_messages", period: "daily", limit: 0 },
+    { type: "ai_messages", period: "monthly", limit: 0 },
+    { type: "translation", period: "daily", limit: 0 },
+    { type: "translation", period: "monthly", limit: 0 },
+    { type: "vectorize", period: "daily", limit: 0 },
+    { type: "vectorize", period: "monthly", limit: 0 },
+  ],
+};
+
+/** `used` and `resetAt` are measured from the ledger when needed, not stored */
+function quotasForTier(tier: UserTier): Quota[] {
+  return TIER_QUOTAS[tier].map((q) => ({ ...q, used: 0, resetAt: 0 }));
+}
+
+export interface UsageState {
+  profile: UserProfile;
+
+  /** Switch tier and reset every limit to the tier's defaults */
+  setTier: (tier: UserTier) => void;
+  setQuotaLimit: (type: QuotaType, period: Quota["period"], limit: number) => void;
+}
+
+export const useUsageStore = create<UsageState>()(
+  withPersist("usage", (set, get, _api) => ({
+    // Unlimited until the user sets limits, so upgrading never blocks anyone
+    profile: {
+      id: crypto.randomUUID(),
+      tier: "premium",
+      quotas: quotasForTier("premium"),
+      createdAt: Date.now(),
+    },
+
+    setTier: (tier) => set({ profile: { ...get().profile, tier, quotas: quotasForTier(tier) } }),
+
+    setQuotaLimit: (type, period, limit) => {
+      const { profile } = get();
+      const exists = profile.quotas.some((q) => q.type === type && q.period === period);
+      const quotas = exists
+        ? profile.quotas.map((q) =>
+            q.type === type && q.period === period ? { ...q, limit: Math.max(0, limit) } : q,
+          )
+        : [...profile.quotas, { type, period, limit: Math.max(0, limit), used: 0, resetAt: 0 }];
+      set({ profile: { ...profile, quotas } });
+    },
+  })),
+);
@@ -0,0 +1,107 @@
+/**
+ * Vault export store — Obsidian vault settings and export status.
+ * Auto-export re-exports a book shortly after its annotations change.
+ */
+import { getBooks } from "@/lib/db/database";
+import { eventBus } from "@/lib/event-bus";
+import { type VaultExportResult, exportBookToVault } from "@/lib/export/obsidian-vault";
+import { create } from "zustand";
+import { withPersist } from "./persist";
+
+export interface VaultExportConfig {
+  /** Absolute path of the Obsidian vault; empty when not configured */
+  vaultPath: string;
+  /** Folder inside the vault for book files */
+  folder: string;
+  /** Re-export a book whenever one of its annotations is added or removed */
+  autoExport: boolean;
+}
+
+export interface VaultExportState {
+  config: VaultExportConfig;
+  exporting: boolean;
+  lastExportAt: number | null;
+  error: string | null;
+
+  // Actions
+  updateConfig: (updates: Partial<VaultExportConfig>) => void;
+  exportBook: (bookId: string) => Promise<VaultExportResult>;
+  exportAllBooks: () => Promise<VaultExportResult[]>;
+}
+
+const defaultVaultConfig: VaultExportConfig = {
+  vaultPath: "",
+  folder: "ReadAny",
+  autoExport: false,
+};
+
+/** Wait after the last annotation change before exporting, so bursts write once */
+const AUTO_EXPORT_DELAY = 2000;
+
+export const useVaultExportStore = create<VaultExportState>()(
+  withPersist("vault-export", (set, get) => {
+    const run = async <T>(task: () => Promise<T>): Promise<T> => {
+      const { vaultPath } = get().config;
+      if (!vaultPath) throw new Error("No Obsidian vault configured");
+      set({ exporting: true, error: null });
+      try {
+        const result = await task();
+        set({ lastExportAt: Date.now() });
+        return result;
+      } catch (err) {
+        set({ error: (err as Error).message });
+        throw err;
+      } finally {
+        set({ exporting: false });
+      }
+    };
+
+    return {
+      config: defaultVaultConfig,
+      exporting: false,
+      lastExportAt: null,
+      error: null,
+
+      updateConfig: (updates) => set((state) => ({ config: { ...state.config, ...updates } })),
+
+      exportBook: (bookId) => run(() => exportBookToVault(bookId, get().config)),
+
+      exportAllBooks: () =>
+        run(async () => {
+          const results: VaultExportResult[] = [];
+          for (const book of await getBooks()) {
+            results.push(await exportBookToVault(book.id, get().config));
+          }
+          return results;
+        }),
+    };
+  }),
+);
+
+const pendingExports = new Map<string, ReturnType<typeof setTimeout>>();
+
+function scheduleAutoExport(bookId: string | undefined) {
+  const { config } = useVaultExportStore.getState();
+  if (!bookId || !config.autoExport || !config.vaultPath) return;
+  clearTimeout(pendingExports.get(bookId));
+  pendingExports.set(
+    bookId,
+    setTimeout(() => {
+      pendingExports.delete(bookId);
+      useVaultExportStore
+        .getState()
+        .exportBook(bookId)
+        .catch((err) => console.error("[VaultExport] Auto-export failed:", err));
+    }, AUTO_EXPORT_DELAY),
+  );
+}
+
+eventBus.on("annotation:added", ({ bookId, type }) => {
+  if (type !== "bookmark") scheduleAutoExport(bookId);
+});
+eventBus.on("annotation:removed", ({ bookId, type }) => {
+  if (type !== "bookmark") scheduleAutoExport(bookId);
+});
+
+// Reset transient status after rehydration
+setTimeout(() => useVaultExportStore.setState({ exporting: false }), 1000);
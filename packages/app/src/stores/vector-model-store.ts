@@ -4,7 +4,7 @@
  * - Remote API endpoints (OpenAI-compatible, Ollama, etc.)
  * - Built-in local models via Transformers.js (downloaded & cached automatically)
  */
-import type { VectorModelConfig } from "@/types";
+import type { RetrievalConfig, VectorModelConfig } from "@/types";
 import { create } from "zustand";
 import { withPersist } from "./persist";
 
@@ -31,6 +31,8 @@ export interface VectorModelState {
   selectedBuiltinModelId: string | null;
   /** Status of each built-in model keyed by model id */
   builtinModelStates: Record<string, BuiltinModelState>;
+  /** Fusion and reranking settings for hybrid search */
+  retrievalConfig: RetrievalConfig;
 
   // Actions — general
   setVectorModelEnabled: (enabled: boolean) => void;
@@ -47,6 +49,9 @@ export interface VectorModelState {
   setSelectedBuiltinModelId: (id: string | null) => void;
   updateBuiltinModelState: (id: string, state: Partial<BuiltinModelState>) => void;
 
+  // Actions — retrieval
+  updateRetrievalConfig: (updates: Partial<RetrievalConfig>) => void;
+
   // Computed
   hasVectorCapability: () => boolean;
 }
@@ -67,6 +72,14 @@ function sanitizeBuiltinStates(
   return result;
 }
 
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+  fusion: "rrf",
+  hybridAlpha: 0.7,
+  rerank: "none",
+  rerankCandidates: 20,
+  crossEncoderModelId: "ms-marco-MiniLM-L-6-v2",
+};
+
 export const useVectorModelStore = create<VectorModelState>()(
   withPersist("vector-model", (set, get, _api) => ({
   vectorModels: [],
@@ -75,6 +88,7 @@ export const useVectorModelStore = create<VectorModelState>()(
   vectorModelMode: "builtin",
   selectedBuiltinModelId: null,
   builtinModelStates: {},
+  retrievalConfig: DEFAULT_RETRIEVAL_CONFIG,
 
   setVectorModelEnabled: (vectorModelEnabled) => set({ vectorModelEnabled }),
   setVectorModelMode: (vectorModelMode) => set({ vectorModelMode }),
@@ -121,6 +135,10 @@ export const useVectorModelStore = create<VectorModelState>()(
       },
     })),
 
+  // --- Retrieval ---
+  updateRetrievalConfig: (updates) =>
+    set((s) => ({ retrievalConfig: { ...s.retrievalConfig, ...updates } })),
+
   // --- Computed ---
   hasVectorCapability: () => {
     const { vectorModelEnabled, vectorModelMode } = get();
@@ -0,0 +1,203 @@
+/**
+ * Vectorize queue store — persisted vectorization jobs and the scheduler that runs them.
+ *
+ * Jobs run up to `concurrency` at a time; the book open in the active reader
+ * tab is picked first, then higher `priority`, then oldest. Cancelling or
+ * pausing aborts the running `triggerVectorizeBook` calls through their
+ * AbortSignal; since vectorization is incremental, a paused job resumes after
+ * its last stored chapter.
+ */
+import { isAbortError, triggerVectorizeBook } from "@/lib/rag/vectorize-trigger";
+import type { Book, VectorizeJob } from "@/types";
+import { create } from "zustand";
+import { useAppStore } from "./app-store";
+import { useLibraryStore } from "./library-store";
+import { withPersist } from "./persist";
+
+export const MAX_VECTORIZE_CONCURRENCY = 4;
+
+/** Priority of jobs started from a book's menu; library-wide jobs use 0 */
+export const USER_JOB_PRIORITY = 1;
+
+export interface VectorizeQueueState {
+  jobs: VectorizeJob[];
+  concurrency: number;
+  /** When paused, running jobs are aborted back to pending and nothing new starts */
+  paused: boolean;
+
+  // Actions
+  enqueue: (book: Book, priority?: number) => void;
+  /** Queue every book that is not vectorized yet */
+  enqueueLibrary: () => void;
+  cancel: (jobId: string) => void;
+  retry: (jobId: string) => void;
+  clearFailed: () => void;
+  pause: () => void;
+  resume: () => void;
+  setConcurrency: (concurrency: number) => void;
+  /** Used by the scheduler; persisted like any other change */
+  updateJob: (jobId: string, updates: Partial<VectorizeJob>) => void;
+  removeJob: (jobId: string) => void;
+}
+
+/** Abort controllers of running jobs, by job id */
+const controllers = new Map<string, AbortController>();
+
+function getActiveReaderBookId(): string | null {
+  const { tabs, activeTabId } = useAppStore.getState();
+  const tab = tabs.find((t) => t.id === activeTabId);
+  return tab?.type === "reader" ? (tab.bookId ?? null) : null;
+}
+
+/** Pending jobs in the order they should start */
+function orderPendingJobs(jobs: VectorizeJob[]): VectorizeJob[] {
+  const activeBookId = getActiveReaderBookId();
+  const rank = (job: VectorizeJob) => (job.bookId === activeBookId ? 1 : 0);
+  return jobs
+    .filter((j) => j.status === "pending")
+    .sort((a, b) => rank(b) - rank(a) || b.priority - a.priority || a.createdAt - b.createdAt);
+}
+
+/** Start pending jobs until the concurrency limit is reached */
+function pump() {
+  const { jobs, concurrency, paused } = useVectorizeQueueStore.getState();
+  if (paused) return;
+  const free = concurrency - jobs.filter((j) => j.status === "running").length;
+  if (free <= 0) return;
+  for (const job of orderPendingJobs(jobs).slice(0, free)) {
+    void runJob(job);
+  }
+}
+
+async function runJob(job: VectorizeJob) {
+  const { updateJob, removeJob } = useVectorizeQueueStore.getState();
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  updateJob(job.id, { status: "running", error: undefined, attempts: job.attempts + 1 });
+
+  try {
+    await triggerVectorizeBook(
+      job.bookId,
+      job.filePath,
+      (progress) => updateJob(job.id, { progress: { ...progress } }),
+      controller.signal,
+    );
+    removeJob(job.id);
+  } catch (err) {
+    if (isAbortError(err)) {
+      // Cancelled jobs are already gone; paused ones wait for resume
+      updateJob(job.id, { status: "pending", progress: undefined });
+    } else {
+      const message = err instanceof Error ? err.message : String(err);
+      updateJob(job.id, { status: "failed", error: message, progress: undefined });
+    }
+  } finally {
+    controllers.delete(job.id);
+    pump();
+  }
+}
+
+export const useVectorizeQueueStore = create<VectorizeQueueState>()(
+  withPersist("vectorize-queue", (set, get, _api) => ({
+    jobs: [],
+    concurrency: 1,
+    paused: false,
+
+    enqueue: (book, priority = USER_JOB_PRIORITY) => {
+      const existing = get().jobs.find((j) => j.bookId === book.id);
+      if (existing) {
+        if (existing.status === "failed") get().retry(existing.id);
+        else if (existing.priority < priority) get().updateJob(existing.id, { priority });
+        pump();
+        return;
+      }
+      const job: VectorizeJob = {
+        id: crypto.randomUUID(),
+        bookId: book.id,
+        title: book.meta.title,
+        filePath: book.filePath,
+        status: "pending",
+        priority,
+        attempts: 0,
+        createdAt: Date.now(),
+      };
+      set((state) => ({ jobs: [...state.jobs, job] }));
+      pump();
+    },
+
+    enqueueLibrary: () => {
+      const queued = new Set(get().jobs.map((j) => j.bookId));
+      const now = Date.now();
+      const jobs: VectorizeJob[] = useLibraryStore
+        .getState()
+        .books.filter((b) => !b.isVectorized && !queued.has(b.id))
+        .map((book, i) => ({
+          id: crypto.randomUUID(),
+          bookId: book.id,
+          title: book.meta.title,
+          filePath: book.filePath,
+          status: "pending",
+          priority: 0,
+          attempts: 0,
+          // Keep library order among equal priorities
+          createdAt: now + i,
+        }));
+      if (jobs.length === 0) return;
+      set((state) => ({ jobs: [...state.jobs, ...jobs] }));
+      pump();
+    },
+
+    cancel: (jobId) => {
+      get().removeJob(jobId);
+      controllers.get(jobId)?.abort();
+    },
+
+    retry: (jobId) => {
+      get().updateJob(jobId, { status: "pending", error: undefined });
+      pump();
+    },
+
+    clearFailed: () => {
+      set((state) => ({ jobs: state.jobs.filter((j) => j.status !== "failed") }));
+    },
+
+    pause: () => {
+      set({ paused: true });
+      for (const controller of controllers.values()) controller.abort();
+    },
+
+    resume: () => {
+      set({ paused: false });
+      pump();
+    },
+
+    setConcurrency: (concurrency) => {
+      set({
+        concurrency: Math.min(Math.max(Math.round(concurrency), 1), MAX_VECTORIZE_CONCURRENCY),
+      });
+      pump();
+    },
+
+    updateJob: (jobId, updates) => {
+      set((state) => ({
+        jobs: state.jobs.map((j) => (j.id === jobId ? { ...j, ...updates } : j)),
+      }));
+    },
+
+    removeJob: (jobId) => {
+      set((state) => ({ jobs: state.jobs.filter((j) => j.id !== jobId) }));
+    },
+  })),
+);
+
+// After rehydration, jobs that were running when the app closed start over
+// (completed chapters are kept, so they resume rather than restart)
+setTimeout(() => {
+  const { jobs, updateJob } = useVectorizeQueueStore.getState();
+  for (const job of jobs) {
+    if (job.status === "running" && !controllers.has(job.id)) {
+      updateJob(job.id, { status: "pending", progress: undefined });
+    }
+  }
+  pump();
+}, 1000);
@@ -49,6 +49,7 @@ export interface Bookmark {
   label?: string;
   chapterTitle?: string;
   createdAt: number;
+  updatedAt?: number;
 }
 
 export type Annotation = Highlight | Note | Bookmark;
@@ -28,6 +28,7 @@ export interface Book {
   isVectorized: boolean;
   vectorizeProgress: number; // 0-1
   tags: string[];
+  updatedAt?: number;
 }
 
 export type ViewMode = "paginated" | "scroll";
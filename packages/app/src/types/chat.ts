@@ -46,6 +46,8 @@ export interface Message {
   toolCalls?: ToolCall[];
   reasoning?: ReasoningStep[];
   partsOrder?: PartsOrderEntry[];
+  /** Always sent to the model verbatim, even after older turns are summarized */
+  pinned?: boolean;
   createdAt: number;
 }
 
@@ -62,6 +64,12 @@ export interface Thread {
   bookId?: string;
   title: string;
   messages: Message[];
+  /** Run the agent's mutating tools (highlights, notes, …) without asking each time */
+  autoApproveActions?: boolean;
+  /** Rolling summary of the messages that no longer fit the model's context */
+  summary?: string;
+  /** Last message folded into `summary`; later messages are sent as they are */
+  summarizedThroughId?: string;
   createdAt: number;
   updatedAt: number;
 }
@@ -103,7 +111,18 @@ export interface SemanticContext {
   operationType: "reading" | "highlighting" | "searching" | "navigating";
 }
 
-export type AIProviderType = "openai" | "anthropic" | "google" | "deepseek";
+/** `local` covers self-hosted OpenAI-compatible servers (Ollama, llama.cpp, LM Studio) */
+export type AIProviderType = "openai" | "anthropic" | "google" | "deepseek" | "local";
+
+/** What a model supports, probed from a local server (hosted providers are assumed to support all) */
+export interface ModelCapabilities {
+  tools: boolean;
+  reasoning: boolean;
+  vision: boolean;
+  /** Context window the server runs the model with, when it reports one */
+  contextLength?: number;
+  probedAt: number;
+}
 
 export interface AIEndpoint {
   id: string;
@@ -114,6 +133,8 @@ export interface AIEndpoint {
   models: string[];
   modelsFetched: boolean;
   modelsFetching?: boolean;
+  /** Probed capabilities per model (local endpoints only) */
+  modelCapabilities?: Record<string, ModelCapabilities>;
 }
 
 export interface AIConfig {
@@ -122,7 +143,8 @@ export interface AIConfig {
   activeModel: string;
   temperature: number;
   maxTokens: number;
-  slidingWindowSize: number;
+  /** Most tokens of conversation history sent per request; smaller models get less */
+  historyTokenBudget: number;
 }
 
 export type AIModel = string;
@@ -0,0 +1,51 @@
+/** Flashcard and spaced-repetition types */
+
+/** "cloze" cards hide `{{c1::…}}` deletions in `front`; "basic" cards show `front`, then `back` */
+export type FlashcardKind = "cloze" | "basic";
+export type FlashcardSource = "highlight" | "vocabulary" | "manual";
+export type FlashcardState = "new" | "learning" | "review" | "relearning";
+export type SchedulerAlgorithm = "sm2" | "fsrs";
+
+/** Review grade, matching Anki's buttons: Again, Hard, Good, Easy */
+export type ReviewRating = 1 | 2 | 3 | 4;
+
+/** Scheduling state of a card; SM-2 uses `ease`, FSRS uses `stability` and `difficulty` */
+export interface CardSchedule {
+  state: FlashcardState;
+  due: number; // timestamp
+  interval: number; // days
+  ease: number; // SM-2 ease factor, 2.5 for new cards
+  stability: number; // FSRS memory stability, days
+  difficulty: number; // FSRS difficulty, 1-10
+  reps: number;
+  lapses: number;
+  lastReviewedAt?: number;
+}
+
+export interface Flashcard extends CardSchedule {
+  id: string;
+  bookId?: string;
+  highlightId?: string; // source highlight, when created from one
+  cfi?: string; // location in the book the card came from
+  chapterTitle?: string;
+  kind: FlashcardKind;
+  front: string;
+  back: string;
+  source: FlashcardSource;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface FlashcardReview {
+  id: string;
+  cardId: string;
+  rating: ReviewRating;
+  /** Card state before the review */
+  state: FlashcardState;
+  /** Interval (days) scheduled by the review */
+  interval: number;
+  /** Days since the previous review, 0 for the first one */
+  elapsedDays: number;
+  reviewedAt: number;
+}
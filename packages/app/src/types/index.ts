@@ -23,6 +23,7 @@ export type {
   AIModel,
   AIEndpoint,
   AIProviderType,
+  ModelCapabilities,
   VectorModelConfig,
 } from "./chat";
 export type {
@@ -49,18 +50,43 @@ export type {
   Chunk,
   SearchResult,
   SearchQuery,
+  LibrarySearchQuery,
+  LibrarySearchResult,
+  BM25Posting,
+  BM25BookStats,
+  SearchScores,
+  FusionMethod,
+  RerankMode,
+  RetrievalConfig,
   SearchMode,
   EmbeddingModel,
   VectorConfig,
   VectorizeProgress,
+  VectorizeJob,
+  VectorizeJobStatus,
 } from "./rag";
 export type { Skill, SkillParameter, SkillExecution } from "./skill";
+export type { McpServerConfig, McpToolInfo, McpTransportType } from "./mcp";
+export type {
+  Flashcard,
+  FlashcardKind,
+  FlashcardSource,
+  FlashcardState,
+  FlashcardReview,
+  CardSchedule,
+  ReviewRating,
+  SchedulerAlgorithm,
+} from "./flashcard";
 export type {
   UserTier,
   Quota,
   QuotaType,
   UserProfile,
+  UsageCategory,
+  UsageRecord,
   TranslationProvider,
   TranslationTargetLang,
   TranslationConfig,
+  ParagraphTranslation,
+  TranslationMemoryEntry,
 } from "./user";
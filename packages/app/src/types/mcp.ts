@@ -0,0 +1,28 @@
+/** Model Context Protocol (MCP) server configuration */
+
+export type McpTransportType = "stdio" | "http";
+
+/** A tool as reported by a server's tools/list */
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+}
+
+export interface McpServerConfig {
+  id: string;
+  name: string;
+  transport: McpTransportType;
+  /** stdio: executable to launch, its arguments and extra environment variables */
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** http: Streamable HTTP endpoint and extra request headers (e.g. Authorization) */
+  url?: string;
+  headers?: Record<string, string>;
+  enabled: boolean;
+  /** Tools the reading agent may call — anything not listed stays hidden */
+  allowedTools: string[];
+  /** Tools the server reported the last time it was connected */
+  discoveredTools?: McpToolInfo[];
+  createdAt: number;
+}
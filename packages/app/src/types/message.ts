@@ -33,6 +33,8 @@ export interface ToolCallPart extends BasePart {
   result?: unknown;
   error?: string;
   reasoning?: string;
+  /** Mutating tools wait for the user to confirm or deny the call */
+  approval?: "pending" | "approved" | "denied";
 }
 
 export interface CitationPart extends BasePart {
@@ -66,6 +68,7 @@ export interface MessageV2 {
   threadId: string;
   role: "user" | "assistant" | "system";
   parts: Part[];
+  pinned?: boolean;
   createdAt: number;
   updatedAt?: number;
 }
@@ -10,6 +10,26 @@ export interface Chunk {
   startCfi: string;
   endCfi: string;
   embedding?: number[];
+  chapterHash?: string; // hash of the source chapter text + chunker settings
+  modelId?: string; // embedding model that produced `embedding`
+  embeddingDim?: number;
+}
+
+/** One entry of the BM25 inverted index: a term occurring in a chunk */
+export interface BM25Posting {
+  term: string;
+  chunkId: string;
+  tf: number; // occurrences of the term in the chunk
+  docLength: number; // token count of the chunk
+}
+
+/** Per-book corpus statistics for BM25 scoring */
+export interface BM25BookStats {
+  bookId: string;
+  docCount: number;
+  avgDocLength: number;
+  tokenizer: string; // id of the tokenizer the postings were built with
+  updatedAt: number;
 }
 
 export interface SearchResult {
@@ -17,6 +37,29 @@ export interface SearchResult {
   score: number;
   matchType: "vector" | "bm25" | "hybrid";
   highlights?: string[]; // matched text segments
+  scores?: SearchScores;
+}
+
+/** Per-stage scores of a result, for tuning retrieval quality */
+export interface SearchScores {
+  vector?: number; // cosine similarity
+  bm25?: number;
+  fusion?: number; // after RRF / weighted fusion, before reranking
+  rerank?: number; // reranker relevance, 0-1
+}
+
+/** How hybrid search merges the vector and BM25 lists */
+export type FusionMethod = "rrf" | "weighted";
+
+/** Optional second pass over the fused candidates */
+export type RerankMode = "none" | "cross-encoder" | "llm";
+
+export interface RetrievalConfig {
+  fusion: FusionMethod;
+  hybridAlpha: number; // vector weight for weighted fusion, 0-1
+  rerank: RerankMode;
+  rerankCandidates: number; // fused results passed to the reranker
+  crossEncoderModelId: string; // from BUILTIN_RERANKER_MODELS
 }
 
 export type SearchMode = "hybrid" | "vector" | "bm25";
@@ -27,6 +70,17 @@ export interface SearchQuery {
   mode: SearchMode;
   topK: number;
   threshold: number;
+  retrieval?: Partial<RetrievalConfig>; // overrides the configured retrieval settings
+}
+
+/** Search across every vectorized book (or a subset) instead of a single one */
+export interface LibrarySearchQuery extends Omit<SearchQuery, "bookId"> {
+  bookIds?: string[]; // restrict to these books; default: all vectorized books
+}
+
+export interface LibrarySearchResult extends SearchResult {
+  bookTitle: string;
+  bookAuthor: string;
 }
 
 export interface EmbeddingModel {
@@ -42,7 +96,6 @@ export interface VectorConfig {
   chunkSize: number; // default 300 tokens
   chunkMinSize: number; // default 50 tokens
   chunkOverlap: number; // default 0.2 (20%)
-  hybridAlpha: number; // vector weight, 0-1, default 0.7
 }
 
 export interface VectorizeProgress {
@@ -52,3 +105,20 @@ export interface VectorizeProgress {
   status: "idle" | "chunking" | "embedding" | "indexing" | "completed" | "error";
   error?: string;
 }
+
+export type VectorizeJobStatus = "pending" | "running" | "failed";
+
+/** A book waiting in (or failed out of) the vectorization queue */
+export interface VectorizeJob {
+  id: string;
+  bookId: string;
+  title: string;
+  filePath: string;
+  status: VectorizeJobStatus;
+  /** Higher runs first; the book open in the active reader tab always goes first */
+  priority: number;
+  progress?: VectorizeProgress;
+  error?: string;
+  attempts: number;
+  createdAt: number;
+}
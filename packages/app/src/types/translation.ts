@@ -2,7 +2,15 @@
  * Translation Types
  */
 
-export type TranslatorName = "ai" | "deepl";
+/** Id of a translator in the provider registry (lib/translation/registry.ts) */
+export type TranslatorName =
+  | "ai"
+  | "deepl"
+  | "google"
+  | "microsoft"
+  | "libretranslate"
+  | "ollama"
+  | (string & {});
 
 export interface TranslationProvider {
   id: TranslatorName;
@@ -13,6 +21,9 @@ export interface TranslationProvider {
   endpointId?: string; // For AI translation, which endpoint to use
 }
 
+/** Values of a translator's config form, keyed by schema field */
+export type TranslatorSettings = Record<string, string>;
+
 export type TranslationTargetLang =
   | "zh-CN"
   | "zh-TW"
@@ -37,12 +48,41 @@ export type TranslationTargetLang =
 export interface TranslationConfig {
   provider: TranslationProvider;
   targetLang: TranslationTargetLang;
+  /** Per-translator config form values, kept when switching providers */
+  providerSettings?: Partial<Record<TranslatorName, TranslatorSettings>>;
+  /** Glossary entries, one "term = translation" per line; used by translators that support it */
+  glossary?: string;
+  /** Size cap of the translation memory in MB; least recently used entries are evicted beyond it */
+  memoryLimitMB?: number;
+}
+
+/** Cached translation of one paragraph, for the parallel-text reading mode */
+export interface ParagraphTranslation {
+  bookId: string;
+  sectionIndex: number;
+  /** Position among the section's translatable paragraphs */
+  paragraphIndex: number;
+  targetLang: string;
+  provider: TranslatorName;
+  /** Hash of the source text; a mismatch means the cached entry is stale */
+  sourceHash: string;
+  translation: string;
+  createdAt: number;
 }
 
-export const TRANSLATOR_PROVIDERS: Array<{ id: TranslatorName; name: string }> = [
-  { id: "ai", name: "AI 翻译" },
-  { id: "deepl", name: "DeepL" },
-];
+/** One translation memory entry: a full source text and its translation */
+export interface TranslationMemoryEntry {
+  id?: number;
+  sourceText: string;
+  sourceLang: string;
+  targetLang: string;
+  provider: TranslatorName;
+  /** Book the text came from; empty when not tied to a book */
+  bookId: string;
+  translation: string;
+  createdAt: number;
+  lastUsedAt: number;
+}
 
 export const TRANSLATOR_LANGS: Record<TranslationTargetLang, string> = {
   "zh-CN": "简体中文",
@@ -1,4 +1,4 @@
-/** User tier and quota types */
+/** User tier, quota and usage ledger types */
 
 export type UserTier = "free" | "pro" | "premium";
 
@@ -19,5 +19,35 @@ export interface UserProfile {
   createdAt: number;
 }
 
+/**
+ * What a metered AI request was made for. "background" covers model calls the
+ * app makes on the user's behalf: conversation summaries, LLM reranking and
+ * reading-report chapter summaries.
+ */
+export type UsageCategory = "chat" | "skill" | "background" | "translation" | "embedding";
+
+/** One metered AI request in the usage ledger */
+export interface UsageRecord {
+  id?: number;
+  category: UsageCategory;
+  /** Name of the AI endpoint or vector model the request went to */
+  endpoint: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated cost in USD; null when the model's price is unknown */
+  cost: number | null;
+  /** The API didn't report token counts, so they were estimated from the text */
+  estimated: boolean;
+  createdAt: number;
+}
+
 // Translation types moved to types/translation.ts
-export type { TranslationConfig, TranslationProvider, TranslationTargetLang, TranslatorName } from "./translation";
\ No newline at end of file
+export type {
+  ParagraphTranslation,
+  TranslationConfig,
+  TranslationProvider,
+  TranslationTargetLang,
+  TranslationMemoryEntry,
+  TranslatorName,
+} from "./translation";
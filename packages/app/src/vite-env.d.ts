@@ -11,5 +11,7 @@ declare module "foliate-js/epubcfi.js";
 declare module "foliate-js/paginator.js";
 declare module "foliate-js/overlayer.js";
 declare module "foliate-js/progress.js";
+declare module "foliate-js/search.js";
+declare module "foliate-js/text-walker.js";
 declare module "foliate-js/vendor/fflate.js";
 declare module "foliate-js/vendor/zip.js";
@@ -281,6 +281,12 @@ const nodeToParts = (node, offset, filter) => {
         .filter(x => x.index !== -1)
 }
 
+// node filter that leaves out elements injected by the reader (e.g. inline
+// translations) and marked with the `cfi-inert` attribute, so that CFIs
+// are the same with or without them
+export const inertFilter = node => node.nodeType === 1 && node.hasAttribute('cfi-inert')
+    ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT
+
 export const fromRange = (range, filter) => {
     const { startContainer, startOffset, endContainer, endOffset } = range
     const start = nodeToParts(startContainer, startOffset, filter)
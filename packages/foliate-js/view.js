@@ -476,14 +476,14 @@ export class View extends HTMLElement {
   getCFI(index, range) {
     const baseCFI = this.book.sections[index].cfi ?? CFI.fake.fromIndex(index);
     if (!range) return baseCFI;
-    return CFI.joinIndir(baseCFI, CFI.fromRange(range));
+    return CFI.joinIndir(baseCFI, CFI.fromRange(range, CFI.inertFilter));
   }
   resolveCFI(cfi) {
     if (this.book.resolveCFI) return this.book.resolveCFI(cfi);
 
     const parts = CFI.parse(cfi);
     const index = CFI.fake.toIndex((parts.parent ?? parts).shift());
-    const anchor = (doc) => CFI.toRange(doc, parts);
+    const anchor = (doc) => CFI.toRange(doc, parts, CFI.inertFilter);
     return { index, anchor };
   }
   resolveNavigation(target) {